@@ -26,15 +26,19 @@ export class CommandEnumType extends Enum<Command> {
     public BID_CANCEL: Command      = new Command('bidcancel', 'cancel', false);
     public BID_REJECT: Command      = new Command('bidreject', 'reject', false);
     public BID_SEND: Command        = new Command('bidsend', 'send', false);
+    public BID_COUNTER: Command     = new Command('bidcounter', 'counter', false);
+    public BID_HISTORY: Command     = new Command('bidhistory', 'history', false);
     public BID_ROOT: Command        = new Command('bid', 'bid', true,
-        [this.BID_SEARCH, this.BID_ACCEPT, this.BID_CANCEL, this.BID_REJECT, this.BID_SEND], EnvironmentType.ALL);
+        [this.BID_SEARCH, this.BID_ACCEPT, this.BID_CANCEL, this.BID_REJECT, this.BID_SEND, this.BID_COUNTER, this.BID_HISTORY],
+        EnvironmentType.ALL);
 
     public ITEM_SEARCH: Command         = new Command('itemsearch', 'search', false);
     public ITEM_GET: Command            = new Command('itemget', 'get', false);
     public ITEM_POST_UPDATE: Command    = new Command('itempostupdate', 'update', false);
     public ITEM_FLAG: Command           = new Command('itemflag', 'flag', false);
+    public ITEM_CANCEL: Command         = new Command('itemcancel', 'cancel', false);
     public ITEM_ROOT: Command           = new Command('item', 'item', true,
-        [this.ITEM_SEARCH, this.ITEM_GET, this.ITEM_POST_UPDATE, this.ITEM_FLAG], EnvironmentType.ALL);
+        [this.ITEM_SEARCH, this.ITEM_GET, this.ITEM_POST_UPDATE, this.ITEM_FLAG, this.ITEM_CANCEL], EnvironmentType.ALL);
 
     public ESCROW_ADD: Command      = new Command('escrowadd', 'add', false);
     public ESCROW_UPDATE: Command   = new Command('escrowupdate', 'update', false);
@@ -42,8 +46,13 @@ export class CommandEnumType extends Enum<Command> {
     public ESCROW_LOCK: Command     = new Command('escrowlock', 'lock', false);
     public ESCROW_REFUND: Command   = new Command('escrowrefund', 'refund', false);
     public ESCROW_RELEASE: Command  = new Command('escrowrelease', 'release', false);
+    public ESCROW_DISPUTE: Command  = new Command('escrowdispute', 'dispute', false);
+    public ESCROW_ARBITRATE: Command = new Command('escrowarbitrate', 'arbitrate', false);
+    public ESCROW_TX: Command       = new Command('escrowtx', 'tx', false);
+    public ESCROW_RECOVER: Command  = new Command('escrowrecover', 'recover', false);
     public ESCROW_ROOT: Command     = new Command('escrow', 'escrow', true,
-        [this.ESCROW_ADD, this.ESCROW_UPDATE, this.ESCROW_REMOVE, this.ESCROW_LOCK, this.ESCROW_REFUND, this.ESCROW_RELEASE], EnvironmentType.ALL);
+        [this.ESCROW_ADD, this.ESCROW_UPDATE, this.ESCROW_REMOVE, this.ESCROW_LOCK, this.ESCROW_REFUND, this.ESCROW_RELEASE,
+            this.ESCROW_DISPUTE, this.ESCROW_ARBITRATE, this.ESCROW_TX, this.ESCROW_RECOVER], EnvironmentType.ALL);
 
     public PAYMENTINFORMATION_UPDATE: Command   = new Command('paymentinformationupdate', 'update', false);
     public PAYMENTINFORMATION_ROOT: Command     = new Command('paymentinformation', 'payment', true,
@@ -81,13 +90,22 @@ export class CommandEnumType extends Enum<Command> {
     public TEMPLATE_ADD: Command            = new Command('templateadd', 'add', false);
     public TEMPLATE_REMOVE: Command         = new Command('templateremove', 'remove', false);
     public TEMPLATE_POST: Command           = new Command('templatepost', 'post', false);
+    public TEMPLATE_UNPOST: Command         = new Command('templateunpost', 'unpost', false);
     public TEMPLATE_IMPORT: Command         = new Command('templateimport', 'import', false);
+    public TEMPLATE_EXPORT: Command         = new Command('templateexport', 'export', false);
+    public TEMPLATE_CLONE: Command          = new Command('templateclone', 'clone', false);
+    public TEMPLATE_REVISIONS: Command      = new Command('templaterevisions', 'revisions', false);
+    public TEMPLATE_SCHEDULE: Command       = new Command('templateschedule', 'schedule', false);
+    public TEMPLATE_SCHEDULES: Command      = new Command('templateschedules', 'schedules', false);
+    public TEMPLATE_VALIDATE: Command       = new Command('templatevalidate', 'validate', false);
     public TEMPLATE_SIZE: Command           = new Command('templatesize', 'size', false);
     public TEMPLATE_COMPRESS: Command       = new Command('templatecompress', 'compress', false);
     public TEMPLATE_FEATURED_IMAGE: Command = new Command('templatefeatured', 'featured', false);
     public TEMPLATE_ROOT: Command           = new Command('template', 'template', true,
-        [this.TEMPLATE_SEARCH, this.TEMPLATE_GET, this.TEMPLATE_ADD, this.TEMPLATE_REMOVE, this.TEMPLATE_POST,
-            this.TEMPLATE_IMPORT, this.TEMPLATE_SIZE, this.TEMPLATE_COMPRESS, this.ITEMINFORMATION_ROOT, this.TEMPLATE_FEATURED_IMAGE,
+        [this.TEMPLATE_SEARCH, this.TEMPLATE_GET, this.TEMPLATE_ADD, this.TEMPLATE_REMOVE, this.TEMPLATE_POST, this.TEMPLATE_UNPOST,
+            this.TEMPLATE_IMPORT, this.TEMPLATE_EXPORT, this.TEMPLATE_CLONE, this.TEMPLATE_REVISIONS, this.TEMPLATE_SCHEDULE, this.TEMPLATE_SCHEDULES,
+            this.TEMPLATE_VALIDATE, this.TEMPLATE_SIZE, this.TEMPLATE_COMPRESS,
+            this.ITEMINFORMATION_ROOT, this.TEMPLATE_FEATURED_IMAGE,
             this.ITEMIMAGE_ROOT, this.ITEMLOCATION_ROOT, this.SHIPPINGDESTINATION_ROOT, this.MESSAGINGINFORMATION_ROOT,
             this.PAYMENTINFORMATION_ROOT, this.ESCROW_ROOT],
         EnvironmentType.ALL);
@@ -132,6 +150,11 @@ export class CommandEnumType extends Enum<Command> {
     public PROPOSAL_ROOT: Command        = new Command('proposal', 'proposal', true,
         [this.PROPOSAL_GET, this.PROPOSAL_POST, this.PROPOSAL_LIST, this.PROPOSAL_RESULT], EnvironmentType.ALL);
 
+    public LOCKEDOUTPUT_LIST: Command       = new Command('lockedoutputlist', 'list', false);
+    public LOCKEDOUTPUT_RECONCILE: Command  = new Command('lockedoutputreconcile', 'reconcile', false);
+    public LOCKEDOUTPUT_ROOT: Command       = new Command('lockedoutput', 'lockedoutput', true,
+        [this.LOCKEDOUTPUT_LIST, this.LOCKEDOUTPUT_RECONCILE], EnvironmentType.ALL);
+
     public MARKET_LIST: Command         = new Command('marketlist', 'list', false);
     public MARKET_ADD: Command          = new Command('marketadd', 'add', false);
     public MARKET_ROOT: Command         = new Command('market', 'market', true,
@@ -143,9 +166,10 @@ export class CommandEnumType extends Enum<Command> {
     public SHOPPINGCART_UPDATE: Command = new Command('cartupdate', 'update', false);
     public SHOPPINGCART_REMOVE: Command = new Command('cartremove', 'remove', false);
     public SHOPPINGCART_CLEAR: Command  = new Command('cartclear', 'clear', false);
+    public SHOPPINGCART_CHECKOUT: Command = new Command('cartcheckout', 'checkout', false);
     public SHOPPINGCART_ROOT: Command   = new Command('cart', 'cart', true,
         [this.SHOPPINGCART_LIST, this.SHOPPINGCART_GET, this.SHOPPINGCART_ADD, this.SHOPPINGCART_UPDATE,
-            this.SHOPPINGCART_REMOVE, this.SHOPPINGCART_CLEAR], EnvironmentType.ALL);
+            this.SHOPPINGCART_REMOVE, this.SHOPPINGCART_CLEAR, this.SHOPPINGCART_CHECKOUT], EnvironmentType.ALL);
 
     public SHOPPINGCARTITEM_LIST: Command   = new Command('cartitemlist', 'list', false);
     public SHOPPINGCARTITEM_ADD: Command    = new Command('cartitemadd', 'add', false);
@@ -162,8 +186,14 @@ export class CommandEnumType extends Enum<Command> {
         [this.ORDER_SEARCH], EnvironmentType.ALL);
 
     public ORDERITEM_STATUS: Command         = new Command('orderitemstatus', 'status', false);
+    public ORDERITEM_HISTORY: Command        = new Command('orderitemhistory', 'history', false);
     public ORDERITEM_ROOT: Command           = new Command('orderitem', 'orderitem', true,
-        [this.ORDERITEM_STATUS], EnvironmentType.ALL);
+        [this.ORDERITEM_STATUS, this.ORDERITEM_HISTORY], EnvironmentType.ALL);
+
+    public OUTBOX_LIST: Command              = new Command('outboxlist', 'list', false);
+    public OUTBOX_CANCEL: Command            = new Command('outboxcancel', 'cancel', false);
+    public OUTBOX_ROOT: Command              = new Command('outbox', 'outbox', true,
+        [this.OUTBOX_LIST, this.OUTBOX_CANCEL], EnvironmentType.ALL);
 
     public PRICETICKER_ROOT: Command           = new Command('priceticker', 'priceticker', true);
 
@@ -183,8 +213,10 @@ export class CommandEnumType extends Enum<Command> {
         [this.SETTING_REMOVE, this.SETTING_GET, this.SETTING_LIST, this.SETTING_SET], EnvironmentType.ALL);
 
     public SMSG_SEARCH: Command      = new Command('smsgsearch', 'search', false);
+    public SMSG_RETRY: Command       = new Command('smsgretry', 'retry', false);
+    public SMSG_DEADLETTERS: Command = new Command('smsgdeadletters', 'deadletters', false);
     public SMSG_ROOT: Command        = new Command('smsg', 'smsg', true,
-        [this.SMSG_SEARCH], EnvironmentType.ALL);
+        [this.SMSG_SEARCH, this.SMSG_RETRY, this.SMSG_DEADLETTERS], EnvironmentType.ALL);
 
     constructor() {
         super();
@@ -0,0 +1,120 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { BidService } from '../../services/BidService';
+import { BidActionService } from '../../services/BidActionService';
+import { SmsgSendResponse } from '../../responses/SmsgSendResponse';
+import { BidMessageType } from '../../enums/BidMessageType';
+import { MessageException } from '../../exceptions/MessageException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+
+export class BidCounterCommand extends BaseCommand implements RpcCommandInterface<SmsgSendResponse> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.BidService) private bidService: BidService,
+        @inject(Types.Service) @named(Targets.Service.BidActionService) private bidActionService: BidActionService
+    ) {
+        super(Commands.BID_COUNTER);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: bid, resources.Bid (set in validate)
+     * [1]: basePrice
+     * [2]: shippingPrice
+     *
+     * @param data
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<SmsgSendResponse> {
+
+        const bid: resources.Bid = data.params[0];
+        return this.bidActionService.counter(bid, data.params[1], data.params[2]);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: bidId
+     * [1]: basePrice
+     * [2]: shippingPrice
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('bidId');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('basePrice');
+        } else if (data.params.length < 3) {
+            throw new MissingParamException('shippingPrice');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('bidId', 'number');
+        } else if (typeof data.params[1] !== 'number' || data.params[1] < 0) {
+            throw new InvalidParamException('basePrice', 'number');
+        } else if (typeof data.params[2] !== 'number' || data.params[2] < 0) {
+            throw new InvalidParamException('shippingPrice', 'number');
+        }
+
+        const bid: resources.Bid = await this.bidService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('Bid');
+            });
+
+        // make sure ListingItem exists
+        if (_.isEmpty(bid.ListingItem)) {
+            this.log.error('ListingItem not found.');
+            throw new MessageException('ListingItem not found.');
+        }
+
+        if (bid.action !== BidMessageType.MPA_BID && bid.action !== BidMessageType.MPA_COUNTER) {
+            throw new MessageException('Bid can not be countered because it was already been ' + bid.action);
+        }
+
+        data.params[0] = bid;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <bidId> <basePrice> <shippingPrice> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + '\n'
+            + '    <bidId>                  - Numeric - The id of the Bid we want to counter. \n'
+            + '    <basePrice>              - Numeric - The offered price of the item. \n'
+            + '    <shippingPrice>          - Numeric - The offered price of the shipping. ';
+    }
+
+    public description(): string {
+        return 'Answer a Bid, or the latest counter offer, with a different price. The bidder accepts a counter offer '
+            + 'by countering with the same price, after which the seller can accept the Bid.';
+    }
+
+    public example(): string {
+        return 'bid ' + this.getName() + ' 1 10.5 1 ';
+    }
+
+}
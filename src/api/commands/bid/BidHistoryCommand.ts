@@ -0,0 +1,92 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { BidService } from '../../services/BidService';
+import { BidHistoryService } from '../../services/BidHistoryService';
+
+export class BidHistoryCommand extends BaseCommand implements RpcCommandInterface<resources.BidHistory[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.BidService) private bidService: BidService,
+        @inject(Types.Service) @named(Targets.Service.BidHistoryService) private bidHistoryService: BidHistoryService
+    ) {
+        super(Commands.BID_HISTORY);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: bid, resources.Bid (set in validate)
+     *
+     * @param data
+     * @returns {Promise<resources.BidHistory[]>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<resources.BidHistory[]> {
+
+        const bid: resources.Bid = data.params[0];
+
+        return await this.bidHistoryService.findAllByBidId(bid.id, false)
+            .then(value => value.toJSON());
+    }
+
+    /**
+     * data.params[]:
+     * [0]: bidId
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('bidId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('bidId', 'number');
+        }
+
+        data.params[0] = await this.bidService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('Bid');
+            });
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <bidId> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + '\n'
+            + '    <bidId>                  - Numeric - The id of the Bid we want the negotiation history for. ';
+    }
+
+    public description(): string {
+        return 'List the offers, counter offers and answers of a Bid, oldest first.';
+    }
+
+    public example(): string {
+        return 'bid ' + this.getName() + ' 1 ';
+    }
+
+}
@@ -17,6 +17,7 @@ import { BaseCommand } from '../BaseCommand';
 import { BidActionService } from '../../services/BidActionService';
 import { SmsgSendResponse } from '../../responses/SmsgSendResponse';
 import { BidService } from '../../services/BidService';
+import { BidMessageType } from '../../enums/BidMessageType';
 
 export class BidRejectCommand extends BaseCommand implements RpcCommandInterface<SmsgSendResponse> {
 
@@ -80,8 +81,8 @@ export class BidRejectCommand extends BaseCommand implements RpcCommandInterface
             throw new MessageException('ListingItem not found.');
         }
 
-        // make sure we have a ListingItemTemplate, so we know it's our item
-        if (_.isEmpty(bid.ListingItem.ListingItemTemplate)) {
+        // make sure we have a ListingItemTemplate, so we know it's our item, the bidder can only answer a counter offer
+        if (_.isEmpty(bid.ListingItem.ListingItemTemplate) && bid.action !== BidMessageType.MPA_COUNTER) {
             this.log.error('Not your ListingItem.');
             throw new MessageException('Not your ListingItem.');
         }
@@ -100,7 +101,7 @@ export class BidRejectCommand extends BaseCommand implements RpcCommandInterface
     }
 
     public description(): string {
-        return 'Reject bid.';
+        return 'Reject bid, or the sellers counter offer when called by the bidder.';
     }
 
     public example(): string {
@@ -42,8 +42,8 @@ export class BidSearchCommand extends BaseCommand implements RpcCommandInterface
      *  [1]: pageLimit, number, default=10, optional
      *  [2]: ordering ASC/DESC, orders by updatedAt, optional
      *  [3]: ListingItem hash, string, * for all, optional
-     *  [4]: status/action, ENUM{MPA_BID, MPA_ACCEPT, MPA_REJECT, MPA_CANCEL}
-     *       or ENUM{AWAITING_ESCROW, ESCROW_LOCKED, SHIPPING, COMPLETE}, * for all, optional
+     *  [4]: status/action, ENUM{MPA_BID, MPA_ACCEPT, MPA_REJECT, MPA_CANCEL, MPA_COUNTER}
+     *       or ENUM{AWAITING_ESCROW, ESCROW_LOCKED, SHIPPING, COMPLETE, REFUND_REQUESTED, REFUNDED, EXPIRED, DISPUTED}, * for all, optional
      *  [5]: searchString, string, * for anything, optional
      *  [6...]: bidder: particl address, optional
      *
@@ -97,8 +97,8 @@ export class BidSearchCommand extends BaseCommand implements RpcCommandInterface
      *  [1]: pageLimit, number, default=10, optional
      *  [2]: ordering ASC/DESC, orders by updatedAt, optional
      *  [3]: ListingItem hash, string, * for all, optional
-     *  [4]: status/action, ENUM{MPA_BID, MPA_ACCEPT, MPA_REJECT, MPA_CANCEL}
-     *       or ENUM{AWAITING_ESCROW, ESCROW_LOCKED, SHIPPING, COMPLETE}, * for all, optional
+     *  [4]: status/action, ENUM{MPA_BID, MPA_ACCEPT, MPA_REJECT, MPA_CANCEL, MPA_COUNTER}
+     *       or ENUM{AWAITING_ESCROW, ESCROW_LOCKED, SHIPPING, COMPLETE, REFUND_REQUESTED, REFUNDED, EXPIRED, DISPUTED}, * for all, optional
      *  [5]: searchString, string, * for anything, optional
      *  [6...]: bidder: particl address, optional
      *
@@ -143,8 +143,8 @@ export class BidSearchCommand extends BaseCommand implements RpcCommandInterface
             + '    <ordering>               - [optional] ENUM{ASC,DESC} - The ordering of the searchBy results. \n'
             + '    <itemhash>               - String - The hash of the item we want to searchBy bids for. \n'
             + '                                The value * specifies that status can be anything. \n'
-            + '    <status>                 - [optional] ENUM{MPA_BID, MPA_ACCEPT, MPA_REJECT, MPA_CANCEL} - \n'
-            + '                             - or ENUM{AWAITING_ESCROW, ESCROW_LOCKED, SHIPPING, COMPLETE} - \n'
+            + '    <status>                 - [optional] ENUM{MPA_BID, MPA_ACCEPT, MPA_REJECT, MPA_CANCEL, MPA_COUNTER} - \n'
+            + '                             - or ENUM{AWAITING_ESCROW, ESCROW_LOCKED, SHIPPING, COMPLETE, REFUND_REQUESTED, REFUNDED, EXPIRED, DISPUTED} - \n'
             + '                                The status of the bids or status of the orderItem we want to searchBy for. \n'
             + '                                The value * specifies that status can be anything. \n'
             + '    <searchString>           - [optional] String - A string that is used to \n'
@@ -173,6 +173,8 @@ export class BidSearchCommand extends BaseCommand implements RpcCommandInterface
                 return BidMessageType.MPA_REJECT;
             case 'MPA_CANCEL':
                 return BidMessageType.MPA_CANCEL;
+            case 'MPA_COUNTER':
+                return BidMessageType.MPA_COUNTER;
             case 'AWAITING_ESCROW':
                 return OrderStatus.AWAITING_ESCROW;
             case 'ESCROW_LOCKED':
@@ -181,6 +183,14 @@ export class BidSearchCommand extends BaseCommand implements RpcCommandInterface
                 return OrderStatus.SHIPPING;
             case 'COMPLETE':
                 return OrderStatus.COMPLETE;
+            case 'REFUND_REQUESTED':
+                return OrderStatus.REFUND_REQUESTED;
+            case 'REFUNDED':
+                return OrderStatus.REFUNDED;
+            case 'EXPIRED':
+                return OrderStatus.EXPIRED;
+            case 'DISPUTED':
+                return OrderStatus.DISPUTED;
             case '*':
                 return undefined;
             default:
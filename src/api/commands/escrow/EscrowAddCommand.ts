@@ -15,6 +15,9 @@ import { BaseCommand } from '../BaseCommand';
 import { EscrowCreateRequest } from '../../requests/EscrowCreateRequest';
 import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
 import { MessageException } from '../../exceptions/MessageException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { EscrowType } from '../../enums/EscrowType';
 import * as _ from 'lodash';
 
 export class EscrowAddCommand extends BaseCommand implements RpcCommandInterface<Escrow> {
@@ -36,6 +39,8 @@ export class EscrowAddCommand extends BaseCommand implements RpcCommandInterface
      *  [1]: escrowtype
      *  [2]: buyer ratio
      *  [3]: seller ratio
+     *  [4]: arbiter address, ARBITRATED only
+     *  [5]: arbiter pubkey, ARBITRATED only
      * @param data
      * @returns {Promise<Escrow>}
      */
@@ -54,7 +59,9 @@ export class EscrowAddCommand extends BaseCommand implements RpcCommandInterface
             ratio: {
                 buyer: data.params[2],
                 seller: data.params[3]
-            }
+            },
+            arbiter_address: data.params[4],
+            arbiter_pubkey: data.params[5]
         } as EscrowCreateRequest);
     }
 
@@ -63,6 +70,28 @@ export class EscrowAddCommand extends BaseCommand implements RpcCommandInterface
             throw new MessageException('Missing params.');
         }
 
+        // ratios are percentages of the total price the buyer and the seller lock in the escrow as a deposit
+        if (typeof data.params[2] !== 'number') {
+            throw new InvalidParamException('buyerRatio', 'number');
+        } else if (typeof data.params[3] !== 'number') {
+            throw new InvalidParamException('sellerRatio', 'number');
+        } else if (data.params[2] < 0 || data.params[3] < 0) {
+            throw new MessageException('Escrow ratios can\'t be negative.');
+        }
+
+        // the arbiter of an ARBITRATED escrow is the third key of the 2-of-3 multisig
+        if (data.params[1] === EscrowType.ARBITRATED) {
+            if (data.params.length < 5) {
+                throw new MissingParamException('arbiterAddress');
+            } else if (data.params.length < 6) {
+                throw new MissingParamException('arbiterPubkey');
+            } else if (typeof data.params[4] !== 'string') {
+                throw new InvalidParamException('arbiterAddress', 'string');
+            } else if (typeof data.params[5] !== 'string') {
+                throw new InvalidParamException('arbiterPubkey', 'string');
+            }
+        }
+
         // get the template
         const listingItemTemplateId = data.params[0];
         const listingItemTemplateModel = await this.listingItemTemplateService.findOne(listingItemTemplateId);
@@ -82,17 +111,22 @@ export class EscrowAddCommand extends BaseCommand implements RpcCommandInterface
     }
 
     public usage(): string {
-        return this.getName() + ' <listingItemTemplateId> <escrowType> <buyerRatio> <sellerRatio> ';
+        return this.getName() + ' <listingItemTemplateId> <escrowType> <buyerRatio> <sellerRatio> [<arbiterAddress> <arbiterPubkey>] ';
     }
 
     public help(): string {
         return this.usage() + ' -  ' + this.description() + '\n'
             + '    <listingItemTemplateId>  - Numeric - The ID of the listing item template we want \n'
             + '                                to associate with this escrow. \n'
-            + '    <escrowType>             - Enum{NOP,MAD} - The type of the escrow we want to \n'
+            + '    <escrowType>             - Enum{NOP,MAD,ARBITRATED} - The type of the escrow we want to \n'
             + '                                create. \n'
-            + '    <buyerRatio>             - Numeric - [TODO] \n'
-            + '    <sellerRatio>            - Numeric - [TODO] ';
+            + '    <buyerRatio>             - Numeric - The deposit the buyer locks in the escrow, \n'
+            + '                                in percent of the total price. \n'
+            + '    <sellerRatio>            - Numeric - The deposit the seller locks in the escrow, \n'
+            + '                                in percent of the total price. \n'
+            + '    <arbiterAddress>         - String - The smsg address of the arbiter, ARBITRATED only. \n'
+            + '    <arbiterPubkey>          - String - The public key of the arbiter, which is the third key \n'
+            + '                                of the 2-of-3 escrow multisig, ARBITRATED only. ';
     }
 
     public description(): string {
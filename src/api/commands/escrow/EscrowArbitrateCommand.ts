@@ -0,0 +1,122 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { EscrowActionService } from '../../services/EscrowActionService';
+import { EscrowMessageType } from '../../enums/EscrowMessageType';
+import { EscrowType } from '../../enums/EscrowType';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MessageException } from '../../exceptions/MessageException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import * as _ from 'lodash';
+import { ListingItemService } from '../../services/ListingItemService';
+import { SmsgSendResponse } from '../../responses/SmsgSendResponse';
+
+export class EscrowArbitrateCommand extends BaseCommand implements RpcCommandInterface<SmsgSendResponse[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.EscrowActionService) private escrowActionService: EscrowActionService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemService) private listingItemService: ListingItemService
+    ) {
+        super(Commands.ESCROW_ARBITRATE);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: listingItem, resources.ListingItem (set in validate)
+     * [1]: buyerAddress
+     * [2]: decision, EscrowMessageType.MPA_RELEASE or EscrowMessageType.MPA_REFUND (set in validate)
+     * [3]: memo
+     *
+     * @param data
+     * @returns {Promise<SmsgSendResponse[]>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<SmsgSendResponse[]> {
+        return this.escrowActionService.arbitrate(data.params[0], data.params[1], data.params[2], data.params[3]);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: listingItemId
+     * [1]: buyerAddress
+     * [2]: decision, release or refund
+     * [3]: memo
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemId');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('buyerAddress');
+        } else if (data.params.length < 3) {
+            throw new MissingParamException('decision');
+        } else if (data.params.length < 4) {
+            throw new MissingParamException('memo');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('listingItemId', 'number');
+        } else if (typeof data.params[1] !== 'string') {
+            throw new InvalidParamException('buyerAddress', 'string');
+        } else if (data.params[2] !== 'release' && data.params[2] !== 'refund') {
+            throw new InvalidParamException('decision', 'release|refund');
+        } else if (typeof data.params[3] !== 'string') {
+            throw new InvalidParamException('memo', 'string');
+        }
+
+        const listingItem: resources.ListingItem = await this.listingItemService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItem');
+            });
+
+        const escrow = listingItem.PaymentInformation.Escrow;
+        if (_.isEmpty(escrow) || escrow.type !== EscrowType.ARBITRATED) {
+            this.log.error('Escrow is not arbitrated.');
+            throw new MessageException('Escrow is not arbitrated.');
+        }
+
+        data.params[0] = listingItem;
+        data.params[2] = data.params[2] === 'release' ? EscrowMessageType.MPA_RELEASE : EscrowMessageType.MPA_REFUND;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemId> <buyerAddress> <decision> <memo> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + '\n'
+            + '    <listingItemId>          - Numeric - The id of the disputed ListingItem.\n'
+            + '    <buyerAddress>           - String - The address of the buyer of the disputed Order.\n'
+            + '    <decision>               - Enum{release,refund} - Pay the escrow out to the seller or return it to the buyer.\n'
+            + '    <memo>                   - String - The reasoning behind the decision. ';
+    }
+
+    public description(): string {
+        return 'Resolve a dispute as the arbiter, sends the release or refund signed by the arbiter to the buyer and the seller.';
+    }
+
+    public example(): string {
+        return 'escrow ' + this.getName() + ' 1 pmktyVZshdMAQ6DPbbRXEFNGuzMbTMkqAA refund \'the seller could not prove the shipment\'';
+    }
+
+}
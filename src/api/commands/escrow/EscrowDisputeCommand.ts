@@ -0,0 +1,130 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { EscrowActionService } from '../../services/EscrowActionService';
+import { EscrowRequest } from '../../requests/EscrowRequest';
+import { EscrowMessageType } from '../../enums/EscrowMessageType';
+import { EscrowType } from '../../enums/EscrowType';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MessageException } from '../../exceptions/MessageException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import * as _ from 'lodash';
+import { OrderStatus } from '../../enums/OrderStatus';
+import { BidMessageType} from '../../enums/BidMessageType';
+import { OrderItemService } from '../../services/OrderItemService';
+import { SmsgSendResponse } from '../../responses/SmsgSendResponse';
+
+export class EscrowDisputeCommand extends BaseCommand implements RpcCommandInterface<SmsgSendResponse[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.EscrowActionService) private escrowActionService: EscrowActionService,
+        @inject(Types.Service) @named(Targets.Service.OrderItemService) private orderItemService: OrderItemService
+    ) {
+        super(Commands.ESCROW_DISPUTE);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: orderItem, resources.OrderItem (set in validate)
+     * [1]: memo
+     *
+     * @param data
+     * @returns {Promise<SmsgSendResponse[]>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<SmsgSendResponse[]> {
+
+        const orderItem: resources.OrderItem = data.params[0];
+
+        return this.escrowActionService.dispute({
+            orderItem,
+            memo: data.params[1],
+            action: EscrowMessageType.MPA_DISPUTE
+        } as EscrowRequest);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: orderItemId
+     * [1]: memo
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('orderItemId');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('memo');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('orderItemId', 'number');
+        } else if (typeof data.params[1] !== 'string') {
+            throw new InvalidParamException('memo', 'string');
+        }
+
+        const orderItem: resources.OrderItem = await this.orderItemService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('OrderItem');
+            });
+
+        const bid = orderItem.Bid;
+        if (!bid || bid.action !== BidMessageType.MPA_ACCEPT) {
+            this.log.error('No valid information to finalize escrow');
+            throw new MessageException('No valid information to finalize escrow');
+        }
+
+        const escrow = orderItem.Bid.ListingItem.PaymentInformation.Escrow;
+        if (_.isEmpty(escrow) || escrow.type !== EscrowType.ARBITRATED) {
+            this.log.error('Escrow is not arbitrated.');
+            throw new MessageException('Escrow is not arbitrated.');
+        }
+
+        // the escrow needs to be locked and not yet paid out, both parties can send their evidence
+        const disputableStatuses = [OrderStatus.ESCROW_LOCKED, OrderStatus.SHIPPING, OrderStatus.REFUND_REQUESTED, OrderStatus.DISPUTED];
+        if (!_.includes(disputableStatuses, orderItem.status)) {
+            this.log.error('Order is in invalid state');
+            throw new MessageException('Order is in invalid state');
+        }
+
+        data.params[0] = orderItem;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <orderItemId> <memo> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + '\n'
+            + '    <orderItemId>            - Numeric - The id of the OrderItem we want the arbiter to resolve.\n'
+            + '    <memo>                   - String - The evidence for the arbiter. ';
+    }
+
+    public description(): string {
+        return 'Ask the arbiter of an arbitrated escrow to resolve the Order, as a buyer or as a seller.';
+    }
+
+    public example(): string {
+        return 'escrow ' + this.getName() + ' 1 \'the item never arrived, tracking code shows no shipment\'';
+    }
+
+}
@@ -0,0 +1,124 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { EscrowActionService } from '../../services/EscrowActionService';
+import { EscrowMessageType } from '../../enums/EscrowMessageType';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MessageException } from '../../exceptions/MessageException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { OrderStatus } from '../../enums/OrderStatus';
+import { BidMessageType} from '../../enums/BidMessageType';
+import { OrderItemService } from '../../services/OrderItemService';
+import { EscrowRecoveryResponse } from '../../responses/EscrowRecoveryResponse';
+
+export class EscrowRecoverCommand extends BaseCommand implements RpcCommandInterface<EscrowRecoveryResponse> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.EscrowActionService) private escrowActionService: EscrowActionService,
+        @inject(Types.Service) @named(Targets.Service.OrderItemService) private orderItemService: OrderItemService
+    ) {
+        super(Commands.ESCROW_RECOVER);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: orderItem, resources.OrderItem (set in validate)
+     * [1]: action, EscrowMessageType.MPA_RELEASE or EscrowMessageType.MPA_REFUND (set in validate)
+     *
+     * @param data
+     * @returns {Promise<EscrowRecoveryResponse>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<EscrowRecoveryResponse> {
+        return this.escrowActionService.recover(data.params[0], data.params[1]);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: orderItemId
+     * [1]: release|refund, optional, the seller releases and the buyer refunds by default
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('orderItemId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('orderItemId', 'number');
+        } else if (data.params.length > 1 && !_.includes(['release', 'refund'], data.params[1])) {
+            throw new InvalidParamException('action', 'release|refund');
+        }
+
+        const orderItem: resources.OrderItem = await this.orderItemService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('OrderItem');
+            });
+
+        const bid = orderItem.Bid;
+        if (!bid || bid.action !== BidMessageType.MPA_ACCEPT) {
+            this.log.error('No valid information to recover escrow');
+            throw new MessageException('No valid information to recover escrow');
+        }
+
+        // the escrow needs to be locked and not yet paid out
+        const recoverableStatuses = [OrderStatus.ESCROW_LOCKED, OrderStatus.SHIPPING, OrderStatus.REFUND_REQUESTED, OrderStatus.DISPUTED];
+        if (!_.includes(recoverableStatuses, orderItem.status)) {
+            this.log.error('Order is in invalid state');
+            throw new MessageException('Order is in invalid state');
+        }
+
+        let action: EscrowMessageType;
+        if (data.params.length > 1) {
+            action = data.params[1] === 'release' ? EscrowMessageType.MPA_RELEASE : EscrowMessageType.MPA_REFUND;
+        } else {
+            const isMyListingItem = !_.isEmpty(bid.ListingItem.ListingItemTemplate);
+            action = isMyListingItem ? EscrowMessageType.MPA_RELEASE : EscrowMessageType.MPA_REFUND;
+        }
+
+        data.params[0] = orderItem;
+        data.params[1] = action;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <orderItemId> [<release|refund>] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + '\n'
+            + '    <orderItemId>            - Numeric - The id of the OrderItem whose escrow we want to recover.\n'
+            + '    <release|refund>         - [optional] String - Whether to create a release or a refund of the escrow,\n'
+            + '                                the seller releases and the buyer refunds by default. ';
+    }
+
+    public description(): string {
+        return 'Re-import the escrow multisig address of an OrderItem and create a half signed release or refund of the escrow, '
+            + 'ready to be co-signed by the other party.';
+    }
+
+    public example(): string {
+        return 'escrow ' + this.getName() + ' 1 refund ';
+    }
+
+}
@@ -2,6 +2,7 @@
 // Distributed under the GPL software license, see the accompanying
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
+import * as resources from 'resources';
 import { Logger as LoggerType } from '../../../core/Logger';
 import { inject, named } from 'inversify';
 import { validate, request } from '../../../core/api/Validate';
@@ -15,6 +16,9 @@ import { EscrowMessageType } from '../../enums/EscrowMessageType';
 import { Commands} from '../CommandEnumType';
 import { BaseCommand } from '../BaseCommand';
 import { MessageException } from '../../exceptions/MessageException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
 import * as _ from 'lodash';
 import { OrderStatus } from '../../enums/OrderStatus';
 import { BidMessageType} from '../../enums/BidMessageType';
@@ -35,24 +39,60 @@ export class EscrowRefundCommand extends BaseCommand implements RpcCommandInterf
 
     /**
      * data.params[]:
-     * [0]: itemhash
+     * [0]: orderItem, resources.OrderItem (set in validate)
      * [1]: accepted
      * [2]: memo
-     * [3]: escrowId
+     * [3]: action, EscrowMessageType (set in validate)
+     *
      * @param data
      * @returns {Promise<any>}
      */
     @validate()
     public async execute( @request(RpcRequest) data: RpcRequest): Promise<any> {
 
-        const orderItemModel = await this.orderItemService.findOne(data.params[0]);
-        const orderItem = orderItemModel.toJSON();
+        const orderItem: resources.OrderItem = data.params[0];
 
-        if (orderItem.status !== OrderStatus.AWAITING_ESCROW) {
-            this.log.error('Order is in invalid state');
-            throw new MessageException('Order is in invalid state');
+        return this.escrowActionService.refund({
+            orderItem,
+            accepted: data.params[1],
+            memo: data.params[2],
+            action: data.params[3]
+        } as EscrowRequest);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: orderItemId
+     * [1]: accepted, only used by the seller
+     * [2]: memo
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('orderItemId');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('accepted');
+        } else if (data.params.length < 3) {
+            throw new MissingParamException('memo');
         }
 
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('orderItemId', 'number');
+        } else if (typeof data.params[1] !== 'boolean') {
+            throw new InvalidParamException('accepted', 'boolean');
+        } else if (typeof data.params[2] !== 'string') {
+            throw new InvalidParamException('memo', 'string');
+        }
+
+        const orderItem: resources.OrderItem = await this.orderItemService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('OrderItem');
+            });
+
         const bid = orderItem.Bid;
         if (!bid || bid.action !== BidMessageType.MPA_ACCEPT) {
             this.log.error('No valid information to finalize escrow');
@@ -83,27 +123,38 @@ export class EscrowRefundCommand extends BaseCommand implements RpcCommandInterf
             throw new MessageException('EscrowRatio not found!');
         }
 
-        return this.escrowActionService.refund({
-            orderItem,
-            accepted: data.params[1],
-            memo: data.params[2],
-            action: EscrowMessageType.MPA_REFUND
-        } as EscrowRequest);
+        // buyer requests the refund for a locked escrow, seller then either signs or rejects it
+        const isMyListingItem = !_.isEmpty(listingItem.ListingItemTemplate);
+        if (!isMyListingItem && orderItem.status === OrderStatus.ESCROW_LOCKED) {
+            data.params[3] = EscrowMessageType.MPA_REQUEST_REFUND;
+        } else if (isMyListingItem && orderItem.status === OrderStatus.REFUND_REQUESTED) {
+            data.params[3] = EscrowMessageType.MPA_REFUND;
+        } else {
+            this.log.error('Order is in invalid state');
+            throw new MessageException('Order is in invalid state');
+        }
+
+        data.params[0] = orderItem;
+        return data;
     }
 
     public usage(): string {
-        return this.getName() + ' [<itemhash> [<accepted> [<memo>]]] ';
+        return this.getName() + ' <orderItemId> <accepted> <memo> ';
     }
 
     public help(): string {
         return this.usage() + ' -  ' + this.description() + '\n'
-            + '    <orderItemId>            - String - The id of the OrderItem for which we want to refund the Escrow.\n'
-            + '    <accepted>               - String - The accepted status of the escrow \n'
+            + '    <orderItemId>            - Numeric - The id of the OrderItem for which we want to refund the Escrow.\n'
+            + '    <accepted>               - Boolean - Whether the seller accepts the requested refund, ignored for the buyer.\n'
             + '    <memo>                   - String - The memo of the Escrow ';
     }
 
     public description(): string {
-        return 'Refund an escrow.';
+        return 'Request a refund of a locked escrow as a buyer, or sign and broadcast the requested refund as a seller.';
+    }
+
+    public example(): string {
+        return 'escrow ' + this.getName() + ' 1 true \'the item is out of stock\'';
     }
 
 }
@@ -19,6 +19,9 @@ import { MessageException } from '../../exceptions/MessageException';
 import { OrderStatus } from '../../enums/OrderStatus';
 import { BidMessageType} from '../../enums/BidMessageType';
 import { OrderItemService } from '../../services/OrderItemService';
+import { BidDataValue } from '../../enums/BidDataValue';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { IdValuePair } from '../../messages/BidMessage';
 
 export class EscrowReleaseCommand extends BaseCommand implements RpcCommandInterface<Escrow> {
 
@@ -37,6 +40,10 @@ export class EscrowReleaseCommand extends BaseCommand implements RpcCommandInter
      * data.params[]:
      * [0]: orderItemId
      * [1]: memo
+     * [2]: carrier, optional
+     * [3]: trackingNumber, optional
+     * [4]: shippingDate, optional
+     * [5]: expectedDelivery, optional
      *
      * @param data
      * @returns {Promise<any>}
@@ -47,9 +54,24 @@ export class EscrowReleaseCommand extends BaseCommand implements RpcCommandInter
         const orderItemModel = await this.orderItemService.findOne(data.params[0]);
         const orderItem = orderItemModel.toJSON();
 
+        // the shipment details sent by the seller
+        const shipmentValues = [
+            BidDataValue.SHIPMENT_CARRIER, data.params[2],
+            BidDataValue.SHIPMENT_TRACKING_NUMBER, data.params[3],
+            BidDataValue.SHIPMENT_SHIPPING_DATE, data.params[4],
+            BidDataValue.SHIPMENT_EXPECTED_DELIVERY, data.params[5]
+        ];
+        const objects: IdValuePair[] = [];
+        for (let i = 0; i < shipmentValues.length; i += 2) {
+            if (shipmentValues[i + 1] !== undefined) {
+                objects.push({id: shipmentValues[i], value: shipmentValues[i + 1]});
+            }
+        }
+
         return this.escrowActionService.release({
             orderItem,
             memo: data.params[1],
+            objects,
             action: EscrowMessageType.MPA_RELEASE
         } as EscrowRequest);
     }
@@ -109,21 +131,42 @@ export class EscrowReleaseCommand extends BaseCommand implements RpcCommandInter
             throw new MessageException('EscrowRatio not found!');
         }
 
+        if (data.params.length > 2) {
+            // only the seller ships the item
+            if (_.isEmpty(listingItem.ListingItemTemplate) || orderItem.status !== OrderStatus.ESCROW_LOCKED) {
+                throw new MessageException('Shipment details can only be sent by the seller when shipping the item.');
+            }
+
+            if (typeof data.params[2] !== 'string') {
+                throw new InvalidParamException('carrier', 'string');
+            } else if (data.params.length > 3 && typeof data.params[3] !== 'string') {
+                throw new InvalidParamException('trackingNumber', 'string');
+            } else if (data.params.length > 4 && typeof data.params[4] !== 'number') {
+                throw new InvalidParamException('shippingDate', 'number');
+            } else if (data.params.length > 5 && typeof data.params[5] !== 'number') {
+                throw new InvalidParamException('expectedDelivery', 'number');
+            }
+        }
+
         return data;
     }
 
     public usage(): string {
-        return this.getName() + ' [<itemhash> [<memo>]] ';
+        return this.getName() + ' <orderItemId> <memo> [<carrier> [<trackingNumber> [<shippingDate> [<expectedDelivery>]]]] ';
     }
 
     public help(): string {
         return this.usage() + ' -  ' + this.description() + '\n'
             + '    <orderItemId>            - String - The id of the OrderItem for which we want to release the Escrow.\n'
-            + '    <memo>                   - String - The memo of the Escrow ';
+            + '    <memo>                   - String - The memo of the Escrow \n'
+            + '    <carrier>                - [optional] String - The carrier shipping the item, seller only. \n'
+            + '    <trackingNumber>         - [optional] String - The tracking number of the shipment. \n'
+            + '    <shippingDate>           - [optional] Numeric - The timestamp of the shipping date. \n'
+            + '    <expectedDelivery>       - [optional] Numeric - The timestamp of the expected delivery date. ';
     }
 
     public description(): string {
-        return 'Release an escrow.';
+        return 'Release an escrow. The seller releases when shipping the item and can attach the shipment details for the buyer.';
     }
 
 }
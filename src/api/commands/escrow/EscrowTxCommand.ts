@@ -0,0 +1,98 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { OrderItemService } from '../../services/OrderItemService';
+import { EscrowTransactionService } from '../../services/EscrowTransactionService';
+import { EscrowTransactionSearchParams } from '../../requests/EscrowTransactionSearchParams';
+import { SearchOrder } from '../../enums/SearchOrder';
+
+export class EscrowTxCommand extends BaseCommand implements RpcCommandInterface<resources.EscrowTransaction[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.OrderItemService) private orderItemService: OrderItemService,
+        @inject(Types.Service) @named(Targets.Service.EscrowTransactionService) private escrowTransactionService: EscrowTransactionService
+    ) {
+        super(Commands.ESCROW_TX);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     * [0]: orderItem, resources.OrderItem (set in validate)
+     *
+     * @param data
+     * @returns {Promise<resources.EscrowTransaction[]>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<resources.EscrowTransaction[]> {
+
+        const orderItem: resources.OrderItem = data.params[0];
+
+        return await this.escrowTransactionService.searchBy({
+            order: SearchOrder.ASC,
+            orderItemId: orderItem.id,
+            page: 0,
+            pageLimit: 100
+        } as EscrowTransactionSearchParams, false).then(value => value.toJSON());
+    }
+
+    /**
+     * data.params[]:
+     * [0]: orderItemId
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('orderItemId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('orderItemId', 'number');
+        }
+
+        data.params[0] = await this.orderItemService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('OrderItem');
+            });
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <orderItemId> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + '\n'
+            + '    <orderItemId>            - Numeric - The id of the OrderItem we want the escrow transactions for. ';
+    }
+
+    public description(): string {
+        return 'List the broadcasted escrow transactions of an OrderItem, with their type, status and confirmations.';
+    }
+
+    public example(): string {
+        return 'escrow ' + this.getName() + ' 1 ';
+    }
+
+}
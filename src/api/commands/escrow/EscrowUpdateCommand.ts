@@ -13,6 +13,9 @@ import { RpcCommandInterface } from '../RpcCommandInterface';
 import { Commands} from '../CommandEnumType';
 import { BaseCommand } from '../BaseCommand';
 import { MessageException } from '../../exceptions/MessageException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { EscrowType } from '../../enums/EscrowType';
 import { EscrowUpdateRequest } from '../../requests/EscrowUpdateRequest';
 import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
 
@@ -35,6 +38,8 @@ export class EscrowUpdateCommand extends BaseCommand implements RpcCommandInterf
      *  [1]: escrowtype
      *  [2]: buyer ratio
      *  [3]: seller ratio
+     *  [4]: arbiter address, ARBITRATED only
+     *  [5]: arbiter pubkey, ARBITRATED only
      * @param data
      * @returns {Promise<Escrow>}
      */
@@ -58,12 +63,54 @@ export class EscrowUpdateCommand extends BaseCommand implements RpcCommandInterf
             ratio: {
                 buyer: data.params[2],
                 seller: data.params[3]
-            }
+            },
+            arbiter_address: data.params[4],
+            arbiter_pubkey: data.params[5]
         } as EscrowUpdateRequest);
     }
 
+    /**
+     * data.params[]:
+     *  [0]: ListingItemTemplate.id
+     *  [1]: escrowtype
+     *  [2]: buyer ratio
+     *  [3]: seller ratio
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+        if (data.params.length < 4) {
+            throw new MessageException('Missing params.');
+        }
+
+        // ratios are percentages of the total price the buyer and the seller lock in the escrow as a deposit
+        if (typeof data.params[2] !== 'number') {
+            throw new InvalidParamException('buyerRatio', 'number');
+        } else if (typeof data.params[3] !== 'number') {
+            throw new InvalidParamException('sellerRatio', 'number');
+        } else if (data.params[2] < 0 || data.params[3] < 0) {
+            throw new MessageException('Escrow ratios can\'t be negative.');
+        }
+
+        // the arbiter of an ARBITRATED escrow is the third key of the 2-of-3 multisig
+        if (data.params[1] === EscrowType.ARBITRATED) {
+            if (data.params.length < 5) {
+                throw new MissingParamException('arbiterAddress');
+            } else if (data.params.length < 6) {
+                throw new MissingParamException('arbiterPubkey');
+            } else if (typeof data.params[4] !== 'string') {
+                throw new InvalidParamException('arbiterAddress', 'string');
+            } else if (typeof data.params[5] !== 'string') {
+                throw new InvalidParamException('arbiterPubkey', 'string');
+            }
+        }
+
+        return data;
+    }
+
     public usage(): string {
-        return this.getName() + ' <listingItemTemplateId> <escrowType> <buyerRatio> <sellerRatio> ';
+        return this.getName() + ' <listingItemTemplateId> <escrowType> <buyerRatio> <sellerRatio> [<arbiterAddress> <arbiterPubkey>] ';
     }
 
     public help(): string {
@@ -72,15 +119,22 @@ export class EscrowUpdateCommand extends BaseCommand implements RpcCommandInterf
             + '                                associated with the escrow we want to modify. \n'
             + '    <escrowType>             - String - The escrow type we want to give to the \n'
             + '                                escrow we are modifying. \n'
-            + '                             - ENUM{NOP,MAD} - The escrow type to give to the \n'
+            + '                             - ENUM{NOP,MAD,ARBITRATED} - The escrow type to give to the \n'
             + '                                escrow we are modifying. \n'
-            + '    <buyerRatio>             - Numeric - [TODO] \n'
-            + '    <sellerRatio>            - Numeric - [TODO] ';
+            + '    <buyerRatio>             - Numeric - The deposit the buyer locks in the escrow, \n'
+            + '                                in percent of the total price. \n'
+            + '    <sellerRatio>            - Numeric - The deposit the seller locks in the escrow, \n'
+            + '                                in percent of the total price. \n'
+            + '    <arbiterAddress>         - String - The smsg address of the arbiter, ARBITRATED only. \n'
+            + '    <arbiterPubkey>          - String - The public key of the arbiter, which is the third key \n'
+            + '                                of the 2-of-3 escrow multisig, ARBITRATED only. ';
     }
 
     public description(): string {
         return 'Update the details of an escrow given by listingItemTemplateId.';
     }
 
-
+    public example(): string {
+        return 'escrow ' + this.getName() + ' 1 MAD 100 50 ';
+    }
 }
@@ -0,0 +1,113 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { ListingItemService } from '../../services/ListingItemService';
+import { ListingItemActionService } from '../../services/ListingItemActionService';
+import { ProfileService } from '../../services/ProfileService';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MessageException } from '../../exceptions/MessageException';
+import { SmsgSendResponse } from '../../responses/SmsgSendResponse';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+
+export class ListingItemCancelCommand extends BaseCommand implements RpcCommandInterface<SmsgSendResponse> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemService) public listingItemService: ListingItemService,
+        @inject(Types.Service) @named(Targets.Service.ProfileService) public profileService: ProfileService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemActionService) public listingItemActionService: ListingItemActionService
+    ) {
+        super(Commands.ITEM_CANCEL);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItem, resources.ListingItem (set in validate)
+     *  [1]: daysRetention (set in validate)
+     *
+     * @param data
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<SmsgSendResponse> {
+        const listingItem: resources.ListingItem = data.params[0];
+        const daysRetention: number = data.params[1];
+        return await this.listingItemActionService.cancel(listingItem, daysRetention);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemHash
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemHash');
+        }
+
+        if (typeof data.params[0] !== 'string') {
+            throw new InvalidParamException('listingItemHash', 'string');
+        }
+
+        const listingItem: resources.ListingItem = await this.listingItemService.findOneByHash(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItem');
+            });
+
+        if (listingItem.removed) {
+            throw new MessageException('ListingItem has already been removed.');
+        }
+
+        // make sure we are the seller
+        await this.profileService.findOneByAddress(listingItem.seller)
+            .catch(reason => {
+                throw new MessageException('ListingItem can only be cancelled by the seller.');
+            });
+
+        // the cancel message only needs to be retained as long as the ListingItem
+        const daysRetention = Math.ceil((listingItem.expiredAt - new Date().getTime()) / 1000 / 60 / 60 / 24);
+        if (daysRetention <= 0) {
+            throw new MessageException('ListingItem has expired.');
+        }
+
+        data.params[0] = listingItem;
+        data.params[1] = daysRetention;
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemHash> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <listingItemHash>  - String - The hash of the ListingItem we want to cancel. \n';
+    }
+
+    public description(): string {
+        return 'Cancel a posted ListingItem, removing it from the marketplace and rejecting the open bids.';
+    }
+
+    public example(): string {
+        return 'item ' + this.getName() + ' b90cee25-036b-4dca-8b17-0187ff325dbb';
+    }
+}
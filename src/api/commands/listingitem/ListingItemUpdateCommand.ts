@@ -0,0 +1,142 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { ListingItemService } from '../../services/ListingItemService';
+import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
+import { ListingItemActionService } from '../../services/ListingItemActionService';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { ListingItemUpdatePostRequest } from '../../requests/ListingItemUpdatePostRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MessageException } from '../../exceptions/MessageException';
+import { SmsgSendResponse } from '../../responses/SmsgSendResponse';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+
+export class ListingItemUpdateCommand extends BaseCommand implements RpcCommandInterface<SmsgSendResponse> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemService) public listingItemService: ListingItemService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) public listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemActionService) public listingItemActionService: ListingItemActionService
+    ) {
+        super(Commands.ITEM_POST_UPDATE);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * sends the edited ListingItemTemplate as an update to an already posted ListingItem
+     *
+     * data.params[]:
+     *  [0]: listingItemHash
+     *  [1]: listingItemTemplateId
+     *  [2]: estimateFee, optional
+     *  [3]: daysRetention (set in validate)
+     *
+     * @param data
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<SmsgSendResponse> {
+
+        const estimateFee: boolean = typeof data.params[2] === 'boolean' ? data.params[2] : false;
+
+        const updateRequest = {
+            hash: data.params[0],
+            listingItemTemplateId: data.params[1],
+            daysRetention: data.params[3]
+        } as ListingItemUpdatePostRequest;
+
+        const response = await this.listingItemActionService.updatePostItem(updateRequest, estimateFee);
+
+        this.log.debug('ListingItemUpdateCommand.execute, response: ', response);
+        return response;
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemHash
+     *  [1]: listingItemTemplateId
+     *  [2]: estimateFee, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemHash');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('listingItemTemplateId');
+        }
+
+        if (typeof data.params[0] !== 'string') {
+            throw new InvalidParamException('listingItemHash', 'string');
+        } else if (typeof data.params[1] !== 'number') {
+            throw new InvalidParamException('listingItemTemplateId', 'number');
+        } else if (data.params.length >= 3 && typeof data.params[2] !== 'boolean') {
+            throw new InvalidParamException('estimateFee', 'boolean');
+        }
+
+        const listingItemModel = await this.listingItemService.findOneByHash(data.params[0])
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItem');
+            });
+        const listingItem: resources.ListingItem = listingItemModel.toJSON();
+
+        const listingItemTemplateModel = await this.listingItemTemplateService.findOne(data.params[1])
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItemTemplate');
+            });
+        const listingItemTemplate: resources.ListingItemTemplate = listingItemTemplateModel.toJSON();
+
+        if (listingItem.seller !== listingItemTemplate.Profile.address) {
+            throw new MessageException('ListingItem can only be updated by the seller.');
+        }
+
+        // check size limit
+        const templateMessageDataSize = await this.listingItemTemplateService.calculateMarketplaceMessageSize(listingItemTemplate);
+        if (!templateMessageDataSize.fits) {
+            throw new MessageException('Template details exceed message size limitations');
+        }
+
+        // the update only needs to be retained as long as the ListingItem
+        const daysRetention = Math.ceil((listingItem.expiredAt - new Date().getTime()) / 1000 / 60 / 60 / 24);
+        if (daysRetention <= 0) {
+            throw new MessageException('ListingItem has expired.');
+        }
+        data.params[3] = daysRetention;
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemHash> <listingItemTemplateId> [estimateFee] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <listingItemHash>         - String - The hash of the ListingItem we want to update. \n'
+            + '    <listingItemTemplateId>   - Numeric - The ID of the edited ListingItemTemplate. \n'
+            + '    <estimateFee>             - [optional] boolean, Just estimate the Fee, dont post the update. \n';
+    }
+
+    public description(): string {
+        return 'Update a posted ListingItem using the data of an edited ListingItemTemplate.';
+    }
+
+    public example(): string {
+        return 'item ' + this.getName() + ' b90cee25-036b-4dca-8b17-0187ff325dbb 1';
+    }
+}
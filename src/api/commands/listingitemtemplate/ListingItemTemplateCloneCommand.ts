@@ -0,0 +1,87 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands } from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
+import { ListingItemTemplate } from '../../models/ListingItemTemplate';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+
+export class ListingItemTemplateCloneCommand extends BaseCommand implements RpcCommandInterface<ListingItemTemplate> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) private listingItemTemplateService: ListingItemTemplateService
+    ) {
+        super(Commands.TEMPLATE_CLONE);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplate, resources.ListingItemTemplate (set in validate)
+     *
+     * @param data
+     * @returns {Promise<ListingItemTemplate>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<ListingItemTemplate> {
+        const listingItemTemplate: resources.ListingItemTemplate = data.params[0];
+        return await this.listingItemTemplateService.clone(listingItemTemplate);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplateId
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemTemplateId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('listingItemTemplateId', 'number');
+        }
+
+        data.params[0] = await this.listingItemTemplateService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItemTemplate');
+            });
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemTemplateId> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <listingItemTemplateId>  - Numeric - The ID of the ListingItemTemplate to copy. ';
+    }
+
+    public description(): string {
+        return 'Create a copy of a ListingItemTemplate with all of its information and images, for creating variants of it.';
+    }
+
+    public example(): string {
+        return 'template ' + this.getName() + ' 1';
+    }
+}
@@ -0,0 +1,121 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands } from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
+import { ListingItemTemplateExportService } from '../../services/ListingItemTemplateExportService';
+import { ListingItemTemplateExportBundle } from '../../responses/ListingItemTemplateExportBundle';
+import { ListingItemTemplateExportResponse } from '../../responses/ListingItemTemplateExportResponse';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+
+export class ListingItemTemplateExportCommand extends BaseCommand
+    implements RpcCommandInterface<ListingItemTemplateExportBundle | ListingItemTemplateExportResponse> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) private listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateExportService)
+        private listingItemTemplateExportService: ListingItemTemplateExportService
+    ) {
+        super(Commands.TEMPLATE_EXPORT);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplates, resources.ListingItemTemplate[] (set in validate)
+     *  [1]: file, optional
+     *
+     * @param data
+     * @returns {Promise<ListingItemTemplateExportBundle | ListingItemTemplateExportResponse>} the bundle, or where it was written
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<ListingItemTemplateExportBundle | ListingItemTemplateExportResponse> {
+
+        const listingItemTemplates: resources.ListingItemTemplate[] = data.params[0];
+        const bundle = await this.listingItemTemplateExportService.createBundle(listingItemTemplates);
+
+        if (data.params.length < 2) {
+            return bundle;
+        }
+
+        await this.listingItemTemplateExportService.writeBundle(bundle, data.params[1]);
+        return {
+            file: data.params[1],
+            total: bundle.templates.length
+        } as ListingItemTemplateExportResponse;
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplateId, or * for all
+     *  [1]: file, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemTemplateId');
+        }
+
+        if (data.params[0] !== '*' && typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('listingItemTemplateId', 'number');
+        } else if (data.params.length > 1 && typeof data.params[1] !== 'string') {
+            throw new InvalidParamException('file', 'string');
+        }
+
+        let listingItemTemplateIds: number[] = [data.params[0]];
+        if (data.params[0] === '*') {
+            const all: resources.ListingItemTemplate[] = await this.listingItemTemplateService.findAll()
+                .then(value => value.toJSON());
+            listingItemTemplateIds = all.map(listingItemTemplate => listingItemTemplate.id);
+        }
+
+        const listingItemTemplates: resources.ListingItemTemplate[] = [];
+        for (const id of listingItemTemplateIds) {
+            const listingItemTemplate: resources.ListingItemTemplate = await this.listingItemTemplateService.findOne(id)
+                .then(value => value.toJSON())
+                .catch(reason => {
+                    throw new ModelNotFoundException('ListingItemTemplate');
+                });
+            listingItemTemplates.push(listingItemTemplate);
+        }
+
+        data.params[0] = listingItemTemplates;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemTemplateId|*> [<file>] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <listingItemTemplateId>  - Numeric - The ID of the ListingItemTemplate to export, or * for all. \n'
+            + '    <file>                   - [optional] String - The path of the file the bundle is written to, \n'
+            + '                                if not given, the bundle is returned. ';
+    }
+
+    public description(): string {
+        return 'Export ListingItemTemplates with their images into a bundle, which can be imported with template import.';
+    }
+
+    public example(): string {
+        return 'template ' + this.getName() + ' * /home/seller/templates.json';
+    }
+}
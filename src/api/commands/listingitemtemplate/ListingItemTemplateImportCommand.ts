@@ -0,0 +1,132 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands } from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { ProfileService } from '../../services/ProfileService';
+import { ListingItemTemplateImportService } from '../../services/ListingItemTemplateImportService';
+import { ListingItemTemplateImportResponse } from '../../responses/ListingItemTemplateImportResponse';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+
+export class ListingItemTemplateImportCommand extends BaseCommand implements RpcCommandInterface<ListingItemTemplateImportResponse> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ProfileService) private profileService: ProfileService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateImportService)
+        private listingItemTemplateImportService: ListingItemTemplateImportService
+    ) {
+        super(Commands.TEMPLATE_IMPORT);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: profile, resources.Profile (set in validate)
+     *  [1]: rows, ListingItemTemplateImportRow[] (set in validate)
+     *  [2]: dryRun, boolean
+     *  [3]: imageDir, string (set in validate)
+     *
+     * @param data
+     * @returns {Promise<ListingItemTemplateImportResponse>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<ListingItemTemplateImportResponse> {
+        return await this.listingItemTemplateImportService.import(data.params[0], data.params[1], data.params[2], data.params[3]);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: profileId
+     *  [1]: input, path to a .json or .csv file, or JSON
+     *  [2]: dryRun, optional, default false
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('profileId');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('input');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('profileId', 'number');
+        } else if (typeof data.params[1] !== 'string') {
+            throw new InvalidParamException('input', 'string');
+        } else if (data.params.length > 2 && typeof data.params[2] !== 'boolean') {
+            throw new InvalidParamException('dryRun', 'boolean');
+        }
+
+        const profile: resources.Profile = await this.profileService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('Profile');
+            });
+
+        // relative image paths are relative to the imported file
+        const input: string = data.params[1];
+        const isFile = !_.startsWith(input.trim(), '[') && !_.startsWith(input.trim(), '{');
+        const imageDir = isFile && fs.existsSync(input) ? path.dirname(path.resolve(input)) : process.cwd();
+
+        data.params[0] = profile;
+        data.params[1] = await this.listingItemTemplateImportService.parse(input);
+        data.params[2] = data.params.length > 2 ? data.params[2] : false;
+        data.params[3] = imageDir;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <profileId> <input> [<dryRun>] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <profileId>              - Numeric - The ID of the Profile the templates are created for. \n'
+            + '    <input>                  - String - Path to a .json or .csv file, or a JSON array of templates. \n'
+            + '                                Bundles created with template export can be imported as well. \n'
+            + '    <dryRun>                 - [optional] Boolean - Only validate the templates without creating them, \n'
+            + '                                default false. \n'
+            + '\n'
+            + '    Template fields, in JSON or as CSV headers: \n'
+            + '      title, shortDescription, longDescription, basePrice - required \n'
+            + '      category                 - category key, or path of category names or keys separated by > \n'
+            + '      paymentType              - ENUM{SALE, FREE}, default SALE \n'
+            + '      currency                 - ENUM{PARTICL, BITCOIN}, default PARTICL \n'
+            + '      domesticShippingPrice, internationalShippingPrice - default 0 \n'
+            + '      paymentAddress           - optional \n'
+            + '      escrowType               - ENUM{NOP, MAD, ARBITRATED}, default MAD \n'
+            + '      escrowBuyerRatio, escrowSellerRatio - default 100 \n'
+            + '      arbiterAddress, arbiterPubkey - ARBITRATED only \n'
+            + '      shippingDestinations     - country codes separated by ;, optionally followed by \n'
+            + '                                 :ENUM{SHIPS, DOES_NOT_SHIP, ASK, UNKNOWN}, default SHIPS \n'
+            + '      locationCountry, locationAddress - optional \n'
+            + '      images                   - image file paths or http(s) urls separated by ; \n'
+            + '    Lists can also be given as arrays in JSON. ';
+    }
+
+    public description(): string {
+        return 'Import ListingItemTemplates in bulk from a JSON array or a CSV file, returning the errors of each row.';
+    }
+
+    public example(): string {
+        return 'template ' + this.getName() + ' 1 /home/seller/templates.csv true';
+    }
+}
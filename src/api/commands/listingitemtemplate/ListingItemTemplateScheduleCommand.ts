@@ -0,0 +1,176 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands } from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
+import { ListingItemTemplateScheduleService } from '../../services/ListingItemTemplateScheduleService';
+import { MarketService } from '../../services/MarketService';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+
+export class ListingItemTemplateScheduleCommand extends BaseCommand implements RpcCommandInterface<resources.ListingItemTemplateSchedule> {
+
+    public static CANCEL = 'cancel';
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) private listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateScheduleService)
+        private listingItemTemplateScheduleService: ListingItemTemplateScheduleService,
+        @inject(Types.Service) @named(Targets.Service.MarketService) private marketService: MarketService
+    ) {
+        super(Commands.TEMPLATE_SCHEDULE);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplate, resources.ListingItemTemplate (set in validate)
+     *  [1]: postAt, number, or 'cancel'
+     *  [2]: daysRetention, number
+     *  [3]: market, resources.Market (set in validate)
+     *  [4]: repostBeforeExpiry, number, optional
+     *  [5]: feeBudget, number, optional
+     *
+     * @param data
+     * @returns {Promise<resources.ListingItemTemplateSchedule>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<resources.ListingItemTemplateSchedule> {
+
+        const listingItemTemplate: resources.ListingItemTemplate = data.params[0];
+
+        if (data.params[1] === ListingItemTemplateScheduleCommand.CANCEL) {
+            const schedule: resources.ListingItemTemplateSchedule = await this.listingItemTemplateScheduleService
+                .findOneByListingItemTemplateId(listingItemTemplate.id, false)
+                .then(value => value.toJSON());
+            return await this.listingItemTemplateScheduleService.cancel(schedule).then(value => value.toJSON());
+        }
+
+        const postAt: number = data.params[1];
+        const daysRetention: number = data.params[2];
+        const market: resources.Market = data.params[3];
+        const repostBeforeExpiry: number = data.params[4];
+        const feeBudget: number = data.params[5];
+
+        return await this.listingItemTemplateScheduleService.schedule(listingItemTemplate, market, postAt, daysRetention,
+            repostBeforeExpiry, feeBudget).then(value => value.toJSON());
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplateId
+     *  [1]: postAt, timestamp in milliseconds or a date string, 0 to post right away, or 'cancel'
+     *  [2]: daysRetention
+     *  [3]: marketId
+     *  [4]: repostBeforeExpiry, hours, optional
+     *  [5]: feeBudget, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemTemplateId');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('postAt');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('listingItemTemplateId', 'number');
+        }
+
+        data.params[0] = await this.listingItemTemplateService.findOne(data.params[0], false)
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItemTemplate');
+            });
+
+        if (data.params[1] === ListingItemTemplateScheduleCommand.CANCEL) {
+            await this.listingItemTemplateScheduleService.findOneByListingItemTemplateId(data.params[0].id, false)
+                .catch(reason => {
+                    throw new ModelNotFoundException('ListingItemTemplateSchedule');
+                });
+            return data;
+        }
+
+        if (data.params.length < 3) {
+            throw new MissingParamException('daysRetention');
+        } else if (data.params.length < 4) {
+            throw new MissingParamException('marketId');
+        }
+
+        const postAt = typeof data.params[1] === 'string' ? Date.parse(data.params[1]) : data.params[1];
+        if (typeof postAt !== 'number' || isNaN(postAt) || postAt < 0) {
+            throw new InvalidParamException('postAt', 'timestamp');
+        }
+        data.params[1] = postAt;
+
+        const daysRetention = data.params[2];
+        if (typeof daysRetention !== 'number' || daysRetention <= 0) {
+            throw new InvalidParamException('daysRetention', 'number');
+        }
+
+        if (typeof data.params[3] !== 'number') {
+            throw new InvalidParamException('marketId', 'number');
+        }
+
+        data.params[3] = await this.marketService.findOne(data.params[3], false)
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('Market');
+            });
+
+        // the ListingItem has to be reposted while it's still alive
+        const repostBeforeExpiry = data.params[4];
+        if (repostBeforeExpiry !== undefined
+            && (typeof repostBeforeExpiry !== 'number' || repostBeforeExpiry <= 0 || repostBeforeExpiry >= daysRetention * 24)) {
+            throw new InvalidParamException('repostBeforeExpiry', 'number');
+        }
+
+        const feeBudget = data.params[5];
+        if (feeBudget !== undefined && (typeof feeBudget !== 'number' || feeBudget <= 0)) {
+            throw new InvalidParamException('feeBudget', 'number');
+        }
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemTemplateId> (<postAt> <daysRetention> <marketId> [<repostBeforeExpiry> [<feeBudget>]]|cancel) ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <listingItemTemplateId>  - Numeric - The ID of the ListingItemTemplate. \n'
+            + '    <postAt>                 - Numeric or String - When to post the template, timestamp in milliseconds or \n'
+            + '                                a date, 0 to post it as soon as possible. \n'
+            + '    <daysRetention>          - Numeric - Days the posted ListingItem will be retained by the network. \n'
+            + '    <marketId>               - Numeric - The ID of the Market to post the template to. \n'
+            + '    <repostBeforeExpiry>     - [optional] Numeric - Repost the template this many hours before the posted \n'
+            + '                                ListingItem expires, for as long as the fee budget lasts. \n'
+            + '    <feeBudget>              - [optional] Numeric - The max total amount of fees to spend on posting the template. \n'
+            + '    cancel                   - Stop posting the template. ';
+    }
+
+    public description(): string {
+        return 'Schedule the ListingItemTemplate to be posted later, and optionally reposted before the posted ListingItem expires.';
+    }
+
+    public example(): string {
+        return 'template ' + this.getName() + ' 1 "2019-03-01T12:00:00Z" 7 1 12 0.1';
+    }
+}
@@ -0,0 +1,100 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { SearchOrder } from '../../enums/SearchOrder';
+import { Commands } from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ListingItemTemplateSchedule } from '../../models/ListingItemTemplateSchedule';
+import { ListingItemTemplateScheduleService } from '../../services/ListingItemTemplateScheduleService';
+import { ListingItemTemplateScheduleSearchParams } from '../../requests/ListingItemTemplateScheduleSearchParams';
+import { ListingItemTemplateScheduleStatus } from '../../enums/ListingItemTemplateScheduleStatus';
+
+export class ListingItemTemplateSchedulesCommand extends BaseCommand implements RpcCommandInterface<Bookshelf.Collection<ListingItemTemplateSchedule>> {
+
+    public log: LoggerType;
+    private DEFAULT_PAGE_LIMIT = 10;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateScheduleService)
+        private listingItemTemplateScheduleService: ListingItemTemplateScheduleService
+    ) {
+        super(Commands.TEMPLATE_SCHEDULES);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: status, ListingItemTemplateScheduleStatus, * for all, default=*, optional
+     *  [1]: page, number, optional
+     *  [2]: pageLimit, number, default=10, optional
+     *
+     * @param data
+     * @returns {Promise<Bookshelf.Collection<ListingItemTemplateSchedule>>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<Bookshelf.Collection<ListingItemTemplateSchedule>> {
+
+        const status = data.params.length > 0 ? data.params[0] : '*';
+
+        const searchParams = {
+            status: status !== '*' ? status : undefined,
+            page: data.params.length > 1 ? data.params[1] : 0,
+            pageLimit: data.params.length > 2 ? data.params[2] : this.DEFAULT_PAGE_LIMIT,
+            order: SearchOrder.ASC
+        } as ListingItemTemplateScheduleSearchParams;
+
+        return await this.listingItemTemplateScheduleService.searchBy(searchParams);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: status, ListingItemTemplateScheduleStatus, * for all, optional
+     *  [1]: page, number, optional
+     *  [2]: pageLimit, number, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length > 0 && data.params[0] !== '*' && !ListingItemTemplateScheduleStatus[data.params[0]]) {
+            throw new InvalidParamException('status', 'ListingItemTemplateScheduleStatus');
+        } else if (data.params.length > 1 && typeof data.params[1] !== 'number') {
+            throw new InvalidParamException('page', 'number');
+        } else if (data.params.length > 2 && typeof data.params[2] !== 'number') {
+            throw new InvalidParamException('pageLimit', 'number');
+        }
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' [<status> [<page> [<pageLimit>]]] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <status>                 - [optional] ENUM{SCHEDULED, POSTED, BUDGET_EXCEEDED, FAILED, CANCELLED} \n'
+            + '                                or * for all, default *. \n'
+            + '    <page>                   - [optional] Numeric - The number page we want to view. \n'
+            + '    <pageLimit>              - [optional] Numeric - The number of results per page. \n';
+    }
+
+    public description(): string {
+        return 'List the posting schedules of the ListingItemTemplates, the next one to be posted first.';
+    }
+
+    public example(): string {
+        return 'template ' + this.getName() + ' SCHEDULED 0 10';
+    }
+}
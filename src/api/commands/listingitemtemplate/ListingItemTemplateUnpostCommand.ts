@@ -0,0 +1,121 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { ListingItemService } from '../../services/ListingItemService';
+import { ListingItemActionService } from '../../services/ListingItemActionService';
+import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands } from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MessageException } from '../../exceptions/MessageException';
+import { SmsgSendResponse } from '../../responses/SmsgSendResponse';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+
+export class ListingItemTemplateUnpostCommand extends BaseCommand implements RpcCommandInterface<SmsgSendResponse[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemService) public listingItemService: ListingItemService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemActionService) public listingItemActionService: ListingItemActionService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) public listingItemTemplateService: ListingItemTemplateService
+    ) {
+        super(Commands.TEMPLATE_UNPOST);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * cancels the ListingItems posted from the ListingItemTemplate, the same way as item cancel does
+     *
+     * data.params[]:
+     *  [0]: listingItems, resources.ListingItem[] (set in validate)
+     *
+     * @param data
+     * @returns {Promise<SmsgSendResponse[]>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<SmsgSendResponse[]> {
+        const listingItems: resources.ListingItem[] = data.params[0];
+
+        const responses: SmsgSendResponse[] = [];
+        for (const listingItem of listingItems) {
+            // the cancel message only needs to be retained as long as the ListingItem
+            const daysRetention = Math.ceil((listingItem.expiredAt - new Date().getTime()) / 1000 / 60 / 60 / 24);
+            responses.push(await this.listingItemActionService.cancel(listingItem, daysRetention));
+        }
+        return responses;
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplateId
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemTemplateId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('listingItemTemplateId', 'number');
+        }
+
+        const listingItemTemplate: resources.ListingItemTemplate = await this.listingItemTemplateService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItemTemplate');
+            });
+
+        // the ListingItems which are still on the marketplace
+        const postedListingItems = _.filter(listingItemTemplate.ListingItems || [], (listingItem: resources.ListingItem) => {
+            return !listingItem.removed && listingItem.expiredAt > new Date().getTime();
+        });
+
+        if (_.isEmpty(postedListingItems)) {
+            throw new MessageException('ListingItemTemplate has no posted ListingItems.');
+        }
+
+        // cancelling needs the Market and the Bids of the ListingItems
+        const listingItems: resources.ListingItem[] = [];
+        for (const postedListingItem of postedListingItems) {
+            const listingItem: resources.ListingItem = await this.listingItemService.findOne(postedListingItem.id)
+                .then(value => value.toJSON());
+            listingItems.push(listingItem);
+        }
+
+        data.params[0] = listingItems;
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemTemplateId> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <listingItemTemplateId>  - Numeric - The ID of the ListingItemTemplate whose ListingItems we want to cancel. \n';
+    }
+
+    public description(): string {
+        return 'Cancel the ListingItems posted from the ListingItemTemplate, removing them from the marketplace and rejecting the open bids.';
+    }
+
+    public example(): string {
+        return 'template ' + this.getName() + ' 1';
+    }
+}
@@ -0,0 +1,91 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands } from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { ListingItemTemplateService } from '../../services/ListingItemTemplateService';
+import { ListingItemTemplateValidationService } from '../../services/ListingItemTemplateValidationService';
+import { ListingItemTemplateValidationResponse } from '../../responses/ListingItemTemplateValidationResponse';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+
+export class ListingItemTemplateValidateCommand extends BaseCommand implements RpcCommandInterface<ListingItemTemplateValidationResponse> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) private listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateValidationService)
+        private listingItemTemplateValidationService: ListingItemTemplateValidationService
+    ) {
+        super(Commands.TEMPLATE_VALIDATE);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplate, resources.ListingItemTemplate (set in validate)
+     *
+     * @param data
+     * @returns {Promise<ListingItemTemplateValidationResponse>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<ListingItemTemplateValidationResponse> {
+        const listingItemTemplate: resources.ListingItemTemplate = data.params[0];
+        return await this.listingItemTemplateValidationService.validate(listingItemTemplate);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: listingItemTemplateId
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('listingItemTemplateId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('listingItemTemplateId', 'number');
+        }
+
+        data.params[0] = await this.listingItemTemplateService.findOne(data.params[0], true)
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('ListingItemTemplate');
+            });
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <listingItemTemplateId> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <listingItemTemplateId>  - Numeric - The ID of the ListingItemTemplate. ';
+    }
+
+    public description(): string {
+        return 'Check the ListingItemTemplate before posting it. Returns the errors, which prevent posting the template, '
+            + 'and the warnings about what is most likely a mistake.';
+    }
+
+    public example(): string {
+        return 'template ' + this.getName() + ' 1';
+    }
+}
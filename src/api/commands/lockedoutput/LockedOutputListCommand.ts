@@ -0,0 +1,81 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { LockedOutputService } from '../../services/LockedOutputService';
+import { LockedOutputStatus } from '../../enums/LockedOutputStatus';
+import { LockedOutputStatusResponse } from '../../responses/LockedOutputStatusResponse';
+
+export class LockedOutputListCommand extends BaseCommand implements RpcCommandInterface<LockedOutputStatusResponse[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.LockedOutputService) private lockedOutputService: LockedOutputService
+    ) {
+        super(Commands.LOCKEDOUTPUT_LIST);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: status, LockedOutputStatus, * for all, default=*, optional
+     *
+     * @param data
+     * @returns {Promise<LockedOutputStatusResponse[]>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<LockedOutputStatusResponse[]> {
+
+        const status = data.params.length > 0 ? data.params[0] : '*';
+
+        // dry run, nothing is changed
+        const responses: LockedOutputStatusResponse[] = await this.lockedOutputService.reconcile(true);
+        return status !== '*' ? _.filter(responses, response => response.status === status) : responses;
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: status, LockedOutputStatus, * for all, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length > 0 && data.params[0] !== '*' && !LockedOutputStatus[data.params[0]]) {
+            throw new InvalidParamException('status', 'LockedOutputStatus');
+        }
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' [<status>] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <status>                 - [optional] ENUM{LOCKED, NOT_LOCKED, SPENT, BID_CLOSED, BID_NOT_FOUND} \n'
+            + '                                or * for all, default *. \n';
+    }
+
+    public description(): string {
+        return 'List the outputs locked for the bids and their status in the wallet, without changing anything.';
+    }
+
+    public example(): string {
+        return 'lockedoutput ' + this.getName() + ' NOT_LOCKED';
+    }
+}
@@ -0,0 +1,63 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { LockedOutputService } from '../../services/LockedOutputService';
+import { LockedOutputStatus } from '../../enums/LockedOutputStatus';
+import { LockedOutputStatusResponse } from '../../responses/LockedOutputStatusResponse';
+
+export class LockedOutputReconcileCommand extends BaseCommand implements RpcCommandInterface<LockedOutputStatusResponse[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.LockedOutputService) private lockedOutputService: LockedOutputService
+    ) {
+        super(Commands.LOCKEDOUTPUT_RECONCILE);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  none
+     *
+     * @param data
+     * @returns {Promise<LockedOutputStatusResponse[]>} the inconsistent outputs and whether they were reconciled
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<LockedOutputStatusResponse[]> {
+        const responses: LockedOutputStatusResponse[] = await this.lockedOutputService.reconcile();
+        return _.filter(responses, response => response.status !== LockedOutputStatus.LOCKED);
+    }
+
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description();
+    }
+
+    public description(): string {
+        return 'Lock the outputs of the open bids the wallet no longer has locked and release the spent outputs and '
+            + 'the outputs of closed bids. Returns the outputs which needed reconciling.';
+    }
+
+    public example(): string {
+        return 'lockedoutput ' + this.getName();
+    }
+}
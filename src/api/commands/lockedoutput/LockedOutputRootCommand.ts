@@ -0,0 +1,42 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { inject, named } from 'inversify';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { BaseCommand } from '../BaseCommand';
+import { RpcCommandFactory } from '../../factories/RpcCommandFactory';
+import { Commands } from '../CommandEnumType';
+
+export class LockedOutputRootCommand extends BaseCommand implements RpcCommandInterface<void> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        super(Commands.LOCKEDOUTPUT_ROOT);
+        this.log = new Logger(__filename);
+    }
+
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest, rpcCommandFactory: RpcCommandFactory): Promise<any> {
+        return await this.executeNext(data, rpcCommandFactory);
+    }
+
+    public usage(): string {
+        return this.getName() + ' (list|reconcile)  -  ' + this.description();
+    }
+
+    public help(): string {
+        return this.usage();
+    }
+
+    public description(): string {
+        return 'Commands for checking the outputs locked for the bids against the wallet.';
+    }
+}
@@ -13,6 +13,7 @@ import { RpcCommandInterface } from '../RpcCommandInterface';
 import { MarketCreateRequest } from '../../requests/MarketCreateRequest';
 import { Commands} from '../CommandEnumType';
 import { BaseCommand } from '../BaseCommand';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
 
 export class MarketAddCommand extends BaseCommand implements RpcCommandInterface<Market> {
 
@@ -31,6 +32,8 @@ export class MarketAddCommand extends BaseCommand implements RpcCommandInterface
      *  [0]: name
      *  [1]: private_key
      *  [2]: address
+     *  [3]: bidExpiration, hours, optional
+     *  [4]: orderExpiration, hours, optional
      *
      * @param data
      * @returns {Promise<Market>}
@@ -40,19 +43,45 @@ export class MarketAddCommand extends BaseCommand implements RpcCommandInterface
         return this.marketService.create({
             name : data.params[0],
             private_key : data.params[1],
-            address : data.params[2]
+            address : data.params[2],
+            bid_expiration : data.params[3],
+            order_expiration : data.params[4]
         } as MarketCreateRequest);
     }
 
+    /**
+     * data.params[]:
+     *  [0]: name
+     *  [1]: private_key
+     *  [2]: address
+     *  [3]: bidExpiration, hours, optional
+     *  [4]: orderExpiration, hours, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length > 3 && (typeof data.params[3] !== 'number' || data.params[3] <= 0)) {
+            throw new InvalidParamException('bidExpiration', 'number');
+        } else if (data.params.length > 4 && (typeof data.params[4] !== 'number' || data.params[4] <= 0)) {
+            throw new InvalidParamException('orderExpiration', 'number');
+        }
+
+        return data;
+    }
+
     public usage(): string {
-        return this.getName() + ' <name> <privateKey> <address> ';
+        return this.getName() + ' <name> <privateKey> <address> [<bidExpiration> [<orderExpiration>]] ';
     }
 
     public help(): string {
         return this.usage() + ' -  ' + this.description() + ' \n'
             + '    <name>                   - String - The unique name of the market being created. \n'
             + '    <privateKey>             - String - The private key of the market being creted. \n'
-            + '    <address>                - String - [TODO] ';
+            + '    <address>                - String - [TODO] \n'
+            + '    <bidExpiration>          - [optional] Numeric - Hours after which Bids which haven\'t been accepted are cancelled. \n'
+            + '    <orderExpiration>        - [optional] Numeric - Hours after which Orders waiting for the escrow are expired. ';
     }
 
     public description(): string {
@@ -71,7 +71,8 @@ export class OrderItemStatusCommand extends BaseCommand implements RpcCommandInt
         for (const listingItem of listingItems) {
             for (const bid of listingItem.Bids) {
                 if (!buyer || buyer === '*' || bid.bidder === buyer) {
-                    const orderItemStatus = new OrderItemStatus(listingItem.hash, bid.action, bid.OrderItem.status, bid.bidder, listingItem.seller);
+                    const orderItemStatus = new OrderItemStatus(listingItem.hash, bid.action, bid.OrderItem.status, bid.bidder, listingItem.seller,
+                        bid.OrderItem.EscrowTransactions, bid.OrderItem.OrderItemObjects);
                     orderItemStatuses.push(orderItemStatus);
                 }
             }
@@ -140,7 +141,8 @@ export class OrderItemStatusCommand extends BaseCommand implements RpcCommandInt
     // tslint:enable:max-line-length
 
     public description(): string {
-        return 'Fetch statuses of OrderItems specified by given searchBy params. Shows the first 100 orders.';
+        return 'Fetch statuses of OrderItems specified by given searchBy params, including their escrow transactions and shipment details. '
+            + 'Shows the first 100 orders.';
     }
 
     public example(): string {
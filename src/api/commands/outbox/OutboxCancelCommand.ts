@@ -0,0 +1,87 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { OutboxMessage } from '../../models/OutboxMessage';
+import { OutboxMessageService } from '../../services/OutboxMessageService';
+
+export class OutboxCancelCommand extends BaseCommand implements RpcCommandInterface<OutboxMessage> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.OutboxMessageService) private outboxMessageService: OutboxMessageService
+    ) {
+        super(Commands.OUTBOX_CANCEL);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: outboxMessage, resources.OutboxMessage (set in validate)
+     *
+     * @param data
+     * @returns {Promise<OutboxMessage>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<OutboxMessage> {
+        const outboxMessage: resources.OutboxMessage = data.params[0];
+        return await this.outboxMessageService.cancel(outboxMessage);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: outboxMessageId
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('outboxMessageId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('outboxMessageId', 'number');
+        }
+
+        data.params[0] = await this.outboxMessageService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('OutboxMessage');
+            });
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <outboxMessageId> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <outboxMessageId>        - Numeric - The ID of the outgoing message we want to cancel. \n';
+    }
+
+    public description(): string {
+        return 'Cancel an outgoing message which has not been sent yet.';
+    }
+
+    public example(): string {
+        return 'outbox ' + this.getName() + ' 1';
+    }
+}
@@ -0,0 +1,99 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { SearchOrder } from '../../enums/SearchOrder';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { OutboxMessage } from '../../models/OutboxMessage';
+import { OutboxMessageService } from '../../services/OutboxMessageService';
+import { OutboxMessageSearchParams } from '../../requests/OutboxMessageSearchParams';
+import { OutboxMessageStatus } from '../../enums/OutboxMessageStatus';
+
+export class OutboxListCommand extends BaseCommand implements RpcCommandInterface<Bookshelf.Collection<OutboxMessage>> {
+
+    public log: LoggerType;
+    private DEFAULT_PAGE_LIMIT = 10;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.OutboxMessageService) private outboxMessageService: OutboxMessageService
+    ) {
+        super(Commands.OUTBOX_LIST);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: status, OutboxMessageStatus, * for all, default=PENDING, optional
+     *  [1]: page, number, optional
+     *  [2]: pageLimit, number, default=10, optional
+     *
+     * @param data
+     * @returns {Promise<Bookshelf.Collection<OutboxMessage>>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<Bookshelf.Collection<OutboxMessage>> {
+
+        const status = data.params.length > 0 ? data.params[0] : OutboxMessageStatus.PENDING;
+
+        const searchParams = {
+            status: status !== '*' ? status : undefined,
+            page: data.params.length > 1 ? data.params[1] : 0,
+            pageLimit: data.params.length > 2 ? data.params[2] : this.DEFAULT_PAGE_LIMIT,
+            order: SearchOrder.ASC
+        } as OutboxMessageSearchParams;
+
+        return await this.outboxMessageService.searchBy(searchParams);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: status, OutboxMessageStatus, * for all, optional
+     *  [1]: page, number, optional
+     *  [2]: pageLimit, number, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length > 0 && data.params[0] !== '*' && !OutboxMessageStatus[data.params[0]]) {
+            throw new InvalidParamException('status', 'OutboxMessageStatus');
+        } else if (data.params.length > 1 && typeof data.params[1] !== 'number') {
+            throw new InvalidParamException('page', 'number');
+        } else if (data.params.length > 2 && typeof data.params[2] !== 'number') {
+            throw new InvalidParamException('pageLimit', 'number');
+        }
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' [<status> [<page> [<pageLimit>]]] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <status>                 - [optional] ENUM{PENDING, SENT, FAILED, CANCELLED} or * for all, \n'
+            + '                                default PENDING. \n'
+            + '    <page>                   - [optional] Numeric - The number page we want to view. \n'
+            + '    <pageLimit>              - [optional] Numeric - The number of results per page. \n';
+    }
+
+    public description(): string {
+        return 'List the outgoing messages, by default the ones still waiting to be sent.';
+    }
+
+    public example(): string {
+        return 'outbox ' + this.getName() + ' FAILED 0 10';
+    }
+}
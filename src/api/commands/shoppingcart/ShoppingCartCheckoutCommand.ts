@@ -0,0 +1,192 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { BaseCommand } from '../BaseCommand';
+import { Commands } from '../CommandEnumType';
+import { ShoppingCartService } from '../../services/ShoppingCartService';
+import { ShoppingCartItemService } from '../../services/ShoppingCartItemService';
+import { ListingItemService } from '../../services/ListingItemService';
+import { ProfileService } from '../../services/ProfileService';
+import { BidActionService } from '../../services/BidActionService';
+import { IdValuePair } from '../../messages/BidMessage';
+import { ShoppingCartCheckoutResult } from '../../responses/ShoppingCartCheckoutResult';
+import { BidDataValue } from '../../enums/BidDataValue';
+import { MessageException } from '../../exceptions/MessageException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+
+export class ShoppingCartCheckoutCommand extends BaseCommand implements RpcCommandInterface<ShoppingCartCheckoutResult[]> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.ShoppingCartService) private shoppingCartService: ShoppingCartService,
+        @inject(Types.Service) @named(Targets.Service.ShoppingCartItemService) private shoppingCartItemService: ShoppingCartItemService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemService) private listingItemService: ListingItemService,
+        @inject(Types.Service) @named(Targets.Service.ProfileService) private profileService: ProfileService,
+        @inject(Types.Service) @named(Targets.Service.BidActionService) private bidActionService: BidActionService,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        super(Commands.SHOPPINGCART_CHECKOUT);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * Bids for all the items in the shopping cart. Items are grouped by seller and a single combined
+     * Bid is sent to each seller, the seller accepts or rejects the whole Order.
+     *
+     * the result is reported for each seller, only the items which were sent are removed from the cart,
+     * so that the checkout can be retried for the rest.
+     *
+     * data.params[]:
+     *  [0]: cart, resources.ShoppingCart (set in validate)
+     *  [1]: address, resources.Address (set in validate)
+     *  [2]: profile, resources.Profile (set in validate)
+     *
+     * @param data
+     * @returns {Promise<ShoppingCartCheckoutResult[]>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<ShoppingCartCheckoutResult[]> {
+
+        const cart: resources.ShoppingCart = data.params[0];
+        const address: resources.Address = data.params[1];
+        const profile: resources.Profile = data.params[2];
+
+        const cartItems: resources.ShoppingCartItem[] = await this.shoppingCartItemService.findAllByCartId(cart.id)
+            .then(value => value.toJSON());
+
+        const listingItems: resources.ListingItem[] = [];
+        for (const cartItem of cartItems) {
+            const listingItem: resources.ListingItem = await this.listingItemService.findOne(cartItem.ListingItem.id)
+                .then(value => value.toJSON());
+            listingItems.push(listingItem);
+        }
+
+        const additionalParams = this.getShippingAddressParams(address);
+
+        // one combined bid for each seller, a failing seller doesn't prevent sending the bids to the others
+        const results: ShoppingCartCheckoutResult[] = [];
+        const itemsBySeller = _.groupBy(listingItems, (listingItem: resources.ListingItem) => listingItem.seller);
+        for (const seller of Object.keys(itemsBySeller)) {
+            const sellersItems: resources.ListingItem[] = itemsBySeller[seller];
+            const result = {
+                seller,
+                listingItemHashes: _.map(sellersItems, listingItem => listingItem.hash)
+            } as ShoppingCartCheckoutResult;
+
+            try {
+                if (_.some(sellersItems, listingItem => new Date().getTime() > listingItem.expiredAt)) {
+                    throw new MessageException('An item in your basket has expired!');
+                }
+                result.response = await this.bidActionService.send(sellersItems[0], profile, additionalParams, sellersItems.slice(1));
+            } catch (reason) {
+                this.log.error('Failed to send the Bid to ' + seller + ': ', reason.message);
+                result.error = reason.message;
+                results.push(result);
+                continue;
+            }
+
+            // the bid was saved and sent or left in the outbox to be retried, so the items are removed from the cart
+            for (const listingItem of sellersItems) {
+                const cartItem = _.find(cartItems, (item: resources.ShoppingCartItem) => item.ListingItem.id === listingItem.id);
+                if (cartItem) {
+                    await this.shoppingCartItemService.destroy(cartItem.id);
+                }
+            }
+            results.push(result);
+        }
+
+        return results;
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: cartId
+     *  [1]: addressId (from profile shipping addresses)
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('cartId');
+        } else if (data.params.length < 2) {
+            throw new MissingParamException('addressId');
+        }
+
+        if (typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('cartId', 'number');
+        } else if (typeof data.params[1] !== 'number') {
+            throw new InvalidParamException('addressId', 'number');
+        }
+
+        const cart: resources.ShoppingCart = await this.shoppingCartService.findOne(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('ShoppingCart');
+            });
+
+        if (_.isEmpty(cart.ShoppingCartItems)) {
+            throw new MessageException('ShoppingCart is empty.');
+        }
+
+        // the address needs to belong to the profile owning the cart
+        const profile: resources.Profile = await this.profileService.findOne(cart.Profile.id)
+            .then(value => value.toJSON());
+
+        const address = _.find(profile.ShippingAddresses, (addr: resources.Address) => {
+            return addr.id === data.params[1];
+        });
+        if (!address) {
+            throw new ModelNotFoundException('Address');
+        }
+
+        data.params[0] = cart;
+        data.params[1] = address;
+        data.params[2] = profile;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <cartId> <addressId> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <cartId>                 - The Id of the shopping cart we want to checkout. \n'
+            + '    <addressId>              - The Id of the shipping address of the cart owners profile. ';
+    }
+
+    public description(): string {
+        return 'Send Bids for all the items in the shopping cart, items from the same seller are sent as a single combined Bid.';
+    }
+
+    public example(): string {
+        return 'cart ' + this.getName() + ' 1 1 ';
+    }
+
+    private getShippingAddressParams(address: resources.Address): IdValuePair[] {
+        return [
+            {id: BidDataValue.SHIPPING_ADDRESS_FIRST_NAME, value: address.firstName ? address.firstName : ''},
+            {id: BidDataValue.SHIPPING_ADDRESS_LAST_NAME, value: address.lastName ? address.lastName : ''},
+            {id: BidDataValue.SHIPPING_ADDRESS_ADDRESS_LINE1, value: address.addressLine1},
+            {id: BidDataValue.SHIPPING_ADDRESS_ADDRESS_LINE2, value: address.addressLine2 ? address.addressLine2 : ''},
+            {id: BidDataValue.SHIPPING_ADDRESS_CITY, value: address.city},
+            {id: BidDataValue.SHIPPING_ADDRESS_STATE, value: address.state},
+            {id: BidDataValue.SHIPPING_ADDRESS_ZIP_CODE, value: address.zipCode},
+            {id: BidDataValue.SHIPPING_ADDRESS_COUNTRY, value: address.country}
+        ] as IdValuePair[];
+    }
+}
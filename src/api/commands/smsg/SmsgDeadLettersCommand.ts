@@ -0,0 +1,93 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { SearchOrder } from '../../enums/SearchOrder';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { SmsgMessage } from '../../models/SmsgMessage';
+import { SmsgMessageService } from '../../services/SmsgMessageService';
+import { SmsgMessageSearchParams } from '../../requests/SmsgMessageSearchParams';
+import { SmsgMessageStatus } from '../../enums/SmsgMessageStatus';
+
+export class SmsgDeadLettersCommand extends BaseCommand implements RpcCommandInterface<Bookshelf.Collection<SmsgMessage>> {
+
+    public log: LoggerType;
+    private DEFAULT_PAGE_LIMIT = 10;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.SmsgMessageService) private smsgMessageService: SmsgMessageService
+    ) {
+        super(Commands.SMSG_DEADLETTERS);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: page, number, optional
+     *  [1]: pageLimit, number, default=10, optional
+     *
+     * @param data
+     * @returns {Promise<Bookshelf.Collection<SmsgMessage>>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<Bookshelf.Collection<SmsgMessage>> {
+
+        const searchParams = {
+            page: data.params.length > 0 ? data.params[0] : 0,
+            pageLimit: data.params.length > 1 ? data.params[1] : this.DEFAULT_PAGE_LIMIT,
+            order: SearchOrder.ASC,
+            orderByColumn: 'received',
+            status: SmsgMessageStatus.DEAD_LETTER,
+            age: 0
+        } as SmsgMessageSearchParams;
+
+        return await this.smsgMessageService.searchBy(searchParams);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: page, number, optional
+     *  [1]: pageLimit, number, optional
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length > 0 && typeof data.params[0] !== 'number') {
+            throw new InvalidParamException('page', 'number');
+        } else if (data.params.length > 1 && typeof data.params[1] !== 'number') {
+            throw new InvalidParamException('pageLimit', 'number');
+        }
+
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' [<page> [<pageLimit>]] ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <page>                   - [optional] Numeric - The number page we want to view. \n'
+            + '    <pageLimit>              - [optional] Numeric - The number of results per page. \n';
+    }
+
+    public description(): string {
+        return 'List the SmsgMessages which could not be processed after the maximum number of attempts.';
+    }
+
+    public example(): string {
+        return 'smsg ' + this.getName() + ' 0 10';
+    }
+}
@@ -0,0 +1,98 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { validate, request } from '../../../core/api/Validate';
+import { Logger as LoggerType } from '../../../core/Logger';
+import { Types, Core, Targets } from '../../../constants';
+import { RpcRequest } from '../../requests/RpcRequest';
+import { RpcCommandInterface } from '../RpcCommandInterface';
+import { Commands} from '../CommandEnumType';
+import { BaseCommand } from '../BaseCommand';
+import { MessageException } from '../../exceptions/MessageException';
+import { MissingParamException } from '../../exceptions/MissingParamException';
+import { InvalidParamException } from '../../exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../exceptions/ModelNotFoundException';
+import { SmsgMessage } from '../../models/SmsgMessage';
+import { SmsgMessageService } from '../../services/SmsgMessageService';
+import { SmsgMessageStatus } from '../../enums/SmsgMessageStatus';
+
+export class SmsgRetryCommand extends BaseCommand implements RpcCommandInterface<SmsgMessage> {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.SmsgMessageService) private smsgMessageService: SmsgMessageService
+    ) {
+        super(Commands.SMSG_RETRY);
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * requeues the SmsgMessage for processing, resetting its attempt counter
+     *
+     * data.params[]:
+     *  [0]: smsgMessage, resources.SmsgMessage (set in validate)
+     *
+     * @param data
+     * @returns {Promise<SmsgMessage>}
+     */
+    @validate()
+    public async execute( @request(RpcRequest) data: RpcRequest): Promise<SmsgMessage> {
+        const smsgMessage: resources.SmsgMessage = data.params[0];
+        smsgMessage.attempts = 0;
+        smsgMessage.nextRetry = Date.now();
+        return await this.smsgMessageService.updateSmsgMessageStatus(smsgMessage, SmsgMessageStatus.NEW);
+    }
+
+    /**
+     * data.params[]:
+     *  [0]: msgid
+     *
+     * @param {RpcRequest} data
+     * @returns {Promise<RpcRequest>}
+     */
+    public async validate(data: RpcRequest): Promise<RpcRequest> {
+
+        if (data.params.length < 1) {
+            throw new MissingParamException('msgid');
+        }
+
+        if (typeof data.params[0] !== 'string') {
+            throw new InvalidParamException('msgid', 'string');
+        }
+
+        const smsgMessage: resources.SmsgMessage = await this.smsgMessageService.findOneByMsgId(data.params[0])
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new ModelNotFoundException('SmsgMessage');
+            });
+
+        if (smsgMessage.status !== SmsgMessageStatus.DEAD_LETTER && smsgMessage.status !== SmsgMessageStatus.PROCESSING_FAILED) {
+            throw new MessageException('Only messages with status DEAD_LETTER or PROCESSING_FAILED can be retried.');
+        }
+
+        data.params[0] = smsgMessage;
+        return data;
+    }
+
+    public usage(): string {
+        return this.getName() + ' <msgid> ';
+    }
+
+    public help(): string {
+        return this.usage() + ' -  ' + this.description() + ' \n'
+            + '    <msgid>                  - String - The msgid of the SmsgMessage we want to retry. \n';
+    }
+
+    public description(): string {
+        return 'Requeue a dead lettered or failed SmsgMessage for processing.';
+    }
+
+    public example(): string {
+        return 'smsg ' + this.getName() + ' 000000005c3f1b3d09d4c1b9a3e2f2e6e8ae6e0b5cf8f1b4d1c5f3e2';
+    }
+}
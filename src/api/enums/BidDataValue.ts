@@ -17,9 +17,26 @@ export enum BidDataValue {
 
     SELLER_PUBKEY = 'sellerPubkey',
     SELLER_OUTPUTS = 'sellerOutputs',
+    SELLER_RELEASE_ADDRESS = 'sellerAddress',
 
     RAW_TX = 'rawtx',
     ORDER_HASH = 'orderHash',
+    TOTAL_PRICE = 'totalPrice',
+    BUNDLE_ITEMS = 'bundleItems',
+
+    // MPA_COUNTER, the countered price replaces the ListingItems price
+    COUNTER_BASE_PRICE = 'counterBasePrice',
+    COUNTER_SHIPPING_PRICE = 'counterShippingPrice',
+
+    // MPA_RELEASE, the shipment details sent by the seller
+    SHIPMENT_CARRIER = 'shipment.carrier',
+    SHIPMENT_TRACKING_NUMBER = 'shipment.trackingNumber',
+    SHIPMENT_SHIPPING_DATE = 'shipment.shippingDate',
+    SHIPMENT_EXPECTED_DELIVERY = 'shipment.expectedDelivery',
+
+    // MPA_DISPUTE, the arbiter has no Order of its own
+    BUYER_ADDRESS = 'buyer',
+    ESCROW_RATIO = 'escrowRatio',
 
     SHIPPING_ADDRESS_FIRST_NAME = 'shippingAddress.firstName',
     SHIPPING_ADDRESS_LAST_NAME = 'shippingAddress.lastName',
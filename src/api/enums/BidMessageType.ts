@@ -12,6 +12,7 @@ export enum BidMessageType {
     MPA_BID = 'MPA_BID',
     MPA_ACCEPT = 'MPA_ACCEPT',
     MPA_REJECT = 'MPA_REJECT',
-    MPA_CANCEL = 'MPA_CANCEL'
+    MPA_CANCEL = 'MPA_CANCEL',
+    MPA_COUNTER = 'MPA_COUNTER'
 
 }
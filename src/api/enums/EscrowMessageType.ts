@@ -12,6 +12,8 @@ export enum EscrowMessageType {
     MPA_LOCK = 'MPA_LOCK',
     MPA_REQUEST_REFUND = 'MPA_REQUEST_REFUND',
     MPA_REFUND = 'MPA_REFUND',
-    MPA_RELEASE = 'MPA_RELEASE'
+    MPA_RELEASE = 'MPA_RELEASE',
+    MPA_DISPUTE = 'MPA_DISPUTE',        // buyer or seller sends the evidence to the arbiter
+    MPA_ARBITRATE = 'MPA_ARBITRATE'     // arbiter sends the half signed release or refund to the buyer and the seller
 
 }
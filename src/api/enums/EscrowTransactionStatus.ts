@@ -0,0 +1,16 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * EscrowTransactionStatus
+ *
+ */
+
+export enum EscrowTransactionStatus {
+
+    PENDING = 'PENDING',            // broadcast, waiting for enough confirmations
+    CONFIRMED = 'CONFIRMED',        // has the required amount of confirmations
+    DOUBLE_SPENT = 'DOUBLE_SPENT',  // dropped from the mempool and the chain, the inputs were spent elsewhere
+    FAILED = 'FAILED'               // not found in the mempool or the chain within the timeout, no longer tracked
+}
@@ -0,0 +1,15 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * EscrowTransactionType
+ *
+ */
+
+export enum EscrowTransactionType {
+
+    LOCK = 'LOCK',          // the tx locking the funds into the escrow
+    RELEASE = 'RELEASE',    // the tx paying the escrow out to the seller
+    REFUND = 'REFUND'       // the tx paying the escrow back to the buyer
+}
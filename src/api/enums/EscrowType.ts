@@ -10,6 +10,7 @@
 export enum EscrowType {
 
     NOP = 'NOP',
-    MAD = 'MAD'
+    MAD = 'MAD',
+    ARBITRATED = 'ARBITRATED'    // 2-of-3 multisig, the arbiter can co-sign a release or a refund
 
 }
@@ -10,6 +10,8 @@
 export enum ListingItemMessageType {
 
     MP_ITEM_ADD = 'MP_ITEM_ADD',
+    MP_ITEM_UPDATE = 'MP_ITEM_UPDATE',
+    MP_ITEM_CANCEL = 'MP_ITEM_CANCEL',
     UNKNOWN = 'UNKNOWN'
 
 }
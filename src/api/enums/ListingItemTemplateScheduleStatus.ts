@@ -0,0 +1,17 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * ListingItemTemplateScheduleStatus
+ *
+ */
+
+export enum ListingItemTemplateScheduleStatus {
+
+    SCHEDULED = 'SCHEDULED',                // waiting to be posted, or reposted before the posted ListingItem expires
+    POSTED = 'POSTED',                      // posted, and not to be reposted
+    BUDGET_EXCEEDED = 'BUDGET_EXCEEDED',    // posting again would have spent more than the fee budget
+    FAILED = 'FAILED',                      // posting failed
+    CANCELLED = 'CANCELLED'                 // cancelled by the seller, or the posted ListingItem was removed
+}
@@ -0,0 +1,19 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * ListingItemTemplateValidationRule
+ *
+ */
+
+export enum ListingItemTemplateValidationRule {
+
+    REQUIRED_FIELDS = 'REQUIRED_FIELDS',
+    PRICE = 'PRICE',
+    ESCROW = 'ESCROW',
+    SHIPPING_DESTINATIONS = 'SHIPPING_DESTINATIONS',
+    IMAGES = 'IMAGES',
+    MESSAGE_SIZE = 'MESSAGE_SIZE'
+
+}
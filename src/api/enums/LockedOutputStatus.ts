@@ -0,0 +1,17 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * LockedOutputStatus
+ *
+ */
+
+export enum LockedOutputStatus {
+
+    LOCKED = 'LOCKED',                  // held by an open bid and locked in the wallet
+    NOT_LOCKED = 'NOT_LOCKED',          // held by an open bid, but not locked in the wallet, needs to be locked again
+    SPENT = 'SPENT',                    // already spent, no longer needed
+    BID_CLOSED = 'BID_CLOSED',          // the bid was cancelled or rejected, or the order has been completed
+    BID_NOT_FOUND = 'BID_NOT_FOUND'     // the bid holding the output no longer exists
+}
@@ -12,6 +12,10 @@ export enum OrderStatus {
     AWAITING_ESCROW = 'AWAITING_ESCROW',    // seller has accepted buyers bid, waiting for buyer payment
     ESCROW_LOCKED = 'ESCROW_LOCKED',        // buyer has paid, waiting for seller to ship
     SHIPPING = 'SHIPPING',                  // seller has shipped, waiting for buyer to receive
-    COMPLETE = 'COMPLETE'                   // order completed
+    COMPLETE = 'COMPLETE',                  // order completed
+    REFUND_REQUESTED = 'REFUND_REQUESTED',  // buyer has requested a refund, waiting for seller to sign it
+    REFUNDED = 'REFUNDED',                  // seller has signed the refund, escrow returned
+    EXPIRED = 'EXPIRED',                    // escrow wasn't locked in time, order cancelled
+    DISPUTED = 'DISPUTED'                   // buyer or seller has asked the arbiter to resolve the order
 
 }
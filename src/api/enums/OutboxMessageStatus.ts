@@ -0,0 +1,16 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * OutboxMessageStatus
+ *
+ */
+
+export enum OutboxMessageStatus {
+
+    PENDING = 'PENDING',        // waiting to be sent, or to be retried
+    SENT = 'SENT',              // sent to the network
+    FAILED = 'FAILED',          // retried too many times, gave up
+    CANCELLED = 'CANCELLED'     // cancelled by the user before it was sent
+}
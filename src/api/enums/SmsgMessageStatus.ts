@@ -16,5 +16,6 @@ export enum SmsgMessageStatus {
     PROCESSING_FAILED = 'PROCESSING_FAILED',    // processing failed, can't recover
     WAITING = 'WAITING',                        // these are waiting for some other messages
     IGNORED = 'IGNORED',                        // ignored for some reason, perhaps for expiration...
+    DEAD_LETTER = 'DEAD_LETTER',                // retried too many times, needs to be requeued manually
     DB_LOCKED = 'DB_LOCKED'                     // db was locked, retry asap TODO: get rid of this
 }
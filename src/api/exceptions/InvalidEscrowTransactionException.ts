@@ -0,0 +1,21 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * InvalidEscrowTransactionException
+ * ----------------------------------------
+ *
+ * This should be used when a transaction received from the
+ * other party doesn't match the agreed escrow, the message
+ * containing it should be rejected.
+ */
+
+import { Exception } from '../../core/api/Exception';
+
+
+export class InvalidEscrowTransactionException extends Exception {
+    constructor(reason: string) {
+        super(400, `Invalid escrow transaction, ${reason}`);
+    }
+}
@@ -57,6 +57,7 @@ export class ActionMessageFactory {
             case BidMessageType.MPA_ACCEPT:
             case BidMessageType.MPA_REJECT:
             case BidMessageType.MPA_CANCEL:
+            case BidMessageType.MPA_COUNTER:
                 const bidMessage = message as BidMessage;
                 const objects = this.getModelMessageObjects(bidMessage);
                 actionMessageCreateRequest = {
@@ -71,6 +72,8 @@ export class ActionMessageFactory {
             case EscrowMessageType.MPA_REQUEST_REFUND:
             case EscrowMessageType.MPA_REFUND:
             case EscrowMessageType.MPA_RELEASE:
+            case EscrowMessageType.MPA_DISPUTE:
+            case EscrowMessageType.MPA_ARBITRATE:
                 const escrowMessage = message as EscrowMessage;
 
                 // MPA-RELEASE& MPA-REFUND & MPA-REQUEST-REFUND can have memo in a weird place
@@ -88,6 +91,7 @@ export class ActionMessageFactory {
                     accepted: escrowMessage.accepted,
                     info: escrowMessage.info as MessageInfoCreateRequest,
                     escrow: escrowMessage.escrow as MessageEscrowCreateRequest,
+                    objects: this.getModelMessageObjects(escrowMessage),
                     data
                 } as ActionMessageCreateRequest;
                 break;
@@ -106,7 +110,7 @@ export class ActionMessageFactory {
         return actionMessageCreateRequest;
     }
 
-    private getModelMessageObjects(bidMessage: BidMessage | ListingItemAddMessage): MessageObjectCreateRequest[] {
+    private getModelMessageObjects(bidMessage: BidMessage | ListingItemAddMessage | EscrowMessage): MessageObjectCreateRequest[] {
         const createRequests: MessageObjectCreateRequest[] = [];
         if (bidMessage.objects) {
             for (const messageObject of bidMessage.objects) {
@@ -6,14 +6,13 @@ import * as _ from 'lodash';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets } from '../../constants';
-import { BidMessage } from '../messages/BidMessage';
+import { BidMessage, IdValuePair } from '../messages/BidMessage';
 import { BidMessageType } from '../enums/BidMessageType';
 import { MessageException } from '../exceptions/MessageException';
 import { BidCreateRequest } from '../requests/BidCreateRequest';
 import * as resources from 'resources';
 import { AddressCreateRequest } from '../requests/AddressCreateRequest';
 import { BidDataCreateRequest } from '../requests/BidDataCreateRequest';
-import { IdValuePair } from '../services/BidActionService';
 import { BidDataValue } from '../enums/BidDataValue';
 
 export class BidFactory {
@@ -146,6 +145,9 @@ export class BidFactory {
                 case BidMessageType.MPA_REJECT.toString():
                     // latest bid was rejected, so we allow only new bids
                     return bidMessage.action === BidMessageType.MPA_BID.toString();
+                case BidMessageType.MPA_COUNTER.toString():
+                    // latest bid was countered, it can be accepted, rejected, cancelled or countered again
+                    return bidMessage.action !== BidMessageType.MPA_BID.toString();
             }
         } else if (bidMessage.action === BidMessageType.MPA_BID.toString()) {
             // if no existing bid and message is MPA_BID -> true
@@ -43,9 +43,13 @@ export class EscrowFactory {
             case EscrowMessageType.MPA_RELEASE:
                 return await this.getReleaseMessage(request, rawtx);
 
+            case EscrowMessageType.MPA_REQUEST_REFUND:
             case EscrowMessageType.MPA_REFUND:
                 return await this.getRefundMessage(request, rawtx);
 
+            case EscrowMessageType.MPA_DISPUTE:
+                return await this.getDisputeMessage(request, rawtx);
+
             default:
                 throw new NotImplementedException();
         }
@@ -63,6 +67,31 @@ export class EscrowFactory {
         return {} as resources.Escrow;
     }
 
+    /**
+     * creates the EscrowMessage sent by the arbiter to the buyer and the seller
+     *
+     * @param {string} itemHash
+     * @param {EscrowMessageType} decision, MPA_RELEASE or MPA_REFUND
+     * @param {string} memo
+     * @param {string} rawtx, payout half signed by the arbiter
+     * @param {any[]} objects
+     * @returns {Promise<EscrowMessage>}
+     */
+    public async getArbitrateMessage(itemHash: string, decision: EscrowMessageType, memo: string, rawtx: string,
+                                     objects: any[]): Promise<EscrowMessage> {
+
+        return {
+            action: EscrowMessageType.MPA_ARBITRATE,
+            item: itemHash,
+            memo,
+            objects,
+            escrow: {
+                type: decision === EscrowMessageType.MPA_RELEASE ? 'release' : 'refund',
+                rawtx
+            }
+        } as EscrowMessage;
+    }
+
     /**
      * creates the EscrowMessage for EscrowLockRequest
      *
@@ -88,7 +117,7 @@ export class EscrowFactory {
     }
 
     /**
-     * creates the EscrowMessage for EscrowReleaseRequest
+     * creates the EscrowMessage for EscrowReleaseRequest, objects contain the shipment details sent by the seller
      *
      * @param releaseRequest
      * @param escrow
@@ -99,6 +128,7 @@ export class EscrowFactory {
             action: request.action,
             item: request.orderItem.itemHash,
             memo: request.memo,
+            objects: request.objects,
             escrow: {
                 type: 'release',
                 rawtx
@@ -126,6 +156,26 @@ export class EscrowFactory {
         } as EscrowMessage;
     }
 
+    /**
+     * creates the EscrowMessage for the dispute, objects contain what the arbiter needs to pay out the escrow
+     *
+     * @param request
+     * @param rawtx, txid of the escrow
+     */
+    private async getDisputeMessage(request: EscrowRequest, rawtx: string): Promise<EscrowMessage> {
+
+        return {
+            action: request.action,
+            item: request.orderItem.itemHash,
+            memo: request.memo,
+            objects: request.objects,
+            escrow: {
+                type: 'dispute',
+                rawtx
+            }
+        } as EscrowMessage;
+    }
+
     /**
      * Checks if the escrowAction is allowed for the given escrow
      *
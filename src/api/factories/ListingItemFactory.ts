@@ -30,6 +30,11 @@ import { ImageDataProtocolType } from '../enums/ImageDataProtocolType';
 import { ItemLocationCreateRequest } from '../requests/ItemLocationCreateRequest';
 import {MessageException} from '../exceptions/MessageException';
 import {ItemImageDataService} from '../services/ItemImageDataService';
+import { CoreRpcService } from '../services/CoreRpcService';
+import { EscrowType } from '../enums/EscrowType';
+import { ListingItemMessageType } from '../enums/ListingItemMessageType';
+import { ObjectHash } from '../../core/helpers/ObjectHash';
+import { HashableObjectType } from '../enums/HashableObjectType';
 
 export class ListingItemFactory {
 
@@ -40,7 +45,8 @@ export class ListingItemFactory {
     constructor(
         @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
         @inject(Types.Factory) @named(Targets.Factory.ItemCategoryFactory) private itemCategoryFactory: ItemCategoryFactory,
-        @inject(Types.Service) @named(Targets.Service.ItemImageDataService) public itemImageDataService: ItemImageDataService
+        @inject(Types.Service) @named(Targets.Service.ItemImageDataService) public itemImageDataService: ItemImageDataService,
+        @inject(Types.Service) @named(Targets.Service.CoreRpcService) public coreRpcService: CoreRpcService
     ) {
         this.log = new Logger(__filename);
     }
@@ -48,12 +54,16 @@ export class ListingItemFactory {
     /**
      * Creates a ListingItemMessage from given data
      *
+     * the hash of the message content is signed using the address of the templates Profile, so that the receivers
+     * can verify that the message was sent by the seller and that the content wasn't changed
+     *
      * @param {module:resources.ListingItemTemplate} listingItemTemplate
-     * @param {string} proposalHash
-     * @param {number} expiryTime
+     * @param {string} hash, optional, the hash of the posted ListingItem in case we're updating it
+     * @param {ListingItemMessageType} action, optional
      * @returns {Promise<ListingItemMessage>}
      */
-    public async getMessage(listingItemTemplate: resources.ListingItemTemplate): Promise<ListingItemMessage> {
+    public async getMessage(listingItemTemplate: resources.ListingItemTemplate, hash?: string,
+                            action?: ListingItemMessageType): Promise<ListingItemMessage> {
 
         const information = await this.getMessageInformation(listingItemTemplate.ItemInformation);
         const payment = await this.getMessagePayment(listingItemTemplate.PaymentInformation);
@@ -61,16 +71,28 @@ export class ListingItemFactory {
         const objects = await this.getMessageObjects(listingItemTemplate.ListingItemObjects);
 
         const message = {
-            hash: listingItemTemplate.hash,
+            action,
+            hash: hash ? hash : listingItemTemplate.hash,
             information,
             payment,
             messaging,
             objects
         } as ListingItemMessage;
 
+        message.signature = await this.coreRpcService.signMessage(listingItemTemplate.Profile.address, this.getMessageContentHash(message));
         return message;
     }
 
+    /**
+     * the hash of everything in the ListingItemMessage except the signature, which is what the seller signs
+     *
+     * @param {ListingItemMessage} listingItemMessage
+     * @returns {string}
+     */
+    public getMessageContentHash(listingItemMessage: ListingItemMessage): string {
+        return ObjectHash.getHash(_.omit(listingItemMessage, 'signature'), HashableObjectType.DEFAULT);
+    }
+
     /**
      *
      * @param {ListingItemMessage} listingItemMessage
@@ -199,7 +221,9 @@ export class ListingItemFactory {
         const ratio = await this.getModelEscrowRatio(escrow.ratio);
         return {
             type: escrow.type,
-            ratio
+            ratio,
+            arbiter_address: escrow.arbiter ? escrow.arbiter.address : undefined,
+            arbiter_pubkey: escrow.arbiter ? escrow.arbiter.pubkey : undefined
         } as EscrowCreateRequest;
     }
 
@@ -433,13 +457,20 @@ export class ListingItemFactory {
     }
 
     private async getMessageEscrow(escrow: resources.Escrow): Promise<object> {
-        return {
+        const messageEscrow = {
             type: escrow.type,
             ratio: {
                 buyer: escrow.Ratio.buyer,
                 seller: escrow.Ratio.seller
             }
         };
+        if (escrow.type === EscrowType.ARBITRATED) {
+            messageEscrow['arbiter'] = {
+                address: escrow.arbiterAddress,
+                pubkey: escrow.arbiterPubkey
+            };
+        }
+        return messageEscrow;
     }
 
     private async getMessageCryptoCurrency(itemPrice: resources.ItemPrice): Promise<object> {
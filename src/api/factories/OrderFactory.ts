@@ -38,14 +38,32 @@ export class OrderFactory {
      * @returns {Promise<OrderCreateRequest>}
      */
     public async getModelFromBid(bid: resources.Bid): Promise<OrderCreateRequest> {
+        return await this.getModelFromBids([bid]);
+    }
+
+    /**
+     * create a OrderCreateRequest from the Bids of a combined Bid, one OrderItem for each Bid
+     *
+     * @param {"resources".Bid[]} bids
+     * @returns {Promise<OrderCreateRequest>}
+     */
+    public async getModelFromBids(bids: resources.Bid[]): Promise<OrderCreateRequest> {
+
+        if (_.isEmpty(bids)) {
+            throw new MessageException('Cannot create Order without Bids.');
+        }
 
         // only bids with action MPA_ACCEPT can be converted to Order
-        if (bid.action === BidMessageType.MPA_ACCEPT) {
+        if (_.every(bids, (bid: resources.Bid) => bid.action === BidMessageType.MPA_ACCEPT)) {
+
+            const address: AddressCreateRequest = this.getShippingAddress(bids[0]);
+            const orderItems: OrderItemCreateRequest[] = this.getOrderItems(bids);
+            const buyer: string = bids[0].bidder;
+            const seller: string = bids[0].ListingItem.seller;
 
-            const address: AddressCreateRequest = this.getShippingAddress(bid);
-            const orderItems: OrderItemCreateRequest[] = this.getOrderItems(bid);
-            const buyer: string = bid.bidder;
-            const seller: string = bid.ListingItem.seller;
+            if (!_.every(bids, (bid: resources.Bid) => bid.bidder === buyer && bid.ListingItem.seller === seller)) {
+                throw new MessageException('Cannot create Order from Bids of different buyers or sellers.');
+            }
 
             const orderCreateRequest = {
                 address,
@@ -78,20 +96,23 @@ export class OrderFactory {
         } as AddressCreateRequest;
     }
 
-    private getOrderItems(bid: resources.Bid): OrderItemCreateRequest[] {
+    private getOrderItems(bids: resources.Bid[]): OrderItemCreateRequest[] {
 
         const orderItemCreateRequests: OrderItemCreateRequest[] = [];
-        const orderItemObjects = this.getOrderItemObjects(bid.BidDatas);
 
-        const orderItemCreateRequest = {
-            bid_id: bid.id,
-            itemHash: bid.ListingItem.hash,
-            status: OrderStatus.AWAITING_ESCROW,
-            orderItemObjects
-        } as OrderItemCreateRequest;
+        // the OrderItems of a combined Bid share the same escrow
+        for (const bid of bids) {
+            const orderItemObjects = this.getOrderItemObjects(bid.BidDatas);
 
-        // in alpha 1 order contains 1 orderItem
-        orderItemCreateRequests.push(orderItemCreateRequest);
+            const orderItemCreateRequest = {
+                bid_id: bid.id,
+                itemHash: bid.ListingItem.hash,
+                status: OrderStatus.AWAITING_ESCROW,
+                orderItemObjects
+            } as OrderItemCreateRequest;
+
+            orderItemCreateRequests.push(orderItemCreateRequest);
+        }
         return orderItemCreateRequests;
     }
 
@@ -21,6 +21,8 @@ import { BidAcceptCommand } from '../commands/bid/BidAcceptCommand';
 import { BidCancelCommand } from '../commands/bid/BidCancelCommand';
 import { BidRejectCommand } from '../commands/bid/BidRejectCommand';
 import { BidSendCommand } from '../commands/bid/BidSendCommand';
+import { BidCounterCommand } from '../commands/bid/BidCounterCommand';
+import { BidHistoryCommand } from '../commands/bid/BidHistoryCommand';
 
 import { Command } from '../commands/Command';
 
@@ -42,6 +44,10 @@ import { EscrowUpdateCommand } from '../commands/escrow/EscrowUpdateCommand';
 import { EscrowLockCommand } from '../commands/escrow/EscrowLockCommand';
 import { EscrowRefundCommand } from '../commands/escrow/EscrowRefundCommand';
 import { EscrowReleaseCommand } from '../commands/escrow/EscrowReleaseCommand';
+import { EscrowDisputeCommand } from '../commands/escrow/EscrowDisputeCommand';
+import { EscrowArbitrateCommand } from '../commands/escrow/EscrowArbitrateCommand';
+import { EscrowTxCommand } from '../commands/escrow/EscrowTxCommand';
+import { EscrowRecoverCommand } from '../commands/escrow/EscrowRecoverCommand';
 
 import { FavoriteRootCommand } from '../commands/favorite/FavoriteRootCommand';
 import { FavoriteListCommand } from '../commands/favorite/FavoriteListCommand';
@@ -75,6 +81,8 @@ import { HelpCommand } from '../commands/HelpCommand';
 import { ListingItemGetCommand } from '../commands/listingitem/ListingItemGetCommand';
 import { ListingItemSearchCommand } from '../commands/listingitem/ListingItemSearchCommand';
 import { ListingItemFlagCommand } from '../commands/listingitem/ListingItemFlagCommand';
+import { ListingItemUpdateCommand } from '../commands/listingitem/ListingItemUpdateCommand';
+import { ListingItemCancelCommand } from '../commands/listingitem/ListingItemCancelCommand';
 import { ListingItemRootCommand } from '../commands/listingitem/ListingItemRootCommand';
 
 import { ListingItemTemplateAddCommand } from '../commands/listingitemtemplate/ListingItemTemplateAddCommand';
@@ -82,11 +90,23 @@ import { ListingItemTemplateRemoveCommand } from '../commands/listingitemtemplat
 import { ListingItemTemplateGetCommand } from '../commands/listingitemtemplate/ListingItemTemplateGetCommand';
 import { ListingItemTemplateSearchCommand } from '../commands/listingitemtemplate/ListingItemTemplateSearchCommand';
 import { ListingItemTemplatePostCommand } from '../commands/listingitemtemplate/ListingItemTemplatePostCommand';
+import { ListingItemTemplateUnpostCommand } from '../commands/listingitemtemplate/ListingItemTemplateUnpostCommand';
+import { ListingItemTemplateImportCommand } from '../commands/listingitemtemplate/ListingItemTemplateImportCommand';
+import { ListingItemTemplateExportCommand } from '../commands/listingitemtemplate/ListingItemTemplateExportCommand';
+import { ListingItemTemplateCloneCommand } from '../commands/listingitemtemplate/ListingItemTemplateCloneCommand';
+import { ListingItemTemplateRevisionsCommand } from '../commands/listingitemtemplate/ListingItemTemplateRevisionsCommand';
+import { ListingItemTemplateScheduleCommand } from '../commands/listingitemtemplate/ListingItemTemplateScheduleCommand';
+import { ListingItemTemplateSchedulesCommand } from '../commands/listingitemtemplate/ListingItemTemplateSchedulesCommand';
+import { ListingItemTemplateValidateCommand } from '../commands/listingitemtemplate/ListingItemTemplateValidateCommand';
 import { ListingItemTemplateSizeCommand } from '../commands/listingitemtemplate/ListingItemTemplateSizeCommand';
 import { ListingItemTemplateCompressCommand } from '../commands/listingitemtemplate/ListingItemTemplateCompressCommand';
 import { ListingItemTemplateFeatureImageCommand } from '../commands/listingitemtemplate/ListingItemTemplateFeatureImageCommand';
 import { ListingItemTemplateRootCommand } from '../commands/listingitemtemplate/ListingItemTemplateRootCommand';
 
+import { LockedOutputRootCommand } from '../commands/lockedoutput/LockedOutputRootCommand';
+import { LockedOutputListCommand } from '../commands/lockedoutput/LockedOutputListCommand';
+import { LockedOutputReconcileCommand } from '../commands/lockedoutput/LockedOutputReconcileCommand';
+
 import { MarketAddCommand } from '../commands/market/MarketAddCommand';
 import { MarketRootCommand } from '../commands/market/MarketRootCommand';
 import { MarketListCommand } from '../commands/market/MarketListCommand';
@@ -99,6 +119,10 @@ import { OrderSearchCommand } from '../commands/order/OrderSearchCommand';
 
 import { OrderItemRootCommand } from '../commands/orderitem/OrderItemRootCommand';
 import { OrderItemStatusCommand } from '../commands/orderitem/OrderItemStatusCommand';
+import { OrderItemHistoryCommand } from '../commands/orderitem/OrderItemHistoryCommand';
+import { OutboxRootCommand } from '../commands/outbox/OutboxRootCommand';
+import { OutboxListCommand } from '../commands/outbox/OutboxListCommand';
+import { OutboxCancelCommand } from '../commands/outbox/OutboxCancelCommand';
 
 import { PaymentInformationUpdateCommand } from '../commands/paymentinformation/PaymentInformationUpdateCommand';
 import { PaymentInformationRootCommand } from '../commands/paymentinformation/PaymentInformationRootCommand';
@@ -132,6 +156,7 @@ import { ShoppingCartRemoveCommand } from '../commands/shoppingcart/ShoppingCart
 import { ShoppingCartListCommand } from '../commands/shoppingcart/ShoppingCartListCommand';
 import { ShoppingCartGetCommand } from '../commands/shoppingcart/ShoppingCartGetCommand';
 import { ShoppingCartClearCommand } from '../commands/shoppingcart/ShoppingCartClearCommand';
+import { ShoppingCartCheckoutCommand } from '../commands/shoppingcart/ShoppingCartCheckoutCommand';
 import { ShoppingCartRootCommand } from '../commands/shoppingcart/ShoppingCartRootCommand';
 
 import { ShoppingCartItemAddCommand } from '../commands/shoppingcartitem/ShoppingCartItemAddCommand';
@@ -145,6 +170,8 @@ import { VoteListCommand } from '../commands/vote/VoteListCommand';
 import { VoteRootCommand } from '../commands/vote/VoteRootCommand';
 
 import { SmsgSearchCommand } from '../commands/smsg/SmsgSearchCommand';
+import { SmsgRetryCommand } from '../commands/smsg/SmsgRetryCommand';
+import { SmsgDeadLettersCommand } from '../commands/smsg/SmsgDeadLettersCommand';
 import { SmsgRootCommand } from '../commands/smsg/SmsgRootCommand';
 
 import { SettingGetCommand } from '../commands/setting/SettingGetCommand';
@@ -169,6 +196,8 @@ export class RpcCommandFactory {
         @inject(Types.Command) @named(Targets.Command.bid.BidCancelCommand) private bidCancelCommand: BidCancelCommand,
         @inject(Types.Command) @named(Targets.Command.bid.BidRejectCommand) private bidRejectCommand: BidRejectCommand,
         @inject(Types.Command) @named(Targets.Command.bid.BidSendCommand) private bidSendCommand: BidSendCommand,
+        @inject(Types.Command) @named(Targets.Command.bid.BidCounterCommand) private bidCounterCommand: BidCounterCommand,
+        @inject(Types.Command) @named(Targets.Command.bid.BidHistoryCommand) private bidHistoryCommand: BidHistoryCommand,
 
         @inject(Types.Command) @named(Targets.Command.admin.AdminCommand) private adminCommand: AdminCommand,
 
@@ -184,6 +213,10 @@ export class RpcCommandFactory {
         @inject(Types.Command) @named(Targets.Command.escrow.EscrowLockCommand) private escrowLockCommand: EscrowLockCommand,
         @inject(Types.Command) @named(Targets.Command.escrow.EscrowRefundCommand) private escrowRefundCommand: EscrowRefundCommand,
         @inject(Types.Command) @named(Targets.Command.escrow.EscrowReleaseCommand) private escrowReleaseCommand: EscrowReleaseCommand,
+        @inject(Types.Command) @named(Targets.Command.escrow.EscrowDisputeCommand) private escrowDisputeCommand: EscrowDisputeCommand,
+        @inject(Types.Command) @named(Targets.Command.escrow.EscrowArbitrateCommand) private escrowArbitrateCommand: EscrowArbitrateCommand,
+        @inject(Types.Command) @named(Targets.Command.escrow.EscrowTxCommand) private escrowTxCommand: EscrowTxCommand,
+        @inject(Types.Command) @named(Targets.Command.escrow.EscrowRecoverCommand) private escrowRecoverCommand: EscrowRecoverCommand,
 
         @inject(Types.Command) @named(Targets.Command.favorite.FavoriteRootCommand) private favoriteRootCommand: FavoriteRootCommand,
         @inject(Types.Command) @named(Targets.Command.favorite.FavoriteListCommand) private favoriteListCommand: FavoriteListCommand,
@@ -214,6 +247,8 @@ export class RpcCommandFactory {
 
         @inject(Types.Command) @named(Targets.Command.listingitem.ListingItemGetCommand) private listingItemGetCommand: ListingItemGetCommand,
         @inject(Types.Command) @named(Targets.Command.listingitem.ListingItemFlagCommand) private listingItemFlagCommand: ListingItemFlagCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitem.ListingItemUpdateCommand) private listingItemUpdateCommand: ListingItemUpdateCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitem.ListingItemCancelCommand) private listingItemCancelCommand: ListingItemCancelCommand,
         @inject(Types.Command) @named(Targets.Command.listingitem.ListingItemSearchCommand) private listingItemSearchCommand: ListingItemSearchCommand,
         @inject(Types.Command) @named(Targets.Command.listingitem.ListingItemRootCommand) private listingItemRootCommand: ListingItemRootCommand,
 
@@ -222,11 +257,23 @@ export class RpcCommandFactory {
         @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateGetCommand) private listingItemTemplateGetCommand: ListingItemTemplateGetCommand,
         @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateSearchCommand) private listingItemTemplateSearchCommand: ListingItemTemplateSearchCommand,
         @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplatePostCommand) private listingItemTemplatePostCommand: ListingItemTemplatePostCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateUnpostCommand) private listingItemTemplateUnpostCommand: ListingItemTemplateUnpostCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateImportCommand) private listingItemTemplateImportCommand: ListingItemTemplateImportCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateExportCommand) private listingItemTemplateExportCommand: ListingItemTemplateExportCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateCloneCommand) private listingItemTemplateCloneCommand: ListingItemTemplateCloneCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateRevisionsCommand) private listingItemTemplateRevisionsCommand: ListingItemTemplateRevisionsCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateScheduleCommand) private listingItemTemplateScheduleCommand: ListingItemTemplateScheduleCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateSchedulesCommand) private listingItemTemplateSchedulesCommand: ListingItemTemplateSchedulesCommand,
+        @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateValidateCommand) private listingItemTemplateValidateCommand: ListingItemTemplateValidateCommand,
         @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateSizeCommand) private listingItemTemplateSizeCommand: ListingItemTemplateSizeCommand,
         @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateCompressCommand) private listingItemTemplateCompressCommand: ListingItemTemplateCompressCommand,
         @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateFeatureImageCommand) private listingItemTemplateFeatureImageCommand: ListingItemTemplateFeatureImageCommand,
         @inject(Types.Command) @named(Targets.Command.listingitemtemplate.ListingItemTemplateRootCommand) private listingItemTemplateRootCommand: ListingItemTemplateRootCommand,
 
+        @inject(Types.Command) @named(Targets.Command.lockedoutput.LockedOutputRootCommand) private lockedOutputRootCommand: LockedOutputRootCommand,
+        @inject(Types.Command) @named(Targets.Command.lockedoutput.LockedOutputListCommand) private lockedOutputListCommand: LockedOutputListCommand,
+        @inject(Types.Command) @named(Targets.Command.lockedoutput.LockedOutputReconcileCommand) private lockedOutputReconcileCommand: LockedOutputReconcileCommand,
+
         @inject(Types.Command) @named(Targets.Command.market.MarketAddCommand) private marketAddCommand: MarketAddCommand,
         @inject(Types.Command) @named(Targets.Command.market.MarketRootCommand) private marketRootCommand: MarketRootCommand,
         @inject(Types.Command) @named(Targets.Command.market.MarketListCommand) private marketListCommand: MarketListCommand,
@@ -239,6 +286,11 @@ export class RpcCommandFactory {
 
         @inject(Types.Command) @named(Targets.Command.orderitem.OrderItemRootCommand) private orderItemRootCommand: OrderItemRootCommand,
         @inject(Types.Command) @named(Targets.Command.orderitem.OrderItemStatusCommand) private orderItemStatusCommand: OrderItemStatusCommand,
+        @inject(Types.Command) @named(Targets.Command.orderitem.OrderItemHistoryCommand) private orderItemHistoryCommand: OrderItemHistoryCommand,
+
+        @inject(Types.Command) @named(Targets.Command.outbox.OutboxRootCommand) private outboxRootCommand: OutboxRootCommand,
+        @inject(Types.Command) @named(Targets.Command.outbox.OutboxListCommand) private outboxListCommand: OutboxListCommand,
+        @inject(Types.Command) @named(Targets.Command.outbox.OutboxCancelCommand) private outboxCancelCommand: OutboxCancelCommand,
 
         @inject(Types.Command) @named(Targets.Command.paymentinformation.PaymentInformationUpdateCommand) private paymentInformationUpdateCommand: PaymentInformationUpdateCommand,
         @inject(Types.Command) @named(Targets.Command.paymentinformation.PaymentInformationRootCommand) private paymentInformationRootCommand: PaymentInformationRootCommand,
@@ -276,6 +328,7 @@ export class RpcCommandFactory {
         @inject(Types.Command) @named(Targets.Command.shoppingcart.ShoppingCartListCommand) private shoppingCartListCommand: ShoppingCartListCommand,
         @inject(Types.Command) @named(Targets.Command.shoppingcart.ShoppingCartGetCommand) private shoppingCartGetCommand: ShoppingCartGetCommand,
         @inject(Types.Command) @named(Targets.Command.shoppingcart.ShoppingCartClearCommand) private shoppingCartClearCommand: ShoppingCartClearCommand,
+        @inject(Types.Command) @named(Targets.Command.shoppingcart.ShoppingCartCheckoutCommand) private shoppingCartCheckoutCommand: ShoppingCartCheckoutCommand,
         @inject(Types.Command) @named(Targets.Command.shoppingcart.ShoppingCartRootCommand) private shoppingCartRootCommand: ShoppingCartRootCommand,
 
         @inject(Types.Command) @named(Targets.Command.shoppingcartitem.ShoppingCartItemAddCommand) private shoppingCartItemAddCommand: ShoppingCartItemAddCommand,
@@ -298,6 +351,8 @@ export class RpcCommandFactory {
         @inject(Types.Command) @named(Targets.Command.vote.VoteRootCommand) private voteRootCommand: VoteRootCommand,
 
         @inject(Types.Command) @named(Targets.Command.smsg.SmsgSearchCommand) private smsgSearchCommand: SmsgSearchCommand,
+        @inject(Types.Command) @named(Targets.Command.smsg.SmsgRetryCommand) private smsgRetryCommand: SmsgRetryCommand,
+        @inject(Types.Command) @named(Targets.Command.smsg.SmsgDeadLettersCommand) private smsgDeadLettersCommand: SmsgDeadLettersCommand,
         @inject(Types.Command) @named(Targets.Command.smsg.SmsgRootCommand) private smsgRootCommand: SmsgRootCommand,
 
         @inject(Types.Command) @named(Targets.Command.HelpCommand) private helpCommand: HelpCommand,
@@ -318,6 +373,8 @@ export class RpcCommandFactory {
         this.commands.push(bidCancelCommand);
         this.commands.push(bidRejectCommand);
         this.commands.push(bidSendCommand);
+        this.commands.push(bidCounterCommand);
+        this.commands.push(bidHistoryCommand);
 
         this.commands.push(adminCommand);
 
@@ -333,6 +390,10 @@ export class RpcCommandFactory {
         this.commands.push(escrowLockCommand);
         this.commands.push(escrowRefundCommand);
         this.commands.push(escrowReleaseCommand);
+        this.commands.push(escrowDisputeCommand);
+        this.commands.push(escrowArbitrateCommand);
+        this.commands.push(escrowTxCommand);
+        this.commands.push(escrowRecoverCommand);
 
         this.commands.push(favoriteRootCommand);
         this.commands.push(favoriteListCommand);
@@ -364,10 +425,20 @@ export class RpcCommandFactory {
 
         this.commands.push(listingItemGetCommand);
         this.commands.push(listingItemFlagCommand);
+        this.commands.push(listingItemUpdateCommand);
+        this.commands.push(listingItemCancelCommand);
         this.commands.push(listingItemSearchCommand);
         this.commands.push(listingItemRootCommand);
 
         this.commands.push(listingItemTemplatePostCommand);
+        this.commands.push(listingItemTemplateUnpostCommand);
+        this.commands.push(listingItemTemplateImportCommand);
+        this.commands.push(listingItemTemplateExportCommand);
+        this.commands.push(listingItemTemplateCloneCommand);
+        this.commands.push(listingItemTemplateRevisionsCommand);
+        this.commands.push(listingItemTemplateScheduleCommand);
+        this.commands.push(listingItemTemplateSchedulesCommand);
+        this.commands.push(listingItemTemplateValidateCommand);
         this.commands.push(listingItemTemplateAddCommand);
         this.commands.push(listingItemTemplateRemoveCommand);
         this.commands.push(listingItemTemplateGetCommand);
@@ -376,6 +447,10 @@ export class RpcCommandFactory {
         this.commands.push(listingItemTemplateCompressCommand);
         this.commands.push(listingItemTemplateRootCommand);
 
+        this.commands.push(lockedOutputRootCommand);
+        this.commands.push(lockedOutputListCommand);
+        this.commands.push(lockedOutputReconcileCommand);
+
         this.commands.push(marketAddCommand);
         this.commands.push(marketRootCommand);
         this.commands.push(marketListCommand);
@@ -388,6 +463,11 @@ export class RpcCommandFactory {
 
         this.commands.push(orderItemRootCommand);
         this.commands.push(orderItemStatusCommand);
+        this.commands.push(orderItemHistoryCommand);
+
+        this.commands.push(outboxRootCommand);
+        this.commands.push(outboxListCommand);
+        this.commands.push(outboxCancelCommand);
 
         this.commands.push(paymentInformationUpdateCommand);
         this.commands.push(paymentInformationRootCommand);
@@ -425,6 +505,7 @@ export class RpcCommandFactory {
         this.commands.push(shoppingCartListCommand);
         this.commands.push(shoppingCartGetCommand);
         this.commands.push(shoppingCartClearCommand);
+        this.commands.push(shoppingCartCheckoutCommand);
         this.commands.push(shoppingCartRootCommand);
 
         this.commands.push(shoppingCartItemAddCommand);
@@ -448,6 +529,8 @@ export class RpcCommandFactory {
         this.commands.push(voteRootCommand);
 
         this.commands.push(smsgSearchCommand);
+        this.commands.push(smsgRetryCommand);
+        this.commands.push(smsgDeadLettersCommand);
         this.commands.push(smsgRootCommand);
 
         this.commands.push(helpCommand);
@@ -98,25 +98,13 @@ export class SmsgMessageFactory {
             });
     }
 
-    private async parseJSONSafe(json: string): Promise<MarketplaceMessage> {
-        let parsed: MarketplaceMessage;
-        try {
-            // this.log.debug('json to parse:', json);
-            parsed = JSON.parse(json);
-        } catch (e) {
-            this.log.error('parseJSONSafe, invalid JSON:', json);
-            throw new MessageException('Could not parse the incoming message.');
-        }
-        return parsed;
-    }
-
-    private getType(marketplaceMessage: MarketplaceMessage): AllowedMessageTypes {
+    public getType(marketplaceMessage: MarketplaceMessage): AllowedMessageTypes {
 
         if (marketplaceMessage.item) {
             // in case of ListingItemMessage
-            // todo: later we need to add support for other ListingItemMessageTypes
             // todo: actually the structure of ListingItemMessage should be the same as others
-            return ListingItemMessageType.MP_ITEM_ADD;
+            // messages without action are MP_ITEM_ADD's
+            return marketplaceMessage.item.action ? marketplaceMessage.item.action : ListingItemMessageType.MP_ITEM_ADD;
         } else if (marketplaceMessage.mpaction) {
             // in case of ActionMessage
             return marketplaceMessage.mpaction.action;
@@ -127,4 +115,16 @@ export class SmsgMessageFactory {
         }
     }
 
+    private async parseJSONSafe(json: string): Promise<MarketplaceMessage> {
+        let parsed: MarketplaceMessage;
+        try {
+            // this.log.debug('json to parse:', json);
+            parsed = JSON.parse(json);
+        } catch (e) {
+            this.log.error('parseJSONSafe, invalid JSON:', json);
+            throw new MessageException('Could not parse the incoming message.');
+        }
+        return parsed;
+    }
+
 }
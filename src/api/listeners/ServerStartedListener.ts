@@ -13,6 +13,11 @@ import { MessageProcessor } from '../messageprocessors/MessageProcessor';
 import { CoreRpcService } from '../services/CoreRpcService';
 import { ExpiredListingItemProcessor } from '../messageprocessors/ExpiredListingItemProcessor';
 import { SmsgMessageProcessor } from '../messageprocessors/SmsgMessageProcessor';
+import { OutboxProcessor } from '../messageprocessors/OutboxProcessor';
+import { EscrowTransactionProcessor } from '../messageprocessors/EscrowTransactionProcessor';
+import { ExpiredBidProcessor } from '../messageprocessors/ExpiredBidProcessor';
+import { LockedOutputProcessor } from '../messageprocessors/LockedOutputProcessor';
+import { ListingItemTemplateScheduleProcessor } from '../messageprocessors/ListingItemTemplateScheduleProcessor';
 import { ListingItemActionService } from '../services/ListingItemActionService';
 import { BidActionService } from '../services/BidActionService';
 import { EscrowActionService } from '../services/EscrowActionService';
@@ -39,6 +44,13 @@ export class ServerStartedListener implements interfaces.Listener {
         @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.SmsgMessageProcessor) public smsgMessageProcessor: SmsgMessageProcessor,
         @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.ExpiredListingItemProcessor) public expiredListingItemProcessor: ExpiredListingItemProcessor,
         @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.ProposalResultProcessor) public proposalResultProcessor: ProposalResultProcessor,
+        @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.OutboxProcessor) public outboxProcessor: OutboxProcessor,
+        @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.ExpiredBidProcessor) public expiredBidProcessor: ExpiredBidProcessor,
+        @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.EscrowTransactionProcessor)
+        public escrowTransactionProcessor: EscrowTransactionProcessor,
+        @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.LockedOutputProcessor) public lockedOutputProcessor: LockedOutputProcessor,
+        @inject(Types.MessageProcessor) @named(Targets.MessageProcessor.ListingItemTemplateScheduleProcessor)
+        public listingItemTemplateScheduleProcessor: ListingItemTemplateScheduleProcessor,
         @inject(Types.Service) @named(Targets.Service.DefaultItemCategoryService) public defaultItemCategoryService: DefaultItemCategoryService,
         @inject(Types.Service) @named(Targets.Service.DefaultProfileService) public defaultProfileService: DefaultProfileService,
         @inject(Types.Service) @named(Targets.Service.DefaultMarketService) public defaultMarketService: DefaultMarketService,
@@ -106,13 +118,31 @@ export class ServerStartedListener implements interfaces.Listener {
                     // seed the default Profile
                     await this.defaultProfileService.seedDefaultProfile();
 
+                    // lock the outputs of the open bids again and release the ones no longer needed
+                    await this.lockedOutputProcessor.process();
+                    this.lockedOutputProcessor.scheduleProcess();
+
                     // start expiredListingItemProcessor
                     this.expiredListingItemProcessor.scheduleProcess();
+                    this.expiredBidProcessor.scheduleProcess();
                     this.proposalResultProcessor.scheduleProcess();
 
-                    // start message polling, unless we're running tests
-                    this.smsgMessageProcessor.schedulePoll();
+                    // start retrying the messages which couldn't be sent
+                    this.outboxProcessor.scheduleProcess();
+
+                    // start following the confirmations of the escrow transactions
+                    this.escrowTransactionProcessor.scheduleProcess();
+
+                    // start posting the scheduled templates
+                    this.listingItemTemplateScheduleProcessor.scheduleProcess();
+
+                    // start message polling, unless we're running tests.
+                    // not waiting for the inbox to be drained, it can take a while after being offline
                     this.messageProcessor.schedulePoll();
+                    this.smsgMessageProcessor.start()
+                        .catch(reason => {
+                            this.log.error('failed to start the smsg message processor: ', reason);
+                        });
                     this.interval = 10000;
                 } else {
                     this.log.error('wallet not initialized yet, retrying in ' + this.interval + 'ms.');
@@ -126,7 +156,13 @@ export class ServerStartedListener implements interfaces.Listener {
                 this.log.info('connection with particld disconnected.');
 
                 // stop message polling
+                this.smsgMessageProcessor.stop();
                 this.messageProcessor.stop();
+                this.outboxProcessor.stop();
+                this.expiredBidProcessor.stop();
+                this.escrowTransactionProcessor.stop();
+                this.lockedOutputProcessor.stop();
+                this.listingItemTemplateScheduleProcessor.stop();
                 this.interval = 1000;
             }
 
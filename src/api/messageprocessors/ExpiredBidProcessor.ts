@@ -0,0 +1,52 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { MessageProcessorInterface } from './MessageProcessorInterface';
+import { BidActionService } from '../services/BidActionService';
+
+export class ExpiredBidProcessor implements MessageProcessorInterface {
+
+    public log: LoggerType;
+
+    private timeout: any;
+    private interval = (parseInt(process.env.EXPIRED_BIDS_INTERVAL, 10) || 10) * 60 * 1000; // interval in milliseconds (passed by minutes)
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.BidActionService) private bidActionService: BidActionService
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async process(): Promise<void> {
+        await this.bidActionService.expireBids()
+            .catch(reason => {
+                this.log.error('process(), expireBids error: ' + reason);
+            });
+        await this.bidActionService.expireOrders()
+            .catch(reason => {
+                this.log.error('process(), expireOrders error: ' + reason);
+            });
+    }
+
+    public stop(): void {
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+            this.timeout = undefined;
+        }
+    }
+
+    public scheduleProcess(): void {
+        this.timeout = setTimeout(
+            async () => {
+                await this.process();
+                this.scheduleProcess();
+            },
+            this.interval
+        );
+    }
+}
@@ -0,0 +1,48 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { MessageProcessorInterface } from './MessageProcessorInterface';
+import { LockedOutputService } from '../services/LockedOutputService';
+
+export class LockedOutputProcessor implements MessageProcessorInterface {
+
+    public log: LoggerType;
+
+    private timeout: any;
+    private interval = (parseInt(process.env.LOCKED_OUTPUTS_INTERVAL, 10) || 10) * 60 * 1000; // interval in milliseconds (passed by minutes)
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.LockedOutputService) private lockedOutputService: LockedOutputService
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async process(): Promise<void> {
+        await this.lockedOutputService.reconcile()
+            .catch(reason => {
+                this.log.error('process(), reconcile error: ' + reason);
+            });
+    }
+
+    public stop(): void {
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+            this.timeout = undefined;
+        }
+    }
+
+    public scheduleProcess(): void {
+        this.timeout = setTimeout(
+            async () => {
+                await this.process();
+                this.scheduleProcess();
+            },
+            this.interval
+        );
+    }
+}
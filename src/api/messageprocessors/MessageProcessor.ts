@@ -37,9 +37,16 @@ export class MessageProcessor implements MessageProcessorInterface {
 
     private DEFAULT_INTERVAL = 5 * 1000;
 
-    private LISTINGITEM_MESSAGES = [ListingItemMessageType.MP_ITEM_ADD];
-    private BID_MESSAGES = [BidMessageType.MPA_BID, BidMessageType.MPA_ACCEPT, BidMessageType.MPA_REJECT, BidMessageType.MPA_CANCEL];
-    private ESCROW_MESSAGES = [EscrowMessageType.MPA_LOCK, EscrowMessageType.MPA_RELEASE, EscrowMessageType.MPA_REQUEST_REFUND, EscrowMessageType.MPA_REFUND];
+    // retry policy for messages which are being retried, the delay between the attempts doubles after each attempt
+    private MAX_ATTEMPTS = parseInt(process.env.MESSAGE_RETRY_MAX_ATTEMPTS, 10) || 10;
+    private RETRY_INTERVAL = (parseInt(process.env.MESSAGE_RETRY_INTERVAL, 10) || 10) * 1000;
+    private MAX_RETRY_INTERVAL = 60 * 60 * 1000;
+
+    private LISTINGITEM_MESSAGES = [ListingItemMessageType.MP_ITEM_ADD, ListingItemMessageType.MP_ITEM_UPDATE, ListingItemMessageType.MP_ITEM_CANCEL];
+    private BID_MESSAGES = [BidMessageType.MPA_BID, BidMessageType.MPA_ACCEPT, BidMessageType.MPA_REJECT, BidMessageType.MPA_CANCEL,
+        BidMessageType.MPA_COUNTER];
+    private ESCROW_MESSAGES = [EscrowMessageType.MPA_LOCK, EscrowMessageType.MPA_RELEASE, EscrowMessageType.MPA_REQUEST_REFUND, EscrowMessageType.MPA_REFUND,
+        EscrowMessageType.MPA_DISPUTE, EscrowMessageType.MPA_ARBITRATE];
     private PROPOSAL_MESSAGES = [ProposalMessageType.MP_PROPOSAL_ADD];
     private VOTE_MESSAGES = [VoteMessageType.MP_VOTE];
 
@@ -179,6 +186,11 @@ export class MessageProcessor implements MessageProcessorInterface {
             {types: [],                         status: SmsgMessageStatus.WAITING,  amount: 10, nextInverval: this.DEFAULT_INTERVAL}
         ];
 
+        // messages left in PROCESSING state when the app was stopped are never going to finish
+        if (this.pollCount === 0) {
+            await this.requeueInterruptedMessages();
+        }
+
         let fetchNext = true;
         let nextInterval = 1000;
 
@@ -198,7 +210,20 @@ export class MessageProcessor implements MessageProcessorInterface {
                             // this.log.debug('poll(), smsgMessages: ' + JSON.stringify(smsgMessages, null, 2));
                             this.log.debug('poll(), smsgMessages.length: ' + smsgMessages.length);
 
+                            const smsgMessagesToProcess: resources.SmsgMessage[] = [];
                             for (const smsgMessage of smsgMessages) {
+
+                                if (smsgMessage.attempts >= this.MAX_ATTEMPTS) {
+                                    this.log.warn('PROCESSING: ' + smsgMessage.msgid + ' gave up after ' + smsgMessage.attempts + ' attempts.');
+                                    await this.smsgMessageService.updateSmsgMessageStatus(smsgMessage, SmsgMessageStatus.DEAD_LETTER,
+                                        smsgMessage.reason || 'Maximum number of processing attempts reached.');
+                                    continue;
+                                }
+
+                                // in case the message ends up WAITING again, it will be retried after the nextRetry
+                                smsgMessage.attempts = smsgMessage.attempts + 1;
+                                smsgMessage.nextRetry = Date.now() + this.getRetryDelay(smsgMessage.attempts);
+
                                 await this.smsgMessageService.updateSmsgMessageStatus(smsgMessage, SmsgMessageStatus.PROCESSING)
                                     .then(value => {
                                         const msg: resources.SmsgMessage = value.toJSON();
@@ -208,8 +233,9 @@ export class MessageProcessor implements MessageProcessorInterface {
                                     });
 
                                 smsgMessage.status = SmsgMessageStatus.PROCESSING;
+                                smsgMessagesToProcess.push(smsgMessage);
                             }
-                            await this.process(smsgMessages, emitEvent);
+                            await this.process(smsgMessagesToProcess, emitEvent);
 
                             // we just processed certain types of messages, so skip processing the next types until we
                             // have processed all of these
@@ -237,6 +263,41 @@ export class MessageProcessor implements MessageProcessorInterface {
         return nextInterval;
     }
 
+    /**
+     * exponential backoff, the delay doubles after each attempt
+     *
+     * @param {number} attempts
+     * @returns {number}
+     */
+    private getRetryDelay(attempts: number): number {
+        return Math.min(this.RETRY_INTERVAL * Math.pow(2, attempts - 1), this.MAX_RETRY_INTERVAL);
+    }
+
+    /**
+     * moves the messages left in PROCESSING state back to WAITING, so that they'll get retried
+     *
+     * @returns {Promise<void>}
+     */
+    private async requeueInterruptedMessages(): Promise<void> {
+
+        const searchParams = {
+            order: SearchOrder.ASC,
+            orderByColumn: 'received',
+            status: SmsgMessageStatus.PROCESSING,
+            page: 0,
+            pageLimit: 1000,
+            age: 0
+        } as SmsgMessageSearchParams;
+
+        const smsgMessages: resources.SmsgMessage[] = await this.smsgMessageService.searchBy(searchParams)
+            .then(value => value.toJSON());
+
+        for (const smsgMessage of smsgMessages) {
+            this.log.debug('requeuing interrupted message: ', smsgMessage.msgid);
+            await this.smsgMessageService.updateSmsgMessageStatus(smsgMessage, SmsgMessageStatus.WAITING, 'Processing was interrupted.');
+        }
+    }
+
     /**
      *
      * @param {any[]} types
@@ -254,7 +315,9 @@ export class MessageProcessor implements MessageProcessorInterface {
             types,
             page: 0,
             pageLimit: amount,
-            age: 1000 * 20
+            age: 1000 * 20,
+            // WAITING messages are retried only after the backoff delay has passed
+            nextRetry: status === SmsgMessageStatus.WAITING ? Date.now() : undefined
         } as SmsgMessageSearchParams;
 
         const messagesModel = await this.smsgMessageService.searchBy(searchParams);
@@ -279,6 +342,8 @@ export class MessageProcessor implements MessageProcessorInterface {
                 return Events.RejectBidReceivedEvent;
             case BidMessageType.MPA_CANCEL:
                 return Events.CancelBidReceivedEvent;
+            case BidMessageType.MPA_COUNTER:
+                return Events.CounterBidReceivedEvent;
             case EscrowMessageType.MPA_LOCK:
                 return Events.LockEscrowReceivedEvent;
             case EscrowMessageType.MPA_REQUEST_REFUND:
@@ -287,12 +352,20 @@ export class MessageProcessor implements MessageProcessorInterface {
                 return Events.RefundEscrowReceivedEvent;
             case EscrowMessageType.MPA_RELEASE:
                 return Events.ReleaseEscrowReceivedEvent;
+            case EscrowMessageType.MPA_DISPUTE:
+                return Events.DisputeEscrowReceivedEvent;
+            case EscrowMessageType.MPA_ARBITRATE:
+                return Events.ArbitrateEscrowReceivedEvent;
             case ProposalMessageType.MP_PROPOSAL_ADD:
                 return Events.ProposalReceivedEvent;
             case VoteMessageType.MP_VOTE:
                 return Events.VoteReceivedEvent;
             case ListingItemMessageType.MP_ITEM_ADD:
                 return Events.ListingItemReceivedEvent;
+            case ListingItemMessageType.MP_ITEM_UPDATE:
+                return Events.ListingItemUpdateReceivedEvent;
+            case ListingItemMessageType.MP_ITEM_CANCEL:
+                return Events.ListingItemCancelReceivedEvent;
             case ListingItemMessageType.UNKNOWN:
             default:
                 return null;
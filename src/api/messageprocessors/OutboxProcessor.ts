@@ -0,0 +1,48 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { MessageProcessorInterface } from './MessageProcessorInterface';
+import { OutboxMessageService } from '../services/OutboxMessageService';
+
+export class OutboxProcessor implements MessageProcessorInterface {
+
+    public log: LoggerType;
+
+    private timeout: any;
+    private interval = (parseInt(process.env.OUTBOX_INTERVAL, 10) || 10) * 1000; // interval to retry the pending messages in milliseconds (passed by seconds)
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType,
+        @inject(Types.Service) @named(Targets.Service.OutboxMessageService) private outboxMessageService: OutboxMessageService
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async process(): Promise<void> {
+        await this.outboxMessageService.deliverPending()
+            .catch(reason => {
+                this.log.error('process(), error: ' + reason);
+            });
+    }
+
+    public stop(): void {
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+            this.timeout = undefined;
+        }
+    }
+
+    public scheduleProcess(): void {
+        this.timeout = setTimeout(
+            async () => {
+                await this.process();
+                this.scheduleProcess();
+            },
+            this.interval
+        );
+    }
+}
@@ -2,6 +2,7 @@
 // Distributed under the GPL software license, see the accompanying
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
+import * as _ from 'lodash';
 import { inject, multiInject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets, Events } from '../../constants';
@@ -16,13 +17,26 @@ import * as resources from 'resources';
 import { SmsgMessageCreateRequest } from '../requests/SmsgMessageCreateRequest';
 import { SmsgMessage } from '../models/SmsgMessage';
 import { IncomingSmsgMessage } from '../messages/IncomingSmsgMessage';
+import { SmsgNotificationSource } from './notifications/SmsgNotificationSource';
+import { PollingSmsgNotificationSource } from './notifications/PollingSmsgNotificationSource';
+import { ZmqSmsgNotificationSource } from './notifications/ZmqSmsgNotificationSource';
 
 export class SmsgMessageProcessor implements MessageProcessorInterface {
 
     public log: LoggerType;
 
-    private timeout: any;
-    private interval = 5000; // todo: configurable
+    // how often the inbox is polled when there are no push notifications available
+    private interval = (parseInt(process.env.SMSG_POLLING_INTERVAL, 10) || 5) * 1000;
+    // how often the inbox is polled in case some push notifications got lost
+    private fallbackInterval = (parseInt(process.env.SMSG_POLLING_FALLBACK_INTERVAL, 10) || 60) * 1000;
+    // SQLite insert is done batchSize smsg messages at a time
+    private batchSize = 10;
+
+    private notificationSource?: SmsgNotificationSource;
+    private pollingSource?: PollingSmsgNotificationSource;
+
+    private draining = false;
+    private drainRequested = false;
 
     // tslint:disable:max-line-length
     constructor(
@@ -37,12 +51,12 @@ export class SmsgMessageProcessor implements MessageProcessorInterface {
     // tslint:enable:max-line-length
 
     /**
-     * polls for new smsgmessages and stores them in the database
+     * stores the new smsgmessages in the database and removes them from the inbox
      *
      * @param {SmsgMessage[]} messages
-     * @returns {Promise<void>}
+     * @returns {Promise<number>} the number of messages removed from the inbox
      */
-    public async process(messages: IncomingSmsgMessage[]): Promise<void> {
+    public async process(messages: IncomingSmsgMessage[]): Promise<number> {
 
         const smsgMessageCreateRequests: SmsgMessageCreateRequest[] = [];
         this.log.debug('INCOMING messages.length: ', messages.length);
@@ -57,13 +71,18 @@ export class SmsgMessageProcessor implements MessageProcessorInterface {
 
         this.log.info('process(), smsgMessageCreateRequests: ', JSON.stringify(smsgMessageCreateRequests, null, 2));
 
+        let removed = 0;
+
         // store all in db
         await this.smsgMessageService.createAll(smsgMessageCreateRequests)
             .then(async (idsProcessed) => {
                 // after messages are stored, remove them
                 for (const msgid of idsProcessed) {
                     await this.smsgService.smsg(msgid, true, true)
-                        .then(value => this.log.debug('REMOVED: ', JSON.stringify(value, null, 2)))
+                        .then(value => {
+                            this.log.debug('REMOVED: ', JSON.stringify(value, null, 2));
+                            removed++;
+                        })
                         .catch(reason => {
                             this.log.error('ERROR: ', reason);
                         });
@@ -72,44 +91,112 @@ export class SmsgMessageProcessor implements MessageProcessorInterface {
             .catch(reason => {
                 this.log.error('ERROR: ', reason);
             });
+
+        return removed;
     }
 
-    public stop(): void {
-        if (this.timeout) {
-            clearTimeout(this.timeout);
-            this.timeout = undefined;
+    /**
+     * starts listening to the smsg notifications, the inbox is polled as a fallback
+     *
+     * if no notificationSource is given, particld's zmq notifications are used if ZMQ_SMSG_ADDRESS is configured
+     *
+     * @param {SmsgNotificationSource} notificationSource
+     * @returns {Promise<void>}
+     */
+    public async start(notificationSource?: SmsgNotificationSource): Promise<void> {
+        this.stop();
+
+        this.notificationSource = notificationSource;
+        if (!this.notificationSource && process.env.ZMQ_SMSG_ADDRESS) {
+            this.notificationSource = new ZmqSmsgNotificationSource(this.Logger, process.env.ZMQ_SMSG_ADDRESS);
         }
+
+        let pushEnabled = false;
+        if (this.notificationSource) {
+            const sourceName = this.notificationSource.name;
+            pushEnabled = await this.notificationSource.start(msgid => this.drain())
+                .catch(reason => {
+                    this.log.error('failed to start the smsg notification source: ', reason);
+                    return false;
+                });
+            this.log.info('smsg notifications from ' + sourceName + (pushEnabled ? ' enabled.' : ' not available.'));
+        }
+
+        const interval = pushEnabled ? this.fallbackInterval : this.interval;
+        this.log.info('polling the smsg inbox every ' + interval + 'ms.');
+
+        this.pollingSource = new PollingSmsgNotificationSource(interval);
+        await this.pollingSource.start(() => this.drain());
+
+        // fetch whatever arrived while we were not listening
+        await this.drain();
     }
 
-    public schedulePoll(): void {
-        this.timeout = setTimeout(
-            async () => {
-                await this.poll();
-                this.schedulePoll();
-            },
-            this.interval
-        );
+    public stop(): void {
+        if (this.notificationSource) {
+            this.notificationSource.stop();
+            this.notificationSource = undefined;
+        }
+        if (this.pollingSource) {
+            this.pollingSource.stop();
+            this.pollingSource = undefined;
+        }
     }
 
     /**
-     * main poller
+     * fetches the smsgmessages from the inbox until its empty
+     *
+     * notifications received while draining just make the drain continue, so the messages
+     * arriving at the same time do not end up running multiple drains in parallel
      *
      * @returns {Promise<void>}
      */
-    private async poll(): Promise<void> {
-        await this.smsgService.smsgInbox('unread', '', {updatestatus: false})
+    public async drain(): Promise<void> {
+        if (this.draining) {
+            this.drainRequested = true;
+            return;
+        }
+
+        this.draining = true;
+        try {
+            do {
+                this.drainRequested = false;
+                let removed = 0;
+                // more could have arrived while processing, nothing removed means the inbox is empty or something failed
+                do {
+                    removed = await this.poll();
+                } while (removed > 0);
+            } while (this.drainRequested);
+        } finally {
+            this.draining = false;
+        }
+    }
+
+    /**
+     * fetches the unread smsgmessages from the inbox once and processes them in batches,
+     * stops at the first batch which couldn't be processed completely
+     *
+     * @returns {Promise<number>} the number of messages removed from the inbox
+     */
+    private async poll(): Promise<number> {
+        return await this.smsgService.smsgInbox('unread', '', {updatestatus: false})
             .then( async messages => {
+                let removed = 0;
                 if (messages.result !== '0') {
-                    // Process 10 smsg messages at a time for SQLite insert
-                    const smsgMessages: IncomingSmsgMessage[] = messages.messages.splice(0, Math.min(10, messages.messages.length));
-                    this.log.debug('found new unread smsgmessages: ', JSON.stringify(smsgMessages, null, 2));
-                    await this.process(smsgMessages);
+                    this.log.debug('found ' + messages.messages.length + ' new unread smsgmessages.');
+                    for (const smsgMessages of _.chunk(messages.messages as IncomingSmsgMessage[], this.batchSize)) {
+                        const removedFromBatch = await this.process(smsgMessages);
+                        removed += removedFromBatch;
+                        if (removedFromBatch < smsgMessages.length) {
+                            break;
+                        }
+                    }
                 }
-                return;
+                return removed;
             })
             .catch( reason => {
                 this.log.error('poll(), error: ' + reason);
-                return;
+                return 0;
             });
     }
 }
@@ -0,0 +1,48 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { SmsgNotificationListener, SmsgNotificationSource } from './SmsgNotificationSource';
+
+/**
+ * notifies the listener periodically, the next notification is scheduled only after the previous one has been handled
+ */
+export class PollingSmsgNotificationSource implements SmsgNotificationSource {
+
+    public name = 'polling';
+
+    private timeout: any;
+    private listener?: SmsgNotificationListener;
+
+    constructor(private interval: number) {
+    }
+
+    public async start(listener: SmsgNotificationListener): Promise<boolean> {
+        this.listener = listener;
+        this.schedule();
+        return true;
+    }
+
+    public stop(): void {
+        if (this.timeout) {
+            clearTimeout(this.timeout);
+            this.timeout = undefined;
+        }
+        this.listener = undefined;
+    }
+
+    private schedule(): void {
+        this.timeout = setTimeout(
+            async () => {
+                if (this.listener) {
+                    await this.listener();
+                }
+                // stop() might have been called while the listener was running
+                if (this.listener) {
+                    this.schedule();
+                }
+            },
+            this.interval
+        );
+    }
+}
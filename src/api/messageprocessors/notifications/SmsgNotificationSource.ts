@@ -0,0 +1,25 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * called when there are (possibly) new smsgmessages waiting in the inbox,
+ * msgid is passed if the source knows which message triggered the notification
+ */
+export type SmsgNotificationListener = (msgid?: string) => Promise<void> | void;
+
+/**
+ * source of the notifications telling the SmsgMessageProcessor to fetch the new smsgmessages from the inbox
+ */
+export interface SmsgNotificationSource {
+
+    name: string;
+
+    /**
+     * @param {SmsgNotificationListener} listener
+     * @returns {Promise<boolean>} false, if the source could not be started
+     */
+    start(listener: SmsgNotificationListener): Promise<boolean>;
+
+    stop(): void;
+}
@@ -0,0 +1,74 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { Logger as LoggerType } from '../../../core/Logger';
+import { SmsgNotificationListener, SmsgNotificationSource } from './SmsgNotificationSource';
+
+/**
+ * subscribes to the smsg notifications published by particld (-zmqpubsmsg=<address>)
+ *
+ * the published message body ends with the 28 byte msgid (8 byte timestamp + 20 byte hash),
+ * the zeromq module is loaded only when the source is started, so that the missing native module
+ * just means that we fall back to polling.
+ */
+export class ZmqSmsgNotificationSource implements SmsgNotificationSource {
+
+    public static MSGID_LENGTH = 28;
+
+    public log: LoggerType;
+    public name = 'zmq';
+
+    private socket: any;
+
+    constructor(
+        public Logger: typeof LoggerType,
+        private address: string,
+        private topic: string = 'smsg'
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async start(listener: SmsgNotificationListener): Promise<boolean> {
+        let zmq;
+        try {
+            zmq = require('zeromq');
+        } catch (error) {
+            this.log.warn('zeromq module could not be loaded: ' + error.message);
+            return false;
+        }
+
+        try {
+            this.socket = zmq.socket('sub');
+            this.socket.connect(this.address);
+            this.socket.subscribe(this.topic);
+        } catch (error) {
+            this.log.error('could not subscribe to ' + this.address + ': ' + error.message);
+            this.stop();
+            return false;
+        }
+
+        this.socket.on('message', async (topic: Buffer, body: Buffer) => {
+            const msgid = this.getMsgId(body);
+            this.log.debug('smsg notification received, msgid: ', msgid);
+            await listener(msgid);
+        });
+
+        this.log.info('subscribed to smsg notifications from ' + this.address);
+        return true;
+    }
+
+    public stop(): void {
+        if (this.socket) {
+            this.socket.close();
+            this.socket = undefined;
+        }
+    }
+
+    private getMsgId(body: Buffer): string | undefined {
+        if (!body || body.length < ZmqSmsgNotificationSource.MSGID_LENGTH) {
+            return undefined;
+        }
+        return body.slice(body.length - ZmqSmsgNotificationSource.MSGID_LENGTH).toString('hex');
+    }
+}
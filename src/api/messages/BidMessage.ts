@@ -7,6 +7,17 @@ import { ActionMessageInterface } from './ActionMessageInterface';
 import { BidMessageType } from '../enums/BidMessageType';
 import { MessageBody } from '../../core/api/MessageBody';
 
+export interface IdValuePair {
+    id: string;
+    value: any;
+}
+
+// a ListingItem in a combined Bid
+export interface BundleItem {
+    item: string;
+    totalPrice: number;
+}
+
 export class BidMessage extends MessageBody implements ActionMessageInterface {
 
     @IsNotEmpty()
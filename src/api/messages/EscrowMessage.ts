@@ -23,5 +23,6 @@ export class EscrowMessage extends MessageBody implements ActionMessageInterface
     public memo?: string;
     public info?: any;
     public accepted?: boolean;
+    public objects?: any[];     // dispute, arbitrate and release params
 
 }
@@ -7,9 +7,11 @@ import { ListingItemMessageInterface } from './ListingItemMessageInterface';
 
 export class ListingItemMessage extends MessageBody implements ListingItemMessageInterface {
 
+    public action?: string;
     public hash: string;
     public information: any;
     public payment: any;
     public messaging: any;
     public objects?: any;
+    public signature: string;
 }
@@ -6,10 +6,12 @@
 export interface ListingItemMessageInterface {
 
     // TODO: create classes
+    action?: string;
     hash: string;
     information: any;
     payment: any;
     messaging: any;
     objects?: any;
     proposalHash?: string;
+    signature?: string;
 }
@@ -3,20 +3,22 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
 import { Profile } from './Profile';
 
 
 export class Address extends Bookshelf.Model<Address> {
 
-    public static async fetchById(value: number, withRelated: boolean = true): Promise<Address> {
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Address> {
         if (withRelated) {
             return await Address.where<Address>({ id: value }).fetch({
                 withRelated: [
                     'Profile'
-                ]
+                ],
+                transacting: trx
             });
         } else {
-            return await Address.where<Address>({ id: value }).fetch();
+            return await Address.where<Address>({ id: value }).fetch({ transacting: trx });
         }
     }
 
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
 import { Collection, Model } from 'bookshelf';
 import * as _ from 'lodash';
 import { ListingItem } from './ListingItem';
@@ -27,13 +28,14 @@ export class Bid extends Bookshelf.Model<Bid> {
         'OrderItem.Order'
     ];
 
-    public static async fetchById(value: number, withRelated: boolean = true): Promise<Bid> {
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Bid> {
         if (withRelated) {
             return await Bid.where<Bid>({ id: value }).fetch({
-                withRelated: this.RELATIONS
+                withRelated: this.RELATIONS,
+                transacting: trx
             });
         } else {
-            return await Bid.where<Bid>({ id: value }).fetch();
+            return await Bid.where<Bid>({ id: value }).fetch({ transacting: trx });
         }
     }
 
@@ -54,7 +56,8 @@ export class Bid extends Bookshelf.Model<Bid> {
                     && (options.status === BidMessageType.MPA_ACCEPT
                         || options.status === BidMessageType.MPA_BID
                         || options.status === BidMessageType.MPA_CANCEL
-                        || options.status === BidMessageType.MPA_REJECT)) {
+                        || options.status === BidMessageType.MPA_REJECT
+                        || options.status === BidMessageType.MPA_COUNTER)) {
                     qb.where('bids.action', '=', options.status);
                 }
 
@@ -62,7 +65,11 @@ export class Bid extends Bookshelf.Model<Bid> {
                     && (options.status === OrderStatus.AWAITING_ESCROW
                         || options.status === OrderStatus.COMPLETE
                         || options.status === OrderStatus.ESCROW_LOCKED
-                        || options.status === OrderStatus.SHIPPING)) {
+                        || options.status === OrderStatus.SHIPPING
+                        || options.status === OrderStatus.REFUND_REQUESTED
+                        || options.status === OrderStatus.REFUNDED
+                        || options.status === OrderStatus.EXPIRED
+                        || options.status === OrderStatus.DISPUTED)) {
                     qb.innerJoin('order_items', 'order_items.bid_id', 'bids.id');
                     qb.where('order_items.status', '=', options.status);
                 }
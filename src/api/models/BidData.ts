@@ -3,17 +3,19 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
 
 
 export class BidData extends Bookshelf.Model<BidData> {
 
-    public static async fetchById(value: number, withRelated: boolean = true): Promise<BidData> {
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<BidData> {
         if (withRelated) {
             return await BidData.where<BidData>({ id: value }).fetch({
-                withRelated: []
+                withRelated: [],
+                transacting: trx
             });
         } else {
-            return await BidData.where<BidData>({ id: value }).fetch();
+            return await BidData.where<BidData>({ id: value }).fetch({ transacting: trx });
         }
     }
 
@@ -0,0 +1,76 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
+import { Collection, Model } from 'bookshelf';
+import { Bid } from './Bid';
+
+
+export class BidHistory extends Bookshelf.Model<BidHistory> {
+
+    public static RELATIONS = [];
+
+    public static async fetchAllByBidId(bidId: number, withRelated: boolean = true): Promise<Collection<BidHistory>> {
+        const historyCollection = BidHistory.forge<Model<BidHistory>>()
+            .query(qb => {
+                qb.where('bid_id', '=', bidId);
+            })
+            .orderBy('id', 'ASC');
+
+        if (withRelated) {
+            return await historyCollection.fetchAll({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await historyCollection.fetchAll();
+        }
+    }
+
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<BidHistory> {
+        if (withRelated) {
+            return await BidHistory.where<BidHistory>({ id: value }).fetch({
+                withRelated: this.RELATIONS,
+                transacting: trx
+            });
+        } else {
+            return await BidHistory.where<BidHistory>({ id: value }).fetch({ transacting: trx });
+        }
+    }
+
+    public get tableName(): string { return 'bid_history'; }
+    public get hasTimestamps(): boolean { return true; }
+
+    public get Id(): number { return this.get('id'); }
+    public set Id(value: number) { this.set('id', value); }
+
+    public get Action(): string { return this.get('action'); }
+    public set Action(value: string) { this.set('action', value); }
+
+    public get Sender(): string { return this.get('sender'); }
+    public set Sender(value: string) { this.set('sender', value); }
+
+    public get TotalPrice(): number { return this.get('totalPrice'); }
+    public set TotalPrice(value: number) { this.set('totalPrice', value); }
+
+    public get BasePrice(): number { return this.get('basePrice'); }
+    public set BasePrice(value: number) { this.set('basePrice', value); }
+
+    public get ShippingPrice(): number { return this.get('shippingPrice'); }
+    public set ShippingPrice(value: number) { this.set('shippingPrice', value); }
+
+    public get Msgid(): string { return this.get('msgid'); }
+    public set Msgid(value: string) { this.set('msgid', value); }
+
+    public get UpdatedAt(): Date { return this.get('updatedAt'); }
+    public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
+
+    public get CreatedAt(): Date { return this.get('createdAt'); }
+    public set CreatedAt(value: Date) { this.set('createdAt', value); }
+
+    public Bid(): Bid {
+        return this.belongsTo(Bid, 'bid_id', 'id');
+    }
+
+}
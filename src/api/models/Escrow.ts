@@ -28,6 +28,12 @@ export class Escrow extends Bookshelf.Model<Escrow> {
     public get Type(): string { return this.get('type'); }
     public set Type(value: string) { this.set('type', value); }
 
+    public get ArbiterAddress(): string { return this.get('arbiterAddress'); }
+    public set ArbiterAddress(value: string) { this.set('arbiterAddress', value); }
+
+    public get ArbiterPubkey(): string { return this.get('arbiterPubkey'); }
+    public set ArbiterPubkey(value: string) { this.set('arbiterPubkey', value); }
+
     public get PaymentInformationId(): string { return this.get('payment_information_id'); }
     public set PaymentInformationId(value: string) { this.set('payment_information_id', value); }
 
@@ -0,0 +1,98 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
+import { Collection, Model } from 'bookshelf';
+import { OrderItem } from './OrderItem';
+import { EscrowTransactionSearchParams } from '../requests/EscrowTransactionSearchParams';
+
+
+export class EscrowTransaction extends Bookshelf.Model<EscrowTransaction> {
+
+    public static RELATIONS = [
+        'OrderItem'
+    ];
+
+    public static async searchBy(options: EscrowTransactionSearchParams, withRelated: boolean = true,
+                                 trx?: Knex.Transaction): Promise<Collection<EscrowTransaction>> {
+
+        options.page = options.page || 0;
+        options.pageLimit = options.pageLimit || 10;
+
+        const transactionCollection = EscrowTransaction.forge<Model<EscrowTransaction>>()
+            .query(qb => {
+
+                if (options.orderItemId) {
+                    qb.where('escrow_transactions.order_item_id', '=', options.orderItemId);
+                }
+
+                if (options.txid) {
+                    qb.where('escrow_transactions.txid', '=', options.txid);
+                }
+
+                if (options.status) {
+                    qb.where('escrow_transactions.status', '=', options.status.toString());
+                }
+
+            })
+            .orderBy('escrow_transactions.created_at', options.order)
+            .query({
+                limit: options.pageLimit,
+                offset: options.page * options.pageLimit
+            });
+
+        if (withRelated) {
+            return await transactionCollection.fetchAll({
+                withRelated: this.RELATIONS,
+                transacting: trx
+            });
+        } else {
+            return await transactionCollection.fetchAll({ transacting: trx });
+        }
+    }
+
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<EscrowTransaction> {
+        if (withRelated) {
+            return await EscrowTransaction.where<EscrowTransaction>({ id: value }).fetch({
+                withRelated: this.RELATIONS,
+                transacting: trx
+            });
+        } else {
+            return await EscrowTransaction.where<EscrowTransaction>({ id: value }).fetch({ transacting: trx });
+        }
+    }
+
+    public get tableName(): string { return 'escrow_transactions'; }
+    public get hasTimestamps(): boolean { return true; }
+
+    public get Id(): number { return this.get('id'); }
+    public set Id(value: number) { this.set('id', value); }
+
+    public get Txid(): string { return this.get('txid'); }
+    public set Txid(value: string) { this.set('txid', value); }
+
+    public get Type(): string { return this.get('type'); }
+    public set Type(value: string) { this.set('type', value); }
+
+    public get Status(): string { return this.get('status'); }
+    public set Status(value: string) { this.set('status', value); }
+
+    public get Confirmations(): number { return this.get('confirmations'); }
+    public set Confirmations(value: number) { this.set('confirmations', value); }
+
+    public get BlockHeight(): number { return this.get('blockHeight'); }
+    public set BlockHeight(value: number) { this.set('blockHeight', value); }
+
+    public get UpdatedAt(): Date { return this.get('updatedAt'); }
+    public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
+
+    public get CreatedAt(): Date { return this.get('createdAt'); }
+    public set CreatedAt(value: Date) { this.set('createdAt', value); }
+
+    public OrderItem(): OrderItem {
+        return this.belongsTo(OrderItem, 'order_item_id', 'id');
+    }
+
+}
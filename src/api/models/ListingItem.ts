@@ -11,6 +11,7 @@ import { ListingItemObject } from './ListingItemObject';
 import { ListingItemSearchParams } from '../requests/ListingItemSearchParams';
 import { FavoriteItem } from './FavoriteItem';
 import { ListingItemTemplate } from './ListingItemTemplate';
+import { ListingItemTemplateRevision } from './ListingItemTemplateRevision';
 import { Bid } from './Bid';
 import { FlaggedItem } from './FlaggedItem';
 import { Market } from './Market';
@@ -53,13 +54,16 @@ export class ListingItem extends Bookshelf.Model<ListingItem> {
         'Bids.BidDatas',
         'Bids.OrderItem',
         'Bids.OrderItem.Order',
+        'Bids.OrderItem.EscrowTransactions',
+        'Bids.OrderItem.OrderItemObjects',
         'Market',
         'FlaggedItem',
         'FlaggedItem.Proposal',
         'FlaggedItem.Proposal.ProposalOptions',
         // 'FlaggedItem.Proposal.ProposalResults',
         'ListingItemTemplate',
-        'ListingItemTemplate.Profile'
+        'ListingItemTemplate.Profile',
+        'ListingItemTemplateRevision'
     ];
 
     public static async fetchById(value: number, withRelated: boolean = true): Promise<ListingItem> {
@@ -90,6 +94,7 @@ export class ListingItem extends Bookshelf.Model<ListingItem> {
                 qb.where('item_informations.item_category_id', '=', categoryId);
                 // ignore expired items
                 qb.andWhere('expired_at', '>', Date.now());
+                qb.andWhere('listing_items.removed', '=', false);
                 qb.andWhere('item_informations.item_category_id', '>', 0);
             })
             .orderBy('item_informations.title', 'ASC');
@@ -115,8 +120,9 @@ export class ListingItem extends Bookshelf.Model<ListingItem> {
     public static async searchBy(options: ListingItemSearchParams, withRelated: boolean = false): Promise<Collection<ListingItem>> {
         const listingCollection = ListingItem.forge<Model<ListingItem>>()
             .query(qb => {
-                // ignore expired items
+                // ignore expired and removed items
                 qb.where('expired_at', '>', Date.now());
+                qb.andWhere('listing_items.removed', '=', false);
 
                 // searchBy by itemHash
                 if (options.itemHash && typeof options.itemHash === 'string' && options.itemHash !== '*') {
@@ -242,6 +248,9 @@ export class ListingItem extends Bookshelf.Model<ListingItem> {
     public get ReceivedAt(): number { return this.get('receivedAt'); }
     public set ReceivedAt(value: number) { this.set('receivedAt', value); }
 
+    public get Removed(): boolean { return this.get('removed'); }
+    public set Removed(value: boolean) { this.set('removed', value); }
+
     public get UpdatedAt(): Date { return this.get('updatedAt'); }
     public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
 
@@ -272,6 +281,10 @@ export class ListingItem extends Bookshelf.Model<ListingItem> {
         return this.belongsTo(ListingItemTemplate, 'listing_item_template_id', 'id');
     }
 
+    public ListingItemTemplateRevision(): ListingItemTemplateRevision {
+        return this.belongsTo(ListingItemTemplateRevision, 'listing_item_template_revision_id', 'id');
+    }
+
     public Proposal(): Proposal {
         return this.belongsTo(Proposal, 'proposal_id', 'id');
     }
@@ -10,6 +10,7 @@ import { PaymentInformation } from './PaymentInformation';
 import { MessagingInformation } from './MessagingInformation';
 import { ListingItemObject } from './ListingItemObject';
 import { ListingItem } from './ListingItem';
+import { ListingItemTemplateRevision } from './ListingItemTemplateRevision';
 import { Profile } from './Profile';
 import { ListingItemTemplateSearchParams } from '../requests/ListingItemTemplateSearchParams';
 import {Logger as LoggerType} from '../../core/Logger';
@@ -173,6 +174,10 @@ export class ListingItemTemplate extends Bookshelf.Model<ListingItemTemplate> {
         return this.hasMany(ListingItem, 'listing_item_template_id', 'id');
     }
 
+    public ListingItemTemplateRevisions(): Collection<ListingItemTemplateRevision> {
+        return this.hasMany(ListingItemTemplateRevision, 'listing_item_template_id', 'id');
+    }
+
     public Profile(): Profile {
         return this.belongsTo(Profile, 'profile_id', 'id');
     }
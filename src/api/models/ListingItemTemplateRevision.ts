@@ -0,0 +1,108 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { Bookshelf } from '../../config/Database';
+import { Collection, Model } from 'bookshelf';
+import { ListingItemTemplate } from './ListingItemTemplate';
+import { ListingItem } from './ListingItem';
+
+
+export class ListingItemTemplateRevision extends Bookshelf.Model<ListingItemTemplateRevision> {
+
+    public static RELATIONS = [];
+
+    public static async fetchAllByListingItemTemplateId(listingItemTemplateId: number,
+                                                        withRelated: boolean = true): Promise<Collection<ListingItemTemplateRevision>> {
+        const revisionCollection = ListingItemTemplateRevision.forge<Model<ListingItemTemplateRevision>>()
+            .query(qb => {
+                qb.where('listing_item_template_id', '=', listingItemTemplateId);
+            })
+            .orderBy('revision', 'ASC');
+
+        if (withRelated) {
+            return await revisionCollection.fetchAll({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await revisionCollection.fetchAll();
+        }
+    }
+
+    public static async fetchLatestByHash(value: string, withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        const revision = ListingItemTemplateRevision.forge<Model<ListingItemTemplateRevision>>()
+            .query(qb => {
+                qb.where('hash', '=', value);
+            })
+            .orderBy('id', 'DESC');
+
+        if (withRelated) {
+            return await revision.fetch({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await revision.fetch();
+        }
+    }
+
+    public static async fetchOneByMessageHash(listingItemTemplateId: number, value: string,
+                                              withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        const revision = ListingItemTemplateRevision.forge<Model<ListingItemTemplateRevision>>()
+            .query(qb => {
+                qb.where('listing_item_template_id', '=', listingItemTemplateId);
+                qb.andWhere('message_hash', '=', value);
+            })
+            .orderBy('id', 'DESC');
+
+        if (withRelated) {
+            return await revision.fetch({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await revision.fetch();
+        }
+    }
+
+    public static async fetchById(value: number, withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        if (withRelated) {
+            return await ListingItemTemplateRevision.where<ListingItemTemplateRevision>({ id: value }).fetch({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await ListingItemTemplateRevision.where<ListingItemTemplateRevision>({ id: value }).fetch();
+        }
+    }
+
+    public get tableName(): string { return 'listing_item_template_revisions'; }
+    public get hasTimestamps(): boolean { return true; }
+
+    public get Id(): number { return this.get('id'); }
+    public set Id(value: number) { this.set('id', value); }
+
+    public get Revision(): number { return this.get('revision'); }
+    public set Revision(value: number) { this.set('revision', value); }
+
+    public get Hash(): string { return this.get('hash'); }
+    public set Hash(value: string) { this.set('hash', value); }
+
+    public get Data(): string { return this.get('data'); }
+    public set Data(value: string) { this.set('data', value); }
+
+    public get MessageHash(): string { return this.get('messageHash'); }
+    public set MessageHash(value: string) { this.set('messageHash', value); }
+
+    public get UpdatedAt(): Date { return this.get('updatedAt'); }
+    public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
+
+    public get CreatedAt(): Date { return this.get('createdAt'); }
+    public set CreatedAt(value: Date) { this.set('createdAt', value); }
+
+    public ListingItemTemplate(): ListingItemTemplate {
+        return this.belongsTo(ListingItemTemplate, 'listing_item_template_id', 'id');
+    }
+
+    public ListingItems(): Collection<ListingItem> {
+        return this.hasMany(ListingItem, 'listing_item_template_revision_id', 'id');
+    }
+
+}
@@ -0,0 +1,123 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { Bookshelf } from '../../config/Database';
+import { Collection, Model } from 'bookshelf';
+import { ListingItemTemplate } from './ListingItemTemplate';
+import { Market } from './Market';
+import { ListingItemTemplateScheduleSearchParams } from '../requests/ListingItemTemplateScheduleSearchParams';
+
+
+export class ListingItemTemplateSchedule extends Bookshelf.Model<ListingItemTemplateSchedule> {
+
+    public static RELATIONS = [
+        'ListingItemTemplate',
+        'ListingItemTemplate.ItemInformation',
+        'Market'
+    ];
+
+    public static async searchBy(options: ListingItemTemplateScheduleSearchParams,
+                                 withRelated: boolean = true): Promise<Collection<ListingItemTemplateSchedule>> {
+
+        options.page = options.page || 0;
+        options.pageLimit = options.pageLimit || 10;
+
+        const scheduleCollection = ListingItemTemplateSchedule.forge<Model<ListingItemTemplateSchedule>>()
+            .query(qb => {
+
+                if (options.status) {
+                    qb.where('listing_item_template_schedules.status', '=', options.status.toString());
+                }
+
+                if (options.postAt) {
+                    qb.where('listing_item_template_schedules.post_at', '<=', options.postAt);
+                }
+
+            })
+            .orderBy('listing_item_template_schedules.post_at', options.order)
+            .query({
+                limit: options.pageLimit,
+                offset: options.page * options.pageLimit
+            });
+
+        if (withRelated) {
+            return await scheduleCollection.fetchAll({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await scheduleCollection.fetchAll();
+        }
+    }
+
+    public static async fetchById(value: number, withRelated: boolean = true): Promise<ListingItemTemplateSchedule> {
+        if (withRelated) {
+            return await ListingItemTemplateSchedule.where<ListingItemTemplateSchedule>({ id: value }).fetch({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await ListingItemTemplateSchedule.where<ListingItemTemplateSchedule>({ id: value }).fetch();
+        }
+    }
+
+    public static async fetchByListingItemTemplateId(value: number, withRelated: boolean = true): Promise<ListingItemTemplateSchedule> {
+        if (withRelated) {
+            return await ListingItemTemplateSchedule.where<ListingItemTemplateSchedule>({ listing_item_template_id: value }).fetch({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await ListingItemTemplateSchedule.where<ListingItemTemplateSchedule>({ listing_item_template_id: value }).fetch();
+        }
+    }
+
+    public get tableName(): string { return 'listing_item_template_schedules'; }
+    public get hasTimestamps(): boolean { return true; }
+
+    public get Id(): number { return this.get('id'); }
+    public set Id(value: number) { this.set('id', value); }
+
+    public get Status(): string { return this.get('status'); }
+    public set Status(value: string) { this.set('status', value); }
+
+    public get PostAt(): number { return this.get('postAt'); }
+    public set PostAt(value: number) { this.set('postAt', value); }
+
+    public get DaysRetention(): number { return this.get('daysRetention'); }
+    public set DaysRetention(value: number) { this.set('daysRetention', value); }
+
+    public get RepostBeforeExpiry(): number { return this.get('repostBeforeExpiry'); }
+    public set RepostBeforeExpiry(value: number) { this.set('repostBeforeExpiry', value); }
+
+    public get FeeBudget(): number { return this.get('feeBudget'); }
+    public set FeeBudget(value: number) { this.set('feeBudget', value); }
+
+    public get FeesSpent(): number { return this.get('feesSpent'); }
+    public set FeesSpent(value: number) { this.set('feesSpent', value); }
+
+    public get PostCount(): number { return this.get('postCount'); }
+    public set PostCount(value: number) { this.set('postCount', value); }
+
+    public get LastPostedAt(): number { return this.get('lastPostedAt'); }
+    public set LastPostedAt(value: number) { this.set('lastPostedAt', value); }
+
+    public get ExpiresAt(): number { return this.get('expiresAt'); }
+    public set ExpiresAt(value: number) { this.set('expiresAt', value); }
+
+    public get Reason(): string { return this.get('reason'); }
+    public set Reason(value: string) { this.set('reason', value); }
+
+    public get UpdatedAt(): Date { return this.get('updatedAt'); }
+    public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
+
+    public get CreatedAt(): Date { return this.get('createdAt'); }
+    public set CreatedAt(value: Date) { this.set('createdAt', value); }
+
+    public ListingItemTemplate(): ListingItemTemplate {
+        return this.belongsTo(ListingItemTemplate, 'listing_item_template_id', 'id');
+    }
+
+    public Market(): Market {
+        return this.belongsTo(Market, 'market_id', 'id');
+    }
+
+}
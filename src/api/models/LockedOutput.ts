@@ -3,32 +3,36 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
 import { Bid } from './Bid';
 
 
 export class LockedOutput extends Bookshelf.Model<LockedOutput> {
 
     public static RELATIONS = [
-        'Bid'
+        'Bid',
+        'Bid.OrderItem'
     ];
 
-    public static async fetchById(value: number, withRelated: boolean = true): Promise<LockedOutput> {
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<LockedOutput> {
         if (withRelated) {
             return await LockedOutput.where<LockedOutput>({ id: value }).fetch({
-                withRelated: this.RELATIONS
+                withRelated: this.RELATIONS,
+                transacting: trx
             });
         } else {
-            return await LockedOutput.where<LockedOutput>({ id: value }).fetch();
+            return await LockedOutput.where<LockedOutput>({ id: value }).fetch({ transacting: trx });
         }
     }
 
-    public static async fetchByTxId(value: string, withRelated: boolean = true): Promise<LockedOutput> {
+    public static async fetchByTxId(value: string, withRelated: boolean = true, trx?: Knex.Transaction): Promise<LockedOutput> {
         if (withRelated) {
             return await LockedOutput.where<LockedOutput>({ txid: value }).fetch({
-                withRelated: this.RELATIONS
+                withRelated: this.RELATIONS,
+                transacting: trx
             });
         } else {
-            return await LockedOutput.where<LockedOutput>({ txid: value }).fetch();
+            return await LockedOutput.where<LockedOutput>({ txid: value }).fetch({ transacting: trx });
         }
     }
 
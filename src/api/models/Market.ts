@@ -54,6 +54,12 @@ export class Market extends Bookshelf.Model<Market> {
     public get Address(): string { return this.get('address'); }
     public set Address(value: string) { this.set('address', value); }
 
+    public get BidExpiration(): number { return this.get('bidExpiration'); }
+    public set BidExpiration(value: number) { this.set('bidExpiration', value); }
+
+    public get OrderExpiration(): number { return this.get('orderExpiration'); }
+    public set OrderExpiration(value: number) { this.set('orderExpiration', value); }
+
     public get UpdatedAt(): Date { return this.get('updatedAt'); }
     public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
 
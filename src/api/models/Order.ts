@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
 import { Collection, Model } from 'bookshelf';
 import { OrderItem } from './OrderItem';
 import { Address } from './Address';
@@ -16,6 +17,7 @@ export class Order extends Bookshelf.Model<Order> {
         'OrderItems.Bid',
         'OrderItems.Bid.ListingItem',
         'OrderItems.OrderItemObjects',
+        'OrderItems.EscrowTransactions',
         'OrderItems.Bid.ListingItem.ListingItemTemplate',
         'OrderItems.Bid.ListingItem.PaymentInformation',
         'OrderItems.Bid.ListingItem.PaymentInformation.Escrow',
@@ -24,13 +26,14 @@ export class Order extends Bookshelf.Model<Order> {
         'ShippingAddress'
     ];
 
-    public static async fetchById(value: number, withRelated: boolean = true): Promise<Order> {
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Order> {
         if (withRelated) {
             return await Order.where<Order>({ id: value }).fetch({
-                withRelated: this.RELATIONS
+                withRelated: this.RELATIONS,
+                transacting: trx
             });
         } else {
-            return await Order.where<Order>({ id: value }).fetch();
+            return await Order.where<Order>({ id: value }).fetch({ transacting: trx });
         }
     }
 
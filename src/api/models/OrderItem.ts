@@ -4,9 +4,11 @@
 
 import { Collection } from 'bookshelf';
 import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
 import { Order } from './Order';
 import { Bid } from './Bid';
 import { OrderItemObject } from './OrderItemObject';
+import { EscrowTransaction } from './EscrowTransaction';
 
 export class OrderItem extends Bookshelf.Model<OrderItem> {
 
@@ -19,16 +21,18 @@ export class OrderItem extends Bookshelf.Model<OrderItem> {
         'Bid.ListingItem.PaymentInformation.Escrow',
         'Bid.ListingItem.PaymentInformation.Escrow.Ratio',
         'Bid.ShippingAddress',
-        'OrderItemObjects'
+        'OrderItemObjects',
+        'EscrowTransactions'
     ];
 
-    public static async fetchById(value: number, withRelated: boolean = true): Promise<OrderItem> {
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItem> {
         if (withRelated) {
             return await OrderItem.where<OrderItem>({ id: value }).fetch({
-                withRelated: this.RELATIONS
+                withRelated: this.RELATIONS,
+                transacting: trx
             });
         } else {
-            return await OrderItem.where<OrderItem>({ id: value }).fetch();
+            return await OrderItem.where<OrderItem>({ id: value }).fetch({ transacting: trx });
         }
     }
 
@@ -66,4 +70,8 @@ export class OrderItem extends Bookshelf.Model<OrderItem> {
         return this.hasMany(OrderItemObject, 'order_item_id', 'id');
     }
 
+    public EscrowTransactions(): Collection<EscrowTransaction> {
+        return this.hasMany(EscrowTransaction, 'order_item_id', 'id');
+    }
+
 }
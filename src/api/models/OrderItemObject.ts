@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
 import { OrderItem } from './OrderItem';
 
 export class OrderItemObject extends Bookshelf.Model<OrderItemObject> {
@@ -11,13 +12,14 @@ export class OrderItemObject extends Bookshelf.Model<OrderItemObject> {
         'OrderItem'
     ];
 
-    public static async fetchById(value: number, withRelated: boolean = true): Promise<OrderItemObject> {
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItemObject> {
         if (withRelated) {
             return await OrderItemObject.where<OrderItemObject>({ id: value }).fetch({
-                withRelated: this.RELATIONS
+                withRelated: this.RELATIONS,
+                transacting: trx
             });
         } else {
-            return await OrderItemObject.where<OrderItemObject>({ id: value }).fetch();
+            return await OrderItemObject.where<OrderItemObject>({ id: value }).fetch({ transacting: trx });
         }
     }
 
@@ -0,0 +1,70 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
+import { Collection, Model } from 'bookshelf';
+import { OrderItem } from './OrderItem';
+
+
+export class OrderItemStatusHistory extends Bookshelf.Model<OrderItemStatusHistory> {
+
+    public static RELATIONS = [];
+
+    public static async fetchAllByOrderItemId(orderItemId: number, withRelated: boolean = true): Promise<Collection<OrderItemStatusHistory>> {
+        const historyCollection = OrderItemStatusHistory.forge<Model<OrderItemStatusHistory>>()
+            .query(qb => {
+                qb.where('order_item_id', '=', orderItemId);
+            })
+            .orderBy('id', 'ASC');
+
+        if (withRelated) {
+            return await historyCollection.fetchAll({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await historyCollection.fetchAll();
+        }
+    }
+
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItemStatusHistory> {
+        if (withRelated) {
+            return await OrderItemStatusHistory.where<OrderItemStatusHistory>({ id: value }).fetch({
+                withRelated: this.RELATIONS,
+                transacting: trx
+            });
+        } else {
+            return await OrderItemStatusHistory.where<OrderItemStatusHistory>({ id: value }).fetch({ transacting: trx });
+        }
+    }
+
+    public get tableName(): string { return 'order_item_status_history'; }
+    public get hasTimestamps(): boolean { return true; }
+
+    public get Id(): number { return this.get('id'); }
+    public set Id(value: number) { this.set('id', value); }
+
+    public get PreviousStatus(): string { return this.get('previousStatus'); }
+    public set PreviousStatus(value: string) { this.set('previousStatus', value); }
+
+    public get NewStatus(): string { return this.get('newStatus'); }
+    public set NewStatus(value: string) { this.set('newStatus', value); }
+
+    public get Msgid(): string { return this.get('msgid'); }
+    public set Msgid(value: string) { this.set('msgid', value); }
+
+    public get Txid(): string { return this.get('txid'); }
+    public set Txid(value: string) { this.set('txid', value); }
+
+    public get UpdatedAt(): Date { return this.get('updatedAt'); }
+    public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
+
+    public get CreatedAt(): Date { return this.get('createdAt'); }
+    public set CreatedAt(value: Date) { this.set('createdAt', value); }
+
+    public OrderItem(): OrderItem {
+        return this.belongsTo(OrderItem, 'order_item_id', 'id');
+    }
+
+}
@@ -0,0 +1,109 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { Bookshelf } from '../../config/Database';
+import * as Knex from 'knex';
+import { Collection, Model } from 'bookshelf';
+import { OutboxMessageSearchParams } from '../requests/OutboxMessageSearchParams';
+
+
+export class OutboxMessage extends Bookshelf.Model<OutboxMessage> {
+
+    public static RELATIONS = [];
+
+    public static async searchBy(options: OutboxMessageSearchParams, withRelated: boolean = true): Promise<Collection<OutboxMessage>> {
+
+        options.page = options.page || 0;
+        options.pageLimit = options.pageLimit || 10;
+
+        const messageCollection = OutboxMessage.forge<Model<OutboxMessage>>()
+            .query(qb => {
+
+                if (options.status) {
+                    qb.where('outbox_messages.status', '=', options.status.toString());
+                }
+
+                if (options.nextRetry) {
+                    qb.where(subQb => {
+                        subQb.whereNull('outbox_messages.next_retry')
+                            .orWhere('outbox_messages.next_retry', '<=', options.nextRetry);
+                    });
+                }
+
+            })
+            .orderBy('outbox_messages.created_at', options.order)
+            .query({
+                limit: options.pageLimit,
+                offset: options.page * options.pageLimit
+            });
+
+        if (withRelated) {
+            return await messageCollection.fetchAll({
+                withRelated: this.RELATIONS
+            });
+        } else {
+            return await messageCollection.fetchAll();
+        }
+    }
+
+    public static async fetchById(value: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OutboxMessage> {
+        if (withRelated) {
+            return await OutboxMessage.where<OutboxMessage>({ id: value }).fetch({
+                withRelated: this.RELATIONS,
+                transacting: trx
+            });
+        } else {
+            return await OutboxMessage.where<OutboxMessage>({ id: value }).fetch({ transacting: trx });
+        }
+    }
+
+    public get tableName(): string { return 'outbox_messages'; }
+    public get hasTimestamps(): boolean { return true; }
+
+    public get Id(): number { return this.get('id'); }
+    public set Id(value: number) { this.set('id', value); }
+
+    public get Type(): string { return this.get('type'); }
+    public set Type(value: string) { this.set('type', value); }
+
+    public get Status(): string { return this.get('status'); }
+    public set Status(value: string) { this.set('status', value); }
+
+    public get FromAddress(): string { return this.get('fromAddress'); }
+    public set FromAddress(value: string) { this.set('fromAddress', value); }
+
+    public get ToAddress(): string { return this.get('toAddress'); }
+    public set ToAddress(value: string) { this.set('toAddress', value); }
+
+    public get Message(): string { return this.get('message'); }
+    public set Message(value: string) { this.set('message', value); }
+
+    public get PaidMessage(): boolean { return this.get('paidMessage'); }
+    public set PaidMessage(value: boolean) { this.set('paidMessage', value); }
+
+    public get DaysRetention(): number { return this.get('daysRetention'); }
+    public set DaysRetention(value: number) { this.set('daysRetention', value); }
+
+    public get Attempts(): number { return this.get('attempts'); }
+    public set Attempts(value: number) { this.set('attempts', value); }
+
+    public get NextRetry(): number { return this.get('nextRetry'); }
+    public set NextRetry(value: number) { this.set('nextRetry', value); }
+
+    public get Reason(): string { return this.get('reason'); }
+    public set Reason(value: string) { this.set('reason', value); }
+
+    public get Msgid(): string { return this.get('msgid'); }
+    public set Msgid(value: string) { this.set('msgid', value); }
+
+    public get SentAt(): number { return this.get('sentAt'); }
+    public set SentAt(value: number) { this.set('sentAt', value); }
+
+    public get UpdatedAt(): Date { return this.get('updatedAt'); }
+    public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
+
+    public get CreatedAt(): Date { return this.get('createdAt'); }
+    public set CreatedAt(value: Date) { this.set('createdAt', value); }
+
+}
@@ -43,6 +43,13 @@ export class SmsgMessage extends Bookshelf.Model<SmsgMessage> {
                     qb.whereIn('smsg_messages.type', options.types);
                 }
 
+                if (options.nextRetry) {
+                    qb.where(subQb => {
+                        subQb.whereNull('smsg_messages.next_retry')
+                            .orWhere('smsg_messages.next_retry', '<=', options.nextRetry);
+                    });
+                }
+
                 qb.where('smsg_messages.created_at', '<', Date.now() - options.age);
 
             })
@@ -129,6 +136,15 @@ export class SmsgMessage extends Bookshelf.Model<SmsgMessage> {
     public get Text(): string { return this.get('text'); }
     public set Text(value: string) { this.set('text', value); }
 
+    public get Reason(): string { return this.get('reason'); }
+    public set Reason(value: string) { this.set('reason', value); }
+
+    public get Attempts(): number { return this.get('attempts'); }
+    public set Attempts(value: number) { this.set('attempts', value); }
+
+    public get NextRetry(): number { return this.get('nextRetry'); }
+    public set NextRetry(value: number) { this.set('nextRetry', value); }
+
     public get UpdatedAt(): Date { return this.get('updatedAt'); }
     public set UpdatedAt(value: Date) { this.set('updatedAt', value); }
 
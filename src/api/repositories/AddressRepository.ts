@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Types, Core, Targets } from '../../constants';
 import { Address } from '../models/Address';
@@ -26,40 +27,40 @@ export class AddressRepository {
         return list as Bookshelf.Collection<Address>;
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<Address> {
-        return this.AddressModel.fetchById(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Address> {
+        return this.AddressModel.fetchById(id, withRelated, trx);
     }
 
-    public async create(data: any): Promise<Address> {
+    public async create(data: any, trx?: Knex.Transaction): Promise<Address> {
         const address = this.AddressModel.forge<Address>(data);
         try {
-            const addressCreated = await address.save();
-            return this.AddressModel.fetchById(addressCreated.id);
+            const addressCreated = await address.save({}, { transacting: trx });
+            return this.AddressModel.fetchById(addressCreated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not create the address!', error);
         }
     }
 
-    public async update(id: number, data: any): Promise<Address> {
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<Address> {
         const address = this.AddressModel.forge<Address>({ id });
         try {
-            const addressUpdated = await address.save(data, { patch: true });
-            return this.AddressModel.fetchById(addressUpdated.id);
+            const addressUpdated = await address.save(data, { patch: true, transacting: trx });
+            return this.AddressModel.fetchById(addressUpdated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not update the address!', error);
         }
     }
 
-    public async destroy(id: number): Promise<void> {
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
         let address = this.AddressModel.forge<Address>({ id });
         try {
-            address = await address.fetch({ require: true });
+            address = await address.fetch({ require: true, transacting: trx });
         } catch (error) {
             throw new NotFoundException(id);
         }
 
         try {
-            await address.destroy();
+            await address.destroy({ transacting: trx });
             return;
         } catch (error) {
             throw new DatabaseException('Could not delete the address!', error);
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Types, Core, Targets } from '../../constants';
 import { BidData } from '../models/BidData';
@@ -26,40 +27,40 @@ export class BidDataRepository {
         return list as Bookshelf.Collection<BidData>;
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<BidData> {
-        return this.BidDataModel.fetchById(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<BidData> {
+        return this.BidDataModel.fetchById(id, withRelated, trx);
     }
 
-    public async create(data: any): Promise<BidData> {
+    public async create(data: any, trx?: Knex.Transaction): Promise<BidData> {
         const bidData = this.BidDataModel.forge<BidData>(data);
         try {
-            const bidDataCreated = await bidData.save();
-            return this.BidDataModel.fetchById(bidDataCreated.id);
+            const bidDataCreated = await bidData.save({}, { transacting: trx });
+            return this.BidDataModel.fetchById(bidDataCreated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not create the bidData!', error);
         }
     }
 
-    public async update(id: number, data: any): Promise<BidData> {
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<BidData> {
         const bidData = this.BidDataModel.forge<BidData>({ id });
         try {
-            const bidDataUpdated = await bidData.save(data, { patch: true });
-            return this.BidDataModel.fetchById(bidDataUpdated.id);
+            const bidDataUpdated = await bidData.save(data, { patch: true, transacting: trx });
+            return this.BidDataModel.fetchById(bidDataUpdated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not update the bidData!', error);
         }
     }
 
-    public async destroy(id: number): Promise<void> {
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
         let bidData = this.BidDataModel.forge<BidData>({ id });
         try {
-            bidData = await bidData.fetch({ require: true });
+            bidData = await bidData.fetch({ require: true, transacting: trx });
         } catch (error) {
             throw new NotFoundException(id);
         }
 
         try {
-            await bidData.destroy();
+            await bidData.destroy({ transacting: trx });
             return;
         } catch (error) {
             throw new DatabaseException('Could not delete the bidData!', error);
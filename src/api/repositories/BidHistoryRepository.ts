@@ -0,0 +1,65 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import { inject, named } from 'inversify';
+import { Types, Core, Targets } from '../../constants';
+import { BidHistory } from '../models/BidHistory';
+import { DatabaseException } from '../exceptions/DatabaseException';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { Logger as LoggerType } from '../../core/Logger';
+
+
+export class BidHistoryRepository {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Model) @named(Targets.Model.BidHistory) public BidHistoryModel: typeof BidHistory,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<BidHistory>> {
+        const list = await this.BidHistoryModel.fetchAll();
+        return list as Bookshelf.Collection<BidHistory>;
+    }
+
+    public async findAllByBidId(bidId: number, withRelated: boolean = true): Promise<Bookshelf.Collection<BidHistory>> {
+        return this.BidHistoryModel.fetchAllByBidId(bidId, withRelated);
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<BidHistory> {
+        return this.BidHistoryModel.fetchById(id, withRelated, trx);
+    }
+
+    public async create(data: any, trx?: Knex.Transaction): Promise<BidHistory> {
+        const bidHistory = this.BidHistoryModel.forge<BidHistory>(data);
+        try {
+            const bidHistoryCreated = await bidHistory.save({}, { transacting: trx });
+            return this.BidHistoryModel.fetchById(bidHistoryCreated.id, true, trx);
+        } catch (error) {
+            throw new DatabaseException('Could not create the bidHistory!', error);
+        }
+    }
+
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
+        let bidHistory = this.BidHistoryModel.forge<BidHistory>({ id });
+        try {
+            bidHistory = await bidHistory.fetch({ require: true, transacting: trx });
+        } catch (error) {
+            throw new NotFoundException(id);
+        }
+
+        try {
+            await bidHistory.destroy({ transacting: trx });
+            return;
+        } catch (error) {
+            throw new DatabaseException('Could not delete the bidHistory!', error);
+        }
+    }
+
+}
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Types, Core, Targets } from '../../constants';
 import { Bid } from '../models/Bid';
@@ -27,8 +28,8 @@ export class BidRepository {
         return list as Bookshelf.Collection<Bid>;
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<Bid> {
-        return this.BidModel.fetchById(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Bid> {
+        return this.BidModel.fetchById(id, withRelated, trx);
     }
 
     /**
@@ -40,37 +41,37 @@ export class BidRepository {
         return this.BidModel.search(options, withRelated);
     }
 
-    public async create(data: any): Promise<Bid> {
+    public async create(data: any, trx?: Knex.Transaction): Promise<Bid> {
         const bid = this.BidModel.forge<Bid>(data);
         try {
-            const bidCreated = await bid.save();
-            return this.BidModel.fetchById(bidCreated.id);
+            const bidCreated = await bid.save({}, { transacting: trx });
+            return this.BidModel.fetchById(bidCreated.id, true, trx);
         } catch (error) {
             this.log.error('Could not creat the bid!', error);
             throw new DatabaseException('Could not create the bid!', error);
         }
     }
 
-    public async update(id: number, data: any): Promise<Bid> {
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<Bid> {
         const bid = this.BidModel.forge<Bid>({ id });
         try {
-            const bidUpdated = await bid.save(data, { patch: true });
-            return this.BidModel.fetchById(bidUpdated.id);
+            const bidUpdated = await bid.save(data, { patch: true, transacting: trx });
+            return this.BidModel.fetchById(bidUpdated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not update the bid!', error);
         }
     }
 
-    public async destroy(id: number): Promise<void> {
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
         let bid = this.BidModel.forge<Bid>({ id });
         try {
-            bid = await bid.fetch({ require: true });
+            bid = await bid.fetch({ require: true, transacting: trx });
         } catch (error) {
             throw new NotFoundException(id);
         }
 
         try {
-            await bid.destroy();
+            await bid.destroy({ transacting: trx });
             return;
         } catch (error) {
             throw new DatabaseException('Could not delete the bid!', error);
@@ -0,0 +1,77 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import { inject, named } from 'inversify';
+import { Types, Core, Targets } from '../../constants';
+import { EscrowTransaction } from '../models/EscrowTransaction';
+import { DatabaseException } from '../exceptions/DatabaseException';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { Logger as LoggerType } from '../../core/Logger';
+import { EscrowTransactionSearchParams } from '../requests/EscrowTransactionSearchParams';
+
+
+export class EscrowTransactionRepository {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Model) @named(Targets.Model.EscrowTransaction) public EscrowTransactionModel: typeof EscrowTransaction,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async searchBy(options: EscrowTransactionSearchParams, withRelated: boolean = true,
+                          trx?: Knex.Transaction): Promise<Bookshelf.Collection<EscrowTransaction>> {
+        return this.EscrowTransactionModel.searchBy(options, withRelated, trx);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<EscrowTransaction>> {
+        const list = await this.EscrowTransactionModel.fetchAll();
+        return list as Bookshelf.Collection<EscrowTransaction>;
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<EscrowTransaction> {
+        return this.EscrowTransactionModel.fetchById(id, withRelated, trx);
+    }
+
+    public async create(data: any, trx?: Knex.Transaction): Promise<EscrowTransaction> {
+        const escrowTransaction = this.EscrowTransactionModel.forge<EscrowTransaction>(data);
+        try {
+            const escrowTransactionCreated = await escrowTransaction.save({}, { transacting: trx });
+            return this.EscrowTransactionModel.fetchById(escrowTransactionCreated.id, true, trx);
+        } catch (error) {
+            throw new DatabaseException('Could not create the escrowTransaction!', error);
+        }
+    }
+
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<EscrowTransaction> {
+        const escrowTransaction = this.EscrowTransactionModel.forge<EscrowTransaction>({ id });
+        try {
+            const escrowTransactionUpdated = await escrowTransaction.save(data, { patch: true, transacting: trx });
+            return this.EscrowTransactionModel.fetchById(escrowTransactionUpdated.id, true, trx);
+        } catch (error) {
+            throw new DatabaseException('Could not update the escrowTransaction!', error);
+        }
+    }
+
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
+        let escrowTransaction = this.EscrowTransactionModel.forge<EscrowTransaction>({ id });
+        try {
+            escrowTransaction = await escrowTransaction.fetch({ require: true, transacting: trx });
+        } catch (error) {
+            throw new NotFoundException(id);
+        }
+
+        try {
+            await escrowTransaction.destroy({ transacting: trx });
+            return;
+        } catch (error) {
+            throw new DatabaseException('Could not delete the escrowTransaction!', error);
+        }
+    }
+
+}
@@ -0,0 +1,74 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import { inject, named } from 'inversify';
+import { Types, Core, Targets } from '../../constants';
+import { ListingItemTemplateRevision } from '../models/ListingItemTemplateRevision';
+import { DatabaseException } from '../exceptions/DatabaseException';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { Logger as LoggerType } from '../../core/Logger';
+
+
+export class ListingItemTemplateRevisionRepository {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Model) @named(Targets.Model.ListingItemTemplateRevision) public ListingItemTemplateRevisionModel: typeof ListingItemTemplateRevision,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<ListingItemTemplateRevision>> {
+        const list = await this.ListingItemTemplateRevisionModel.fetchAll();
+        return list as Bookshelf.Collection<ListingItemTemplateRevision>;
+    }
+
+    public async findAllByListingItemTemplateId(listingItemTemplateId: number,
+                                                withRelated: boolean = true): Promise<Bookshelf.Collection<ListingItemTemplateRevision>> {
+        return this.ListingItemTemplateRevisionModel.fetchAllByListingItemTemplateId(listingItemTemplateId, withRelated);
+    }
+
+    public async findLatestByHash(hash: string, withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        return this.ListingItemTemplateRevisionModel.fetchLatestByHash(hash, withRelated);
+    }
+
+    public async findOneByMessageHash(listingItemTemplateId: number, messageHash: string,
+                                      withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        return this.ListingItemTemplateRevisionModel.fetchOneByMessageHash(listingItemTemplateId, messageHash, withRelated);
+    }
+
+    public async findOne(id: number, withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        return this.ListingItemTemplateRevisionModel.fetchById(id, withRelated);
+    }
+
+    public async create(data: any): Promise<ListingItemTemplateRevision> {
+        const revision = this.ListingItemTemplateRevisionModel.forge<ListingItemTemplateRevision>(data);
+        try {
+            const revisionCreated = await revision.save();
+            return this.ListingItemTemplateRevisionModel.fetchById(revisionCreated.id);
+        } catch (error) {
+            throw new DatabaseException('Could not create the listingItemTemplateRevision!', error);
+        }
+    }
+
+    public async destroy(id: number): Promise<void> {
+        let revision = this.ListingItemTemplateRevisionModel.forge<ListingItemTemplateRevision>({ id });
+        try {
+            revision = await revision.fetch({ require: true });
+        } catch (error) {
+            throw new NotFoundException(id);
+        }
+
+        try {
+            await revision.destroy();
+            return;
+        } catch (error) {
+            throw new DatabaseException('Could not delete the listingItemTemplateRevision!', error);
+        }
+    }
+
+}
@@ -0,0 +1,80 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import { inject, named } from 'inversify';
+import { Types, Core, Targets } from '../../constants';
+import { ListingItemTemplateSchedule } from '../models/ListingItemTemplateSchedule';
+import { DatabaseException } from '../exceptions/DatabaseException';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { Logger as LoggerType } from '../../core/Logger';
+import { ListingItemTemplateScheduleSearchParams } from '../requests/ListingItemTemplateScheduleSearchParams';
+
+
+export class ListingItemTemplateScheduleRepository {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Model) @named(Targets.Model.ListingItemTemplateSchedule) public ListingItemTemplateScheduleModel: typeof ListingItemTemplateSchedule,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async searchBy(options: ListingItemTemplateScheduleSearchParams,
+                          withRelated: boolean = true): Promise<Bookshelf.Collection<ListingItemTemplateSchedule>> {
+        return this.ListingItemTemplateScheduleModel.searchBy(options, withRelated);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<ListingItemTemplateSchedule>> {
+        const list = await this.ListingItemTemplateScheduleModel.fetchAll();
+        return list as Bookshelf.Collection<ListingItemTemplateSchedule>;
+    }
+
+    public async findOne(id: number, withRelated: boolean = true): Promise<ListingItemTemplateSchedule> {
+        return this.ListingItemTemplateScheduleModel.fetchById(id, withRelated);
+    }
+
+    public async findOneByListingItemTemplateId(listingItemTemplateId: number, withRelated: boolean = true): Promise<ListingItemTemplateSchedule> {
+        return this.ListingItemTemplateScheduleModel.fetchByListingItemTemplateId(listingItemTemplateId, withRelated);
+    }
+
+    public async create(data: any): Promise<ListingItemTemplateSchedule> {
+        const listingItemTemplateSchedule = this.ListingItemTemplateScheduleModel.forge<ListingItemTemplateSchedule>(data);
+        try {
+            const listingItemTemplateScheduleCreated = await listingItemTemplateSchedule.save();
+            return this.ListingItemTemplateScheduleModel.fetchById(listingItemTemplateScheduleCreated.id);
+        } catch (error) {
+            throw new DatabaseException('Could not create the listingItemTemplateSchedule!', error);
+        }
+    }
+
+    public async update(id: number, data: any): Promise<ListingItemTemplateSchedule> {
+        const listingItemTemplateSchedule = this.ListingItemTemplateScheduleModel.forge<ListingItemTemplateSchedule>({ id });
+        try {
+            const listingItemTemplateScheduleUpdated = await listingItemTemplateSchedule.save(data, { patch: true });
+            return this.ListingItemTemplateScheduleModel.fetchById(listingItemTemplateScheduleUpdated.id);
+        } catch (error) {
+            throw new DatabaseException('Could not update the listingItemTemplateSchedule!', error);
+        }
+    }
+
+    public async destroy(id: number): Promise<void> {
+        let listingItemTemplateSchedule = this.ListingItemTemplateScheduleModel.forge<ListingItemTemplateSchedule>({ id });
+        try {
+            listingItemTemplateSchedule = await listingItemTemplateSchedule.fetch({ require: true });
+        } catch (error) {
+            throw new NotFoundException(id);
+        }
+
+        try {
+            await listingItemTemplateSchedule.destroy();
+            return;
+        } catch (error) {
+            throw new DatabaseException('Could not delete the listingItemTemplateSchedule!', error);
+        }
+    }
+
+}
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Types, Core, Targets } from '../../constants';
 import { LockedOutput } from '../models/LockedOutput';
@@ -21,49 +22,48 @@ export class LockedOutputRepository {
         this.log = new Logger(__filename);
     }
 
-    public async findAll(): Promise<Bookshelf.Collection<LockedOutput>> {
-        const list = await this.LockedOutputModel.fetchAll();
-        return list as Bookshelf.Collection<LockedOutput>;
+    public async findAll(trx?: Knex.Transaction): Promise<Bookshelf.Collection<LockedOutput>> {
+        return await this.LockedOutputModel.forge<LockedOutput>().fetchAll({ transacting: trx });
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<LockedOutput> {
-        return this.LockedOutputModel.fetchById(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<LockedOutput> {
+        return this.LockedOutputModel.fetchById(id, withRelated, trx);
     }
 
-    public async findOneByTxId(txid: string, withRelated: boolean = true): Promise<LockedOutput> {
-        return this.LockedOutputModel.fetchByTxId(txid, withRelated);
+    public async findOneByTxId(txid: string, withRelated: boolean = true, trx?: Knex.Transaction): Promise<LockedOutput> {
+        return this.LockedOutputModel.fetchByTxId(txid, withRelated, trx);
     }
 
-    public async create(data: any): Promise<LockedOutput> {
+    public async create(data: any, trx?: Knex.Transaction): Promise<LockedOutput> {
         const lockedOutput = this.LockedOutputModel.forge<LockedOutput>(data);
         try {
-            const lockedOutputCreated = await lockedOutput.save();
-            return this.LockedOutputModel.fetchById(lockedOutputCreated.id);
+            const lockedOutputCreated = await lockedOutput.save({}, { transacting: trx });
+            return this.LockedOutputModel.fetchById(lockedOutputCreated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not create the lockedOutput!', error);
         }
     }
 
-    public async update(id: number, data: any): Promise<LockedOutput> {
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<LockedOutput> {
         const lockedOutput = this.LockedOutputModel.forge<LockedOutput>({ id });
         try {
-            const lockedOutputUpdated = await lockedOutput.save(data, { patch: true });
-            return this.LockedOutputModel.fetchById(lockedOutputUpdated.id);
+            const lockedOutputUpdated = await lockedOutput.save(data, { patch: true, transacting: trx });
+            return this.LockedOutputModel.fetchById(lockedOutputUpdated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not update the lockedOutput!', error);
         }
     }
 
-    public async destroy(id: number): Promise<void> {
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
         let lockedOutput = this.LockedOutputModel.forge<LockedOutput>({ id });
         try {
-            lockedOutput = await lockedOutput.fetch({ require: true });
+            lockedOutput = await lockedOutput.fetch({ require: true, transacting: trx });
         } catch (error) {
             throw new NotFoundException(id);
         }
 
         try {
-            await lockedOutput.destroy();
+            await lockedOutput.destroy({ transacting: trx });
             return;
         } catch (error) {
             throw new DatabaseException('Could not delete the lockedOutput!', error);
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Types, Core, Targets } from '../../constants';
 import { OrderItemObject } from '../models/OrderItemObject';
@@ -26,40 +27,40 @@ export class OrderItemObjectRepository {
         return list as Bookshelf.Collection<OrderItemObject>;
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<OrderItemObject> {
-        return this.OrderItemObjectModel.fetchById(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItemObject> {
+        return this.OrderItemObjectModel.fetchById(id, withRelated, trx);
     }
 
-    public async create(data: any): Promise<OrderItemObject> {
+    public async create(data: any, trx?: Knex.Transaction): Promise<OrderItemObject> {
         const orderItemObject = this.OrderItemObjectModel.forge<OrderItemObject>(data);
         try {
-            const orderItemObjectCreated = await orderItemObject.save();
-            return this.OrderItemObjectModel.fetchById(orderItemObjectCreated.id);
+            const orderItemObjectCreated = await orderItemObject.save({}, { transacting: trx });
+            return this.OrderItemObjectModel.fetchById(orderItemObjectCreated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not create the orderItemObject!', error);
         }
     }
 
-    public async update(id: number, data: any): Promise<OrderItemObject> {
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<OrderItemObject> {
         const orderItemObject = this.OrderItemObjectModel.forge<OrderItemObject>({ id });
         try {
-            const orderItemObjectUpdated = await orderItemObject.save(data, { patch: true });
-            return this.OrderItemObjectModel.fetchById(orderItemObjectUpdated.id);
+            const orderItemObjectUpdated = await orderItemObject.save(data, { patch: true, transacting: trx });
+            return this.OrderItemObjectModel.fetchById(orderItemObjectUpdated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not update the orderItemObject!', error);
         }
     }
 
-    public async destroy(id: number): Promise<void> {
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
         let orderItemObject = this.OrderItemObjectModel.forge<OrderItemObject>({ id });
         try {
-            orderItemObject = await orderItemObject.fetch({ require: true });
+            orderItemObject = await orderItemObject.fetch({ require: true, transacting: trx });
         } catch (error) {
             throw new NotFoundException(id);
         }
 
         try {
-            await orderItemObject.destroy();
+            await orderItemObject.destroy({ transacting: trx });
             return;
         } catch (error) {
             throw new DatabaseException('Could not delete the orderItemObject!', error);
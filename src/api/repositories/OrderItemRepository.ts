@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Types, Core, Targets } from '../../constants';
 import { OrderItem } from '../models/OrderItem';
@@ -26,40 +27,40 @@ export class OrderItemRepository {
         return list as Bookshelf.Collection<OrderItem>;
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<OrderItem> {
-        return this.OrderItemModel.fetchById(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItem> {
+        return this.OrderItemModel.fetchById(id, withRelated, trx);
     }
 
-    public async create(data: any): Promise<OrderItem> {
+    public async create(data: any, trx?: Knex.Transaction): Promise<OrderItem> {
         const orderItem = this.OrderItemModel.forge<OrderItem>(data);
         try {
-            const orderItemCreated = await orderItem.save();
-            return this.OrderItemModel.fetchById(orderItemCreated.id);
+            const orderItemCreated = await orderItem.save({}, { transacting: trx });
+            return this.OrderItemModel.fetchById(orderItemCreated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not create the orderItem!', error);
         }
     }
 
-    public async update(id: number, data: any): Promise<OrderItem> {
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<OrderItem> {
         const orderItem = this.OrderItemModel.forge<OrderItem>({ id });
         try {
-            const orderItemUpdated = await orderItem.save(data, { patch: true });
-            return this.OrderItemModel.fetchById(orderItemUpdated.id);
+            const orderItemUpdated = await orderItem.save(data, { patch: true, transacting: trx });
+            return this.OrderItemModel.fetchById(orderItemUpdated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not update the orderItem!', error);
         }
     }
 
-    public async destroy(id: number): Promise<void> {
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
         let orderItem = this.OrderItemModel.forge<OrderItem>({ id });
         try {
-            orderItem = await orderItem.fetch({ require: true });
+            orderItem = await orderItem.fetch({ require: true, transacting: trx });
         } catch (error) {
             throw new NotFoundException(id);
         }
 
         try {
-            await orderItem.destroy();
+            await orderItem.destroy({ transacting: trx });
             return;
         } catch (error) {
             throw new DatabaseException('Could not delete the orderItem!', error);
@@ -0,0 +1,65 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import { inject, named } from 'inversify';
+import { Types, Core, Targets } from '../../constants';
+import { OrderItemStatusHistory } from '../models/OrderItemStatusHistory';
+import { DatabaseException } from '../exceptions/DatabaseException';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { Logger as LoggerType } from '../../core/Logger';
+
+
+export class OrderItemStatusHistoryRepository {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Model) @named(Targets.Model.OrderItemStatusHistory) public OrderItemStatusHistoryModel: typeof OrderItemStatusHistory,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<OrderItemStatusHistory>> {
+        const list = await this.OrderItemStatusHistoryModel.fetchAll();
+        return list as Bookshelf.Collection<OrderItemStatusHistory>;
+    }
+
+    public async findAllByOrderItemId(orderItemId: number, withRelated: boolean = true): Promise<Bookshelf.Collection<OrderItemStatusHistory>> {
+        return this.OrderItemStatusHistoryModel.fetchAllByOrderItemId(orderItemId, withRelated);
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItemStatusHistory> {
+        return this.OrderItemStatusHistoryModel.fetchById(id, withRelated, trx);
+    }
+
+    public async create(data: any, trx?: Knex.Transaction): Promise<OrderItemStatusHistory> {
+        const orderItemStatusHistory = this.OrderItemStatusHistoryModel.forge<OrderItemStatusHistory>(data);
+        try {
+            const orderItemStatusHistoryCreated = await orderItemStatusHistory.save({}, { transacting: trx });
+            return this.OrderItemStatusHistoryModel.fetchById(orderItemStatusHistoryCreated.id, true, trx);
+        } catch (error) {
+            throw new DatabaseException('Could not create the orderItemStatusHistory!', error);
+        }
+    }
+
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
+        let orderItemStatusHistory = this.OrderItemStatusHistoryModel.forge<OrderItemStatusHistory>({ id });
+        try {
+            orderItemStatusHistory = await orderItemStatusHistory.fetch({ require: true, transacting: trx });
+        } catch (error) {
+            throw new NotFoundException(id);
+        }
+
+        try {
+            await orderItemStatusHistory.destroy({ transacting: trx });
+            return;
+        } catch (error) {
+            throw new DatabaseException('Could not delete the orderItemStatusHistory!', error);
+        }
+    }
+
+}
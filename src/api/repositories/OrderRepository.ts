@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Types, Core, Targets } from '../../constants';
 import { Order } from '../models/Order';
@@ -27,8 +28,8 @@ export class OrderRepository {
         return list as Bookshelf.Collection<Order>;
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<Order> {
-        return this.OrderModel.fetchById(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Order> {
+        return this.OrderModel.fetchById(id, withRelated, trx);
     }
 
     /**
@@ -40,36 +41,36 @@ export class OrderRepository {
         return this.OrderModel.search(options, withRelated);
     }
 
-    public async create(data: any): Promise<Order> {
+    public async create(data: any, trx?: Knex.Transaction): Promise<Order> {
         const order = this.OrderModel.forge<Order>(data);
         try {
-            const orderCreated = await order.save();
-            return this.OrderModel.fetchById(orderCreated.id);
+            const orderCreated = await order.save({}, { transacting: trx });
+            return this.OrderModel.fetchById(orderCreated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not create the order!', error);
         }
     }
 
-    public async update(id: number, data: any): Promise<Order> {
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<Order> {
         const order = this.OrderModel.forge<Order>({ id });
         try {
-            const orderUpdated = await order.save(data, { patch: true });
-            return this.OrderModel.fetchById(orderUpdated.id);
+            const orderUpdated = await order.save(data, { patch: true, transacting: trx });
+            return this.OrderModel.fetchById(orderUpdated.id, true, trx);
         } catch (error) {
             throw new DatabaseException('Could not update the order!', error);
         }
     }
 
-    public async destroy(id: number): Promise<void> {
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
         let order = this.OrderModel.forge<Order>({ id });
         try {
-            order = await order.fetch({ require: true });
+            order = await order.fetch({ require: true, transacting: trx });
         } catch (error) {
             throw new NotFoundException(id);
         }
 
         try {
-            await order.destroy();
+            await order.destroy({ transacting: trx });
             return;
         } catch (error) {
             this.log.debug('error:', error);
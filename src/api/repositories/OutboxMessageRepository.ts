@@ -0,0 +1,76 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import { inject, named } from 'inversify';
+import { Types, Core, Targets } from '../../constants';
+import { OutboxMessage } from '../models/OutboxMessage';
+import { DatabaseException } from '../exceptions/DatabaseException';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { Logger as LoggerType } from '../../core/Logger';
+import { OutboxMessageSearchParams } from '../requests/OutboxMessageSearchParams';
+
+
+export class OutboxMessageRepository {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Model) @named(Targets.Model.OutboxMessage) public OutboxMessageModel: typeof OutboxMessage,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async searchBy(options: OutboxMessageSearchParams, withRelated: boolean = true): Promise<Bookshelf.Collection<OutboxMessage>> {
+        return this.OutboxMessageModel.searchBy(options, withRelated);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<OutboxMessage>> {
+        const list = await this.OutboxMessageModel.fetchAll();
+        return list as Bookshelf.Collection<OutboxMessage>;
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OutboxMessage> {
+        return this.OutboxMessageModel.fetchById(id, withRelated, trx);
+    }
+
+    public async create(data: any, trx?: Knex.Transaction): Promise<OutboxMessage> {
+        const outboxMessage = this.OutboxMessageModel.forge<OutboxMessage>(data);
+        try {
+            const outboxMessageCreated = await outboxMessage.save({}, { transacting: trx });
+            return this.OutboxMessageModel.fetchById(outboxMessageCreated.id, true, trx);
+        } catch (error) {
+            throw new DatabaseException('Could not create the outboxMessage!', error);
+        }
+    }
+
+    public async update(id: number, data: any, trx?: Knex.Transaction): Promise<OutboxMessage> {
+        const outboxMessage = this.OutboxMessageModel.forge<OutboxMessage>({ id });
+        try {
+            const outboxMessageUpdated = await outboxMessage.save(data, { patch: true, transacting: trx });
+            return this.OutboxMessageModel.fetchById(outboxMessageUpdated.id, true, trx);
+        } catch (error) {
+            throw new DatabaseException('Could not update the outboxMessage!', error);
+        }
+    }
+
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
+        let outboxMessage = this.OutboxMessageModel.forge<OutboxMessage>({ id });
+        try {
+            outboxMessage = await outboxMessage.fetch({ require: true, transacting: trx });
+        } catch (error) {
+            throw new NotFoundException(id);
+        }
+
+        try {
+            await outboxMessage.destroy({ transacting: trx });
+            return;
+        } catch (error) {
+            throw new DatabaseException('Could not delete the outboxMessage!', error);
+        }
+    }
+
+}
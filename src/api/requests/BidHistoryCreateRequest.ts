@@ -0,0 +1,28 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { BidMessageType } from '../enums/BidMessageType';
+
+// tslint:disable:variable-name
+export class BidHistoryCreateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public bid_id: number;
+
+    @IsEnum(BidMessageType)
+    @IsNotEmpty()
+    public action: BidMessageType;
+
+    @IsNotEmpty()
+    public sender: string;
+
+    public total_price: number;
+    public base_price: number;
+    public shipping_price: number;
+    public msgid: string;
+
+}
+// tslint:enable:variable-name
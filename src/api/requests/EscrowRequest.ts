@@ -6,6 +6,7 @@ import { IsNotEmpty, IsEnum } from 'class-validator';
 import { RequestBody } from '../../core/api/RequestBody';
 import { EscrowMessageType } from '../enums/EscrowMessageType';
 import * as resources from 'resources';
+import { IdValuePair } from '../messages/BidMessage';
 
 // tslint:disable:variable-name
 export class EscrowRequest extends RequestBody {
@@ -15,6 +16,7 @@ export class EscrowRequest extends RequestBody {
 
     public nonce?: string;      // lock param
     public accepted?: boolean;  // refund param
+    public objects?: IdValuePair[];     // dispute and release params
 
     @IsNotEmpty()
     public memo: string;
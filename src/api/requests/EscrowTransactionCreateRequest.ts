@@ -0,0 +1,29 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { EscrowTransactionType } from '../enums/EscrowTransactionType';
+import { EscrowTransactionStatus } from '../enums/EscrowTransactionStatus';
+
+// tslint:disable:variable-name
+export class EscrowTransactionCreateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public order_item_id: number;
+
+    @IsNotEmpty()
+    public txid: string;
+
+    @IsNotEmpty()
+    public type: EscrowTransactionType;
+
+    @IsNotEmpty()
+    public status: EscrowTransactionStatus;
+
+    public confirmations: number;
+    public block_height: number;
+
+}
+// tslint:enable:variable-name
@@ -0,0 +1,23 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsEnum } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { SearchOrder } from '../enums/SearchOrder';
+import { EscrowTransactionStatus } from '../enums/EscrowTransactionStatus';
+
+// tslint:disable:variable-name
+export class EscrowTransactionSearchParams extends RequestBody {
+
+    @IsEnum(SearchOrder)
+    public order: SearchOrder = SearchOrder.ASC;
+
+    public orderItemId: number;
+    public txid: string;
+    public status: EscrowTransactionStatus;
+
+    public page = 0;
+    public pageLimit = 10;
+}
+// tslint:enable:variable-name
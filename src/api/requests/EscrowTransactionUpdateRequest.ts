@@ -0,0 +1,19 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { EscrowTransactionStatus } from '../enums/EscrowTransactionStatus';
+
+// tslint:disable:variable-name
+export class EscrowTransactionUpdateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public status: EscrowTransactionStatus;
+
+    public confirmations: number;
+    public blockHeight: number;
+
+}
+// tslint:enable:variable-name
@@ -18,5 +18,8 @@ export class EscrowUpdateRequest extends RequestBody {
 
     public ratio;
 
+    public arbiter_address: string;
+    public arbiter_pubkey: string;
+
 }
 // tslint:enable:variable-name
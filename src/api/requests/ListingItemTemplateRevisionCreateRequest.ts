@@ -0,0 +1,26 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+
+// tslint:disable:variable-name
+export class ListingItemTemplateRevisionCreateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public listing_item_template_id: number;
+
+    @IsNotEmpty()
+    public revision: number;
+
+    @IsNotEmpty()
+    public hash: string;
+
+    @IsNotEmpty()
+    public data: string;
+
+    public message_hash: string;
+
+}
+// tslint:enable:variable-name
@@ -0,0 +1,32 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { ListingItemTemplateScheduleStatus } from '../enums/ListingItemTemplateScheduleStatus';
+
+// tslint:disable:variable-name
+export class ListingItemTemplateScheduleCreateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public listing_item_template_id: number;
+
+    @IsNotEmpty()
+    public market_id: number;
+
+    @IsEnum(ListingItemTemplateScheduleStatus)
+    @IsNotEmpty()
+    public status: ListingItemTemplateScheduleStatus;
+
+    @IsNotEmpty()
+    public post_at: number;
+
+    @IsNotEmpty()
+    public days_retention: number;
+
+    public repost_before_expiry: number;
+    public fee_budget: number;
+
+}
+// tslint:enable:variable-name
@@ -0,0 +1,21 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsEnum } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { SearchOrder } from '../enums/SearchOrder';
+import { ListingItemTemplateScheduleStatus } from '../enums/ListingItemTemplateScheduleStatus';
+
+export class ListingItemTemplateScheduleSearchParams extends RequestBody {
+
+    @IsEnum(SearchOrder)
+    public order: SearchOrder = SearchOrder.ASC;
+
+    public status: ListingItemTemplateScheduleStatus;
+
+    public page = 0;
+    public pageLimit = 10;
+
+    public postAt: number; // schedules which should be posted before given time
+}
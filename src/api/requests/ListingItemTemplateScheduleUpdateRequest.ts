@@ -0,0 +1,32 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsEnum, IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { ListingItemTemplateScheduleStatus } from '../enums/ListingItemTemplateScheduleStatus';
+
+export class ListingItemTemplateScheduleUpdateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public marketId: number;
+
+    @IsEnum(ListingItemTemplateScheduleStatus)
+    @IsNotEmpty()
+    public status: ListingItemTemplateScheduleStatus;
+
+    @IsNotEmpty()
+    public postAt: number;
+
+    @IsNotEmpty()
+    public daysRetention: number;
+
+    public repostBeforeExpiry: number;
+    public feeBudget: number;
+    public feesSpent: number;
+    public postCount: number;
+    public lastPostedAt: number;
+    public expiresAt: number;
+    public reason: string;
+
+}
@@ -12,4 +12,7 @@ export class ListingItemUpdatePostRequest extends RequestBody {
 
     @IsNotEmpty()
     public listingItemTemplateId: number;
+
+    @IsNotEmpty()
+    public daysRetention: number;
 }
@@ -16,6 +16,11 @@ export class ListingItemUpdateRequest extends RequestBody {
     @IsNotEmpty()
     public market_id: number;
 
+    public expiryTime: number;
+    public postedAt: number;
+    public expiredAt: number;
+    public receivedAt: number;
+
     public itemInformation;
     public paymentInformation;
     public messagingInformation;
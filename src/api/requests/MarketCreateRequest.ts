@@ -15,5 +15,8 @@ export class MarketCreateRequest extends RequestBody {
 
     @IsNotEmpty()
     public address: string;
+
+    public bid_expiration: number;
+    public order_expiration: number;
 }
 // tslint:enable:variable-name
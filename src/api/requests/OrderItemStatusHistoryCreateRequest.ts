@@ -0,0 +1,24 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { OrderStatus } from '../enums/OrderStatus';
+
+// tslint:disable:variable-name
+export class OrderItemStatusHistoryCreateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public order_item_id: number;
+
+    public previous_status: OrderStatus;
+
+    @IsNotEmpty()
+    public new_status: OrderStatus;
+
+    public msgid: string;
+    public txid: string;
+
+}
+// tslint:enable:variable-name
@@ -0,0 +1,35 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { OutboxMessageStatus } from '../enums/OutboxMessageStatus';
+
+// tslint:disable:variable-name
+export class OutboxMessageCreateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public type: string;
+
+    @IsNotEmpty()
+    public status: OutboxMessageStatus;
+
+    @IsNotEmpty()
+    public from_address: string;
+
+    @IsNotEmpty()
+    public to_address: string;
+
+    @IsNotEmpty()
+    public message: string;
+
+    public paid_message: boolean;
+
+    @IsNotEmpty()
+    public days_retention: number;
+
+    public next_retry: number;
+
+}
+// tslint:enable:variable-name
@@ -0,0 +1,23 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsEnum } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { SearchOrder } from '../enums/SearchOrder';
+import { OutboxMessageStatus } from '../enums/OutboxMessageStatus';
+
+// tslint:disable:variable-name
+export class OutboxMessageSearchParams extends RequestBody {
+
+    @IsEnum(SearchOrder)
+    public order: SearchOrder = SearchOrder.ASC;
+
+    public status: OutboxMessageStatus;
+
+    public page = 0;
+    public pageLimit = 10;
+
+    public nextRetry: number; // messages which should be retried before given time
+}
+// tslint:enable:variable-name
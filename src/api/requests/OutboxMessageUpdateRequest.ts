@@ -0,0 +1,22 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { IsNotEmpty } from 'class-validator';
+import { RequestBody } from '../../core/api/RequestBody';
+import { OutboxMessageStatus } from '../enums/OutboxMessageStatus';
+
+// tslint:disable:variable-name
+export class OutboxMessageUpdateRequest extends RequestBody {
+
+    @IsNotEmpty()
+    public status: OutboxMessageStatus;
+
+    public attempts: number;
+    public nextRetry: number;
+    public reason: string;
+    public msgid: string;
+    public sentAt: number;
+
+}
+// tslint:enable:variable-name
@@ -25,5 +25,7 @@ export class SmsgMessageSearchParams extends RequestBody {
     public age = 1000 * 60 * 2; // minimum message age in ms, 2 min
 
     public msgid;
+
+    public nextRetry: number; // messages which should be retried before given time
 }
 // tslint:enable:variable-name
@@ -44,6 +44,9 @@ export class SmsgMessageUpdateRequest extends RequestBody {
     public to: string;
 
     public text: string;
+    public reason: string;
+    public attempts: number;
+    public nextRetry: number;
 
 }
 // tslint:enable:variable-name
@@ -0,0 +1,12 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+export class EscrowRecoveryResponse {
+    public address: string;         // the re-imported escrow multisig address
+    public redeemScript: string;
+    public txid: string;            // the escrow transaction
+    public vout: number;            // the escrow output
+    public value: number;
+    public rawtx: string;           // the release or refund, half signed by us and ready for co-signing
+}
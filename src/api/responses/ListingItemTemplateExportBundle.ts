@@ -0,0 +1,11 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { ListingItemTemplateImportRow } from '../services/ListingItemTemplateImportService';
+
+export class ListingItemTemplateExportBundle {
+    public version: number;
+    public exportedAt: number;
+    public templates: ListingItemTemplateImportRow[];  // in the template import format, images included as base64 data
+}
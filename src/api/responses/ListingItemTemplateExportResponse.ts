@@ -0,0 +1,8 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+export class ListingItemTemplateExportResponse {
+    public file: string;        // the written bundle
+    public total: number;       // the number of exported templates
+}
@@ -0,0 +1,13 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { ListingItemTemplateImportRowResult } from './ListingItemTemplateImportRowResult';
+
+export class ListingItemTemplateImportResponse {
+    public dryRun: boolean;
+    public total: number;
+    public imported: number;            // the rows without errors, which were imported, or would be on dry run
+    public failed: number;
+    public rows: ListingItemTemplateImportRowResult[];
+}
@@ -0,0 +1,10 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+export class ListingItemTemplateImportRowResult {
+    public row: number;                     // the number of the row in the import, starting from 1
+    public title: string;
+    public listingItemTemplateId: number;   // the created template, not set on dry run or on errors
+    public errors: string[];
+}
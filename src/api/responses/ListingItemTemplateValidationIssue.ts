@@ -0,0 +1,11 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { ListingItemTemplateValidationRule } from '../enums/ListingItemTemplateValidationRule';
+
+export class ListingItemTemplateValidationIssue {
+    public rule: ListingItemTemplateValidationRule;
+    public field: string;       // path of the offending field, for example 'PaymentInformation.ItemPrice.basePrice'
+    public message: string;
+}
@@ -0,0 +1,12 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { ListingItemTemplateValidationIssue } from './ListingItemTemplateValidationIssue';
+
+export class ListingItemTemplateValidationResponse {
+    public listingItemTemplateId: number;
+    public valid: boolean;                                  // true if there are no errors, the template can be posted
+    public errors: ListingItemTemplateValidationIssue[];    // prevent posting the template
+    public warnings: ListingItemTemplateValidationIssue[];  // the template can be posted, but probably not as intended
+}
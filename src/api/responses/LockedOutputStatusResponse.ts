@@ -0,0 +1,16 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { LockedOutputStatus } from '../enums/LockedOutputStatus';
+
+export class LockedOutputStatusResponse {
+    public id: number;                  // the LockedOutput
+    public txid: string;
+    public vout: number;
+    public amount: number;
+    public bidId: number;
+    public walletLocked: boolean;       // whether the wallet had the output locked
+    public status: LockedOutputStatus;
+    public reconciled: boolean;         // whether the output was locked again or cleaned up
+}
@@ -0,0 +1,12 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { SmsgSendResponse } from './SmsgSendResponse';
+
+export class ShoppingCartCheckoutResult {
+    public seller: string;
+    public listingItemHashes: string[];     // the items in the combined Bid sent to the seller
+    public response: SmsgSendResponse;      // not set if the Bid wasn't sent
+    public error: string;                   // why the Bid wasn't sent, the items are left in the cart
+}
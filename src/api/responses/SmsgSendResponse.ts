@@ -10,4 +10,5 @@ export class SmsgSendResponse {
     public error?: string;
 
     public msgids?: string[]; // custom, for vote msgids
+    public outboxMessageId?: number; // custom, set when the message was left in the outbox to be retried
 }
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets } from '../../constants';
@@ -28,8 +29,8 @@ export class AddressService {
         return this.addressRepo.findAll();
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<Address> {
-        const address = await this.addressRepo.findOne(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Address> {
+        const address = await this.addressRepo.findOne(id, withRelated, trx);
         if (address === null) {
             this.log.warn(`Address with the id=${id} was not found!`);
             throw new NotFoundException(id);
@@ -38,15 +39,15 @@ export class AddressService {
     }
 
     @validate()
-    public async create( @request(AddressCreateRequest) body: AddressCreateRequest): Promise<Address> {
+    public async create( @request(AddressCreateRequest) body: AddressCreateRequest, trx?: Knex.Transaction): Promise<Address> {
 
         // todo: should propably validate country here
         // this.log.debug('create Address, body: ', JSON.stringify(body, null, 2));
 
         // If the request body was valid we will create the address
-        const address = await this.addressRepo.create(body);
+        const address = await this.addressRepo.create(body, trx);
         // finally find and return the created addressId
-        const newAddress = await this.findOne(address.Id);
+        const newAddress = await this.findOne(address.Id, true, trx);
         return newAddress;
     }
 
@@ -4,7 +4,9 @@
 
 import * as _ from 'lodash';
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
+import { Bookshelf as Database } from '../../config/Database';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets, Events } from '../../constants';
 import * as resources from 'resources';
@@ -16,14 +18,15 @@ import { BidService } from './BidService';
 import { ProfileService } from './ProfileService';
 import { MarketService } from './MarketService';
 import { BidFactory } from '../factories/BidFactory';
-import { SmsgService } from './SmsgService';
-import { CoreRpcService, UnspentOutput } from './CoreRpcService';
+import { OutboxMessageService } from './OutboxMessageService';
+import { CoreRpcService, Output } from './CoreRpcService';
+import { CoinSelectorService, OutputData } from './CoinSelectorService';
 import { ListingItemService } from './ListingItemService';
 import { SmsgSendResponse } from '../responses/SmsgSendResponse';
 import { Profile } from '../models/Profile';
 import { MarketplaceMessage } from '../messages/MarketplaceMessage';
 import { BidMessageType } from '../enums/BidMessageType';
-import { BidMessage } from '../messages/BidMessage';
+import { BidMessage, BundleItem, IdValuePair } from '../messages/BidMessage';
 import { BidSearchParams } from '../requests/BidSearchParams';
 import { AddressType } from '../enums/AddressType';
 import { SearchOrder } from '../enums/SearchOrder';
@@ -33,30 +36,25 @@ import { Bid } from '../models/Bid';
 import { OrderFactory } from '../factories/OrderFactory';
 import { OrderService } from './OrderService';
 import { BidDataService } from './BidDataService';
+import { BidHistoryService } from './BidHistoryService';
+import { OrderItemService } from './OrderItemService';
 import { BidDataCreateRequest } from '../requests/BidDataCreateRequest';
 import { LockedOutputService } from './LockedOutputService';
 import { BidDataValue } from '../enums/BidDataValue';
 import { SmsgMessageStatus } from '../enums/SmsgMessageStatus';
 import { SmsgMessageService } from './SmsgMessageService';
-
-// todo: move
-export interface OutputData {
-    outputs: Output[];
-    outputsSum: number;
-    outputsChangeAmount: number;
-}
-
-export interface Output {
-    txid?: string;
-    vout?: number;
-    amount?: number;
-    data?: string;
-}
-
-// todo: move
-export interface IdValuePair {
-    id: string;
-    value: any;
+import { EscrowAmounts, EscrowItem } from '../../core/helpers/EscrowAmounts';
+import { OrderStatus } from '../enums/OrderStatus';
+import { OrderSearchParams } from '../requests/OrderSearchParams';
+import { LockedOutputCreateRequest } from '../requests/LockedOutputCreateRequest';
+
+/**
+ * the outputs locked and unlocked in the wallet while changing the LockedOutputs in a transaction,
+ * the wallet isn't rolled back with the transaction so these are reverted if it fails
+ */
+interface WalletLockChanges {
+    locked: resources.LockedOutput[];
+    unlocked: resources.LockedOutput[];
 }
 
 export class BidActionService {
@@ -68,11 +66,14 @@ export class BidActionService {
         @inject(Types.Service) @named(Targets.Service.MarketService) private marketService: MarketService,
         @inject(Types.Service) @named(Targets.Service.ActionMessageService) private actionMessageService: ActionMessageService,
         @inject(Types.Service) @named(Targets.Service.ProfileService) private profileService: ProfileService,
-        @inject(Types.Service) @named(Targets.Service.SmsgService) private smsgService: SmsgService,
+        @inject(Types.Service) @named(Targets.Service.OutboxMessageService) private outboxMessageService: OutboxMessageService,
         @inject(Types.Service) @named(Targets.Service.BidService) private bidService: BidService,
         @inject(Types.Service) @named(Targets.Service.BidDataService) private bidDataService: BidDataService,
+        @inject(Types.Service) @named(Targets.Service.BidHistoryService) private bidHistoryService: BidHistoryService,
         @inject(Types.Service) @named(Targets.Service.OrderService) private orderService: OrderService,
+        @inject(Types.Service) @named(Targets.Service.OrderItemService) private orderItemService: OrderItemService,
         @inject(Types.Service) @named(Targets.Service.CoreRpcService) private coreRpcService: CoreRpcService,
+        @inject(Types.Service) @named(Targets.Service.CoinSelectorService) private coinSelectorService: CoinSelectorService,
         @inject(Types.Service) @named(Targets.Service.LockedOutputService) private lockedOutputService: LockedOutputService,
         @inject(Types.Service) @named(Targets.Service.SmsgMessageService) private smsgMessageService: SmsgMessageService,
         @inject(Types.Factory) @named(Targets.Factory.BidFactory) private bidFactory: BidFactory,
@@ -87,20 +88,34 @@ export class BidActionService {
     /**
      * Send a Bid
      *
+     * the bundledItems are bid on together with the listingItem using a single combined Bid and escrow,
+     * the seller then accepts or rejects all of them at once.
+     *
      * @param {module:resources.ListingItem} listingItem
      * @param {module:resources.Profile} bidderProfile
      * @param {any[]} additionalParams
+     * @param {module:resources.ListingItem[]} bundledItems, other ListingItems of the same seller
      * @returns {Promise<SmsgSendResponse>}
      */
     public async send(listingItem: resources.ListingItem, bidderProfile: resources.Profile,
-                      additionalParams: IdValuePair[]): Promise<SmsgSendResponse> {
+                      additionalParams: IdValuePair[], bundledItems: resources.ListingItem[] = []): Promise<SmsgSendResponse> {
 
         // TODO: change send params to BidSendRequest and @validate them
         // TODO: some of this stuff could propably be moved to the factory
         // TODO: Create new unspent RPC call for unspent outputs that came out of a RingCT transaction
 
+        const listingItems = [listingItem].concat(bundledItems);
+        for (const item of listingItems) {
+            if (item.removed) {
+                throw new MessageException('ListingItem has been removed by the seller.');
+            }
+            if (item.seller !== listingItem.seller) {
+                throw new MessageException('Combined Bid can only contain ListingItems from the same seller.');
+            }
+        }
+
         // generate bidDatas for the message
-        const bidDatas = await this.generateBidDatasForMPA_BID(listingItem, additionalParams);
+        const bidDatas = await this.generateBidDatasForMPA_BID(listingItem, additionalParams, bundledItems);
 
         // this.log.debug('bidder profile: ', JSON.stringify(bidderProfile, null, 2));
 
@@ -114,23 +129,36 @@ export class BidActionService {
 
         this.log.debug('send(), marketPlaceMessage: ', JSON.stringify(marketPlaceMessage, null, 2));
 
-        // save bid locally before broadcasting
-        const createdBid: resources.Bid = await this.createBid(bidMessage, listingItem, bidderProfile.address);
-        // this.log.debug('createdBid:', JSON.stringify(createdBid, null, 2));
+        const bidCreateRequests = await this.getBidCreateRequests(bidMessage, listingItems, bidderProfile.address);
 
-        // store the selected outputs, so we can load and lock them again on mp restart
-        let selectedOutputs = this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, createdBid.BidDatas);
-        selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
+        // save bids locally and queue the message in the same transaction
+        const walletLockChanges: WalletLockChanges = { locked: [], unlocked: [] };
+        const outboxMessage: resources.OutboxMessage = await Database.knex.transaction(async trx => {
+            const createdBids: resources.Bid[] = await this.createBids(bidCreateRequests, trx);
+            const createdBid: resources.Bid = createdBids[0];
+            // this.log.debug('createdBid:', JSON.stringify(createdBid, null, 2));
+            await this.recordBidHistory(createdBids, BidMessageType.MPA_BID, bidderProfile.address, undefined, trx);
 
-        const createdLockedOutputs = await this.lockedOutputService.createLockedOutputs(selectedOutputs, createdBid.id);
-        const success = await this.lockedOutputService.lockOutputs(createdLockedOutputs);
+            // store the selected outputs, so we can load and lock them again on mp restart
+            // the bundled bids share the outputs, so they're stored only for the first one
+            let selectedOutputs = this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, createdBid.BidDatas);
+            selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
 
-        if (success) {
-            // broadcast the message to the network
-            return await this.smsgService.smsgSend(bidderProfile.address, listingItem.seller, marketPlaceMessage, false);
-        } else {
-            throw new MessageException('Failed to lock the selected outputs.');
-        }
+            const createdLockedOutputs = await this.lockedOutputService.createLockedOutputs(selectedOutputs, createdBid.id, trx);
+            const success = await this.lockedOutputService.lockOutputs(createdLockedOutputs);
+            if (!success) {
+                throw new MessageException('Failed to lock the selected outputs.');
+            }
+            walletLockChanges.locked.push(...createdLockedOutputs);
+
+            return await this.outboxMessageService.enqueue(bidderProfile.address, listingItem.seller, marketPlaceMessage, false, undefined, trx);
+        }).catch(async reason => {
+            await this.revertWalletLockChanges(walletLockChanges);
+            throw reason;
+        });
+
+        // broadcast the queued message to the network
+        return await this.outboxMessageService.deliver(outboxMessage);
     }
 
     /**
@@ -138,40 +166,47 @@ export class BidActionService {
      *
      * @param {module:resources.ListingItem} listingItem
      * @param {any[]} additionalParams
+     * @param {module:resources.ListingItem[]} bundledItems
      * @returns {Promise<IdValuePair[]>}
      */
     public async generateBidDatasForMPA_BID(
         listingItem: resources.ListingItem,
-        additionalParams: IdValuePair[]
+        additionalParams: IdValuePair[],
+        bundledItems: resources.ListingItem[] = []
     ): Promise<IdValuePair[]> {
 
+        const listingItems = [listingItem].concat(bundledItems);
+
         // todo: propably something that we should check earlier
         // todo: and we shouldnt even be having items without a price at the moment, validation before posting should take care of that
         // todo: this could also be caused by of some other error, while saving the item
-        if (!listingItem.PaymentInformation.ItemPrice
-            || !(typeof listingItem.PaymentInformation.ItemPrice.basePrice === 'number' && listingItem.PaymentInformation.ItemPrice.basePrice >= 0)) {
-            this.log.warn(`ListingItem with the hash=${listingItem.hash} does not have a price!`);
-            throw new MessageException(`ListingItem with the hash=${listingItem.hash} does not have a price!`);
+        for (const item of listingItems) {
+            if (!item.PaymentInformation.ItemPrice
+                || !(typeof item.PaymentInformation.ItemPrice.basePrice === 'number' && item.PaymentInformation.ItemPrice.basePrice >= 0)) {
+                this.log.warn(`ListingItem with the hash=${item.hash} does not have a price!`);
+                throw new MessageException(`ListingItem with the hash=${item.hash} does not have a price!`);
+            }
         }
 
         // this.log.debug('listingItem.PaymentInformation: ', JSON.stringify(listingItem.PaymentInformation, null, 2));
 
-        // todo: calculate correct shippingPrice
-        const shippingPrice = listingItem.PaymentInformation.ItemPrice.ShippingPrice;
-        const basePrice = listingItem.PaymentInformation.ItemPrice.basePrice;
-        const shippingPriceMax = Math.max(shippingPrice.international, shippingPrice.domestic);
-        const totalPrice = basePrice + shippingPriceMax; // TODO: Determine if local or international...
-        const requiredAmount = totalPrice * 2; // todo: bidders required amount
-        // todo: calculate totalprice using the items escrowratio
+        const shippingCountry = _.find(additionalParams, (param: IdValuePair) => {
+            return param.id === BidDataValue.SHIPPING_ADDRESS_COUNTRY;
+        });
+        const escrowItems = this.getEscrowItems(listingItems, shippingCountry ? shippingCountry.value : undefined);
+        const escrowTotal = EscrowAmounts.combine(escrowItems);
+        const totalPrice = escrowItems[0].totalPrice;
+        const requiredAmount = EscrowAmounts.getBuyerRequiredAmount(escrowTotal.totalPrice, escrowTotal.ratio);
 
         this.log.debug('totalPrice: ', totalPrice);
+        this.log.debug('requiredAmount: ', requiredAmount);
 
         // returns: {
         //    outputs
         //    outputsSum
         //    outputsChangeAmount
         // }
-        const buyerSelectedOutputData: OutputData = await this.findUnspentOutputs(requiredAmount);
+        const buyerSelectedOutputData: OutputData = await this.coinSelectorService.selectOutputs(requiredAmount);
 
         // changed to getNewAddress, since getaccountaddress doesn't return address which we can get the pubkey from
         const buyerEscrowPubAddress = await this.coreRpcService.getNewAddress(['_escrow_pub_' + listingItem.hash], false);
@@ -206,234 +241,156 @@ export class BidActionService {
             BidDataValue.BUYER_PUBKEY, buyerEcrowPubAddressPublicKey,
             BidDataValue.BUYER_CHANGE_ADDRESS, buyerEscrowChangeAddress,
             BidDataValue.BUYER_CHANGE_AMOUNT, buyerSelectedOutputData.outputsChangeAmount,
-            BidDataValue.BUYER_RELEASE_ADDRESS, buyerEscrowReleaseAddress
+            BidDataValue.BUYER_RELEASE_ADDRESS, buyerEscrowReleaseAddress,
+            BidDataValue.TOTAL_PRICE, totalPrice
         ]).concat(additionalParams);
 
+        // combined bid, the total price of each item is needed to create their Bids
+        if (!_.isEmpty(bundledItems)) {
+            const bundleItems: BundleItem[] = listingItems.map((item, index) => {
+                return { item: item.hash, totalPrice: escrowItems[index].totalPrice } as BundleItem;
+            });
+            bidDatas.push({id: BidDataValue.BUNDLE_ITEMS, value: bundleItems});
+        }
+
         // this.log.debug('bidDatas: ', JSON.stringify(bidDatas, null, 2));
 
         return bidDatas;
     }
 
     /**
-     * find unspent outputs for the required amount
+     * total price of the ListingItem, domestic shipping price is used if the buyers
+     * shipping address is in the same country as the item, international otherwise
      *
-     * @param {number} requiredAmount
-     * @returns {Promise<any>}
+     * @param {module:resources.ListingItem} listingItem
+     * @param {string} shippingCountry, country code of the buyers shipping address
+     * @returns {number}
      */
-    public async findUnspentOutputs(requiredAmount: number): Promise<OutputData> {
-
-        // requiredAmount, for MPA_BID: (totalPrice * 2)
-        // requiredAmount, for MPA_ACCEPT: totalPrice
-
-        // todo: get the actual fee
-        const TRANSACTION_FEE = 0.0002;
-        const adjustedRequiredAmount: number = this.correctNumberDecimals(requiredAmount + TRANSACTION_FEE);
-
-        const selectedOutputs: Output[] = [];
-        let selectedOutputsSum = 0;
-        let selectedOutputsChangeAmount = 0;
-
-        // const utxoLessThanReqestedAmount: number[] = [];
-        let utxoIdxs: number[] = [];
-
-        let exactMatchIdx = -1;
-        let maxOutputIdx = -1;
-        const defaultselectedOutputsIdxs: number[] = [];
-
-        // get all unspent transaction outputs
-        let unspentOutputs: UnspentOutput[] = await this.coreRpcService.listUnspent(1, 99999999, [], false);
-
-        // Loop over all outputs once to obtain various fitlering information
-        unspentOutputs = unspentOutputs.filter(
-            (output: any, outIdx: number) => {
-                if (output.spendable && output.solvable && output.safe ) {
-                    if ( (exactMatchIdx === -1) && ( this.correctNumberDecimals(output.amount - adjustedRequiredAmount) === 0) ) {
-                        // Found a utxo with amount that is an exact match for the requested amount.
-                        exactMatchIdx = outIdx;
-                    // } else if (output.amount < adjustedRequiredAmount) {
-                    //     // utxo is less than the amount requested, so may be summable with others to get to the exact value (or within a close threshold).
-                    //     utxoLessThanReqestedAmount.push(outIdx);
-                    }
-
-                    // Get the max utxo amount in case an output needs to be split
-                    if (maxOutputIdx === -1) {
-                        maxOutputIdx = outIdx;
-                    } else if (unspentOutputs[maxOutputIdx].amount < output.amount) {
-                        maxOutputIdx = outIdx;
-                    }
-
-                    // Sum up output amounts for the default case
-                    if (selectedOutputsSum < adjustedRequiredAmount) {
-                        selectedOutputsSum += output.amount;
-                        defaultselectedOutputsIdxs.push(outIdx);
-                    }
-
-                    return true;
-                }
-                return false;
-            }
-        );
-
-        // Step 1: Check whether an exact match was found.
-        if (exactMatchIdx === -1) {
-            // No exact match found, so...
-            //  ... Step 2: Ignore this step since it literally takes forever to complete
-            //  Sum utxos to find a summed group that matches exactly or is greater than the required amount by no more than 1%.
-            // NB!! Only do this if number of utxos <= 12 (which is 4096 combinations to test for - any more and performance drastically suffers)
-            /* const requiredTestCases = utxoLessThanReqestedAmount.length <= 12 ? 0 : Math.pow(2, utxoLessThanReqestedAmount.length);
-            for (let ii = 0; ii < requiredTestCases; ii++) {
-                const potentialIdxs: number[] = utxoLessThanReqestedAmount.filter((num: number, index: number) => ii & (1 << index) );
-                const summed: number = this.correctNumberDecimals(
-                    potentialIdxs.reduce((acc: number, idx: number) => acc + unspentOutputs[idx].amount, 0)
-                );
-
-                if ((summed >= adjustedRequiredAmount) && ((summed - adjustedRequiredAmount) < (adjustedRequiredAmount / 100)) ) {
-                    // Sum of utxos is within a 1 percent upper margin of the requested amount.
-                    if (summed === adjustedRequiredAmount) {
-                        // Found the exact required amount.
-                        utxoIdxs = potentialIdxs;
-                        break;
-                    } else if (!utxoIdxs.length) {
-                        utxoIdxs.length = 0;
-                        utxoIdxs = potentialIdxs;
-                    }
-                }
-            }
-            */
-            // ... Step 3: If no summed values found, attempt to split a large enough output.
-            if (utxoIdxs.length === 0 && maxOutputIdx !== -1 && unspentOutputs[maxOutputIdx].amount > adjustedRequiredAmount) {
-                const newAddress = await this.coreRpcService.getNewAddress([], false);
-                // sendtoaddress will create a new transaction with its own selection of utxos to use, ie: the output with the max amount is not necessary used
-                const txid: string = await this.coreRpcService.call('sendtoaddress', [newAddress, adjustedRequiredAmount.toFixed(8), 'Split output']);
-                const txData: any = await this.coreRpcService.call('getrawtransaction', [txid, true]);
-                const outputData: any = txData.vout.find( outputObject => outputObject.value.toFixed(8) === adjustedRequiredAmount.toFixed(8) );
-
-                if (outputData) {
-                    selectedOutputs.push({
-                        txid: txData.txid,
-                        vout: outputData.n,
-                        amount: outputData.value
-                    });
-                    selectedOutputsSum = outputData.value;
-                }
-            }
-        } else {
-            // Push the exact match.
-            utxoIdxs.push(exactMatchIdx);
-        }
-
-        // Step 4: Default to the summed utxos if no other method was successful
-        if (!selectedOutputs.length && !utxoIdxs.length) {
-            if (selectedOutputsSum >= adjustedRequiredAmount) {
-                utxoIdxs = defaultselectedOutputsIdxs;
-            } else {
-                this.log.warn('Not enough funds');
-                throw new MessageException('Not enough funds');
-            }
-        }
-
-        if (utxoIdxs.length) {
-            selectedOutputsSum = 0;
-            for (const utxoIdx of utxoIdxs) {
-                const utxo: any = unspentOutputs[utxoIdx];
-                selectedOutputs.push({
-                    txid: utxo.txid,
-                    vout: utxo.vout,
-                    amount: utxo.amount
-                });
-                selectedOutputsSum += utxo.amount;
-            }
-        }
-
-        selectedOutputsChangeAmount = +(selectedOutputsSum - adjustedRequiredAmount).toFixed(8);
+    public getTotalPrice(listingItem: resources.ListingItem, shippingCountry?: string): number {
 
-        // todo: type
-        const response: OutputData = {
-            outputs: selectedOutputs,
-            outputsSum: selectedOutputsSum,
-            outputsChangeAmount: selectedOutputsChangeAmount
-        };
+        const shippingPrice = listingItem.PaymentInformation.ItemPrice.ShippingPrice;
+        const basePrice = listingItem.PaymentInformation.ItemPrice.basePrice;
+        const itemLocation = listingItem.ItemInformation.ItemLocation;
 
-        this.log.debug('selected outputs:', JSON.stringify(response, null, 2));
+        const isDomestic = !!shippingCountry && !_.isEmpty(itemLocation) && !!itemLocation.region
+            && shippingCountry.toUpperCase() === itemLocation.region.toUpperCase();
 
-        return response;
+        this.log.debug('getTotalPrice(), shippingCountry: ' + shippingCountry + ', isDomestic: ' + isDomestic);
+        return this.correctNumberDecimals(basePrice + (isDomestic ? shippingPrice.domestic : shippingPrice.international));
     }
 
-
     /**
      * Accept a Bid
      *
+     * all the Bids of a combined Bid are accepted at once, creating a single Order
+     *
+     * a countered Bid is accepted by the seller after the buyer has agreed to the price, the buyer
+     * agrees to the sellers counter offer by countering it with the same price
+     *
      * @param {module:resources.Bid} bid
      * @returns {Promise<SmsgSendResponse>}
      */
     public async accept(bid: resources.Bid): Promise<SmsgSendResponse> {
 
-        // previous bids action needs to be MPA_BID
-        if (bid.action === BidMessageType.MPA_BID) {
+        if (bid.action === BidMessageType.MPA_COUNTER) {
+            const lastOfferer = await this.getLastOfferer(bid);
+            if (_.isEmpty(bid.ListingItem.ListingItemTemplate)) {
+                if (lastOfferer === bid.bidder) {
+                    throw new MessageException('Waiting for the seller to answer the counter offer.');
+                }
+                return await this.counter(bid,
+                    +this.getValueFromBidDatas(BidDataValue.COUNTER_BASE_PRICE, bid.BidDatas),
+                    +this.getValueFromBidDatas(BidDataValue.COUNTER_SHIPPING_PRICE, bid.BidDatas));
+            } else if (lastOfferer !== bid.bidder) {
+                throw new MessageException('Waiting for the buyer to answer the counter offer.');
+            }
+        }
+
+        // previous bids action needs to be MPA_BID or MPA_COUNTER
+        if (bid.action === BidMessageType.MPA_BID || bid.action === BidMessageType.MPA_COUNTER) {
 
-            const listingItem = await this.listingItemService.findOne(bid.ListingItem.id, true)
-                .then(value => {
-                    return value.toJSON();
-                });
+            const bids = await this.getBundledBids(bid);
+            const listingItems: resources.ListingItem[] = [];
+            for (const bundledBid of bids) {
+                const bundledListingItem = await this.listingItemService.findOne(bundledBid.ListingItem.id, true)
+                    .then(value => {
+                        return value.toJSON();
+                    });
+                listingItems.push(bundledListingItem);
+            }
+            const listingItem = listingItems[0];
 
             // todo: create order before biddatas so order hash can be added to biddata in generateBidDatasForMPA_ACCEPT
             // generate bidDatas for MPA_ACCEPT
-            const bidDatas: IdValuePair[] = await this.generateBidDatasForMPA_ACCEPT(listingItem, bid);
+            const bidDatas: IdValuePair[] = await this.generateBidDatasForMPA_ACCEPT(listingItem, bids[0], listingItems.slice(1));
 
             // create the bid accept message using the generated bidDatas
             const bidMessage = await this.bidFactory.getMessage(BidMessageType.MPA_ACCEPT, listingItem.hash, bidDatas);
             // this.log.debug('accept(), created bidMessage (MPA_ACCEPT):', JSON.stringify(bidMessage, null, 2));
 
-            // update the bid locally
-            const bidUpdateRequest = await this.bidFactory.getModel(bidMessage, listingItem.id, bid.bidder, bid);
-            const updatedBidModel = await this.bidService.update(bid.id, bidUpdateRequest);
-            const updatedBid = updatedBidModel.toJSON();
-            // this.log.debug('accept(), updatedBid:', JSON.stringify(updatedBid, null, 2));
-
-            // create the order
-            const orderCreateRequest = await this.orderFactory.getModelFromBid(updatedBid);
-            const orderModel = await this.orderService.create(orderCreateRequest);
-            const order = orderModel.toJSON();
+            // the bids, the order and the message are saved in the same transaction, the whole combined bid is accepted or none of it
+            const walletLockChanges: WalletLockChanges = { locked: [], unlocked: [] };
+            const outboxMessage: resources.OutboxMessage = await Database.knex.transaction(async trx => {
 
-            this.log.debug('accept(), created Order: ', JSON.stringify(order, null, 2));
-            // this.log.debug('accept(), created bidMessage.objects: ', bidMessage.objects);
-
-            // put the order.hash in BidMessage and also save it
-            // todo: this is here because bidMessage.objects 'possibly undefined', which it never really should be
-            if (!bidMessage.objects) {
-                bidMessage.objects = [];
-            }
-            bidMessage.objects.push({id: BidDataValue.ORDER_HASH, value: order.hash});
-
-            // TODO: clean this up, so that we can add this with bidService.update
-            const orderHashBidData = await this.bidDataService.create({
-                bid_id: updatedBid.id,
-                dataId: BidDataValue.ORDER_HASH.toString(),
-                dataValue: order.hash
-            } as BidDataCreateRequest);
+                // update the bids locally
+                const updatedBids: resources.Bid[] = [];
+                for (let i = 0; i < bids.length; i++) {
+                    const bidUpdateRequest = await this.bidFactory.getModel(bidMessage, listingItems[i].id, bids[i].bidder, bids[i]);
+                    const updatedBidModel = await this.bidService.update(bids[i].id, bidUpdateRequest, trx);
+                    updatedBids.push(updatedBidModel.toJSON());
+                }
+                const updatedBid = updatedBids[0];
+                // this.log.debug('accept(), updatedBid:', JSON.stringify(updatedBid, null, 2));
+                await this.recordBidHistory(updatedBids, BidMessageType.MPA_ACCEPT, listingItem.seller, undefined, trx);
+
+                // create the order
+                const orderCreateRequest = await this.orderFactory.getModelFromBids(updatedBids);
+                const orderModel = await this.orderService.create(orderCreateRequest, trx);
+                const order = orderModel.toJSON();
+
+                this.log.debug('accept(), created Order: ', JSON.stringify(order, null, 2));
+                // this.log.debug('accept(), created bidMessage.objects: ', bidMessage.objects);
+
+                // put the order.hash in BidMessage and also save it
+                // todo: this is here because bidMessage.objects 'possibly undefined', which it never really should be
+                if (!bidMessage.objects) {
+                    bidMessage.objects = [];
+                }
+                bidMessage.objects.push({id: BidDataValue.ORDER_HASH, value: order.hash});
+
+                // TODO: clean this up, so that we can add this with bidService.update
+                for (const orderBid of updatedBids) {
+                    await this.bidDataService.create({
+                        bid_id: orderBid.id,
+                        dataId: BidDataValue.ORDER_HASH.toString(),
+                        dataValue: order.hash
+                    } as BidDataCreateRequest, trx);
+                }
 
-            // this.log.debug('accept(), updatedBid.id: ', updatedBid.id);
-            // this.log.debug('accept(), order.hash: ', order.hash);
-            // this.log.debug('accept(), added orderHash to bidData: ', orderHashBidData.toJSON());
+                // store the sellers selected outputs in db, so we can load and lock them again on mp restart
+                let selectedOutputs = this.getValueFromBidDatas(BidDataValue.SELLER_OUTPUTS, updatedBid.BidDatas);
+                selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
+                const createdLockedOutputs = await this.lockedOutputService.createLockedOutputs(selectedOutputs, updatedBid.id, trx);
+                const success = await this.lockedOutputService.lockOutputs(createdLockedOutputs);
+                if (!success) {
+                    throw new MessageException('Failed to lock the selected outputs.');
+                }
+                walletLockChanges.locked.push(...createdLockedOutputs);
 
-            // store the sellers selected outputs in db, so we can load and lock them again on mp restart
-            let selectedOutputs = this.getValueFromBidDatas(BidDataValue.SELLER_OUTPUTS, updatedBid.BidDatas);
-            selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
-            const createdLockedOutputs = await this.lockedOutputService.createLockedOutputs(selectedOutputs, bid.id);
-            const success = await this.lockedOutputService.lockOutputs(createdLockedOutputs);
+                const marketPlaceMessage = {
+                    version: process.env.MARKETPLACE_VERSION,
+                    mpaction: bidMessage
+                } as MarketplaceMessage;
 
-            const marketPlaceMessage = {
-                version: process.env.MARKETPLACE_VERSION,
-                mpaction: bidMessage
-            } as MarketplaceMessage;
-
-            if (success) {
-                // broadcast the MPA_ACCEPT message
                 this.log.debug('send(), marketPlaceMessage: ', JSON.stringify(marketPlaceMessage, null, 2));
-                return await this.smsgService.smsgSend(listingItem.seller, updatedBid.bidder, marketPlaceMessage, false);
-            } else {
-                throw new MessageException('Failed to lock the selected outputs.');
-            }
+                return await this.outboxMessageService.enqueue(listingItem.seller, updatedBid.bidder, marketPlaceMessage, false, undefined, trx);
+            }).catch(async reason => {
+                await this.revertWalletLockChanges(walletLockChanges);
+                throw reason;
+            });
+
+            // broadcast the MPA_ACCEPT message
+            return await this.outboxMessageService.deliver(outboxMessage);
 
         } else {
             this.log.error(`Bid can not be accepted because its state allready is ${bid.action}`);
@@ -446,34 +403,62 @@ export class BidActionService {
      *
      * @param {module:resources.ListingItem} listingItem
      * @param {module:resources.Bid} bid
+     * @param {module:resources.ListingItem[]} bundledItems
      * @returns {Promise<any[]>}
      */
     public async generateBidDatasForMPA_ACCEPT(
         listingItem: resources.ListingItem,
-        bid: resources.Bid
+        bid: resources.Bid,
+        bundledItems: resources.ListingItem[] = []
     ): Promise<IdValuePair[]> {
 
-        if (_.isEmpty(listingItem.PaymentInformation.ItemPrice)) {
-            this.log.warn(`ListingItem with the hash=${listingItem.hash} does not have a price!`);
-            throw new MessageException(`ListingItem with the hash=${listingItem.hash} does not have a price!`);
+        const listingItems = [listingItem].concat(bundledItems);
+
+        for (const item of listingItems) {
+            if (_.isEmpty(item.PaymentInformation.ItemPrice)) {
+                this.log.warn(`ListingItem with the hash=${item.hash} does not have a price!`);
+                throw new MessageException(`ListingItem with the hash=${item.hash} does not have a price!`);
+            }
         }
 
-        // todo: price type...
-        const shippingPrice = listingItem.PaymentInformation.ItemPrice.ShippingPrice;
-        const basePrice = listingItem.PaymentInformation.ItemPrice.basePrice;
-        const shippingPriceMax = Math.max(shippingPrice.international, shippingPrice.domestic);
-        const totalPrice = basePrice + shippingPriceMax; // TODO: Determine if local or international...
-        const requiredAmount = totalPrice; // todo: sellers required amount
-        // todo: calculate totalprice using the items escrowratio
+        // recalculate the total prices and make sure the buyer is paying the right amount
+        const shippingCountry = _.find(bid.BidDatas, (bidData: resources.BidData) => {
+            return bidData.dataId === BidDataValue.SHIPPING_ADDRESS_COUNTRY;
+        });
+        const escrowItems = this.getEscrowItems(listingItems, shippingCountry ? shippingCountry.dataValue : undefined);
+        const bundleItems = this.getBundleItems(bid);
+
+        if (bundleItems.length !== listingItems.length) {
+            throw new MessageException('Bid does not match the bundled ListingItems.');
+        }
+
+        for (let i = 0; i < listingItems.length; i++) {
+            if (bundleItems[i].item !== listingItems[i].hash) {
+                throw new MessageException('Bid does not match the bundled ListingItems.');
+            }
+            if (bid.action === BidMessageType.MPA_COUNTER) {
+                // the negotiated price replaces the ListingItems price in the escrow
+                escrowItems[i].totalPrice = bundleItems[i].totalPrice;
+            } else if (bundleItems[i].totalPrice !== escrowItems[i].totalPrice) {
+                this.log.warn(`Bid total price ${bundleItems[i].totalPrice} does not match the ListingItem total price ${escrowItems[i].totalPrice}.`);
+                throw new MessageException('Bid total price does not match the ListingItem total price.');
+            }
+        }
+
+        const escrowTotal = EscrowAmounts.combine(escrowItems);
+        const totalPrice = escrowTotal.totalPrice;
+        const escrowRatio = escrowTotal.ratio;
+        const requiredAmount = EscrowAmounts.getSellerRequiredAmount(totalPrice, escrowRatio);
 
         this.log.debug('totalPrice: ', totalPrice);
+        this.log.debug('requiredAmount: ', requiredAmount);
 
         // returns: {
         //    outputs: Output[]
         //    outputsSum
         //    outputsChangeAmount
         // }
-        const sellerSelectedOutputData: OutputData = await this.findUnspentOutputs(requiredAmount);
+        const sellerSelectedOutputData: OutputData = await this.coinSelectorService.selectOutputs(requiredAmount);
 
         // create OutputData for buyer
         const buyerSelectedOutputs: Output[] = JSON.parse(this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, bid.BidDatas));
@@ -481,15 +466,26 @@ export class BidActionService {
             const amount = obj.amount || 0;
             return acc + amount;
         }, 0);
-        const buyerRequiredAmount = totalPrice * 2;
-        const buyerSelectedOutputsChangeAmount = +(buyerOutputsSum - buyerRequiredAmount - 0.0002).toFixed(8);
+        const buyerRequiredAmount = EscrowAmounts.getBuyerRequiredAmount(totalPrice, escrowRatio);
+
+        // the buyer pays the fee for its own inputs, whatever isn't change goes to the fee
+        const buyerSelectedOutputsChangeAmount = +this.getValueFromBidDatas(BidDataValue.BUYER_CHANGE_AMOUNT, bid.BidDatas);
 
         // TODO: validate that the outputs are not spent
-        if (buyerOutputsSum < buyerRequiredAmount) {
+        if (!(buyerSelectedOutputsChangeAmount >= 0) || buyerOutputsSum < buyerRequiredAmount + buyerSelectedOutputsChangeAmount) {
             this.log.warn('Not enough funds');
             throw new MessageException('Not enough funds');
         }
 
+        // the buyers change needs to leave enough for the fee, the escrow tx wouldn't confirm otherwise
+        const buyerFee = +(buyerOutputsSum - buyerRequiredAmount - buyerSelectedOutputsChangeAmount).toFixed(8);
+        const buyerEstimatedFee = await this.coinSelectorService.estimateEscrowFee(buyerSelectedOutputs.length,
+            buyerSelectedOutputsChangeAmount > 0);
+        if (buyerFee < buyerEstimatedFee) {
+            this.log.warn(`Buyer change amount leaves ${buyerFee} for the fee, estimated fee is ${buyerEstimatedFee}.`);
+            throw new MessageException('Buyer change amount does not leave enough for the fee.');
+        }
+
         const buyerSelectedOutputData: OutputData = {
             outputs: buyerSelectedOutputs,
             outputsSum: buyerOutputsSum,
@@ -503,6 +499,8 @@ export class BidActionService {
         // changed to getNewAddress, since getaccountaddress doesn't return address which we can get the pubkey from
         const sellerEscrowPubAddress = await this.coreRpcService.getNewAddress(['_escrow_pub_' + listingItem.hash], false);
         const sellerEscrowChangeAddress = await this.coreRpcService.getNewAddress(['_escrow_change'], false);
+        // the buyer needs this to return the sellers deposit in case of a refund
+        const sellerEscrowReleaseAddress = await this.coreRpcService.getNewAddress(['_escrow_release'], false);
 
         const buyerEscrowChangeAddress = this.getValueFromBidDatas(BidDataValue.BUYER_CHANGE_ADDRESS, bid.BidDatas); // TODO: Error handling - nice messagee..
 
@@ -545,6 +543,7 @@ export class BidActionService {
             sellerEscrowPubAddressPublicKey,
             buyerEscrowPubAddressPublicKey,
             totalPrice,
+            escrowRatio,
             listingItem.hash);
 
 
@@ -590,6 +589,7 @@ export class BidActionService {
             // 'pubkeys', [sellerEscrowPubAddressPublicKey, buyerEcrowPubAddressPublicKey].sort(),
             BidDataValue.SELLER_PUBKEY, sellerEscrowPubAddressPublicKey,
             BidDataValue.BUYER_PUBKEY, buyerEscrowPubAddressPublicKey, // allready in BidData, not necessarily needed here
+            BidDataValue.SELLER_RELEASE_ADDRESS, sellerEscrowReleaseAddress,
             BidDataValue.RAW_TX, signed.hex
         ]);
 
@@ -608,6 +608,7 @@ export class BidActionService {
      * @param {string} sellerEscrowPubAddressPublicKey
      * @param {string} buyerEscrowPubAddressPublicKey
      * @param {number} itemTotalPrice
+     * @param {module:resources.EscrowRatio} escrowRatio
      * @param {string} listingItemHash
      * @returns {any}
      */
@@ -619,6 +620,7 @@ export class BidActionService {
                        sellerEscrowPubAddressPublicKey: string,
                        buyerEscrowPubAddressPublicKey: string,
                        itemTotalPrice: number,
+                       escrowRatio: resources.EscrowRatio,
                        listingItemHash: string): any {
 
         // txout: {
@@ -633,36 +635,32 @@ export class BidActionService {
         this.log.debug('buyerEcrowPubAddressPublicKey: ', buyerEscrowPubAddressPublicKey);
         this.log.debug('listingItem.hash: ', listingItemHash);
 
-        txout[escrowMultisigAddress] = +(itemTotalPrice * 3).toFixed(8); // TODO: Shipping... ;(
-        txout[sellerEscrowChangeAddress] = sellerSelectedOutputData.outputsChangeAmount;
-        txout[buyerEscrowChangeAddress] = buyerSelectedOutputData.outputsChangeAmount;
+        const buyerRequiredAmount = EscrowAmounts.getBuyerRequiredAmount(itemTotalPrice, escrowRatio);
+
+        txout[escrowMultisigAddress] = EscrowAmounts.getEscrowAmount(itemTotalPrice, escrowRatio); // TODO: Shipping... ;(
+
+        // no change output when the change was too small to be worth it and was left to the fee
+        if (sellerSelectedOutputData.outputsChangeAmount > 0) {
+            txout[sellerEscrowChangeAddress] = sellerSelectedOutputData.outputsChangeAmount;
+        }
 
 
         // this.log.debug('buyerOutputs: ', JSON.stringify(buyerSelectedOutputData.outputs, null, 2));
 
         // TODO: Verify that buyers outputs are unspent?? :/
-        // TODO: Refactor reusable logic. and verify / validate buyer change.
+        // the buyer change has been validated against the estimated fee when accepting
 
         if (!_.isEmpty(buyerSelectedOutputData.outputs)) {
-            let buyerOutputsSum = 0;
-            let buyerOutputsChangeAmount = 0;
-
-            buyerSelectedOutputData.outputs.forEach(output => {
-                const amount = output.amount || 0;
-                buyerOutputsSum += amount;
-                if (buyerOutputsSum > itemTotalPrice * 2) { // TODO: Ratio
-                    buyerOutputsChangeAmount = +(buyerOutputsSum - (itemTotalPrice * 2) - 0.0001).toFixed(8); // TODO: Get actual fee...
-                    return;
-                }
-            });
+            const buyerOutputsSum = _.sumBy(buyerSelectedOutputData.outputs, output => output.amount || 0);
 
-            // todo: calculate buyers requiredAmount from Ratio
             // check that buyers outputs contain enough funds
-            if (buyerOutputsSum < itemTotalPrice * 2) {
+            if (buyerOutputsSum < buyerRequiredAmount) {
                 this.log.warn('Buyers outputs do not contain enough funds!');
                 throw new MessageException('Buyers outputs do not contain enough funds!');
             }
-            txout[buyerEscrowChangeAddress] = buyerSelectedOutputData.outputsChangeAmount;
+            if (buyerSelectedOutputData.outputsChangeAmount > 0) {
+                txout[buyerEscrowChangeAddress] = buyerSelectedOutputData.outputsChangeAmount;
+            }
 
         } else {
             this.log.error('Buyer didn\'t supply outputs!');
@@ -689,9 +687,11 @@ export class BidActionService {
      */
     public async cancel(bid: resources.Bid): Promise<SmsgSendResponse> {
 
-        if (bid.action === BidMessageType.MPA_BID) {
+        if (bid.action === BidMessageType.MPA_BID || bid.action === BidMessageType.MPA_COUNTER) {
 
-            const listingItem = await this.listingItemService.findOne(bid.ListingItem.id, true)
+            // the whole combined Bid is cancelled
+            const bids = await this.getBundledBids(bid);
+            const listingItem = await this.listingItemService.findOne(bids[0].ListingItem.id, true)
                 .then(value => {
                     return value.toJSON();
                 });
@@ -699,16 +699,6 @@ export class BidActionService {
             // create the bid cancel message
             const bidMessage: BidMessage = await this.bidFactory.getMessage(BidMessageType.MPA_CANCEL, listingItem.hash);
 
-            // Update the bid in the database with new action.
-            const tmpBidCreateRequest: BidCreateRequest = await this.bidFactory.getModel(bidMessage, listingItem.id, bid.bidder, bid);
-            const bidUpdateRequest: BidUpdateRequest = {
-                listing_item_id: tmpBidCreateRequest.listing_item_id,
-                action: BidMessageType.MPA_CANCEL,
-                bidder: tmpBidCreateRequest.bidder,
-                bidDatas: tmpBidCreateRequest.bidDatas
-            } as BidUpdateRequest;
-            await this.bidService.update(bid.id, bidUpdateRequest);
-
             const marketPlaceMessage = {
                 version: process.env.MARKETPLACE_VERSION,
                 mpaction: bidMessage
@@ -716,18 +706,31 @@ export class BidActionService {
 
             this.log.debug('send(), marketPlaceMessage: ', marketPlaceMessage);
 
-            // remove buyers lockedoutputs
-            let selectedOutputs = this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, bid.BidDatas);
-            selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
-            await this.lockedOutputService.destroyLockedOutputs(selectedOutputs);
-            const success = await this.lockedOutputService.unlockOutputs(selectedOutputs);
+            const walletLockChanges: WalletLockChanges = { locked: [], unlocked: [] };
+            const outboxMessage: resources.OutboxMessage = await Database.knex.transaction(async trx => {
 
-            if (success) {
-                // broadcast the cancel bid message
-                return await this.smsgService.smsgSend(bid.bidder, listingItem.seller, marketPlaceMessage, false);
-            } else {
-                throw new MessageException('Failed to unlock the locked outputs.');
-            }
+                // Update the bids in the database with new action.
+                const updatedBids = await this.updateBundledBids(bidMessage, bids, BidMessageType.MPA_CANCEL, trx);
+                await this.recordBidHistory(updatedBids, BidMessageType.MPA_CANCEL, bid.bidder, undefined, trx);
+
+                // remove buyers lockedoutputs
+                let selectedOutputs = this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, bid.BidDatas);
+                selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
+                await this.lockedOutputService.destroyLockedOutputs(selectedOutputs, trx);
+                const success = await this.lockedOutputService.unlockOutputs(selectedOutputs);
+                if (!success) {
+                    throw new MessageException('Failed to unlock the locked outputs.');
+                }
+                walletLockChanges.unlocked.push(...selectedOutputs);
+
+                return await this.outboxMessageService.enqueue(bid.bidder, listingItem.seller, marketPlaceMessage, false, undefined, trx);
+            }).catch(async reason => {
+                await this.revertWalletLockChanges(walletLockChanges);
+                throw reason;
+            });
+
+            // broadcast the cancel bid message
+            return await this.outboxMessageService.deliver(outboxMessage);
 
         } else {
             this.log.error(`Bid can not be cancelled because it was already been ${bid.action}`);
@@ -744,9 +747,16 @@ export class BidActionService {
      */
     public async reject(bid: resources.Bid): Promise<SmsgSendResponse> {
 
-        if (bid.action === BidMessageType.MPA_BID) {
+        // the buyer rejects the sellers counter offer by cancelling the Bid
+        if (bid.action === BidMessageType.MPA_COUNTER && _.isEmpty(bid.ListingItem.ListingItemTemplate)) {
+            return await this.cancel(bid);
+        }
+
+        if (bid.action === BidMessageType.MPA_BID || bid.action === BidMessageType.MPA_COUNTER) {
 
-            const listingItem = await this.listingItemService.findOne(bid.ListingItem.id, true)
+            // the whole combined Bid is rejected
+            const bids = await this.getBundledBids(bid);
+            const listingItem = await this.listingItemService.findOne(bids[0].ListingItem.id, true)
                 .then(value => {
                     return value.toJSON();
                 });
@@ -762,16 +772,6 @@ export class BidActionService {
             // create the bid reject message
             const bidMessage = await this.bidFactory.getMessage(BidMessageType.MPA_REJECT, listingItem.hash);
 
-            // Update the bid in the database with new action.
-            const tmpBidCreateRequest: BidCreateRequest = await this.bidFactory.getModel(bidMessage, listingItem.id, bid.bidder, bid);
-            const bidUpdateRequest: BidUpdateRequest = {
-                listing_item_id: tmpBidCreateRequest.listing_item_id,
-                action: BidMessageType.MPA_REJECT,
-                bidder: tmpBidCreateRequest.bidder,
-                bidDatas: tmpBidCreateRequest.bidDatas
-            } as BidUpdateRequest;
-            await this.bidService.update(bid.id, bidUpdateRequest);
-
             const marketPlaceMessage = {
                 version: process.env.MARKETPLACE_VERSION,
                 mpaction: bidMessage
@@ -779,14 +779,175 @@ export class BidActionService {
 
             this.log.debug('send(), marketPlaceMessage: ', marketPlaceMessage);
 
+            const outboxMessage: resources.OutboxMessage = await Database.knex.transaction(async trx => {
+
+                // Update the bids in the database with new action.
+                const updatedBids = await this.updateBundledBids(bidMessage, bids, BidMessageType.MPA_REJECT, trx);
+                await this.recordBidHistory(updatedBids, BidMessageType.MPA_REJECT, sellerProfile.address, undefined, trx);
+
+                return await this.outboxMessageService.enqueue(sellerProfile.address, bid.bidder, marketPlaceMessage, false, undefined, trx);
+            });
+
             // broadcast the reject bid message
-            return await this.smsgService.smsgSend(sellerProfile.address, bid.bidder, marketPlaceMessage, false);
+            return await this.outboxMessageService.deliver(outboxMessage);
         } else {
             this.log.error(`Bid can not be rejected because it was already been ${bid.action}`);
             throw new MessageException(`Bid can not be rejected because it was already been ${bid.action}`);
         }
     }
 
+    /**
+     * Counter a Bid, or the other partys counter offer, with a different price
+     *
+     * the seller and the buyer take turns until the buyer agrees to the sellers price or the seller accepts the buyers,
+     * the buyer locks new outputs for the countered price since the seller uses them for the escrow when accepting
+     *
+     * @param {module:resources.Bid} bid
+     * @param {number} basePrice
+     * @param {number} shippingPrice
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    public async counter(bid: resources.Bid, basePrice: number, shippingPrice: number): Promise<SmsgSendResponse> {
+
+        if (bid.action !== BidMessageType.MPA_BID && bid.action !== BidMessageType.MPA_COUNTER) {
+            this.log.error(`Bid can not be countered because it was already been ${bid.action}`);
+            throw new MessageException(`Bid can not be countered because it was already been ${bid.action}`);
+        }
+
+        if (_.find(bid.BidDatas, (bidData: resources.BidData) => bidData.dataId === BidDataValue.BUNDLE_ITEMS)) {
+            throw new MessageException('Combined Bid can not be countered.');
+        }
+
+        const listingItem: resources.ListingItem = await this.listingItemService.findOne(bid.ListingItem.id, true)
+            .then(value => value.toJSON());
+
+        const isSeller = !_.isEmpty(listingItem.ListingItemTemplate);
+        const sender = isSeller ? listingItem.seller : bid.bidder;
+        const receiver = isSeller ? bid.bidder : listingItem.seller;
+
+        if (await this.getLastOfferer(bid) === sender) {
+            throw new MessageException('Waiting for the other party to answer the counter offer.');
+        }
+
+        const totalPrice = this.correctNumberDecimals(basePrice + shippingPrice);
+        const bidDatas: IdValuePair[] = this.getIdValuePairsFromArray([
+            BidDataValue.COUNTER_BASE_PRICE, basePrice,
+            BidDataValue.COUNTER_SHIPPING_PRICE, shippingPrice,
+            BidDataValue.TOTAL_PRICE, totalPrice
+        ]);
+
+        const walletLockChanges: WalletLockChanges = { locked: [], unlocked: [] };
+        const outboxMessage: resources.OutboxMessage = await Database.knex.transaction(async trx => {
+
+            if (!isSeller) {
+                const requiredAmount = EscrowAmounts.getBuyerRequiredAmount(totalPrice, this.getEscrowRatio(listingItem));
+                const buyerOutputs = await this.relockBuyerOutputs(bid, requiredAmount, walletLockChanges, trx);
+                bidDatas.push(...buyerOutputs);
+            }
+
+            // create the bid counter message
+            const bidMessage = await this.bidFactory.getMessage(BidMessageType.MPA_COUNTER, listingItem.hash, bidDatas);
+
+            const marketPlaceMessage = {
+                version: process.env.MARKETPLACE_VERSION,
+                mpaction: bidMessage
+            } as MarketplaceMessage;
+
+            this.log.debug('send(), marketPlaceMessage: ', marketPlaceMessage);
+
+            // Update the bid in the database with the countered price.
+            const updatedBids = await this.updateBundledBids(bidMessage, [bid], BidMessageType.MPA_COUNTER, trx);
+            await this.recordBidHistory(updatedBids, BidMessageType.MPA_COUNTER, sender, undefined, trx);
+
+            return await this.outboxMessageService.enqueue(sender, receiver, marketPlaceMessage, false, undefined, trx);
+        }).catch(async reason => {
+            await this.revertWalletLockChanges(walletLockChanges);
+            throw reason;
+        });
+
+        // broadcast the counter bid message
+        return await this.outboxMessageService.deliver(outboxMessage);
+    }
+
+    /**
+     * Cancel our Bids which the seller hasn't accepted within the markets bid expiration time,
+     * cancelling releases the outputs locked for the Bid
+     *
+     * @returns {Promise<void>}
+     */
+    public async expireBids(): Promise<void> {
+
+        const profiles: resources.Profile[] = await this.profileService.findAll().then(value => value.toJSON());
+        if (_.isEmpty(profiles)) {
+            return;
+        }
+
+        // countered Bids haven't been accepted either
+        const bids: resources.Bid[] = [];
+        for (const status of [BidMessageType.MPA_BID, BidMessageType.MPA_COUNTER]) {
+            const bidsWithStatus: resources.Bid[] = await this.bidService.search({
+                status,
+                bidders: profiles.map(profile => profile.address),
+                ordering: SearchOrder.ASC,
+                page: 0,
+                pageLimit: 100
+            } as BidSearchParams).then(value => value.toJSON());
+            bids.push(...bidsWithStatus);
+        }
+
+        for (const bid of bids) {
+            const listingItem: resources.ListingItem = await this.listingItemService.findOne(bid.ListingItem.id)
+                .then(value => value.toJSON());
+            const hours = listingItem.Market && listingItem.Market.bidExpiration
+                ? listingItem.Market.bidExpiration
+                : parseInt(process.env.BID_EXPIRATION, 10);
+
+            if (!this.isExpired(bid.updatedAt, hours)) {
+                continue;
+            }
+
+            // the other Bids of a combined Bid were cancelled together with the first one
+            const currentBid: resources.Bid = await this.bidService.findOne(bid.id).then(value => value.toJSON());
+            if (!this.isOpenBid(currentBid)) {
+                continue;
+            }
+
+            this.log.info('Bid ' + bid.id + ' has expired, cancelling.');
+            await this.cancel(currentBid).catch(reason => {
+                this.log.error('Failed to cancel expired Bid ' + bid.id + ': ', reason);
+            });
+        }
+    }
+
+    /**
+     * Expire the Orders which have been waiting for the escrow longer than the markets order expiration time,
+     * our outputs are released and the other party is notified with a MPA_CANCEL
+     *
+     * @returns {Promise<void>}
+     */
+    public async expireOrders(): Promise<void> {
+
+        const orders: resources.Order[] = await this.orderService.search({
+            status: OrderStatus.AWAITING_ESCROW,
+            ordering: SearchOrder.ASC
+        } as OrderSearchParams).then(value => value.toJSON());
+
+        // Orders with several OrderItems are found once for each of them
+        for (const order of _.uniqBy(orders, 'id')) {
+            const listingItem: resources.ListingItem = await this.listingItemService.findOne(order.OrderItems[0].Bid.ListingItem.id)
+                .then(value => value.toJSON());
+
+            if (!this.isExpired(order.createdAt, this.getOrderExpiration(listingItem))) {
+                continue;
+            }
+
+            this.log.info('Order ' + order.id + ' has expired, cancelling.');
+            await this.expireOrder(order, true).catch(reason => {
+                this.log.error('Failed to expire Order ' + order.id + ': ', reason);
+            });
+        }
+    }
+
     /**
      * process received BidMessage
      * - save ActionMessage
@@ -821,20 +982,46 @@ export class BidActionService {
                 // -> needs bid.hash
                 // TODO: when testing locally, bid gets created first for the bidder after which it can be found here when receiving the bid
 
-                const biddersExistingBidsForItem = await this.bidService.search({
-                    listingItemHash: bidMessage.item,
-                    bidders: [bidder]
-                } as BidSearchParams);
+                // combined bid contains also the other ListingItems of the seller
+                const listingItems: resources.ListingItem[] = [listingItem];
+                const bundleItems = this.getBundleItemsFromObjects(bidMessage.objects);
+                for (const bundleItem of bundleItems.slice(1)) {
+                    const bundledListingItem = await this.listingItemService.findOneByHash(bundleItem.item)
+                        .then(value => value.toJSON());
+                    if (bundledListingItem.seller !== listingItem.seller) {
+                        throw new MessageException('Combined Bid can only contain ListingItems from the same seller.');
+                    }
+                    listingItems.push(bundledListingItem);
+                }
 
-                if (biddersExistingBidsForItem && biddersExistingBidsForItem.length > 0) {
-                    this.log.debug('biddersExistingBidsForItem:', JSON.stringify(biddersExistingBidsForItem, null, 2));
-                    throw new MessageException('Bids allready exist for the ListingItem for the bidder.');
+                for (const item of listingItems) {
+                    const biddersExistingBidsForItem = await this.bidService.search({
+                        listingItemHash: item.hash,
+                        bidders: [bidder]
+                    } as BidSearchParams);
+
+                    if (biddersExistingBidsForItem && biddersExistingBidsForItem.length > 0) {
+                        this.log.debug('biddersExistingBidsForItem:', JSON.stringify(biddersExistingBidsForItem, null, 2));
+                        throw new MessageException('Bids allready exist for the ListingItem for the bidder.');
+                    }
                 }
 
                 if (bidMessage) {
-                    const createdBid = await this.createBid(bidMessage, listingItem, bidder);
+                    const bidCreateRequests = await this.getBidCreateRequests(bidMessage, listingItems, bidder);
+                    const createdBids: resources.Bid[] = await Database.knex.transaction(async trx => {
+                        const bundledBids = await this.createBids(bidCreateRequests, trx);
+                        await this.recordBidHistory(bundledBids, BidMessageType.MPA_BID, bidder, event.smsgMessage.msgid, trx);
+                        return bundledBids;
+                    });
+                    const createdBid = createdBids[0];
                     // this.log.debug('createdBid:', JSON.stringify(createdBid, null, 2));
 
+                    // the seller has cancelled the ListingItem, so new bids are rejected
+                    if (_.some(listingItems, (item: resources.ListingItem) => item.removed)) {
+                        this.log.debug('ListingItem has been removed, rejecting the bid.');
+                        await this.reject(createdBid);
+                    }
+
                     // TODO: do whatever else needs to be done
 
                     return SmsgMessageStatus.PROCESSED;
@@ -882,37 +1069,46 @@ export class BidActionService {
                 if (bidMessage) {
 
                     // find the Bid
-                    const existingBid = _.find(listingItem.Bids, (o: resources.Bid) => {
-                        return o.action === BidMessageType.MPA_BID && o.bidder === bidder;
-                    });
+                    const existingBid = this.findOpenBid(listingItem, bidder);
 
                     // this.log.debug('existingBid:', JSON.stringify(existingBid, null, 2));
 
                     if (existingBid) {
 
-                        // update the bid locally
-                        const bidUpdateRequest = await this.bidFactory.getModel(bidMessage, listingItem.id, bidder, existingBid);
-                        // this.log.debug('bidUpdateRequest:', JSON.stringify(bidUpdateRequest, null, 2));
-                        let updatedBidModel = await this.bidService.update(existingBid.id, bidUpdateRequest);
-                        let updatedBid: resources.Bid = updatedBidModel.toJSON();
+                        const foundBid: resources.Bid = await this.bidService.findOne(existingBid.id).then(value => value.toJSON());
+                        const bids = await this.getBundledBids(foundBid);
+
+                        // the bids and the order are saved in the same transaction, the whole combined bid is accepted or none of it
+                        const bidId: number = await Database.knex.transaction(async trx => {
+
+                            // update the bids locally, all the bids of a combined bid are accepted
+                            const updatedBids: resources.Bid[] = [];
+                            for (const bid of bids) {
+                                const bidUpdateRequest = await this.bidFactory.getModel(bidMessage, bid.ListingItem.id, bidder, bid);
+                                // this.log.debug('bidUpdateRequest:', JSON.stringify(bidUpdateRequest, null, 2));
+                                const bidModel = await this.bidService.update(bid.id, bidUpdateRequest, trx);
+                                updatedBids.push(bidModel.toJSON());
+                            }
+                            await this.recordBidHistory(updatedBids, BidMessageType.MPA_ACCEPT, event.smsgMessage.from, event.smsgMessage.msgid, trx);
 
-                        // create the order from the bid
-                        const orderCreateRequest = await this.orderFactory.getModelFromBid(updatedBid);
-                        const orderModel = await this.orderService.create(orderCreateRequest);
-                        const order = orderModel.toJSON();
+                            // create the order from the bids
+                            const orderCreateRequest = await this.orderFactory.getModelFromBids(updatedBids);
+                            const orderModel = await this.orderService.create(orderCreateRequest, trx);
+                            const order = orderModel.toJSON();
 
-                        this.log.debug('processAcceptBidReceivedEvent(), created Order: ', JSON.stringify(order, null, 2));
+                            this.log.debug('processAcceptBidReceivedEvent(), created Order: ', JSON.stringify(order, null, 2));
 
-                        const orderHash = this.getValueFromBidDatas(BidDataValue.ORDER_HASH, updatedBid.BidDatas);
-                        this.log.debug('seller orderHash: ', orderHash);
-                        this.log.debug('local orderHash: ', order.hash);
+                            const orderHash = this.getValueFromBidDatas(BidDataValue.ORDER_HASH, updatedBids[0].BidDatas);
+                            this.log.debug('seller orderHash: ', orderHash);
+                            this.log.debug('local orderHash: ', order.hash);
 
-                        if (orderHash !== order.hash) {
-                            throw new MessageException('Created Order.hash does not match with the received orderHash.');
-                        }
+                            if (orderHash !== order.hash) {
+                                throw new MessageException('Created Order.hash does not match with the received orderHash.');
+                            }
+                            return updatedBids[0].id;
+                        });
 
-                        updatedBidModel = await this.bidService.findOne(updatedBid.id);
-                        updatedBid = updatedBidModel.toJSON();
+                        const updatedBid: resources.Bid = await this.bidService.findOne(bidId).then(value => value.toJSON());
                         this.log.debug('updatedBid:', JSON.stringify(updatedBid, null, 2));
 
                         // TODO: do whatever else needs to be done
@@ -941,7 +1137,6 @@ export class BidActionService {
     public async processCancelBidReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
 
         const bidMessage: any = event.marketplaceMessage.mpaction as BidMessage;
-        const bidder = event.smsgMessage.from;
         // find the ListingItem
         const message = event.marketplaceMessage;
         if (!message.mpaction || !message.mpaction.item) {   // ACTIONEVENT
@@ -957,32 +1152,49 @@ export class BidActionService {
                 const actionMessageModel = await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
                 const actionMessage = actionMessageModel.toJSON();
 
-                // Get latest bid from listingItemId and bidder so we can get bidId.
-                const params: BidSearchParams = new BidSearchParams({
-                    listingItemId: listingItem.id,
-                    action: BidMessageType.MPA_BID,
-                    bidders: [ bidder ],
-                    ordering: SearchOrder.DESC
-                });
+                // the seller cancels only expired Orders
+                const bidder = event.smsgMessage.from === listingItem.seller ? event.smsgMessage.to : event.smsgMessage.from;
+                const bidderBids = _.filter(listingItem.Bids, (bid: resources.Bid) => bid.bidder === bidder);
+
+                // the other party expired the Order before the escrow was locked
+                const acceptedBid = _.find(bidderBids, (bid: resources.Bid) => bid.action === BidMessageType.MPA_ACCEPT);
+                if (acceptedBid) {
+                    const order: resources.Order = await this.orderService.findOne(acceptedBid.OrderItem.Order.id)
+                        .then(value => value.toJSON());
+                    if (order.OrderItems[0].status !== OrderStatus.AWAITING_ESCROW) {
+                        this.log.warn('Order ' + order.id + ' can not be cancelled anymore, status: ' + order.OrderItems[0].status);
+                        return SmsgMessageStatus.PROCESSED;
+                    }
+
+                    // the Order can't be cancelled before it has expired, if the cancel was sent too early,
+                    // expireOrders expires the Order later and notifies the other party
+                    if (!this.isExpired(order.createdAt, this.getOrderExpiration(listingItem), event.smsgMessage.sent)) {
+                        this.log.warn('Order ' + order.id + ' was cancelled before it expired, ignoring.');
+                        return SmsgMessageStatus.IGNORED;
+                    }
+
+                    await this.expireOrder(order, false, event.smsgMessage.msgid);
+                    return SmsgMessageStatus.PROCESSED;
+                }
+
+                // both parties expired the Bid or the Order
+                const openBid = this.findOpenBid(listingItem, bidder);
+                if (!openBid && _.find(bidderBids, (bid: resources.Bid) => bid.action === BidMessageType.MPA_CANCEL)) {
+                    return SmsgMessageStatus.PROCESSED;
+                }
 
-                // TODO: oldBids.pop() does not return anything. this wont work.
-                const oldBids: Bookshelf.Collection<Bid> = await this.bidService.search(params);
-                let oldBid: any = oldBids.pop();
-                if (!oldBid) {
+                if (!openBid) {
                     this.log.error('Missing old bid.');
                     return SmsgMessageStatus.WAITING;
                 }
-                oldBid = oldBid.toJSON();
+                const oldBid: resources.Bid = await this.bidService.findOne(openBid.id).then(value => value.toJSON());
 
-                // Update the bid in the database with new action.
-                const tmpBidCreateRequest: BidCreateRequest = await this.bidFactory.getModel(bidMessage, listingItem.id, bidder, oldBid);
-                const bidUpdateRequest: BidUpdateRequest = {
-                    listing_item_id: tmpBidCreateRequest.listing_item_id,
-                    action: BidMessageType.MPA_CANCEL,
-                    bidder: tmpBidCreateRequest.bidder,
-                    bidDatas: tmpBidCreateRequest.bidDatas
-                } as BidUpdateRequest;
-                const updatedBid = await this.bidService.update(oldBid.id, bidUpdateRequest);
+                // Update the bids in the database with new action.
+                const bids = await this.getBundledBids(oldBid);
+                await Database.knex.transaction(async trx => {
+                    const updatedBids = await this.updateBundledBids(bidMessage, bids, BidMessageType.MPA_CANCEL, trx);
+                    await this.recordBidHistory(updatedBids, BidMessageType.MPA_CANCEL, event.smsgMessage.from, event.smsgMessage.msgid, trx);
+                });
 
                 return SmsgMessageStatus.PROCESSED;
             })
@@ -1018,46 +1230,93 @@ export class BidActionService {
                 const actionMessageModel = await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
                 const actionMessage = actionMessageModel.toJSON();
 
-                // Get latest bid from listingItemId and bidder so we can get bidId.
-                const params: BidSearchParams = new BidSearchParams({
-                    listingItemId: listingItem.id,
-                    action: BidMessageType.MPA_BID,
-                    bidders: [ bidder ],
-                    ordering: SearchOrder.DESC
-                });
-                const oldBids: Bookshelf.Collection<Bid> = await this.bidService.search(params);
-
-                // TODO: oldBids.pop() does not return anything. this wont work.
-                let oldBid: any = oldBids.pop();
-                if (!oldBid) {
+                // the bidders Bid, which may have been countered
+                const openBid = this.findOpenBid(listingItem, bidder);
+                if (!openBid) {
                     throw new MessageException('Missing old bid.');
                 }
-                oldBid = oldBid.toJSON();
-
-                // Update the bid in the database with new action.
-                const tmpBidCreateRequest: BidCreateRequest = await this.bidFactory.getModel(bidMessage, listingItem.id, bidder, oldBid);
-                const bidUpdateRequest: BidUpdateRequest = {
-                    listing_item_id: tmpBidCreateRequest.listing_item_id,
-                    action: BidMessageType.MPA_REJECT,
-                    bidder: tmpBidCreateRequest.bidder,
-                    bidDatas: tmpBidCreateRequest.bidDatas
-                } as BidUpdateRequest;
-                const bidModel = await this.bidService.update(oldBid.id, bidUpdateRequest);
-                const bid = bidModel.toJSON();
+                const oldBid: resources.Bid = await this.bidService.findOne(openBid.id).then(value => value.toJSON());
+
+                // Update the bids in the database with new action.
+                const bids = await this.getBundledBids(oldBid);
+                const walletLockChanges: WalletLockChanges = { locked: [], unlocked: [] };
+                await Database.knex.transaction(async trx => {
+                    const updatedBids = await this.updateBundledBids(bidMessage, bids, BidMessageType.MPA_REJECT, trx);
+                    await this.recordBidHistory(updatedBids, BidMessageType.MPA_REJECT, event.smsgMessage.from, event.smsgMessage.msgid, trx);
+                    const bid = updatedBids[0];
+
+                    // remove buyers lockedoutputs
+                    let selectedOutputs = this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, bid.BidDatas);
+                    selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
+
+                    await this.lockedOutputService.destroyLockedOutputs(selectedOutputs, trx);
+                    const success = await this.lockedOutputService.unlockOutputs(selectedOutputs);
+                    if (!success) {
+                        throw new MessageException('Failed to unlock the locked outputs.');
+                    }
+                    walletLockChanges.unlocked.push(...selectedOutputs);
+                }).catch(async reason => {
+                    await this.revertWalletLockChanges(walletLockChanges);
+                    throw reason;
+                });
 
-                // remove buyers lockedoutputs
-                let selectedOutputs = this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, bid.BidDatas);
-                selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
+                return SmsgMessageStatus.PROCESSED;
 
-                await this.lockedOutputService.destroyLockedOutputs(selectedOutputs);
-                const success = await this.lockedOutputService.unlockOutputs(selectedOutputs);
+            })
+            .catch(reason => {
+                return SmsgMessageStatus.WAITING;
+            });
+    }
 
-                if (success) {
-                    return SmsgMessageStatus.PROCESSED;
-                } else {
-                    throw new MessageException('Failed to unlock the locked outputs.');
+    /**
+     * process received CounterBidMessage
+     * - save ActionMessage
+     * - update Bid with the countered price
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
+    public async processCounterBidReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
+
+        const message = event.marketplaceMessage;
+        const bidMessage: BidMessage = message.mpaction as BidMessage;
+
+        // find the ListingItem
+        if (!bidMessage || !bidMessage.item) {   // ACTIONEVENT
+            throw new MessageException('Missing mpaction.');
+        }
+
+        return await this.listingItemService.findOneByHash(bidMessage.item)
+            .then(async listingItemModel => {
+                const listingItem = listingItemModel.toJSON();
+
+                // first save it
+                await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
+
+                // the Bid being countered
+                const bidder = event.smsgMessage.from === listingItem.seller ? event.smsgMessage.to : event.smsgMessage.from;
+                const openBid = this.findOpenBid(listingItem, bidder);
+                if (!openBid) {
+                    return SmsgMessageStatus.WAITING;
+                }
+                const oldBid: resources.Bid = await this.bidService.findOne(openBid.id).then(value => value.toJSON());
+
+                if (await this.getLastOfferer(oldBid) === event.smsgMessage.from) {
+                    throw new MessageException('Counter offer received before the previous offer was answered.');
                 }
 
+                const totalPrice = _.find(bidMessage.objects || [], (object: IdValuePair) => object.id === BidDataValue.TOTAL_PRICE);
+                if (!totalPrice || !(+totalPrice.value >= 0)) {
+                    throw new MessageException('Invalid counter offer price.');
+                }
+
+                // Update the bid in the database with the countered price.
+                await Database.knex.transaction(async trx => {
+                    const updatedBids = await this.updateBundledBids(bidMessage, [oldBid], BidMessageType.MPA_COUNTER, trx);
+                    await this.recordBidHistory(updatedBids, BidMessageType.MPA_COUNTER, event.smsgMessage.from, event.smsgMessage.msgid, trx);
+                });
+
+                return SmsgMessageStatus.PROCESSED;
             })
             .catch(reason => {
                 return SmsgMessageStatus.WAITING;
@@ -1104,7 +1363,373 @@ export class BidActionService {
         }
     }
 
-    private async createBid(bidMessage: BidMessage, listingItem: resources.ListingItem, bidder: string): Promise<resources.Bid> {
+    /**
+     * the EscrowRatio defines how much the buyer and the seller need to lock in the escrow
+     *
+     * @param {module:resources.ListingItem} listingItem
+     * @returns {module:resources.EscrowRatio}
+     */
+    private getEscrowRatio(listingItem: resources.ListingItem): resources.EscrowRatio {
+        const escrow = listingItem.PaymentInformation.Escrow;
+        if (_.isEmpty(escrow) || _.isEmpty(escrow.Ratio)) {
+            this.log.warn(`ListingItem with the hash=${listingItem.hash} does not have an EscrowRatio!`);
+            throw new MessageException(`ListingItem with the hash=${listingItem.hash} does not have an EscrowRatio!`);
+        }
+        return escrow.Ratio;
+    }
+
+    /**
+     * total price and EscrowRatio of each ListingItem sharing the escrow
+     *
+     * @param {module:resources.ListingItem[]} listingItems
+     * @param {string} shippingCountry
+     * @returns {EscrowItem[]}
+     */
+    private getEscrowItems(listingItems: resources.ListingItem[], shippingCountry?: string): EscrowItem[] {
+        return listingItems.map(listingItem => {
+            return {
+                totalPrice: this.getTotalPrice(listingItem, shippingCountry),
+                ratio: this.getEscrowRatio(listingItem)
+            } as EscrowItem;
+        });
+    }
+
+    /**
+     * the items of a combined Bid, or the item of a single Bid
+     *
+     * @param {module:resources.Bid} bid
+     * @returns {BundleItem[]}
+     */
+    private getBundleItems(bid: resources.Bid): BundleItem[] {
+        const bundleItems = _.find(bid.BidDatas, (bidData: resources.BidData) => bidData.dataId === BidDataValue.BUNDLE_ITEMS);
+        if (bundleItems) {
+            return JSON.parse(bundleItems.dataValue);
+        }
+        return [{
+            item: bid.ListingItem.hash,
+            totalPrice: +this.getValueFromBidDatas(BidDataValue.TOTAL_PRICE, bid.BidDatas)
+        } as BundleItem];
+    }
+
+    /**
+     * the items of a combined BidMessage, empty if the BidMessage is for a single item
+     *
+     * @param {any[]} objects
+     * @returns {BundleItem[]}
+     */
+    private getBundleItemsFromObjects(objects?: any[]): BundleItem[] {
+        const bundleItems = _.find(objects || [], (object: IdValuePair) => object.id === BidDataValue.BUNDLE_ITEMS);
+        if (bundleItems) {
+            return typeof bundleItems.value === 'string' ? JSON.parse(bundleItems.value) : bundleItems.value;
+        }
+        return [];
+    }
+
+    /**
+     * finds all the Bids of a combined Bid in the order of the BundleItems, just the given Bid if it's not combined
+     *
+     * @param {module:resources.Bid} bid
+     * @returns {Promise<module:resources.Bid[]>}
+     */
+    private async getBundledBids(bid: resources.Bid): Promise<resources.Bid[]> {
+
+        const bundleItems = _.find(bid.BidDatas, (bidData: resources.BidData) => bidData.dataId === BidDataValue.BUNDLE_ITEMS);
+        if (!bundleItems) {
+            return [bid];
+        }
+
+        const bids: resources.Bid[] = [];
+        for (const bundleItem of JSON.parse(bundleItems.dataValue) as BundleItem[]) {
+            const listingItem: resources.ListingItem = await this.listingItemService.findOneByHash(bundleItem.item)
+                .then(value => value.toJSON());
+
+            const bundledBid = _.find(listingItem.Bids, (o: resources.Bid) => {
+                return o.action === bid.action && o.bidder === bid.bidder;
+            });
+            if (!bundledBid) {
+                this.log.error(`Bid for the bundled ListingItem ${bundleItem.item} not found.`);
+                throw new MessageException(`Bid for the bundled ListingItem ${bundleItem.item} not found.`);
+            }
+            bids.push(await this.bidService.findOne(bundledBid.id).then(value => value.toJSON()));
+        }
+        return bids;
+    }
+
+    /**
+     * the bidders Bid for the ListingItem which is still being negotiated
+     *
+     * @param {module:resources.ListingItem} listingItem
+     * @param {string} bidder
+     * @returns {module:resources.Bid}
+     */
+    private findOpenBid(listingItem: resources.ListingItem, bidder: string): resources.Bid | undefined {
+        return _.find(listingItem.Bids || [], (o: resources.Bid) => {
+            return this.isOpenBid(o) && o.bidder === bidder;
+        });
+    }
+
+    /**
+     * @param {module:resources.Bid} bid
+     * @returns {boolean}
+     */
+    private isOpenBid(bid: resources.Bid): boolean {
+        return bid.action === BidMessageType.MPA_BID || bid.action === BidMessageType.MPA_COUNTER;
+    }
+
+    /**
+     * address of the party who made the latest offer, the bidder if the Bid hasn't been countered
+     *
+     * @param {module:resources.Bid} bid
+     * @returns {Promise<string>}
+     */
+    private async getLastOfferer(bid: resources.Bid): Promise<string> {
+        const history: resources.BidHistory[] = await this.bidHistoryService.findAllByBidId(bid.id, false)
+            .then(value => value.toJSON());
+        const offers = _.filter(history, (o: resources.BidHistory) => {
+            return o.action === BidMessageType.MPA_BID || o.action === BidMessageType.MPA_COUNTER;
+        });
+        return offers.length > 0 ? offers[offers.length - 1].sender : bid.bidder;
+    }
+
+    /**
+     * @param {module:resources.Bid[]} bids
+     * @param {BidMessageType} action
+     * @param {string} sender
+     * @param {string} msgid
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<void>}
+     */
+    private async recordBidHistory(bids: resources.Bid[], action: BidMessageType, sender: string, msgid?: string,
+                                   trx?: Knex.Transaction): Promise<void> {
+        for (const bid of bids) {
+            await this.bidHistoryService.record(bid, action, sender, msgid, trx);
+        }
+    }
+
+    /**
+     * replaces the outputs the buyer has locked for the Bid with outputs covering the new required amount
+     *
+     * @param {module:resources.Bid} bid
+     * @param {number} requiredAmount
+     * @param {WalletLockChanges} walletLockChanges, to revert the wallet locks if the transaction fails
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<IdValuePair[]>}
+     */
+    private async relockBuyerOutputs(bid: resources.Bid, requiredAmount: number, walletLockChanges: WalletLockChanges,
+                                     trx: Knex.Transaction): Promise<IdValuePair[]> {
+
+        let lockedOutputs = this.getValueFromBidDatas(BidDataValue.BUYER_OUTPUTS, bid.BidDatas);
+        lockedOutputs = lockedOutputs[0] === '[' ? JSON.parse(lockedOutputs) : lockedOutputs;
+        await this.lockedOutputService.destroyLockedOutputs(lockedOutputs, trx);
+        if (!await this.lockedOutputService.unlockOutputs(lockedOutputs)) {
+            throw new MessageException('Failed to unlock the locked outputs.');
+        }
+        walletLockChanges.unlocked.push(...lockedOutputs);
+
+        const buyerSelectedOutputData: OutputData = await this.coinSelectorService.selectOutputs(requiredAmount, trx);
+        const createdLockedOutputs = await this.lockedOutputService.createLockedOutputs(
+            buyerSelectedOutputData.outputs as LockedOutputCreateRequest[], bid.id, trx);
+        if (!await this.lockedOutputService.lockOutputs(createdLockedOutputs)) {
+            throw new MessageException('Failed to lock the selected outputs.');
+        }
+        walletLockChanges.locked.push(...createdLockedOutputs);
+
+        return this.getIdValuePairsFromArray([
+            BidDataValue.BUYER_OUTPUTS, buyerSelectedOutputData.outputs,
+            BidDataValue.BUYER_CHANGE_AMOUNT, buyerSelectedOutputData.outputsChangeAmount
+        ]);
+    }
+
+    /**
+     * unlocks the outputs locked and locks the outputs unlocked in a failed transaction,
+     * so that the wallet matches the LockedOutputs again
+     *
+     * @param {WalletLockChanges} walletLockChanges
+     * @returns {Promise<void>}
+     */
+    private async revertWalletLockChanges(walletLockChanges: WalletLockChanges): Promise<void> {
+        if (!_.isEmpty(walletLockChanges.locked)) {
+            const unlocked = await this.lockedOutputService.unlockOutputs(walletLockChanges.locked)
+                .catch(reason => false);
+            if (!unlocked) {
+                this.log.error('Failed to unlock the outputs locked in the failed transaction.');
+            }
+        }
+        if (!_.isEmpty(walletLockChanges.unlocked)) {
+            const locked = await this.lockedOutputService.lockOutputs(walletLockChanges.unlocked);
+            if (!locked) {
+                this.log.error('Failed to lock the outputs unlocked in the failed transaction again.');
+            }
+        }
+    }
+
+    /**
+     * updates the action of all the Bids of a combined Bid
+     *
+     * @param {BidMessage} bidMessage
+     * @param {module:resources.Bid[]} bids
+     * @param {BidMessageType} action
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<module:resources.Bid[]>}
+     */
+    private async updateBundledBids(bidMessage: BidMessage, bids: resources.Bid[], action: BidMessageType,
+                                    trx?: Knex.Transaction): Promise<resources.Bid[]> {
+
+        const updatedBids: resources.Bid[] = [];
+        for (const bid of bids) {
+            const tmpBidCreateRequest: BidCreateRequest = await this.bidFactory.getModel(bidMessage, bid.ListingItem.id, bid.bidder, bid);
+            const bidUpdateRequest: BidUpdateRequest = {
+                listing_item_id: tmpBidCreateRequest.listing_item_id,
+                action,
+                bidder: tmpBidCreateRequest.bidder,
+                bidDatas: tmpBidCreateRequest.bidDatas
+            } as BidUpdateRequest;
+            const updatedBidModel = await this.bidService.update(bid.id, bidUpdateRequest, trx);
+            updatedBids.push(updatedBidModel.toJSON());
+        }
+        return updatedBids;
+    }
+
+    /**
+     * expires an Order which is still waiting for the escrow, the Bids are cancelled and our locked outputs released
+     *
+     * @param {module:resources.Order} order
+     * @param {boolean} notify, send MPA_CANCEL to the other party
+     * @param {string} msgid, the received MPA_CANCEL expiring the Order
+     * @returns {Promise<void>}
+     */
+    private async expireOrder(order: resources.Order, notify: boolean, msgid?: string): Promise<void> {
+
+        const isSeller = !_.isEmpty(order.OrderItems[0].Bid.ListingItem.ListingItemTemplate);
+
+        // a received MPA_CANCEL was sent by the other party
+        const isSenderSeller = msgid ? !isSeller : isSeller;
+        const sender = isSenderSeller ? order.seller : order.buyer;
+
+        const walletLockChanges: WalletLockChanges = { locked: [], unlocked: [] };
+        const outboxMessage: resources.OutboxMessage | undefined = await Database.knex.transaction(async trx => {
+
+            let firstBid: resources.Bid | undefined;
+            for (const orderItem of order.OrderItems) {
+                await this.orderItemService.updateStatus(orderItem.id, OrderStatus.EXPIRED, msgid, undefined, trx);
+
+                // the BidFactory doesn't allow cancelling accepted Bids, so the action is updated directly
+                const bid: resources.Bid = await this.bidService.findOne(orderItem.Bid.id, true, trx).then(value => value.toJSON());
+                const updatedBid: resources.Bid = await this.bidService.update(bid.id, {
+                    listing_item_id: bid.ListingItem.id,
+                    action: BidMessageType.MPA_CANCEL,
+                    bidder: bid.bidder,
+                    bidDatas: bid.BidDatas.map(bidData => {
+                        return {
+                            dataId: bidData.dataId,
+                            dataValue: bidData.dataValue
+                        } as BidDataCreateRequest;
+                    })
+                } as BidUpdateRequest, trx).then(value => value.toJSON());
+                await this.bidHistoryService.record(updatedBid, BidMessageType.MPA_CANCEL, sender, msgid, trx);
+
+                firstBid = firstBid ? firstBid : bid;
+            }
+
+            if (!firstBid) {
+                return undefined;
+            }
+
+            // release our own locked outputs
+            let selectedOutputs = this.getValueFromBidDatas(isSeller ? BidDataValue.SELLER_OUTPUTS : BidDataValue.BUYER_OUTPUTS, firstBid.BidDatas);
+            selectedOutputs = selectedOutputs[0] === '[' ? JSON.parse(selectedOutputs) : selectedOutputs;
+            await this.lockedOutputService.destroyLockedOutputs(selectedOutputs, trx);
+            const success = await this.lockedOutputService.unlockOutputs(selectedOutputs);
+            if (!success) {
+                throw new MessageException('Failed to unlock the locked outputs.');
+            }
+            walletLockChanges.unlocked.push(...selectedOutputs);
+
+            if (!notify) {
+                return undefined;
+            }
+
+            const bidMessage: BidMessage = await this.bidFactory.getMessage(BidMessageType.MPA_CANCEL, order.OrderItems[0].itemHash);
+            const marketPlaceMessage = {
+                version: process.env.MARKETPLACE_VERSION,
+                mpaction: bidMessage
+            } as MarketplaceMessage;
+
+            const from = isSeller ? order.seller : order.buyer;
+            const to = isSeller ? order.buyer : order.seller;
+            return await this.outboxMessageService.enqueue(from, to, marketPlaceMessage, false, undefined, trx);
+        }).catch(async reason => {
+            await this.revertWalletLockChanges(walletLockChanges);
+            throw reason;
+        });
+
+        if (outboxMessage) {
+            await this.outboxMessageService.deliver(outboxMessage);
+        }
+    }
+
+    /**
+     * @param {Date} date
+     * @param {number} hours
+     * @param {number} at, the time to compare to, defaults to now
+     * @returns {boolean}
+     */
+    private isExpired(date: Date, hours: number, at: number = Date.now()): boolean {
+        return new Date(date).getTime() + hours * 60 * 60 * 1000 < at;
+    }
+
+    /**
+     * @param {module:resources.ListingItem} listingItem
+     * @returns {number} the hours an Order of the ListingItem waits for the escrow
+     */
+    private getOrderExpiration(listingItem: resources.ListingItem): number {
+        return listingItem.Market && listingItem.Market.orderExpiration
+            ? listingItem.Market.orderExpiration
+            : parseInt(process.env.ORDER_EXPIRATION, 10);
+    }
+
+    /**
+     * the Bid for each ListingItem, the Bids of a combined Bid get the total price of their own ListingItem
+     *
+     * @param {BidMessage} bidMessage
+     * @param {module:resources.ListingItem[]} listingItems
+     * @param {string} bidder
+     * @returns {Promise<BidCreateRequest[]>}
+     */
+    private async getBidCreateRequests(bidMessage: BidMessage, listingItems: resources.ListingItem[], bidder: string): Promise<BidCreateRequest[]> {
+
+        const bundleItems = this.getBundleItemsFromObjects(bidMessage.objects);
+        const bidCreateRequests: BidCreateRequest[] = [];
+
+        for (const listingItem of listingItems) {
+            const bundleItem = _.find(bundleItems, (o: BundleItem) => o.item === listingItem.hash);
+            const itemBidMessage = !bundleItem ? bidMessage : {
+                ...bidMessage,
+                objects: (bidMessage.objects || []).map((object: IdValuePair) => {
+                    return object.id === BidDataValue.TOTAL_PRICE ? {id: object.id, value: bundleItem.totalPrice} : object;
+                })
+            } as BidMessage;
+
+            bidCreateRequests.push(await this.getBidCreateRequest(itemBidMessage, listingItem, bidder));
+        }
+        return bidCreateRequests;
+    }
+
+    /**
+     * @param {BidCreateRequest[]} bidCreateRequests
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<module:resources.Bid[]>}
+     */
+    private async createBids(bidCreateRequests: BidCreateRequest[], trx?: Knex.Transaction): Promise<resources.Bid[]> {
+        const createdBids: resources.Bid[] = [];
+        for (const bidCreateRequest of bidCreateRequests) {
+            const createdBidModel = await this.bidService.create(bidCreateRequest, trx);
+            createdBids.push(createdBidModel.toJSON());
+        }
+        return createdBids;
+    }
+
+    private async getBidCreateRequest(bidMessage: BidMessage, listingItem: resources.ListingItem, bidder: string): Promise<BidCreateRequest> {
 
         // create a bid
         const bidCreateRequest = await this.bidFactory.getModel(bidMessage, listingItem.id, bidder);
@@ -1125,10 +1750,7 @@ export class BidActionService {
             bidCreateRequest.address.type = AddressType.SHIPPING_BID;
             bidCreateRequest.address.profile_id = profile.id;
         }
-
-        const createdBidModel = await this.bidService.create(bidCreateRequest);
-        const createdBid = createdBidModel.toJSON();
-        return createdBid;
+        return bidCreateRequest;
     }
 
     /**
@@ -1194,6 +1816,18 @@ export class BidActionService {
                 });
 
         });
+        this.eventEmitter.on(Events.CounterBidReceivedEvent, async (event) => {
+            this.log.debug('Received event:', JSON.stringify(event, null, 2));
+            await this.processCounterBidReceivedEvent(event)
+                .then(async status => {
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, status);
+                })
+                .catch(async reason => {
+                    this.log.error('ERROR: BidCounterMessage processing failed.', reason);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED);
+                });
+
+        });
     }
 
     /**
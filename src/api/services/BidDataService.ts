@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets } from '../../constants';
@@ -29,8 +30,8 @@ export class BidDataService {
         return this.bidDataRepo.findAll();
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<BidData> {
-        const bidData = await this.bidDataRepo.findOne(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<BidData> {
+        const bidData = await this.bidDataRepo.findOne(id, withRelated, trx);
         if (bidData === null) {
             this.log.warn(`BidData with the id=${id} was not found!`);
             throw new NotFoundException(id);
@@ -39,35 +40,35 @@ export class BidDataService {
     }
 
     @validate()
-    public async create( @request(BidDataCreateRequest) data: BidDataCreateRequest): Promise<BidData> {
+    public async create( @request(BidDataCreateRequest) data: BidDataCreateRequest, trx?: Knex.Transaction): Promise<BidData> {
 
         const body = JSON.parse(JSON.stringify(data));
         // this.log.debug('BidDataCreateRequest: ', JSON.stringify(body, null, 2));
 
         // If the request body was valid we will create the bidData
-        const bidData = await this.bidDataRepo.create(body);
+        const bidData = await this.bidDataRepo.create(body, trx);
 
         // finally find and return the created bidData
-        const newBidData = await this.findOne(bidData.id);
+        const newBidData = await this.findOne(bidData.id, true, trx);
         return newBidData;
     }
 
     @validate()
-    public async update(id: number, @request(BidDataUpdateRequest) body: BidDataUpdateRequest): Promise<BidData> {
+    public async update(id: number, @request(BidDataUpdateRequest) body: BidDataUpdateRequest, trx?: Knex.Transaction): Promise<BidData> {
         // find the existing one without related
-        const bidData = await this.findOne(id, false);
+        const bidData = await this.findOne(id, false, trx);
 
         // set new values
         bidData.DataValue = body.dataValue;
         bidData.DataId = body.dataId;
         // update bidData record
-        const updatedBidData = await this.bidDataRepo.update(id, bidData.toJSON());
+        const updatedBidData = await this.bidDataRepo.update(id, bidData.toJSON(), trx);
 
         return updatedBidData;
     }
 
-    public async destroy(id: number): Promise<void> {
-        await this.bidDataRepo.destroy(id);
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
+        await this.bidDataRepo.destroy(id, trx);
     }
 
 }
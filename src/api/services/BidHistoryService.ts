@@ -0,0 +1,104 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { validate, request } from '../../core/api/Validate';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { BidHistoryRepository } from '../repositories/BidHistoryRepository';
+import { BidHistory } from '../models/BidHistory';
+import { BidHistoryCreateRequest } from '../requests/BidHistoryCreateRequest';
+import { BidMessageType } from '../enums/BidMessageType';
+import { BidDataValue } from '../enums/BidDataValue';
+
+export class BidHistoryService {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Repository) @named(Targets.Repository.BidHistoryRepository) public bidHistoryRepo: BidHistoryRepository,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<BidHistory>> {
+        return this.bidHistoryRepo.findAll();
+    }
+
+    /**
+     * the negotiation chain of the Bid, oldest first
+     *
+     * @param {number} bidId
+     * @param {boolean} withRelated
+     * @returns {Promise<Bookshelf.Collection<BidHistory>>}
+     */
+    public async findAllByBidId(bidId: number, withRelated: boolean = true): Promise<Bookshelf.Collection<BidHistory>> {
+        return await this.bidHistoryRepo.findAllByBidId(bidId, withRelated);
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<BidHistory> {
+        const bidHistory = await this.bidHistoryRepo.findOne(id, withRelated, trx);
+        if (bidHistory === null) {
+            this.log.warn(`BidHistory with the id=${id} was not found!`);
+            throw new NotFoundException(id);
+        }
+        return bidHistory;
+    }
+
+    @validate()
+    public async create( @request(BidHistoryCreateRequest) data: BidHistoryCreateRequest, trx?: Knex.Transaction): Promise<BidHistory> {
+
+        const body = JSON.parse(JSON.stringify(data));
+        // this.log.debug('create BidHistory, body: ', JSON.stringify(body, null, 2));
+
+        // If the request body was valid we will create the bidHistory
+        const bidHistory = await this.bidHistoryRepo.create(body, trx);
+
+        // finally find and return the created bidHistory
+        const newBidHistory = await this.findOne(bidHistory.id, true, trx);
+        return newBidHistory;
+    }
+
+    /**
+     * records the action taken on the Bid, with the price the Bid has after it
+     *
+     * @param {module:resources.Bid} bid, the updated Bid
+     * @param {BidMessageType} action
+     * @param {string} sender, address of the party taking the action
+     * @param {string} msgid, the received SmsgMessage
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<BidHistory>}
+     */
+    public async record(bid: resources.Bid, action: BidMessageType, sender: string, msgid?: string, trx?: Knex.Transaction): Promise<BidHistory> {
+
+        const getPrice = (key: BidDataValue): number | undefined => {
+            const bidData = _.find(bid.BidDatas || [], (o: resources.BidData) => o.dataId === key);
+            return bidData ? +bidData.dataValue : undefined;
+        };
+
+        // the countered prices are only shown for the counter offers
+        const isCounter = action === BidMessageType.MPA_COUNTER;
+
+        return await this.create({
+            bid_id: bid.id,
+            action,
+            sender,
+            total_price: getPrice(BidDataValue.TOTAL_PRICE),
+            base_price: isCounter ? getPrice(BidDataValue.COUNTER_BASE_PRICE) : undefined,
+            shipping_price: isCounter ? getPrice(BidDataValue.COUNTER_SHIPPING_PRICE) : undefined,
+            msgid
+        } as BidHistoryCreateRequest, trx);
+    }
+
+    public async destroy(id: number): Promise<void> {
+        await this.bidHistoryRepo.destroy(id);
+    }
+
+}
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import * as _ from 'lodash';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
@@ -49,8 +50,8 @@ export class BidService {
         return await this.bidRepo.findAll();
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<Bid> {
-        const bid = await this.bidRepo.findOne(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Bid> {
+        const bid = await this.bidRepo.findOne(id, withRelated, trx);
         if (bid === null) {
             this.log.warn(`Bid with the id=${id} was not found!`);
             throw new NotFoundException(id);
@@ -93,7 +94,7 @@ export class BidService {
     }
 
     @validate()
-    public async create(@request(BidCreateRequest) data: BidCreateRequest): Promise<Bid> {
+    public async create(@request(BidCreateRequest) data: BidCreateRequest, trx?: Knex.Transaction): Promise<Bid> {
 
         const body = JSON.parse(JSON.stringify(data));
         // this.log.debug('BidCreateRequest:', JSON.stringify(body, null, 2));
@@ -138,7 +139,7 @@ export class BidService {
         }
 
         // this.log.debug('address create request: ', JSON.stringify(addressCreateRequest, null, 2));
-        const addressModel = await this.addressService.create(addressCreateRequest);
+        const addressModel = await this.addressService.create(addressCreateRequest, trx);
         const address = addressModel.toJSON();
         // this.log.debug('created address: ', JSON.stringify(address, null, 2));
 
@@ -150,7 +151,7 @@ export class BidService {
 
         // this.log.debug('body: ', JSON.stringify(body, null, 2));
         // If the request body was valid we will create the bid
-        const bid = await this.bidRepo.create(body);
+        const bid = await this.bidRepo.create(body, trx);
 
         for (const dataToSave of bidDatas) {
             // todo: move to biddataservice?
@@ -159,21 +160,21 @@ export class BidService {
             dataToSave.dataValue = typeof (dataToSave.dataValue) === 'string' ? dataToSave.dataValue : JSON.stringify(dataToSave.dataValue);
 
             // this.log.debug('dataToSave: ', JSON.stringify(dataToSave, null, 2));
-            await this.bidDataService.create(dataToSave);
+            await this.bidDataService.create(dataToSave, trx);
         }
 
         // finally find and return the created bid
-        const newBid = await this.findOne(bid.Id);
+        const newBid = await this.findOne(bid.Id, true, trx);
         return newBid;
     }
 
     @validate()
-    public async update(id: number, @request(BidUpdateRequest) data: BidUpdateRequest): Promise<Bid> {
+    public async update(id: number, @request(BidUpdateRequest) data: BidUpdateRequest, trx?: Knex.Transaction): Promise<Bid> {
 
         const body = JSON.parse(JSON.stringify(data));
 
         // find the existing one without related
-        const bid = await this.findOne(id, false);
+        const bid = await this.findOne(id, false, trx);
 
         // extract and remove related models from request
         const bidDatas: BidDataCreateRequest[] = body.bidDatas || [];
@@ -184,24 +185,24 @@ export class BidService {
         // bid.Bidder = body.bidder;
 
         // update bid record
-        const updatedBid = await this.bidRepo.update(id, bid.toJSON());
+        const updatedBid = await this.bidRepo.update(id, bid.toJSON(), trx);
 
         // remove old BidDatas
         if (bidDatas) {
             const oldBidDatas = updatedBid.related('BidDatas').toJSON();
             for (const bidData of oldBidDatas) {
-                await this.bidDataService.destroy(bidData.id);
+                await this.bidDataService.destroy(bidData.id, trx);
             }
 
             // create new BidDatas
             for (const bidData of bidDatas) {
                 bidData.bid_id = id;
                 bidData.dataValue = typeof (bidData.dataValue) === 'string' ? bidData.dataValue : JSON.stringify(bidData.dataValue);
-                await this.bidDataService.create(bidData);
+                await this.bidDataService.create(bidData, trx);
             }
         }
 
-        return await this.findOne(id, true);
+        return await this.findOne(id, true, trx);
     }
 
     public async destroy(id: number): Promise<void> {
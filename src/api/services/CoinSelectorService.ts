@@ -0,0 +1,332 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import * as Knex from 'knex';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { CoreRpcService, Output, UnspentOutput } from './CoreRpcService';
+import { LockedOutputService } from './LockedOutputService';
+import { MessageException } from '../exceptions/MessageException';
+
+export interface OutputData {
+    outputs: Output[];
+    outputsSum: number;
+    outputsChangeAmount: number;
+}
+
+interface SelectableOutput {
+    txid: string;
+    vout: number;
+    value: number;          // satoshis
+    effectiveValue: number; // satoshis, value minus the fee for spending the output
+}
+
+/**
+ * Selects the unspent outputs used to fund our part of the escrow.
+ *
+ * Outputs which are unconfirmed, unsafe or already held by a LockedOutput are never selected. A branch and bound search
+ * looks for a selection not needing any change, if there's none, a knapsack selection with change is made. Change
+ * below the dust threshold is left to the fee instead of creating an output which costs more to spend than it's worth.
+ */
+export class CoinSelectorService {
+
+    // estimated transaction sizes in bytes, our share of the escrow transaction is the overhead, the escrow output,
+    // our inputs and our change output
+    public static TX_OVERHEAD_SIZE = 10;
+    public static INPUT_SIZE = 148;
+    public static OUTPUT_SIZE = 34;
+
+    public static BNB_MAX_TRIES = 100000;
+
+    public log: LoggerType;
+
+    private FEE_CONF_TARGET = parseInt(process.env.COIN_SELECTION_FEE_CONF_TARGET, 10) || 6;
+    private FALLBACK_FEE_RATE = parseFloat(process.env.COIN_SELECTION_FALLBACK_FEE_RATE) || 0.0002;
+    private DUST_THRESHOLD = parseFloat(process.env.COIN_SELECTION_DUST_THRESHOLD) || 0.0000546;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.CoreRpcService) private coreRpcService: CoreRpcService,
+        @inject(Types.Service) @named(Targets.Service.LockedOutputService) private lockedOutputService: LockedOutputService,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * selects the outputs covering the requiredAmount and the fee for spending them
+     *
+     * requiredAmount, for MPA_BID: totalPrice + buyers deposit
+     * requiredAmount, for MPA_ACCEPT: sellers deposit
+     *
+     * @param {number} requiredAmount
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<OutputData>}
+     */
+    public async selectOutputs(requiredAmount: number, trx?: Knex.Transaction): Promise<OutputData> {
+
+        const feePerByte = await this.getFeePerByte();
+        const inputFee = this.getFee(feePerByte, CoinSelectorService.INPUT_SIZE);
+        const changeFee = this.getFee(feePerByte, CoinSelectorService.OUTPUT_SIZE);
+        const baseFee = this.getFee(feePerByte, CoinSelectorService.TX_OVERHEAD_SIZE + CoinSelectorService.OUTPUT_SIZE);
+
+        const required = this.toSatoshis(requiredAmount);
+        const dustThreshold = this.toSatoshis(this.DUST_THRESHOLD);
+
+        // outputs costing more to spend than they're worth are left out
+        const availableOutputs: SelectableOutput[] = _.filter(await this.getAvailableOutputs(inputFee, trx),
+            (output: SelectableOutput) => output.effectiveValue > 0);
+
+        // change would be worth creating only if it's more than it costs to create and later spend it
+        const costOfChange = changeFee + inputFee;
+
+        let selection = this.selectBranchAndBound(availableOutputs, required + baseFee, costOfChange);
+        let changeAmount = 0;
+
+        if (!selection) {
+            selection = this.selectKnapsack(availableOutputs, required + baseFee + changeFee, dustThreshold);
+            if (!selection) {
+                this.log.warn('Not enough funds');
+                throw new MessageException('Not enough funds');
+            }
+            changeAmount = this.sumEffectiveValues(selection) - required - baseFee - changeFee;
+
+            // dust change goes to the fee
+            changeAmount = changeAmount < dustThreshold ? 0 : changeAmount;
+        }
+
+        const response: OutputData = {
+            outputs: selection.map(output => {
+                return {
+                    txid: output.txid,
+                    vout: output.vout,
+                    amount: this.toCoins(output.value)
+                };
+            }),
+            outputsSum: this.toCoins(_.sumBy(selection, output => output.value)),
+            outputsChangeAmount: this.toCoins(changeAmount)
+        };
+
+        this.log.debug('selected outputs:', JSON.stringify(response, null, 2));
+        return response;
+    }
+
+    /**
+     * estimates the fee for a share of the escrow transaction spending the given number of outputs, the same way
+     * the fee for our own selection is estimated, used to check the change the other party expects to get
+     *
+     * @param {number} inputs
+     * @param {boolean} withChange
+     * @returns {Promise<number>}
+     */
+    public async estimateEscrowFee(inputs: number, withChange: boolean): Promise<number> {
+        const feePerByte = await this.getFeePerByte();
+        const fee = inputs * this.getFee(feePerByte, CoinSelectorService.INPUT_SIZE)
+            + this.getFee(feePerByte, CoinSelectorService.TX_OVERHEAD_SIZE + CoinSelectorService.OUTPUT_SIZE)
+            + (withChange ? this.getFee(feePerByte, CoinSelectorService.OUTPUT_SIZE) : 0);
+        return this.toCoins(fee);
+    }
+
+    /**
+     * @param {number} size of the transaction in bytes
+     * @returns {Promise<number>} the fee estimated by the daemon, or using the fallback if there's no estimate
+     */
+    public async estimateFee(size: number): Promise<number> {
+        const feePerByte = await this.getFeePerByte();
+        return this.toCoins(this.getFee(feePerByte, size));
+    }
+
+    /**
+     * confirmed and safe unspent outputs of the wallet, which are not held by a LockedOutput
+     *
+     * @param {number} inputFee
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<SelectableOutput[]>}
+     */
+    private async getAvailableOutputs(inputFee: number, trx?: Knex.Transaction): Promise<SelectableOutput[]> {
+
+        const lockedOutputs: resources.LockedOutput[] = await this.lockedOutputService.findAll(trx)
+            .then(value => value.toJSON());
+        const locked = lockedOutputs.map(lockedOutput => lockedOutput.txid + ':' + lockedOutput.vout);
+
+        const unspentOutputs: UnspentOutput[] = await this.coreRpcService.listUnspent(1, 99999999, [], false);
+
+        return unspentOutputs
+            .filter(output => output.spendable && output.solvable && output.safe && output.confirmations > 0
+                && !_.includes(locked, output.txid + ':' + output.vout))
+            .map(output => {
+                const value = this.toSatoshis(output.amount);
+                return {
+                    txid: output.txid,
+                    vout: output.vout,
+                    value,
+                    effectiveValue: value - inputFee
+                } as SelectableOutput;
+            });
+    }
+
+    /**
+     * depth first search for the selection with an effective value between target and target + costOfChange,
+     * wasting the least, so that no change output is needed
+     *
+     * @param {SelectableOutput[]} outputs
+     * @param {number} target
+     * @param {number} costOfChange
+     * @returns {SelectableOutput[]}
+     */
+    private selectBranchAndBound(outputs: SelectableOutput[], target: number, costOfChange: number): SelectableOutput[] | undefined {
+
+        const sorted = this.sortByEffectiveValue(outputs, false);
+
+        let remaining = this.sumEffectiveValues(sorted);
+        if (remaining < target) {
+            return undefined;
+        }
+
+        const selection: boolean[] = [];
+        let selectionValue = 0;
+        let best: boolean[] | undefined;
+        let bestWaste = Number.MAX_SAFE_INTEGER;
+
+        for (let tries = 0; tries < CoinSelectorService.BNB_MAX_TRIES; tries++) {
+
+            let backtrack = false;
+            if (selectionValue + remaining < target || selectionValue > target + costOfChange) {
+                // can't reach the target or went over it
+                backtrack = true;
+            } else if (selectionValue >= target) {
+                const waste = selectionValue - target;
+                if (waste <= bestWaste) {
+                    best = selection.slice();
+                    bestWaste = waste;
+                    if (waste === 0) {
+                        break;
+                    }
+                }
+                backtrack = true;
+            }
+
+            if (backtrack) {
+                // walk back to the last included output
+                while (selection.length > 0 && !selection[selection.length - 1]) {
+                    selection.pop();
+                    remaining += sorted[selection.length].effectiveValue;
+                }
+                if (selection.length === 0) {
+                    // every branch has been searched
+                    break;
+                }
+                // and try the branch without it
+                selection[selection.length - 1] = false;
+                selectionValue -= sorted[selection.length - 1].effectiveValue;
+            } else {
+                // include the next output
+                const output = sorted[selection.length];
+                remaining -= output.effectiveValue;
+                selection.push(true);
+                selectionValue += output.effectiveValue;
+            }
+        }
+
+        if (!best) {
+            return undefined;
+        }
+        const bestSelection = best;
+        return sorted.filter((output, index) => bestSelection[index]);
+    }
+
+    /**
+     * selection with change: an exact match, the smallest output covering the target with change, or the smallest
+     * outputs which together cover it, whichever locks up less
+     *
+     * @param {SelectableOutput[]} outputs
+     * @param {number} target, including the fee for the change output
+     * @param {number} minChange
+     * @returns {SelectableOutput[]}
+     */
+    private selectKnapsack(outputs: SelectableOutput[], target: number, minChange: number): SelectableOutput[] | undefined {
+
+        const exactMatch = _.find(outputs, output => output.effectiveValue === target);
+        if (exactMatch) {
+            return [exactMatch];
+        }
+
+        const targetWithChange = target + minChange;
+        const smaller = this.sortByEffectiveValue(_.filter(outputs, output => output.effectiveValue < targetWithChange), false);
+        const lowestLarger = _.first(this.sortByEffectiveValue(_.filter(outputs, output => output.effectiveValue >= targetWithChange), true));
+
+        if (this.sumEffectiveValues(smaller) < target) {
+            return lowestLarger ? [lowestLarger] : undefined;
+        }
+
+        // largest first until the target is covered
+        let selection: SelectableOutput[] = [];
+        let selectionValue = 0;
+        for (const output of smaller) {
+            if (selectionValue >= targetWithChange) {
+                break;
+            }
+            selection.push(output);
+            selectionValue += output.effectiveValue;
+        }
+
+        // then leave out the outputs which aren't needed, smallest first
+        const minValue = selectionValue >= targetWithChange ? targetWithChange : target;
+        for (let i = selection.length - 1; i >= 0; i--) {
+            if (selectionValue - selection[i].effectiveValue >= minValue) {
+                selectionValue -= selection[i].effectiveValue;
+                selection = selection.filter((output, index) => index !== i);
+            }
+        }
+
+        if (lowestLarger && (selectionValue < targetWithChange || lowestLarger.effectiveValue <= selectionValue)) {
+            return [lowestLarger];
+        }
+        return selection;
+    }
+
+    /**
+     * @returns {Promise<number>} fee in satoshis per byte estimated by the daemon, or the fallback if there's no estimate
+     */
+    private async getFeePerByte(): Promise<number> {
+        const estimate = await this.coreRpcService.estimateSmartFee(this.FEE_CONF_TARGET)
+            .catch(reason => {
+                this.log.warn('Fee estimation failed: ', reason);
+                return undefined;
+            });
+        const feeRate = estimate && estimate.feerate > 0 ? estimate.feerate : this.FALLBACK_FEE_RATE;
+        return this.toSatoshis(feeRate) / 1000;
+    }
+
+    private getFee(feePerByte: number, size: number): number {
+        return Math.ceil(feePerByte * size);
+    }
+
+    /**
+     * sorts by effective value, ties are sorted by txid and vout so that the selection is always the same
+     */
+    private sortByEffectiveValue(outputs: SelectableOutput[], ascending: boolean): SelectableOutput[] {
+        return outputs.slice().sort((a, b) => {
+            if (a.effectiveValue !== b.effectiveValue) {
+                return ascending ? a.effectiveValue - b.effectiveValue : b.effectiveValue - a.effectiveValue;
+            }
+            return a.txid !== b.txid ? (a.txid < b.txid ? -1 : 1) : a.vout - b.vout;
+        });
+    }
+
+    private sumEffectiveValues(outputs: SelectableOutput[]): number {
+        return _.sumBy(outputs, output => output.effectiveValue);
+    }
+
+    private toSatoshis(amount: number): number {
+        return Math.round(amount * 100000000);
+    }
+
+    private toCoins(satoshis: number): number {
+        return +(satoshis / 100000000).toFixed(8);
+    }
+
+}
@@ -12,7 +12,6 @@ import { HttpException } from '../exceptions/HttpException';
 import { JsonRpc2Response } from '../../core/api/jsonrpc';
 import { InternalServerException } from '../exceptions/InternalServerException';
 import { CoreCookieService } from './CoreCookieService';
-import { Output } from './BidActionService';
 
 declare function escape(s: string): string;
 declare function unescape(s: string): string;
@@ -57,6 +56,13 @@ export interface UnspentOutput   {
     stakeable: boolean;             // (bool) Whether we have the private keys to stake this output
 }
 
+export interface Output {
+    txid?: string;
+    vout?: number;
+    amount?: number;
+    data?: string;
+}
+
 
 export class CoreRpcService {
 
@@ -405,6 +411,41 @@ export class CoreRpcService {
         return await this.call('getrawtransaction', params);
     }
 
+    /**
+     * Returns details about an unspent transaction output, null if the output has been spent.
+     *
+     * @param {string} txid
+     * @param {number} vout
+     * @param {boolean} includeMempool
+     * @returns {Promise<any>}
+     */
+    public async getTxOut(txid: string, vout: number, includeMempool: boolean = true): Promise<any> {
+        return await this.call('gettxout', [txid, vout, includeMempool]);
+    }
+
+    /**
+     * Get detailed information about in-wallet transaction, confirmations are negative if the transaction conflicts
+     * with one in the chain.
+     *
+     * @param {string} txid
+     * @param {boolean} includeWatchonly
+     * @returns {Promise<any>}
+     */
+    public async getTransaction(txid: string, includeWatchonly: boolean = true): Promise<any> {
+        return await this.call('gettransaction', [txid, includeWatchonly]);
+    }
+
+    /**
+     * Scans the UTXO set for the outputs matching the descriptors, for example addr(<address>).
+     * Unlike listunspent this also finds the outputs the wallet hasn't seen.
+     *
+     * @param {string[]} descriptors
+     * @returns {Promise<any>} { success, unspents: [{ txid, vout, scriptPubKey, amount, height }], total_amount }
+     */
+    public async scanTxOutSet(descriptors: string[]): Promise<any> {
+        return await this.call('scantxoutset', ['start', descriptors]);
+    }
+
     /**
      * ﻿Returns array of unspent transaction outputs
      * with between minconf and maxconf (inclusive) confirmations.
@@ -428,6 +469,18 @@ export class CoreRpcService {
         return await this.call('listunspent', params);
     }
 
+    /**
+     * Estimates the fee per kilobyte needed for a transaction to begin confirmation within confTarget blocks.
+     * Returns { feerate, blocks } or { errors, blocks } if there's not enough data to estimate the fee.
+     *
+     * @param {number} confTarget
+     * @param {string} estimateMode, UNSET, ECONOMICAL or CONSERVATIVE
+     * @returns {Promise<any>}
+     */
+    public async estimateSmartFee(confTarget: number, estimateMode: string = 'CONSERVATIVE'): Promise<any> {
+        return await this.call('estimatesmartfee', [confTarget, estimateMode]);
+    }
+
     /**
      *
      * @param {boolean} unlock
@@ -440,6 +493,15 @@ export class CoreRpcService {
         return await this.call('lockunspent', params);
     }
 
+    /**
+     * Returns the outputs currently locked by the wallet.
+     *
+     * @returns {Promise<Output[]>} [{"txid":"id","vout": n},...]
+     */
+    public async listLockUnspent(): Promise<Output[]> {
+        return await this.call('listlockunspent', []);
+    }
+
     /**
      * ﻿DEPRECATED. Returns the current Particl address for receiving payments to this account.
      *
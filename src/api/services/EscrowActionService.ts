@@ -4,7 +4,9 @@
 
 import * as resources from 'resources';
 import * as _ from 'lodash';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
+import { Bookshelf as Database } from '../../config/Database';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets, Events } from '../../constants';
 import { MarketplaceEvent } from '../messages/MarketplaceEvent';
@@ -17,7 +19,7 @@ import { MarketplaceMessage } from '../messages/MarketplaceMessage';
 import { SmsgSendResponse } from '../responses/SmsgSendResponse';
 import { OrderFactory } from '../factories/OrderFactory';
 import { OrderService } from './OrderService';
-import { SmsgService } from './SmsgService';
+import { OutboxMessageService } from './OutboxMessageService';
 import { CoreRpcService } from './CoreRpcService';
 import { EscrowFactory } from '../factories/EscrowFactory';
 import { EscrowMessageType } from '../enums/EscrowMessageType';
@@ -27,31 +29,47 @@ import { OrderStatus } from '../enums/OrderStatus';
 import { NotImplementedException } from '../exceptions/NotImplementedException';
 import { OrderItemObjectService } from './OrderItemObjectService';
 import { OrderItemObjectUpdateRequest } from '../requests/OrderItemObjectUpdateRequest';
+import { OrderItemObjectCreateRequest } from '../requests/OrderItemObjectCreateRequest';
 import { EscrowMessage } from '../messages/EscrowMessage';
-import { OrderItemUpdateRequest } from '../requests/OrderItemUpdateRequest';
 import { OrderItemService } from './OrderItemService';
 import { OrderSearchParams } from '../requests/OrderSearchParams';
 import { LockedOutputService } from './LockedOutputService';
 import { BidDataValue } from '../enums/BidDataValue';
 import { SmsgMessageStatus } from '../enums/SmsgMessageStatus';
 import { SmsgMessageService } from './SmsgMessageService';
-import {Output} from './BidActionService';
+import { Output } from './CoreRpcService';
+import { EscrowAmounts, EscrowItem } from '../../core/helpers/EscrowAmounts';
+import { EscrowType } from '../enums/EscrowType';
+import { SmsgService } from './SmsgService';
+import { EscrowTransactionService } from './EscrowTransactionService';
+import { EscrowTransactionType } from '../enums/EscrowTransactionType';
+import { EscrowTransactionStatus } from '../enums/EscrowTransactionStatus';
+import { EscrowRecoveryResponse } from '../responses/EscrowRecoveryResponse';
+import { EscrowVerifierService } from './EscrowVerifierService';
+import { CoinSelectorService } from './CoinSelectorService';
 
 export class EscrowActionService {
 
+    // estimated size in bytes of the transaction paying out the escrow, the multisig input and an output to both parties
+    public static PAYOUT_TX_SIZE = CoinSelectorService.TX_OVERHEAD_SIZE + 300 + 2 * CoinSelectorService.OUTPUT_SIZE;
+
     public log: LoggerType;
 
     constructor(
         @inject(Types.Service) @named(Targets.Service.ActionMessageService) private actionMessageService: ActionMessageService,
         @inject(Types.Service) @named(Targets.Service.EscrowService) private escrowService: EscrowService,
         @inject(Types.Service) @named(Targets.Service.ListingItemService) private listingItemService: ListingItemService,
-        @inject(Types.Service) @named(Targets.Service.SmsgService) private smsgService: SmsgService,
+        @inject(Types.Service) @named(Targets.Service.OutboxMessageService) private outboxMessageService: OutboxMessageService,
         @inject(Types.Service) @named(Targets.Service.OrderService) private orderService: OrderService,
         @inject(Types.Service) @named(Targets.Service.OrderItemService) private orderItemService: OrderItemService,
         @inject(Types.Service) @named(Targets.Service.OrderItemObjectService) private orderItemObjectService: OrderItemObjectService,
         @inject(Types.Service) @named(Targets.Service.CoreRpcService) private coreRpcService: CoreRpcService,
         @inject(Types.Service) @named(Targets.Service.LockedOutputService) private lockedOutputService: LockedOutputService,
         @inject(Types.Service) @named(Targets.Service.SmsgMessageService) private smsgMessageService: SmsgMessageService,
+        @inject(Types.Service) @named(Targets.Service.SmsgService) private smsgService: SmsgService,
+        @inject(Types.Service) @named(Targets.Service.EscrowTransactionService) private escrowTransactionService: EscrowTransactionService,
+        @inject(Types.Service) @named(Targets.Service.EscrowVerifierService) private escrowVerifierService: EscrowVerifierService,
+        @inject(Types.Service) @named(Targets.Service.CoinSelectorService) private coinSelectorService: CoinSelectorService,
         @inject(Types.Factory) @named(Targets.Factory.EscrowFactory) private escrowFactory: EscrowFactory,
         @inject(Types.Factory) @named(Targets.Factory.OrderFactory) private orderFactory: OrderFactory,
         @inject(Types.Core) @named(Core.Events) private eventEmitter: EventEmitter,
@@ -79,11 +97,14 @@ export class EscrowActionService {
         if (unlockSuccess) {
             // generate rawtx and update it in the db
             const rawtx = await this.createRawTx(escrowRequest);
-            const updatedRawTx = await this.updateRawTxOrderItemObject(escrowRequest.orderItem.OrderItemObjects, rawtx);
+            const order = await this.getOrder(escrowRequest.orderItem);
 
-            await this.updateOrderItemStatus(escrowRequest.orderItem, OrderStatus.ESCROW_LOCKED);
+            return await this.createAndSendMessage(escrowRequest, rawtx, async trx => {
+                await this.updateEscrowOrderItems(order, rawtx, OrderStatus.ESCROW_LOCKED, undefined, rawtx, trx);
 
-            return await this.createAndSendMessage(escrowRequest, rawtx);
+                // rawtx is the txid of the broadcasted escrow
+                await this.escrowTransactionService.track(order.OrderItems, rawtx, EscrowTransactionType.LOCK, trx);
+            });
 
         } else {
             throw new MessageException('Failed to unlock the locked outputs.');
@@ -93,54 +114,47 @@ export class EscrowActionService {
 
 
     /**
+     * Buyer sends EscrowRefundMessage (MPA_REQUEST_REFUND) to the Seller, containing the half signed rawtx returning the deposits.
+     * Seller sends EscrowRefundMessage (MPA_REFUND) to the Buyer, after broadcasting the refund or rejecting it.
      *
      * @param {EscrowRequest} escrowRequest
      * @returns {Promise<SmsgSendResponse>}
      */
     public async refund(escrowRequest: EscrowRequest): Promise<SmsgSendResponse> {
 
-        throw new NotImplementedException();
+        this.validateEscrowRequest(escrowRequest);
 
-        // todo: refactor lock/refund/release since they're pretty much the same
-        // todo: add @validate to EscrowLockRequest
-/*
         const orderItem = escrowRequest.orderItem;
-        const escrow = orderItem.Bid.ListingItem.PaymentInformation.Escrow;
+        const order = await this.getOrder(orderItem);
 
-        if (_.isEmpty(orderItem)) {
-            throw new MessageException('OrderItem not found!');
-        }
+        if (escrowRequest.action === EscrowMessageType.MPA_REFUND && !escrowRequest.accepted) {
+            // seller rejected the refund, the escrow stays locked
+            const escrowTxid = await this.getEscrowTxid(orderItem);
 
-        if (_.isEmpty(escrow)) {
-            throw new MessageException('Escrow not found!');
+            return await this.createAndSendMessage(escrowRequest, escrowTxid, async trx => {
+                await this.updateEscrowOrderItems(order, escrowTxid, OrderStatus.ESCROW_LOCKED, undefined, undefined, trx);
+            });
         }
 
-        const listingItemModel = await this.listingItemService.findOneByHash(orderItem.itemHash);
-        const listingItem = listingItemModel.toJSON();
-
-        // generate rawtx
-        const rawtx = await this.createRawTx(escrowRequest, listingItem);
-
-        const updatedRawTx = await this.updateRawTxOrderItemObject(orderItem.OrderItemObjects, rawtx);
+        // generate rawtx and update it in the db
+        const rawtx = await this.createRawTx(escrowRequest);
 
         // update OrderStatus
-        const newOrderStatus = OrderStatus.CHANGE;
-        const updatedOrderItem = await this.updateOrderItemStatus(orderItem, newOrderStatus);
-
-        // use escrowfactory to generate the refund message
-        const escrowActionMessage = await this.escrowFactory.getMessage(escrowRequest, rawtx);
+        const newOrderStatus = escrowRequest.action === EscrowMessageType.MPA_REQUEST_REFUND ? OrderStatus.REFUND_REQUESTED : OrderStatus.REFUNDED;
 
-        const marketPlaceMessage = {
-            version: process.env.MARKETPLACE_VERSION,
-            mpaction: escrowActionMessage
-        } as MarketplaceMessage;
+        return await this.createAndSendMessage(escrowRequest, rawtx, async trx => {
+            await this.updateEscrowOrderItems(order, rawtx, newOrderStatus, undefined, newOrderStatus === OrderStatus.REFUNDED ? rawtx : undefined, trx);
 
-        return await this.smsgService.smsgSend(orderItem.Order.seller, orderItem.Order.buyer, marketPlaceMessage, false);
-*/
+            if (newOrderStatus === OrderStatus.REFUNDED) {
+                // rawtx is the txid of the broadcasted refund
+                await this.escrowTransactionService.track(order.OrderItems, rawtx, EscrowTransactionType.REFUND, trx);
+            }
+        });
     }
 
     /**
      * Seller sends EscrowReleaseMessage (MPA_RELEASE) to the Buyer, indicating that the item has been sent.
+     * The message can contain the shipment details, which are stored as OrderItemObjects.
      * Buyer sends EscrowReleaseMessage (MPA_RELEASE) to the Seller, indicating that the sent item has been received.
      *
      * @param {EscrowRequest} escrowRequest
@@ -155,14 +169,237 @@ export class EscrowActionService {
 
         // generate rawtx and update it in the db
         const rawtx = await this.createRawTx(escrowRequest);
-        const updatedRawTx = await this.updateRawTxOrderItemObject(orderItem.OrderItemObjects, rawtx);
+        const order = await this.getOrder(orderItem);
 
         // update OrderStatus
         const isMyListingItem = !_.isEmpty(orderItem.Bid.ListingItem.ListingItemTemplate);
         const newOrderStatus = isMyListingItem ? OrderStatus.SHIPPING : OrderStatus.COMPLETE;
-        await this.updateOrderItemStatus(orderItem, newOrderStatus);
 
-        return await this.createAndSendMessage(escrowRequest, rawtx);
+        return await this.createAndSendMessage(escrowRequest, rawtx, async trx => {
+            await this.updateEscrowOrderItems(order, rawtx, newOrderStatus, undefined, newOrderStatus === OrderStatus.COMPLETE ? rawtx : undefined, trx);
+
+            if (newOrderStatus === OrderStatus.COMPLETE) {
+                // rawtx is the txid of the broadcasted release
+                await this.escrowTransactionService.track(order.OrderItems, rawtx, EscrowTransactionType.RELEASE, trx);
+            } else {
+                await this.saveShipmentOrderItemObjects(order, escrowRequest.objects, trx);
+            }
+        });
+    }
+
+    /**
+     * Buyer or seller sends EscrowMessage (MPA_DISPUTE) containing the evidence to the arbiter of an ARBITRATED escrow,
+     * and to the other party, which can then send its own evidence to the arbiter.
+     *
+     * @param {EscrowRequest} escrowRequest
+     * @returns {Promise<SmsgSendResponse[]>}
+     */
+    public async dispute(escrowRequest: EscrowRequest): Promise<SmsgSendResponse[]> {
+
+        this.validateEscrowRequest(escrowRequest);
+
+        const orderItem = escrowRequest.orderItem;
+        const escrow = orderItem.Bid.ListingItem.PaymentInformation.Escrow;
+        if (escrow.type !== EscrowType.ARBITRATED) {
+            throw new MessageException('Escrow is not arbitrated.');
+        }
+
+        const order = await this.getOrder(orderItem);
+        const escrowRatio = this.getEscrowTotal(order).ratio;
+        const escrowTxid = await this.getLockedEscrowTxid(orderItem);
+
+        // the arbiter has no Order of its own, so the message contains what's needed to pay out the escrow
+        escrowRequest.objects = [
+            { id: BidDataValue.BUYER_ADDRESS, value: order.buyer },
+            { id: BidDataValue.BUYER_PUBKEY, value: this.getValueFromOrderItemObjects(BidDataValue.BUYER_PUBKEY, orderItem.OrderItemObjects) },
+            { id: BidDataValue.SELLER_PUBKEY, value: this.getValueFromOrderItemObjects(BidDataValue.SELLER_PUBKEY, orderItem.OrderItemObjects) },
+            {
+                id: BidDataValue.BUYER_RELEASE_ADDRESS,
+                value: this.getValueFromOrderItemObjects(BidDataValue.BUYER_RELEASE_ADDRESS, orderItem.OrderItemObjects)
+            },
+            {
+                id: BidDataValue.SELLER_RELEASE_ADDRESS,
+                value: this.getValueFromOrderItemObjects(BidDataValue.SELLER_RELEASE_ADDRESS, orderItem.OrderItemObjects)
+            },
+            { id: BidDataValue.ESCROW_RATIO, value: JSON.stringify({ buyer: escrowRatio.buyer, seller: escrowRatio.seller }) }
+        ];
+
+        const escrowActionMessage = await this.escrowFactory.getMessage(escrowRequest, escrowTxid);
+        const marketPlaceMessage = {
+            version: process.env.MARKETPLACE_VERSION,
+            mpaction: escrowActionMessage
+        } as MarketplaceMessage;
+
+        const isMyListingItem = !_.isEmpty(orderItem.Bid.ListingItem.ListingItemTemplate);
+        const sendFromAddress = isMyListingItem ? order.seller : order.buyer;
+        const sendToAddress = isMyListingItem ? order.buyer : order.seller;
+
+        // smsg needs the arbiters public key to encrypt the message
+        await this.smsgService.smsgAddAddress(escrow.arbiterAddress, escrow.arbiterPubkey);
+
+        const outboxMessages: resources.OutboxMessage[] = await Database.knex.transaction(async trx => {
+
+            // rawtx is replaced with the escrow txid, any half signed release or refund is abandoned
+            await this.updateEscrowOrderItems(order, escrowTxid, OrderStatus.DISPUTED, undefined, undefined, trx);
+
+            return [
+                await this.outboxMessageService.enqueue(sendFromAddress, escrow.arbiterAddress, marketPlaceMessage, false, undefined, trx),
+                await this.outboxMessageService.enqueue(sendFromAddress, sendToAddress, marketPlaceMessage, false, undefined, trx)
+            ];
+        });
+
+        return [
+            await this.outboxMessageService.deliver(outboxMessages[0]),
+            await this.outboxMessageService.deliver(outboxMessages[1])
+        ];
+    }
+
+    /**
+     * Arbiter sends EscrowMessage (MPA_ARBITRATE) to the buyer and the seller, containing the release or the refund
+     * half signed by the arbiter. The party getting paid signs and broadcasts it.
+     *
+     * @param {module:resources.ListingItem} listingItem
+     * @param {string} buyer
+     * @param {EscrowMessageType} decision, MPA_RELEASE or MPA_REFUND
+     * @param {string} memo
+     * @returns {Promise<SmsgSendResponse[]>}
+     */
+    public async arbitrate(listingItem: resources.ListingItem, buyer: string, decision: EscrowMessageType,
+                           memo: string): Promise<SmsgSendResponse[]> {
+
+        const escrow = listingItem.PaymentInformation.Escrow;
+        if (_.isEmpty(escrow) || escrow.type !== EscrowType.ARBITRATED) {
+            throw new MessageException('Escrow is not arbitrated.');
+        }
+
+        const arbiterAddressInfo = await this.coreRpcService.getAddressInfo(escrow.arbiterAddress);
+        if (!arbiterAddressInfo || !arbiterAddressInfo.ismine) {
+            throw new MessageException('Not the arbiter of the Escrow.');
+        }
+
+        const disputes: resources.ActionMessage[] = _.filter(listingItem.ActionMessages, (actionMessage: resources.ActionMessage) => {
+            return actionMessage.action === EscrowMessageType.MPA_DISPUTE
+                && actionMessage.MessageData.to === escrow.arbiterAddress
+                && (actionMessage.MessageData.from === buyer || actionMessage.MessageData.from === listingItem.seller)
+                && this.getValueFromMessageObjects(BidDataValue.BUYER_ADDRESS, actionMessage.MessageObjects) === buyer;
+        });
+        if (_.isEmpty(disputes)) {
+            throw new MessageException('Dispute not found.');
+        }
+
+        // both parties know their own pubkey and release address best, the escrow terms need to match
+        const buyerDispute = _.find(disputes, dispute => dispute.MessageData.from === buyer);
+        const sellerDispute = _.find(disputes, dispute => dispute.MessageData.from === listingItem.seller);
+        const escrowRatio = this.getValueFromMessageObjects(BidDataValue.ESCROW_RATIO, disputes[0].MessageObjects);
+        if (buyerDispute && sellerDispute
+            && this.getValueFromMessageObjects(BidDataValue.ESCROW_RATIO, buyerDispute.MessageObjects)
+            !== this.getValueFromMessageObjects(BidDataValue.ESCROW_RATIO, sellerDispute.MessageObjects)) {
+            throw new MessageException('The buyer and the seller disagree on the EscrowRatio.');
+        }
+        const ratio = JSON.parse(escrowRatio) as resources.EscrowRatio;
+
+        // a release address is only taken from the party's own dispute, so a party which hasn't disputed can't be paid.
+        // it can only be left out of the payout if it has no deposit in the escrow and the decision doesn't pay it.
+        if (!buyerDispute && (decision === EscrowMessageType.MPA_REFUND || ratio.buyer > 0 || escrow.Ratio.buyer > 0)) {
+            throw new MessageException('The buyer has not disputed, the release address of the buyer is unknown.');
+        }
+        if (!sellerDispute && (decision === EscrowMessageType.MPA_RELEASE || ratio.seller > 0 || escrow.Ratio.seller > 0)) {
+            throw new MessageException('The seller has not disputed, the release address of the seller is unknown.');
+        }
+
+        // the escrow output is found only if the pubkeys are right, so they can come from either dispute
+        const pubkeys = [
+            this.getValueFromMessageObjects(BidDataValue.BUYER_PUBKEY, (buyerDispute || disputes[0]).MessageObjects),
+            this.getValueFromMessageObjects(BidDataValue.SELLER_PUBKEY, (sellerDispute || disputes[0]).MessageObjects),
+            escrow.arbiterPubkey
+        ].sort();
+
+        const escrowOutput = await this.getEscrowOutput(disputes[0].MessageEscrow.rawtx, pubkeys, listingItem.hash);
+        const txout = this.createPayoutTxOut(
+            buyerDispute ? this.getValueFromMessageObjects(BidDataValue.BUYER_RELEASE_ADDRESS, buyerDispute.MessageObjects) : '',
+            sellerDispute ? this.getValueFromMessageObjects(BidDataValue.SELLER_RELEASE_ADDRESS, sellerDispute.MessageObjects) : '',
+            ratio,
+            escrowOutput.value,
+            decision,
+            await this.estimatePayoutFee()
+        );
+
+        const txInputs: Output[] = [{txid: escrowOutput.txid, vout: escrowOutput.vout}];
+        const rawtx = await this.coreRpcService.createRawTransaction(txInputs, txout);
+        const signed = await this.signRawTx(rawtx, false);
+
+        const escrowActionMessage = await this.escrowFactory.getArbitrateMessage(listingItem.hash, decision, memo, signed.hex, [
+            { id: BidDataValue.BUYER_ADDRESS, value: buyer }
+        ]);
+        const marketPlaceMessage = {
+            version: process.env.MARKETPLACE_VERSION,
+            mpaction: escrowActionMessage
+        } as MarketplaceMessage;
+
+        // both parties get the decision or neither does
+        const outboxMessages: resources.OutboxMessage[] = await Database.knex.transaction(async trx => {
+            return [
+                await this.outboxMessageService.enqueue(escrow.arbiterAddress, buyer, marketPlaceMessage, false, undefined, trx),
+                await this.outboxMessageService.enqueue(escrow.arbiterAddress, listingItem.seller, marketPlaceMessage, false, undefined, trx)
+            ];
+        });
+
+        return [
+            await this.outboxMessageService.deliver(outboxMessages[0]),
+            await this.outboxMessageService.deliver(outboxMessages[1])
+        ];
+    }
+
+    /**
+     * Recovers the escrow in case the wallet has lost the multisig, for example after restoring the wallet.
+     * The multisig address is rebuilt from the pubkeys of the OrderItem and re-imported, and a release or a refund
+     * spending the escrow output is created and half signed, ready to be co-signed by the other party.
+     *
+     * The escrow output is found from the tracked lock tx, or by scanning the multisig address in case the lock tx
+     * is missing or has been replaced by another tx locking the escrow.
+     *
+     * @param {module:resources.OrderItem} orderItem
+     * @param {EscrowMessageType} action, MPA_RELEASE or MPA_REFUND
+     * @returns {Promise<EscrowRecoveryResponse>}
+     */
+    public async recover(orderItem: resources.OrderItem, action: EscrowMessageType): Promise<EscrowRecoveryResponse> {
+
+        const pubkeys = this.getEscrowPubkeys(orderItem);
+        const escrowMultisig = await this.coreRpcService.addMultiSigAddress(2, pubkeys, '_escrow_' + orderItem.itemHash);
+        this.log.debug('recover(), escrowMultisig:', JSON.stringify(escrowMultisig, null, 2));
+
+        const escrowTotal = this.getEscrowTotal(await this.getOrder(orderItem));
+        const escrowAmount = EscrowAmounts.getEscrowAmount(escrowTotal.totalPrice, escrowTotal.ratio);
+
+        // the tracked lock tx survives the wallet restore
+        const lockTxid = await this.getAgreedEscrowTxid(orderItem).catch(reason => undefined);
+        let escrowOutput = lockTxid
+            ? await this.getEscrowOutput(lockTxid, pubkeys, orderItem.itemHash).catch(reason => null)
+            : null;
+
+        if (!escrowOutput || !await this.coreRpcService.getTxOut(escrowOutput.txid, escrowOutput.vout)) {
+            this.log.warn('recover(), escrow output not found from the lock tx: ' + lockTxid + ', scanning the multisig address.');
+            escrowOutput = await this.findEscrowOutputByAddress(escrowMultisig.address, escrowAmount);
+        }
+
+        if (!escrowOutput) {
+            throw new MessageException('The escrow output was not found or has already been spent.');
+        }
+
+        const txout = this.getPayoutTxOut(orderItem, escrowTotal.ratio, escrowOutput.value, action, await this.estimatePayoutFee());
+        const txInputs: Output[] = [{txid: escrowOutput.txid, vout: escrowOutput.vout}];
+
+        const rawtx = await this.coreRpcService.createRawTransaction(txInputs, txout);
+        const signed = await this.signRawTx(rawtx, false);
+
+        return {
+            address: escrowMultisig.address,
+            redeemScript: escrowMultisig.redeemScript,
+            txid: escrowOutput.txid,
+            vout: escrowOutput.vout,
+            value: escrowOutput.value,
+            rawtx: signed.hex
+        } as EscrowRecoveryResponse;
     }
 
     private validateEscrowRequest(escrowRequest: EscrowRequest): boolean {
@@ -178,13 +415,28 @@ export class EscrowActionService {
             throw new MessageException('Escrow not found!');
         }
 
-        // todo: add sanity checks and validate that values are correct and outputs unspent, etc
+        if (!orderItem.Bid || orderItem.Bid.action !== BidMessageType.MPA_ACCEPT) {
+            throw new MessageException('Bid has not been accepted!');
+        }
 
+        if (!_.find(orderItem.OrderItemObjects, (kv: resources.OrderItemObject) => kv.dataId === BidDataValue.RAW_TX)) {
+            throw new MessageException('Escrow transaction not found!');
+        }
 
+        // the transactions themselves are verified by the EscrowVerifierService before signing them
         return true;
     }
 
-    private async createAndSendMessage(escrowRequest: EscrowRequest, rawtx: string): Promise<SmsgSendResponse> {
+    /**
+     * the message is queued in the same transaction as the local state change it's about, and sent once it's committed
+     *
+     * @param {EscrowRequest} escrowRequest
+     * @param {string} rawtx
+     * @param {(trx: Knex.Transaction) => Promise<void>} updateState
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    private async createAndSendMessage(escrowRequest: EscrowRequest, rawtx: string,
+                                       updateState: (trx: Knex.Transaction) => Promise<void>): Promise<SmsgSendResponse> {
 
         // use escrowfactory to generate the message
         const escrowActionMessage = await this.escrowFactory.getMessage(escrowRequest, rawtx);
@@ -198,18 +450,37 @@ export class EscrowActionService {
         const sendFromAddress = isMyListingItem ? escrowRequest.orderItem.Order.seller : escrowRequest.orderItem.Order.buyer;
         const sendToAddress = isMyListingItem ? escrowRequest.orderItem.Order.buyer : escrowRequest.orderItem.Order.seller;
 
-        return await this.smsgService.smsgSend(sendFromAddress, sendToAddress, marketPlaceMessage, false);
+        const outboxMessage: resources.OutboxMessage = await Database.knex.transaction(async trx => {
+            await updateState(trx);
+            return await this.outboxMessageService.enqueue(sendFromAddress, sendToAddress, marketPlaceMessage, false, undefined, trx);
+        });
+        return await this.outboxMessageService.deliver(outboxMessage);
+    }
+
+    /**
+     * the ListingItem might not have been received yet, until then the EscrowMessage has to wait
+     *
+     * @param {string} listingItemHash
+     * @returns {Promise<module:resources.ListingItem | null>}, null if the ListingItem was not found yet
+     */
+    private async findListingItemOrWait(listingItemHash: string): Promise<resources.ListingItem | null> {
+        return await this.listingItemService.findOneByHash(listingItemHash)
+            .then(value => value.toJSON())
+            .catch(reason => {
+                this.log.debug('ListingItem not found, waiting: ', listingItemHash);
+                return null;
+            });
     }
 
     /**
-     * find Order, using buyer, seller and Order.OrderItem.itemHash
+     * the Order is created once the Bid has been accepted, until then the EscrowMessage has to wait
      *
      * @param {string} listingItemHash
      * @param {string} buyerAddress
      * @param {string} sellerAddress
-     * @returns {Promise<module:resources.Order>}
+     * @returns {Promise<module:resources.Order | null>}, null if the Order was not found yet
      */
-    private async findOrder(listingItemHash: string, buyerAddress: string, sellerAddress: string): Promise<resources.Order> {
+    private async findOrderOrWait(listingItemHash: string, buyerAddress: string, sellerAddress: string): Promise<resources.Order | null> {
 
         const orderSearchParams = {
             listingItemHash,
@@ -221,8 +492,8 @@ export class EscrowActionService {
         const orders = ordersModel.toJSON();
 
         if (orders.length === 0) {
-            this.log.error('Order not found for EscrowMessage.');
-            throw new MessageException('Order not found for EscrowMessage.');
+            this.log.debug('Order not found, waiting: ', listingItemHash);
+            return null;
         }
 
         if (orders.length > 1) {
@@ -233,9 +504,10 @@ export class EscrowActionService {
     }
 
     /**
+     * the lock is PROCESSING_FAILED if it can't be applied, it waits only for the ListingItem and the Order
      *
      * @param {MarketplaceEvent} event
-     * @returns {Promise<module:resources.Order>}
+     * @returns {Promise<SmsgMessageStatus>}
      */
     private async processLockEscrowReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
 
@@ -251,52 +523,56 @@ export class EscrowActionService {
         const listingItemHash = escrowMessage.item;
 
         // find the ListingItem
-        return await this.listingItemService.findOneByHash(escrowMessage.item)
-            .then(async listingItemModel => {
-
-                const listingItem = listingItemModel.toJSON();
-
-                const seller = listingItem.seller;
-                const buyer = listingItem.seller === event.smsgMessage.from ? event.smsgMessage.to : event.smsgMessage.from;
+        const listingItem: resources.ListingItem | null = await this.findListingItemOrWait(listingItemHash);
+        if (!listingItem) {
+            return SmsgMessageStatus.WAITING;
+        }
 
-                // save ActionMessage
-                const actionMessageModel = await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
-                const actionMessage = actionMessageModel.toJSON();
+        const seller = listingItem.seller;
+        const buyer = listingItem.seller === event.smsgMessage.from ? event.smsgMessage.to : event.smsgMessage.from;
 
-                // find the Order, using buyer, seller and Order.OrderItem.itemHash
-                const order: resources.Order = await this.findOrder(listingItemHash, buyer, seller);
-                const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
-                    return o.itemHash === listingItemHash;
-                });
+        // find the Order, using buyer, seller and Order.OrderItem.itemHash
+        const order: resources.Order | null = await this.findOrderOrWait(listingItemHash, buyer, seller);
+        if (!order) {
+            return SmsgMessageStatus.WAITING;
+        }
 
-                if (orderItem) {
+        // save ActionMessage
+        await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
 
-                    // update rawtx
-                    const rawtx = escrowMessage.escrow.rawtx;
-                    const updatedRawTx = await this.updateRawTxOrderItemObject(orderItem.OrderItemObjects, rawtx);
-                    this.log.info('processLock(), rawtx:', JSON.stringify(updatedRawTx, null, 2));
+        const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
+            return o.itemHash === listingItemHash;
+        });
 
-                    const updatedOrderItem = await this.updateOrderItemStatus(orderItem, OrderStatus.ESCROW_LOCKED);
+        if (orderItem) {
 
-                    // remove the sellers locked outputs
-                    const selectedOutputs = this.getValueFromOrderItemObjects(BidDataValue.SELLER_OUTPUTS, orderItem.OrderItemObjects);
-                    await this.lockedOutputService.destroyLockedOutputs(selectedOutputs);
+            // rawtx is the txid of the broadcasted escrow, which should be the one we created and signed
+            const rawtx = escrowMessage.escrow.rawtx;
+            this.log.info('processLock(), rawtx:', rawtx);
+            await this.escrowVerifierService.verifyBroadcastTx(rawtx,
+                this.getValueFromOrderItemObjects(BidDataValue.RAW_TX, orderItem.OrderItemObjects));
 
-                    return SmsgMessageStatus.PROCESSED;
+            await this.updateEscrowOrderItems(order, rawtx, OrderStatus.ESCROW_LOCKED, event.smsgMessage.msgid, rawtx);
+            await this.escrowTransactionService.track(order.OrderItems, rawtx, EscrowTransactionType.LOCK);
 
-                } else {
-                    this.log.error('OrderItem not found for EscrowMessage.');
-                    throw new MessageException('OrderItem not found for EscrowMessage.');
-                }
+            // remove the sellers locked outputs
+            const selectedOutputs = this.getValueFromOrderItemObjects(BidDataValue.SELLER_OUTPUTS, orderItem.OrderItemObjects);
+            await this.lockedOutputService.destroyLockedOutputs(selectedOutputs);
 
-            })
-            .catch(reason => {
-                // ListingItem not found
-                return SmsgMessageStatus.WAITING;
-            });
+            return SmsgMessageStatus.PROCESSED;
 
+        } else {
+            this.log.error('OrderItem not found for EscrowMessage.');
+            throw new MessageException('OrderItem not found for EscrowMessage.');
+        }
     }
 
+    /**
+     * the release is PROCESSING_FAILED if it can't be applied, it waits only for the ListingItem and the Order
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
     private async processReleaseEscrowReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
 
         const message = event.marketplaceMessage;
@@ -308,98 +584,321 @@ export class EscrowActionService {
         const listingItemHash = escrowMessage.item;
 
         // find the ListingItem
-        return await this.listingItemService.findOneByHash(escrowMessage.item)
-            .then(async listingItemModel => {
+        const listingItem: resources.ListingItem | null = await this.findListingItemOrWait(listingItemHash);
+        if (!listingItem) {
+            return SmsgMessageStatus.WAITING;
+        }
 
-                const listingItem: resources.ListingItem = listingItemModel.toJSON();
+        const seller = listingItem.seller;
+        const buyer = listingItem.seller === event.smsgMessage.from ? event.smsgMessage.to : event.smsgMessage.from;
+        const isMyListingItem = !!listingItem.ListingItemTemplate;
 
-                const seller = listingItem.seller;
-                const buyer = listingItem.seller === event.smsgMessage.from ? event.smsgMessage.to : event.smsgMessage.from;
-                const isMyListingItem = !!listingItem.ListingItemTemplate;
+        // find the Order, using buyer, seller and Order.OrderItem.itemHash
+        const order: resources.Order | null = await this.findOrderOrWait(listingItemHash, buyer, seller);
+        if (!order) {
+            return SmsgMessageStatus.WAITING;
+        }
 
-                // save ActionMessage
-                const actionMessageModel = await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
-                const actionMessage = actionMessageModel.toJSON();
+        // save ActionMessage
+        await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
 
-                // find the Order, using buyer, seller and Order.OrderItem.itemHash
-                const order: resources.Order = await this.findOrder(listingItemHash, buyer, seller);
-                const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
-                    return o.itemHash === listingItemHash;
-                });
+        const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
+            return o.itemHash === listingItemHash;
+        });
 
-                if (orderItem) {
+        if (orderItem) {
 
-                    // update rawtx
-                    const rawtx = escrowMessage.escrow.rawtx;
-                    const updatedRawTx = await this.updateRawTxOrderItemObject(orderItem.OrderItemObjects, rawtx);
+            const rawtx = escrowMessage.escrow.rawtx;
+            const newOrderStatus = isMyListingItem ? OrderStatus.COMPLETE : OrderStatus.SHIPPING;
 
+            if (isMyListingItem) {
+                // rawtx is the txid of the release completed by the buyer from our half signed one
+                await this.escrowVerifierService.verifyBroadcastTx(rawtx,
+                    this.getValueFromOrderItemObjects(BidDataValue.RAW_TX, orderItem.OrderItemObjects));
+            } else {
+                // rawtx is the release half signed by the seller
+                await this.validatePayoutTx(rawtx, orderItem, this.getEscrowTotal(order).ratio, this.getEscrowPubkeys(orderItem),
+                    EscrowMessageType.MPA_RELEASE);
+            }
 
-                    const newOrderStatus = isMyListingItem ? OrderStatus.COMPLETE : OrderStatus.SHIPPING;
-                    const updatedOrderItem = await this.updateOrderItemStatus(orderItem, newOrderStatus);
+            await this.updateEscrowOrderItems(order, rawtx, newOrderStatus, event.smsgMessage.msgid,
+                newOrderStatus === OrderStatus.COMPLETE ? rawtx : undefined);
 
-                    return SmsgMessageStatus.PROCESSED;
+            if (newOrderStatus === OrderStatus.COMPLETE) {
+                // rawtx is the txid of the broadcasted release
+                await this.escrowTransactionService.track(order.OrderItems, rawtx, EscrowTransactionType.RELEASE);
+            } else {
+                // the shipment details sent by the seller
+                await this.saveShipmentOrderItemObjects(order, escrowMessage.objects);
+            }
 
-                } else {
-                    this.log.error('OrderItem not found for EscrowMessage.');
-                    throw new MessageException('OrderItem not found for EscrowMessage.');
-                }
-            })
-            .catch(reason => {
-                // ListingItem not found
-                return SmsgMessageStatus.WAITING;
-            });
+            return SmsgMessageStatus.PROCESSED;
 
+        } else {
+            this.log.error('OrderItem not found for EscrowMessage.');
+            throw new MessageException('OrderItem not found for EscrowMessage.');
+        }
     }
 
+    /**
+     * the refund request is PROCESSING_FAILED if it can't be applied, it waits only for the ListingItem and the Order
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
     private async processRequestRefundEscrowReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
 
-        // find the ListingItem
         const message = event.marketplaceMessage;
-        if (!message.mpaction || !message.mpaction.item) {   // ACTIONEVENT
+        if (!message.mpaction) {   // ACTIONEVENT
             throw new MessageException('Missing mpaction.');
         }
+
+        const escrowMessage = message.mpaction as EscrowMessage;
+        const listingItemHash = escrowMessage.item;
+
         // find the ListingItem
-        return await this.listingItemService.findOneByHash(message.mpaction.item)
-            .then(async listingItemModel => {
-                const listingItem = listingItemModel.toJSON();
+        const listingItem: resources.ListingItem | null = await this.findListingItemOrWait(listingItemHash);
+        if (!listingItem) {
+            return SmsgMessageStatus.WAITING;
+        }
 
-                // first save it
-                const actionMessageModel = await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
-                const actionMessage = actionMessageModel.toJSON();
+        const seller = listingItem.seller;
+        const buyer = listingItem.seller === event.smsgMessage.from ? event.smsgMessage.to : event.smsgMessage.from;
 
-                // todo: update order
-                return SmsgMessageStatus.PROCESSED;
-            })
-            .catch(reason => {
-                // ListingItem not found
-                return SmsgMessageStatus.WAITING;
-            });
+        // find the Order, using buyer, seller and Order.OrderItem.itemHash
+        const order: resources.Order | null = await this.findOrderOrWait(listingItemHash, buyer, seller);
+        if (!order) {
+            return SmsgMessageStatus.WAITING;
+        }
+
+        // save ActionMessage
+        await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
+
+        const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
+            return o.itemHash === listingItemHash;
+        });
+
+        if (orderItem) {
+
+            if (orderItem.status !== OrderStatus.ESCROW_LOCKED) {
+                throw new MessageException('Refund can only be requested for a locked Escrow.');
+            }
+
+            // rawtx is the refund half signed by the buyer
+            const rawtx = escrowMessage.escrow.rawtx;
+            await this.validatePayoutTx(rawtx, orderItem, this.getEscrowTotal(order).ratio, this.getEscrowPubkeys(orderItem),
+                EscrowMessageType.MPA_REFUND);
+
+            await this.updateEscrowOrderItems(order, rawtx, OrderStatus.REFUND_REQUESTED, event.smsgMessage.msgid);
+
+            return SmsgMessageStatus.PROCESSED;
+
+        } else {
+            this.log.error('OrderItem not found for EscrowMessage.');
+            throw new MessageException('OrderItem not found for EscrowMessage.');
+        }
     }
 
+    /**
+     * the refund is PROCESSING_FAILED if it can't be applied, it waits only for the ListingItem and the Order
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
     private async processRefundEscrowReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
 
+        const message = event.marketplaceMessage;
+        if (!message.mpaction) {   // ACTIONEVENT
+            throw new MessageException('Missing mpaction.');
+        }
+
+        const escrowMessage = message.mpaction as EscrowMessage;
+        const listingItemHash = escrowMessage.item;
+
         // find the ListingItem
+        const listingItem: resources.ListingItem | null = await this.findListingItemOrWait(listingItemHash);
+        if (!listingItem) {
+            return SmsgMessageStatus.WAITING;
+        }
+
+        const seller = listingItem.seller;
+        const buyer = listingItem.seller === event.smsgMessage.from ? event.smsgMessage.to : event.smsgMessage.from;
+
+        // find the Order, using buyer, seller and Order.OrderItem.itemHash
+        const order: resources.Order | null = await this.findOrderOrWait(listingItemHash, buyer, seller);
+        if (!order) {
+            return SmsgMessageStatus.WAITING;
+        }
+
+        // save ActionMessage
+        await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
+
+        const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
+            return o.itemHash === listingItemHash;
+        });
+
+        if (orderItem) {
+
+            if (escrowMessage.accepted) {
+                // rawtx is the txid of the refund completed by the seller from our half signed one
+                const rawtx = escrowMessage.escrow.rawtx;
+                await this.escrowVerifierService.verifyBroadcastTx(rawtx,
+                    this.getValueFromOrderItemObjects(BidDataValue.RAW_TX, orderItem.OrderItemObjects));
+
+                await this.updateEscrowOrderItems(order, rawtx, OrderStatus.REFUNDED, event.smsgMessage.msgid, rawtx);
+                await this.escrowTransactionService.track(order.OrderItems, rawtx, EscrowTransactionType.REFUND);
+
+            } else {
+                // refund was rejected, get the escrow txid from our own refund request
+                const escrowTxid = await this.getEscrowTxid(orderItem);
+                await this.updateEscrowOrderItems(order, escrowTxid, OrderStatus.ESCROW_LOCKED, event.smsgMessage.msgid);
+            }
+
+            return SmsgMessageStatus.PROCESSED;
+
+        } else {
+            this.log.error('OrderItem not found for EscrowMessage.');
+            throw new MessageException('OrderItem not found for EscrowMessage.');
+        }
+    }
+
+    /**
+     * the dispute is PROCESSING_FAILED if it can't be applied, it waits only for the ListingItem and the Order.
+     * a dispute for an OrderItem whose escrow isn't locked anymore is IGNORED
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
+    private async processDisputeEscrowReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
+
         const message = event.marketplaceMessage;
-        if (!message.mpaction || !message.mpaction.item) {   // ACTIONEVENT
+        if (!message.mpaction) {   // ACTIONEVENT
             throw new MessageException('Missing mpaction.');
         }
 
+        const escrowMessage = message.mpaction as EscrowMessage;
+        const listingItemHash = escrowMessage.item;
+
         // find the ListingItem
-        return await this.listingItemService.findOneByHash(message.mpaction.item)
-            .then(async listingItemModel => {
-                const listingItem = listingItemModel.toJSON();
+        const listingItem: resources.ListingItem | null = await this.findListingItemOrWait(listingItemHash);
+        if (!listingItem) {
+            return SmsgMessageStatus.WAITING;
+        }
+        const escrow = listingItem.PaymentInformation.Escrow;
+
+        // save ActionMessage, the arbiter uses the saved disputes to pay out the escrow
+        await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
+
+        if (!_.isEmpty(escrow) && escrow.arbiterAddress === event.smsgMessage.to) {
+            return SmsgMessageStatus.PROCESSED;
+        }
+
+        const seller = listingItem.seller;
+        const buyer = listingItem.seller === event.smsgMessage.from ? event.smsgMessage.to : event.smsgMessage.from;
+
+        // find the Order, using buyer, seller and Order.OrderItem.itemHash
+        const order: resources.Order | null = await this.findOrderOrWait(listingItemHash, buyer, seller);
+        if (!order) {
+            return SmsgMessageStatus.WAITING;
+        }
+        const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
+            return o.itemHash === listingItemHash;
+        });
 
-                // first save it
-                const actionMessageModel = await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
-                const actionMessage = actionMessageModel.toJSON();
+        if (orderItem) {
 
-                // todo: update order
+            if (orderItem.status === OrderStatus.DISPUTED) {
+                // both parties have disputed
                 return SmsgMessageStatus.PROCESSED;
-            })
-            .catch(reason => {
-                // ListingItem not found
-                return SmsgMessageStatus.WAITING;
-            });
+            }
+            if (!_.includes([OrderStatus.ESCROW_LOCKED, OrderStatus.SHIPPING, OrderStatus.REFUND_REQUESTED], orderItem.status)) {
+                this.log.warn('Ignoring the dispute, the escrow of the OrderItem is not locked: ' + orderItem.status);
+                return SmsgMessageStatus.IGNORED;
+            }
+
+            // rawtx is the txid of the escrow
+            const rawtx = escrowMessage.escrow.rawtx;
+            await this.updateEscrowOrderItems(order, rawtx, OrderStatus.DISPUTED, event.smsgMessage.msgid);
+
+            return SmsgMessageStatus.PROCESSED;
+
+        } else {
+            this.log.error('OrderItem not found for EscrowMessage.');
+            throw new MessageException('OrderItem not found for EscrowMessage.');
+        }
+    }
+
+    /**
+     * the arbiters decision is PROCESSING_FAILED if it can't be applied, it waits only for the ListingItem and the Order
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
+    private async processArbitrateEscrowReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
+
+        const message = event.marketplaceMessage;
+        if (!message.mpaction) {   // ACTIONEVENT
+            throw new MessageException('Missing mpaction.');
+        }
+
+        const escrowMessage = message.mpaction as EscrowMessage;
+        const listingItemHash = escrowMessage.item;
+
+        // find the ListingItem
+        const listingItem: resources.ListingItem | null = await this.findListingItemOrWait(listingItemHash);
+        if (!listingItem) {
+            return SmsgMessageStatus.WAITING;
+        }
+        const escrow = listingItem.PaymentInformation.Escrow;
+
+        if (_.isEmpty(escrow) || escrow.type !== EscrowType.ARBITRATED || escrow.arbiterAddress !== event.smsgMessage.from) {
+            throw new MessageException('EscrowMessage wasn\'t sent by the arbiter.');
+        }
+
+        const seller = listingItem.seller;
+        const buyer = this.getValueFromMessageObjects(BidDataValue.BUYER_ADDRESS, escrowMessage.objects);
+        const isMyListingItem = !!listingItem.ListingItemTemplate;
+
+        // find the Order, using buyer, seller and Order.OrderItem.itemHash
+        const order: resources.Order | null = await this.findOrderOrWait(listingItemHash, buyer, seller);
+        if (!order) {
+            return SmsgMessageStatus.WAITING;
+        }
+
+        // save ActionMessage
+        await this.actionMessageService.createFromMarketplaceEvent(event, listingItem);
+
+        const orderItem = _.find(order.OrderItems, (o: resources.OrderItem) => {
+            return o.itemHash === listingItemHash;
+        });
+
+        if (orderItem) {
+
+            // rawtx is the release or refund half signed by the arbiter, make sure it's legit
+            const rawtx = escrowMessage.escrow.rawtx;
+            const decision = escrowMessage.escrow.type === 'release' ? EscrowMessageType.MPA_RELEASE : EscrowMessageType.MPA_REFUND;
+            await this.validatePayoutTx(rawtx, orderItem, this.getEscrowTotal(order).ratio, this.getEscrowPubkeys(orderItem), decision);
+
+            const newOrderStatus = decision === EscrowMessageType.MPA_RELEASE ? OrderStatus.COMPLETE : OrderStatus.REFUNDED;
+
+            // the party getting paid completes and broadcasts the payout
+            if (isMyListingItem === (decision === EscrowMessageType.MPA_RELEASE)) {
+                const completeRawTx = await this.signRawTx(rawtx, true);
+                const txid = await this.coreRpcService.sendRawTransaction(completeRawTx);
+                this.log.debug('processArbitrate(), txid:', JSON.stringify(txid, null, 2));
+                await this.updateEscrowOrderItems(order, txid, newOrderStatus, event.smsgMessage.msgid, txid);
+                await this.escrowTransactionService.track(order.OrderItems, txid,
+                    decision === EscrowMessageType.MPA_RELEASE ? EscrowTransactionType.RELEASE : EscrowTransactionType.REFUND);
+            } else {
+                await this.updateEscrowOrderItems(order, rawtx, newOrderStatus, event.smsgMessage.msgid);
+            }
+
+            return SmsgMessageStatus.PROCESSED;
+
+        } else {
+            this.log.error('OrderItem not found for EscrowMessage.');
+            throw new MessageException('OrderItem not found for EscrowMessage.');
+        }
     }
 
     /**
@@ -431,14 +930,14 @@ export class EscrowActionService {
         const bid: resources.Bid = orderItem.Bid;
         const isMyListingItem = !_.isEmpty(bid.ListingItem.ListingItemTemplate);
 
+        // all the OrderItems of the Order share the escrow
+        const escrowTotal = this.getEscrowTotal(await this.getOrder(orderItem));
+
         // this.log.debug('createRawTx(), orderItem:', JSON.stringify(orderItem, null, 2));
 
         // rawtx is potentially the txid in case of ESCROW_LOCKED.
         let rawtx = this.getValueFromOrderItemObjects(BidDataValue.RAW_TX, orderItem.OrderItemObjects);
-        const buyerEscrowPubAddressPublicKey = this.getValueFromOrderItemObjects(BidDataValue.BUYER_PUBKEY, orderItem.OrderItemObjects);
-        const sellerEscrowPubAddressPublicKey = this.getValueFromOrderItemObjects(BidDataValue.SELLER_PUBKEY, orderItem.OrderItemObjects);
-        const pubkeys = [sellerEscrowPubAddressPublicKey, buyerEscrowPubAddressPublicKey].sort();
-        // todo: does the order of the pubkeys matter?
+        const pubkeys = this.getEscrowPubkeys(orderItem);
 
         this.log.debug('createRawTx(), rawtx:', rawtx);
         this.log.debug('createRawTx(), pubkeys:', pubkeys);
@@ -461,8 +960,8 @@ export class EscrowActionService {
                     throw new MessageException('Seller can\'t lock an Escrow.');
                 }
 
-                // Add Escrow address
-                // TODO: Way to recover escrow address should we lose it
+                // Add Escrow address, 2-of-3 when the escrow is ARBITRATED
+                // the address can be recovered from the pubkeys using escrow recover
                 const escrowMultisigAddress = await this.coreRpcService.addMultiSigAddress(
                     2,
                     pubkeys,
@@ -470,10 +969,9 @@ export class EscrowActionService {
                 );
                 this.log.debug('createRawTx(), escrowMultisigAddress:', JSON.stringify(escrowMultisigAddress, null, 2));
 
-                // validate the escrow amounts
-                const decodedTx = await this.coreRpcService.decodeRawTransaction(rawtx);
-                this.log.debug('createRawTx(), decoded:', JSON.stringify(decodedTx, null, 2));
-                // TODO: validation
+                // the seller created the escrow tx, make sure it's legit before signing it
+                const escrowAmount = EscrowAmounts.getEscrowAmount(escrowTotal.totalPrice, escrowTotal.ratio);
+                await this.escrowVerifierService.verifyLockTx(rawtx, orderItem, escrowMultisigAddress.address, escrowAmount);
 
                 // buyer signs the escrow tx, which should complete
                 const signedForLock = await this.signRawTx(rawtx, true);
@@ -492,42 +990,15 @@ export class EscrowActionService {
                     // seller sends the first MPA_RELEASE, OrderStatus.ESCROW_LOCKED
                     // this.log.debug('createRawTx(), orderItem:', JSON.stringify(orderItem, null, 2));
 
-                    const buyerReleaseAddress = this.getValueFromOrderItemObjects(BidDataValue.BUYER_RELEASE_ADDRESS, orderItem.OrderItemObjects);
-                    this.log.debug('createRawTx(), buyerReleaseAddress:', buyerReleaseAddress);
-
-                    if (!buyerReleaseAddress) {
-                        this.log.error('Not enough valid information to finalize escrow');
-                        throw new MessageException('Not enough valid information to finalize escrow');
-                    }
-
-                    const sellerReleaseAddress = await this.coreRpcService.getNewAddress(['_escrow_release'], false);
-                    this.log.debug('createRawTx(), sellerReleaseAddress:', sellerReleaseAddress);
-
                     // rawtx is the transaction id!
-                    const realrawtx = await this.coreRpcService.getRawTransaction(rawtx);
-                    const decoded = await this.coreRpcService.decodeRawTransaction(realrawtx);
-                    this.log.debug('createRawTx(), decoded:', JSON.stringify(decoded, null, 2));
-
-                    const txid = decoded.txid;
-                    const value = decoded.vout[0].value - 0.0001; // TODO: Proper TX Fee
-
-                    if (!txid) {
-                        this.log.error(`Transaction with not found with txid: ${txid}.`);
-                        throw new MessageException(`Transaction with not found with txid: ${txid}.`);
-                    }
-
-                    const txout = {};
-
-                    // CRITICAL TODO: Use the right ratio's...
+                    const escrowOutput = await this.getEscrowOutput(rawtx, pubkeys, orderItem.itemHash);
 
                     // seller gets his escrow amount + buyer payment back
                     // buyer gets the escrow amount back
-                    txout[sellerReleaseAddress] = +(value / 3 * 2).toFixed(8);
-                    txout[buyerReleaseAddress] = +(value / 3).toFixed(8);
+                    const txout = this.getPayoutTxOut(orderItem, escrowTotal.ratio, escrowOutput.value, request.action,
+                        await this.estimatePayoutFee());
 
-                    // TODO: Make sure this is the correct vout !!!
-                    // TODO: loop through the vouts and check the value, but what if theres multiple outputs with same value?
-                    const txInputs: Output[] = [{txid, vout: 0}];
+                    const txInputs: Output[] = [{txid: escrowOutput.txid, vout: escrowOutput.vout}];
                     this.log.debug('===============================================================================');
                     this.log.debug('createRawTx(), txInputs:', JSON.stringify(txInputs, null, 2));
                     this.log.debug('createRawTx(), txout: ', JSON.stringify(txout, null, 2));
@@ -543,6 +1014,9 @@ export class EscrowActionService {
                 } else if (OrderStatus.SHIPPING === orderItem.status && !isMyListingItem) {
                     // buyer sends the MPA_RELEASE, OrderStatus.SHIPPING
 
+                    // rawtx is the sellers half signed release, make sure it's legit before signing it
+                    await this.validatePayoutTx(rawtx, orderItem, escrowTotal.ratio, pubkeys, request.action);
+
                     const completeRawTx = await this.signRawTx(rawtx, true);
                     this.log.debug('createRawTx(), completeRawTx: ', JSON.stringify(completeRawTx, null, 2));
 
@@ -554,11 +1028,260 @@ export class EscrowActionService {
                     throw new MessageException('Something went wrong, MPA_RELEASE should not be sent at this point.');
                 }
 
+            case EscrowMessageType.MPA_REQUEST_REFUND:
+
+                if (OrderStatus.ESCROW_LOCKED === orderItem.status && !isMyListingItem) {
+                    // buyer sends the MPA_REQUEST_REFUND, OrderStatus.ESCROW_LOCKED
+
+                    // rawtx is the transaction id!
+                    const escrowOutput = await this.getEscrowOutput(rawtx, pubkeys, orderItem.itemHash);
+
+                    // buyer gets his escrow amount + payment back
+                    // seller gets the escrow amount back
+                    const txout = this.getPayoutTxOut(orderItem, escrowTotal.ratio, escrowOutput.value, request.action,
+                        await this.estimatePayoutFee());
+
+                    const txInputs: Output[] = [{txid: escrowOutput.txid, vout: escrowOutput.vout}];
+                    this.log.debug('createRawTx(), txInputs:', JSON.stringify(txInputs, null, 2));
+                    this.log.debug('createRawTx(), txout: ', JSON.stringify(txout, null, 2));
+
+                    rawtx = await this.coreRpcService.createRawTransaction(txInputs, txout);
+                    const signed = await this.signRawTx(rawtx, false);
+
+                    this.log.debug('createRawTx(), signed: ', JSON.stringify(signed, null, 2));
+                    return signed.hex;
+
+                } else {
+                    throw new MessageException('Something went wrong, MPA_REQUEST_REFUND should not be sent at this point.');
+                }
+
+            case EscrowMessageType.MPA_REFUND:
+
+                if (OrderStatus.REFUND_REQUESTED === orderItem.status && isMyListingItem) {
+                    // seller sends the MPA_REFUND, OrderStatus.REFUND_REQUESTED
+
+                    // rawtx is the buyers half signed refund, make sure it's legit before signing it
+                    await this.validatePayoutTx(rawtx, orderItem, escrowTotal.ratio, pubkeys, request.action);
+
+                    const completeRawTx = await this.signRawTx(rawtx, true);
+                    this.log.debug('createRawTx(), completeRawTx: ', JSON.stringify(completeRawTx, null, 2));
+
+                    const txid = await this.coreRpcService.sendRawTransaction(completeRawTx);
+                    this.log.debug('createRawTx(), response:', JSON.stringify(txid, null, 2));
+                    return txid;
+
+                } else {
+                    throw new MessageException('Something went wrong, MPA_REFUND should not be sent at this point.');
+                }
+
             default:
                 throw new NotImplementedException();
         }
     }
 
+    /**
+     * finds the output paying to the escrow multisig address from the escrow transaction
+     *
+     * @param {string} txid
+     * @param {string[]} pubkeys
+     * @param {string} itemHash
+     * @returns {Promise<any>}
+     */
+    private async getEscrowOutput(txid: string, pubkeys: string[], itemHash: string): Promise<any> {
+
+        const escrowMultisigAddress = await this.coreRpcService.addMultiSigAddress(2, pubkeys, '_escrow_' + itemHash);
+
+        const realrawtx = await this.coreRpcService.getRawTransaction(txid);
+        const decoded = await this.coreRpcService.decodeRawTransaction(realrawtx);
+
+        const escrowOutput = _.find(decoded.vout, (vout: any) => {
+            return vout.scriptPubKey && _.includes(vout.scriptPubKey.addresses, escrowMultisigAddress.address);
+        });
+
+        if (!escrowOutput) {
+            this.log.error(`Escrow output not found in transaction with txid: ${txid}.`);
+            throw new MessageException(`Escrow output not found in transaction with txid: ${txid}.`);
+        }
+
+        return {
+            txid: decoded.txid,
+            vout: escrowOutput.n,
+            value: escrowOutput.value
+        };
+    }
+
+    /**
+     * finds the unspent escrow output paying to the multisig address. the wallet only lists the outputs it has seen,
+     * so the UTXO set is scanned if the restored wallet doesn't know the output.
+     *
+     * @param {string} address
+     * @param {number} escrowAmount
+     * @returns {Promise<any>} the escrow output, null if there's none
+     */
+    private async findEscrowOutputByAddress(address: string, escrowAmount: number): Promise<any> {
+
+        let unspents: any[] = await this.coreRpcService.listUnspent(0, 9999999, [address]);
+        if (_.isEmpty(unspents)) {
+            const scanned = await this.coreRpcService.scanTxOutSet(['addr(' + address + ')']);
+            unspents = scanned.unspents || [];
+        }
+        this.log.debug('findEscrowOutputByAddress(), unspents:', JSON.stringify(unspents, null, 2));
+
+        const escrowOutputs = _.filter(unspents, (unspent: any) => unspent.amount === escrowAmount);
+        if (escrowOutputs.length > 1) {
+            throw new MessageException('Found more than one escrow output paying to: ' + address + '.');
+        }
+
+        return escrowOutputs.length === 1
+            ? { txid: escrowOutputs[0].txid, vout: escrowOutputs[0].vout, value: escrowOutputs[0].amount }
+            : null;
+    }
+
+    /**
+     * creates the txout paying out the escrow, amounts are divided using the EscrowRatio
+     *
+     * @param {module:resources.OrderItem} orderItem
+     * @param {module:resources.EscrowRatio} escrowRatio
+     * @param {number} escrowValue
+     * @param {EscrowMessageType} action
+     * @param {number} fee
+     * @returns {any}
+     */
+    private getPayoutTxOut(orderItem: resources.OrderItem, escrowRatio: resources.EscrowRatio, escrowValue: number, action: EscrowMessageType,
+                           fee: number): any {
+
+        const buyerReleaseAddress = this.getValueFromOrderItemObjects(BidDataValue.BUYER_RELEASE_ADDRESS, orderItem.OrderItemObjects);
+        const sellerReleaseAddress = this.getValueFromOrderItemObjects(BidDataValue.SELLER_RELEASE_ADDRESS, orderItem.OrderItemObjects);
+        return this.createPayoutTxOut(buyerReleaseAddress, sellerReleaseAddress, escrowRatio, escrowValue, action, fee);
+    }
+
+    /**
+     * @param {string} buyerReleaseAddress
+     * @param {string} sellerReleaseAddress
+     * @param {module:resources.EscrowRatio} escrowRatio
+     * @param {number} escrowValue
+     * @param {EscrowMessageType} action
+     * @param {number} fee, deducted from the payouts in proportion to the shares
+     * @returns {any}
+     */
+    private createPayoutTxOut(buyerReleaseAddress: string, sellerReleaseAddress: string, escrowRatio: resources.EscrowRatio,
+                              escrowValue: number, action: EscrowMessageType, fee: number): any {
+
+        const value = +(escrowValue - fee).toFixed(8);
+
+        const payout = action === EscrowMessageType.MPA_RELEASE
+            ? EscrowAmounts.getReleasePayout(value, escrowRatio)
+            : EscrowAmounts.getRefundPayout(value, escrowRatio);
+
+        // no output if there's nothing to return, for example when the deposit ratio is 0
+        const txout = {};
+        if (payout.buyer > 0) {
+            txout[buyerReleaseAddress] = payout.buyer;
+        }
+        if (payout.seller > 0) {
+            txout[sellerReleaseAddress] = payout.seller;
+        }
+        return txout;
+    }
+
+    /**
+     * the fee of the release or refund transaction, using the fee rate estimated by the daemon
+     *
+     * @returns {Promise<number>}
+     */
+    private async estimatePayoutFee(): Promise<number> {
+        return await this.coinSelectorService.estimateFee(EscrowActionService.PAYOUT_TX_SIZE);
+    }
+
+    /**
+     * recreates the release or refund transaction and checks that the received rawtx spends the escrow
+     * and pays the right amounts to the right addresses
+     *
+     * @param {string} rawtx
+     * @param {module:resources.OrderItem} orderItem
+     * @param {module:resources.EscrowRatio} escrowRatio
+     * @param {string[]} pubkeys
+     * @param {EscrowMessageType} action
+     * @returns {Promise<void>}
+     */
+    private async validatePayoutTx(rawtx: string, orderItem: resources.OrderItem, escrowRatio: resources.EscrowRatio,
+                                   pubkeys: string[], action: EscrowMessageType): Promise<void> {
+
+        const escrowTxid = await this.getAgreedEscrowTxid(orderItem);
+        const escrowOutput = await this.getEscrowOutput(escrowTxid, pubkeys, orderItem.itemHash);
+
+        // the fee was estimated by the other party, verifyPayoutTx checks that it's within the limits
+        const decoded = await this.coreRpcService.decodeRawTransaction(rawtx)
+            .catch(reason => {
+                throw new MessageException('Invalid payout transaction.');
+            });
+        const fee = +(escrowOutput.value - _.sumBy(decoded.vout, (vout: any) => vout.value || 0)).toFixed(8);
+        const expectedTxOut = this.getPayoutTxOut(orderItem, escrowRatio, escrowOutput.value, action, fee);
+
+        const payoutTx = await this.escrowVerifierService.verifyPayoutTx(rawtx, escrowOutput, expectedTxOut);
+        this.log.debug('validatePayoutTx(), payoutTx:', JSON.stringify(payoutTx, null, 2));
+    }
+
+    /**
+     * returns the txid of the escrow transaction spent by the refund rawtx
+     *
+     * @param {module:resources.OrderItem} orderItem
+     * @returns {Promise<string>}
+     */
+    private async getEscrowTxid(orderItem: resources.OrderItem): Promise<string> {
+        const rawtx = this.getValueFromOrderItemObjects(BidDataValue.RAW_TX, orderItem.OrderItemObjects);
+        const decoded = await this.coreRpcService.decodeRawTransaction(rawtx);
+        return decoded.vin[0].txid;
+    }
+
+    /**
+     * returns the txid of the locked escrow, rawtx is the txid until a release or a refund has been signed
+     *
+     * @param {module:resources.OrderItem} orderItem
+     * @returns {Promise<string>}
+     */
+    private async getLockedEscrowTxid(orderItem: resources.OrderItem): Promise<string> {
+        if (orderItem.status === OrderStatus.ESCROW_LOCKED || orderItem.status === OrderStatus.DISPUTED) {
+            return this.getValueFromOrderItemObjects(BidDataValue.RAW_TX, orderItem.OrderItemObjects);
+        }
+        return await this.getEscrowTxid(orderItem);
+    }
+
+    /**
+     * returns the txid of the escrow both parties agreed on, the tracked lock transaction if there is one
+     *
+     * @param {module:resources.OrderItem} orderItem
+     * @returns {Promise<string>}
+     */
+    private async getAgreedEscrowTxid(orderItem: resources.OrderItem): Promise<string> {
+        const lockTransaction = _.find(orderItem.EscrowTransactions, (escrowTransaction: resources.EscrowTransaction) => {
+            return escrowTransaction.type === EscrowTransactionType.LOCK && escrowTransaction.status !== EscrowTransactionStatus.DOUBLE_SPENT;
+        });
+        return lockTransaction ? lockTransaction.txid : await this.getLockedEscrowTxid(orderItem);
+    }
+
+    /**
+     * pubkeys of the escrow multisig, the arbiter is the third key of an ARBITRATED escrow
+     *
+     * @param {module:resources.OrderItem} orderItem
+     * @returns {string[]}
+     */
+    private getEscrowPubkeys(orderItem: resources.OrderItem): string[] {
+        const pubkeys = [
+            this.getValueFromOrderItemObjects(BidDataValue.SELLER_PUBKEY, orderItem.OrderItemObjects),
+            this.getValueFromOrderItemObjects(BidDataValue.BUYER_PUBKEY, orderItem.OrderItemObjects)
+        ];
+
+        const escrow = orderItem.Bid.ListingItem.PaymentInformation.Escrow;
+        if (escrow.type === EscrowType.ARBITRATED) {
+            if (!escrow.arbiterPubkey) {
+                throw new MessageException('Arbiter pubkey missing from the Escrow.');
+            }
+            pubkeys.push(escrow.arbiterPubkey);
+        }
+        return pubkeys.sort();
+    }
+
     /**
      * signs rawtx and ignores errors in case tx shouldnt be complete yet.
      *
@@ -646,21 +1369,37 @@ export class EscrowActionService {
         }
     }
 
+    /**
+     * @param {string} key
+     * @param {any[]} objects, MessageObjects or the objects of a received message
+     * @returns {any}
+     */
+    private getValueFromMessageObjects(key: string, objects?: any[]): any {
+        const value = _.find(objects || [], (object: any) => (object.dataId || object.id) === key);
+        if (value) {
+            return value.dataValue !== undefined ? value.dataValue : value.value;
+        } else {
+            this.log.error('Missing MessageObject value for key: ' + key);
+            throw new MessageException('Missing MessageObject value for key: ' + key);
+        }
+    }
+
     /**
      * updates rawtx
      *
      * @param {module:resources.OrderItemObject[]} orderItemObjects
      * @param {string} newRawtx
+     * @param {Knex.Transaction} trx
      * @returns {Promise<any>}
      */
-    private async updateRawTxOrderItemObject(orderItemObjects: resources.OrderItemObject[], newRawtx: string): Promise<any> {
+    private async updateRawTxOrderItemObject(orderItemObjects: resources.OrderItemObject[], newRawtx: string, trx?: Knex.Transaction): Promise<any> {
         const rawtxObject = orderItemObjects.find(kv => kv.dataId === 'rawtx');
 
         if (rawtxObject) {
             const updatedOrderItemObject = await this.orderItemObjectService.update(rawtxObject.id, {
                 dataId: BidDataValue.RAW_TX.toString(),
                 dataValue: newRawtx
-            } as OrderItemObjectUpdateRequest);
+            } as OrderItemObjectUpdateRequest, trx);
             return updatedOrderItemObject.toJSON();
         } else {
             this.log.error('OrderItemObject for rawtx not found!');
@@ -669,20 +1408,100 @@ export class EscrowActionService {
     }
 
     /**
-     * updates orderitems status
+     * stores the shipment details as OrderItemObjects of all the OrderItems of the Order,
+     * any other objects are ignored so the rawtx and the outputs can't be overwritten
+     *
+     * @param {module:resources.Order} order
+     * @param {any[]} objects
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<void>}
+     */
+    private async saveShipmentOrderItemObjects(order: resources.Order, objects?: any[], trx?: Knex.Transaction): Promise<void> {
+        const shipmentKeys: string[] = [
+            BidDataValue.SHIPMENT_CARRIER,
+            BidDataValue.SHIPMENT_TRACKING_NUMBER,
+            BidDataValue.SHIPMENT_SHIPPING_DATE,
+            BidDataValue.SHIPMENT_EXPECTED_DELIVERY
+        ];
+        const shipmentObjects = _.filter(objects || [], object => object && _.includes(shipmentKeys, object.id));
+
+        for (const orderItem of order.OrderItems) {
+            for (const shipmentObject of shipmentObjects) {
+                const existingObject = _.find(orderItem.OrderItemObjects, (kv: resources.OrderItemObject) => kv.dataId === shipmentObject.id);
+                if (existingObject) {
+                    await this.orderItemObjectService.update(existingObject.id, {
+                        dataId: shipmentObject.id,
+                        dataValue: '' + shipmentObject.value
+                    } as OrderItemObjectUpdateRequest, trx);
+                } else {
+                    await this.orderItemObjectService.create({
+                        order_item_id: orderItem.id,
+                        dataId: shipmentObject.id,
+                        dataValue: '' + shipmentObject.value
+                    } as OrderItemObjectCreateRequest, trx);
+                }
+            }
+        }
+    }
+
+    /**
+     * the Order of the OrderItem, with all its OrderItems
      *
      * @param {module:resources.OrderItem} orderItem
+     * @returns {Promise<module:resources.Order>}
+     */
+    private async getOrder(orderItem: resources.OrderItem): Promise<resources.Order> {
+        return await this.orderService.findOne(orderItem.Order.id).then(value => value.toJSON());
+    }
+
+    /**
+     * total price and EscrowRatio of the escrow shared by the OrderItems of the Order
+     *
+     * @param {module:resources.Order} order
+     * @returns {EscrowItem}
+     */
+    private getEscrowTotal(order: resources.Order): EscrowItem {
+        return EscrowAmounts.combine(order.OrderItems.map(orderItem => {
+            return {
+                totalPrice: +this.getValueFromOrderItemObjects(BidDataValue.TOTAL_PRICE, orderItem.OrderItemObjects),
+                ratio: orderItem.Bid.ListingItem.PaymentInformation.Escrow.Ratio
+            } as EscrowItem;
+        }));
+    }
+
+    /**
+     * updates the rawtx and status of all the OrderItems sharing the escrow
+     *
+     * @param {module:resources.Order} order
+     * @param {string} newRawtx
      * @param {OrderStatus} newOrderStatus
-     * @returns {Promise<module:resources.OrderItem>}
+     * @param {string} msgid, the received SmsgMessage causing the status change
+     * @param {string} txid, the broadcasted transaction causing the status change
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<void>}
      */
-    private async updateOrderItemStatus(orderItem: resources.OrderItem, newOrderStatus: OrderStatus): Promise<resources.OrderItem> {
+    private async updateEscrowOrderItems(order: resources.Order, newRawtx: string, newOrderStatus: OrderStatus,
+                                         msgid?: string, txid?: string, trx?: Knex.Transaction): Promise<void> {
+        for (const orderItem of order.OrderItems) {
+            await this.updateRawTxOrderItemObject(orderItem.OrderItemObjects, newRawtx, trx);
+            await this.updateOrderItemStatus(orderItem, newOrderStatus, msgid, txid, trx);
+        }
+    }
 
-        const orderItemUpdateRequest = {
-            itemHash: orderItem.itemHash,
-            status: newOrderStatus
-        } as OrderItemUpdateRequest;
+    /**
+     * updates orderitems status, the transition is recorded in the OrderItems status history
+     *
+     * @param {module:resources.OrderItem} orderItem
+     * @param {OrderStatus} newOrderStatus
+     * @param {string} msgid
+     * @param {string} txid
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<module:resources.OrderItem>}
+     */
+    private async updateOrderItemStatus(orderItem: resources.OrderItem, newOrderStatus: OrderStatus,
+                                        msgid?: string, txid?: string, trx?: Knex.Transaction): Promise<resources.OrderItem> {
 
-        const updatedOrderItemModel = await this.orderItemService.update(orderItem.id, orderItemUpdateRequest);
+        const updatedOrderItemModel = await this.orderItemService.updateStatus(orderItem.id, newOrderStatus, msgid, txid, trx);
         const updatedOrderItem: resources.OrderItem = updatedOrderItemModel.toJSON();
         // this.log.debug('updatedOrderItem:', JSON.stringify(updatedOrderItem, null, 2));
         return updatedOrderItem;
@@ -699,7 +1518,7 @@ export class EscrowActionService {
                 })
                 .catch(async reason => {
                     this.log.error('ERROR: EscrowLockMessage processing failed.', reason);
-                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
                 });
         });
         this.eventEmitter.on(Events.ReleaseEscrowReceivedEvent, async (event) => {
@@ -710,7 +1529,7 @@ export class EscrowActionService {
                 })
                 .catch(async reason => {
                     this.log.error('ERROR: EscrowReleaseMessage processing failed.', reason);
-                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
                 });
         });
         this.eventEmitter.on(Events.RequestRefundEscrowReceivedEvent, async (event) => {
@@ -721,7 +1540,29 @@ export class EscrowActionService {
                 })
                 .catch(async reason => {
                     this.log.error('ERROR: EscrowRequestRefundMessage processing failed.', reason);
-                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
+                });
+        });
+        this.eventEmitter.on(Events.DisputeEscrowReceivedEvent, async (event) => {
+            this.log.debug('Received event:', JSON.stringify(event, null, 2));
+            await this.processDisputeEscrowReceivedEvent(event)
+                .then(async status => {
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, status);
+                })
+                .catch(async reason => {
+                    this.log.error('ERROR: EscrowDisputeMessage processing failed.', reason);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
+                });
+        });
+        this.eventEmitter.on(Events.ArbitrateEscrowReceivedEvent, async (event) => {
+            this.log.debug('Received event:', JSON.stringify(event, null, 2));
+            await this.processArbitrateEscrowReceivedEvent(event)
+                .then(async status => {
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, status);
+                })
+                .catch(async reason => {
+                    this.log.error('ERROR: EscrowArbitrateMessage processing failed.', reason);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
                 });
         });
         this.eventEmitter.on(Events.RefundEscrowReceivedEvent, async (event) => {
@@ -732,7 +1573,7 @@ export class EscrowActionService {
                 })
                 .catch(async reason => {
                     this.log.error('ERROR: EscrowRefundMessage processing failed.', reason);
-                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
                 });
         });
     }
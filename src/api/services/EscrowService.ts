@@ -73,6 +73,8 @@ export class EscrowService {
 
         // set new values
         escrow.Type = body.type;
+        escrow.ArbiterAddress = body.arbiter_address;
+        escrow.ArbiterPubkey = body.arbiter_pubkey;
 
         // update escrow record
         const updatedEscrow = await this.escrowRepo.update(id, escrow.toJSON());
@@ -0,0 +1,269 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets, Events } from '../../constants';
+import { validate, request } from '../../core/api/Validate';
+import { EventEmitter } from '../../core/api/events';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { EscrowTransactionRepository } from '../repositories/EscrowTransactionRepository';
+import { EscrowTransaction } from '../models/EscrowTransaction';
+import { EscrowTransactionCreateRequest } from '../requests/EscrowTransactionCreateRequest';
+import { EscrowTransactionUpdateRequest } from '../requests/EscrowTransactionUpdateRequest';
+import { EscrowTransactionSearchParams } from '../requests/EscrowTransactionSearchParams';
+import { EscrowTransactionStatus } from '../enums/EscrowTransactionStatus';
+import { EscrowTransactionType } from '../enums/EscrowTransactionType';
+import { SearchOrder } from '../enums/SearchOrder';
+import { CoreRpcService } from './CoreRpcService';
+
+export class EscrowTransactionService {
+
+    // RPC_INVALID_ADDRESS_OR_KEY, returned by getrawtransaction for unknown txids
+    private static TX_NOT_FOUND = -5;
+
+    public log: LoggerType;
+
+    private CONFIRMATIONS = parseInt(process.env.ESCROW_TX_CONFIRMATIONS, 10) || 6;
+    private TIMEOUT = parseInt(process.env.ESCROW_TX_TIMEOUT, 10) || 72;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.CoreRpcService) private coreRpcService: CoreRpcService,
+        @inject(Types.Repository) @named(Targets.Repository.EscrowTransactionRepository) public escrowTransactionRepo: EscrowTransactionRepository,
+        @inject(Types.Core) @named(Core.Events) private eventEmitter: EventEmitter,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<EscrowTransaction>> {
+        return this.escrowTransactionRepo.findAll();
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<EscrowTransaction> {
+        const escrowTransaction = await this.escrowTransactionRepo.findOne(id, withRelated, trx);
+        if (escrowTransaction === null) {
+            this.log.warn(`EscrowTransaction with the id=${id} was not found!`);
+            throw new NotFoundException(id);
+        }
+        return escrowTransaction;
+    }
+
+    public async searchBy(options: EscrowTransactionSearchParams, withRelated: boolean = true,
+                          trx?: Knex.Transaction): Promise<Bookshelf.Collection<EscrowTransaction>> {
+        return await this.escrowTransactionRepo.searchBy(options, withRelated, trx);
+    }
+
+    @validate()
+    public async create( @request(EscrowTransactionCreateRequest) data: EscrowTransactionCreateRequest, trx?: Knex.Transaction): Promise<EscrowTransaction> {
+
+        const body = JSON.parse(JSON.stringify(data));
+        // this.log.debug('create EscrowTransaction, body: ', JSON.stringify(body, null, 2));
+
+        // If the request body was valid we will create the escrowTransaction
+        const escrowTransaction = await this.escrowTransactionRepo.create(body, trx);
+
+        // finally find and return the created escrowTransaction
+        const newEscrowTransaction = await this.findOne(escrowTransaction.id, true, trx);
+        return newEscrowTransaction;
+    }
+
+    @validate()
+    public async update(id: number, @request(EscrowTransactionUpdateRequest) body: EscrowTransactionUpdateRequest): Promise<EscrowTransaction> {
+
+        // find the existing one without related
+        const escrowTransaction = await this.findOne(id, false);
+
+        // set new values
+        escrowTransaction.Status = body.status;
+        escrowTransaction.Confirmations = body.confirmations;
+        escrowTransaction.BlockHeight = body.blockHeight;
+
+        // update escrowTransaction record
+        const updatedEscrowTransaction = await this.escrowTransactionRepo.update(id, escrowTransaction.toJSON());
+        return updatedEscrowTransaction;
+    }
+
+    public async destroy(id: number): Promise<void> {
+        await this.escrowTransactionRepo.destroy(id);
+    }
+
+    /**
+     * starts tracking the broadcasted escrow transaction for all the OrderItems sharing the escrow,
+     * the same txid can be received more than once so the already tracked ones are skipped
+     *
+     * @param {module:resources.OrderItem[]} orderItems
+     * @param {string} txid
+     * @param {EscrowTransactionType} type
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<module:resources.EscrowTransaction[]>}
+     */
+    public async track(orderItems: resources.OrderItem[], txid: string, type: EscrowTransactionType,
+                       trx?: Knex.Transaction): Promise<resources.EscrowTransaction[]> {
+
+        const escrowTransactions: resources.EscrowTransaction[] = [];
+        for (const orderItem of orderItems) {
+            const existing: resources.EscrowTransaction[] = await this.searchBy({
+                orderItemId: orderItem.id,
+                txid
+            } as EscrowTransactionSearchParams, false, trx).then(value => value.toJSON());
+
+            if (_.isEmpty(existing)) {
+                const escrowTransaction: resources.EscrowTransaction = await this.create({
+                    order_item_id: orderItem.id,
+                    txid,
+                    type,
+                    status: EscrowTransactionStatus.PENDING,
+                    confirmations: 0
+                } as EscrowTransactionCreateRequest, trx).then(value => value.toJSON());
+                escrowTransactions.push(escrowTransaction);
+            } else {
+                escrowTransactions.push(existing[0]);
+            }
+        }
+        return escrowTransactions;
+    }
+
+    /**
+     * polls the PENDING escrow transactions and updates their confirmations, a transaction is double spent once it
+     * conflicts with one in the chain, or it's no longer in the mempool and one of its inputs has been spent elsewhere.
+     * a transaction which just dropped out of the mempool stays PENDING, until it has been tracked for longer than the timeout.
+     *
+     * emits EscrowTransactionConfirmedEvent, EscrowTransactionDoubleSpentEvent and EscrowTransactionFailedEvent
+     *
+     * @returns {Promise<void>}
+     */
+    public async updatePending(): Promise<void> {
+
+        const searchParams = {
+            order: SearchOrder.ASC,
+            status: EscrowTransactionStatus.PENDING,
+            page: 0,
+            pageLimit: 100
+        } as EscrowTransactionSearchParams;
+
+        const escrowTransactions: resources.EscrowTransaction[] = await this.searchBy(searchParams).then(value => value.toJSON());
+        if (_.isEmpty(escrowTransactions)) {
+            return;
+        }
+
+        const blockCount = await this.coreRpcService.getBlockCount();
+
+        // the OrderItems of a combined Order share the same transaction
+        const transactionsByTxid = _.groupBy(escrowTransactions, (escrowTransaction: resources.EscrowTransaction) => escrowTransaction.txid);
+
+        for (const txid of Object.keys(transactionsByTxid)) {
+
+            let tx = await this.coreRpcService.getRawTransaction(txid, true)
+                .catch(reason => {
+                    if (reason.message && reason.message.error && reason.message.error.code === EscrowTransactionService.TX_NOT_FOUND) {
+                        return null;
+                    }
+                    throw reason;
+                });
+
+            if (tx === null) {
+                // without -txindex, getrawtransaction finds only the transactions in the mempool, the wallet knows ours
+                const walletTx = await this.coreRpcService.getTransaction(txid).catch(reason => null);
+                if (walletTx && walletTx.confirmations > 0) {
+                    tx = walletTx;
+                } else if (!walletTx || (walletTx.confirmations === 0 && !await this.hasInputSpentElsewhere(walletTx.hex))) {
+                    // dropped from the mempool, but it can still be mined as long as its inputs are unspent
+                    this.log.warn('EscrowTransaction ' + txid + ' not found, but it has not been double spent.');
+                    await this.failTimedOut(transactionsByTxid[txid]);
+                    continue;
+                }
+            }
+
+            for (const escrowTransaction of transactionsByTxid[txid]) {
+                if (tx === null) {
+                    this.log.warn('EscrowTransaction ' + txid + ' has been double spent.');
+                    await this.updateAndNotify(escrowTransaction, {
+                        status: EscrowTransactionStatus.DOUBLE_SPENT,
+                        confirmations: 0
+                    } as EscrowTransactionUpdateRequest, Events.EscrowTransactionDoubleSpentEvent);
+
+                } else {
+                    const confirmations = tx.confirmations || 0;
+                    if (confirmations === escrowTransaction.confirmations) {
+                        continue;
+                    }
+
+                    const updateRequest = {
+                        status: confirmations >= this.CONFIRMATIONS ? EscrowTransactionStatus.CONFIRMED : EscrowTransactionStatus.PENDING,
+                        confirmations,
+                        blockHeight: confirmations > 0 ? blockCount - confirmations + 1 : undefined
+                    } as EscrowTransactionUpdateRequest;
+
+                    if (updateRequest.status === EscrowTransactionStatus.CONFIRMED) {
+                        await this.updateAndNotify(escrowTransaction, updateRequest, Events.EscrowTransactionConfirmedEvent);
+                    } else {
+                        await this.update(escrowTransaction.id, updateRequest);
+                    }
+                }
+            }
+        }
+    }
+
+    /**
+     * checks whether an input of a transaction which is neither in the mempool nor in the chain has been spent by another transaction
+     *
+     * @param {string} rawtx
+     * @returns {Promise<boolean>}
+     */
+    private async hasInputSpentElsewhere(rawtx: string): Promise<boolean> {
+        const decodedTx = await this.coreRpcService.decodeRawTransaction(rawtx);
+        for (const input of decodedTx.vin) {
+            const unspentOutput = await this.coreRpcService.getTxOut(input.txid, input.vout, true);
+            if (unspentOutput) {
+                continue;
+            }
+
+            // gettxout doesn't tell spent outputs from unknown ones, so the output has to be in a transaction we know is confirmed
+            const inputTx = await this.coreRpcService.getTransaction(input.txid).catch(reason => null);
+            if (inputTx && inputTx.confirmations > 0) {
+                this.log.warn('Input ' + input.txid + ':' + input.vout + ' has been spent by another transaction.');
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * gives up on the transactions which haven't been found within the timeout
+     *
+     * @param {module:resources.EscrowTransaction[]} escrowTransactions
+     * @returns {Promise<void>}
+     */
+    private async failTimedOut(escrowTransactions: resources.EscrowTransaction[]): Promise<void> {
+        for (const escrowTransaction of escrowTransactions) {
+            if (new Date(escrowTransaction.createdAt).getTime() + this.TIMEOUT * 60 * 60 * 1000 >= Date.now()) {
+                continue;
+            }
+
+            this.log.warn('EscrowTransaction ' + escrowTransaction.txid + ' not found within ' + this.TIMEOUT + ' hours, giving up.');
+            await this.updateAndNotify(escrowTransaction, {
+                status: EscrowTransactionStatus.FAILED,
+                confirmations: 0
+            } as EscrowTransactionUpdateRequest, Events.EscrowTransactionFailedEvent);
+        }
+    }
+
+    private async updateAndNotify(escrowTransaction: resources.EscrowTransaction, updateRequest: EscrowTransactionUpdateRequest,
+                                  eventType: string): Promise<void> {
+
+        const updatedEscrowTransaction: resources.EscrowTransaction = await this.update(escrowTransaction.id, updateRequest)
+            .then(value => value.toJSON());
+
+        this.eventEmitter.emit(eventType, updatedEscrowTransaction);
+        this.eventEmitter.emit(Events.Cli, {
+            message: eventType,
+            data: updatedEscrowTransaction
+        });
+    }
+}
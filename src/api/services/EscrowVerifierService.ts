@@ -0,0 +1,193 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { CoreRpcService } from './CoreRpcService';
+import { Output } from './CoreRpcService';
+import { BidDataValue } from '../enums/BidDataValue';
+import { MessageException } from '../exceptions/MessageException';
+import { InvalidEscrowTransactionException } from '../exceptions/InvalidEscrowTransactionException';
+
+export interface EscrowOutput {
+    txid: string;
+    vout: number;
+    value: number;
+}
+
+/**
+ * Verifies the escrow transactions received from the other party before they're signed or accepted
+ */
+export class EscrowVerifierService {
+
+    public log: LoggerType;
+
+    private MAX_FEE = parseFloat(process.env.ESCROW_MAX_FEE) || 0.01;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.CoreRpcService) private coreRpcService: CoreRpcService,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * verifies the lock transaction created by the seller: the inputs are the outputs selected by the buyer and the seller
+     * and still unspent, the escrow amount goes to the escrow multisig and the buyers change goes back to the buyer
+     *
+     * @param {string} rawtx
+     * @param {module:resources.OrderItem} orderItem
+     * @param {string} escrowAddress
+     * @param {number} escrowAmount
+     * @returns {Promise<any>} the decoded transaction
+     */
+    public async verifyLockTx(rawtx: string, orderItem: resources.OrderItem, escrowAddress: string, escrowAmount: number): Promise<any> {
+
+        const tx = await this.decode(rawtx);
+
+        const buyerOutputs: Output[] = this.getValueFromOrderItemObjects(BidDataValue.BUYER_OUTPUTS, orderItem.OrderItemObjects);
+        const sellerOutputs: Output[] = this.getValueFromOrderItemObjects(BidDataValue.SELLER_OUTPUTS, orderItem.OrderItemObjects);
+        const buyerChangeAddress = this.getValueFromOrderItemObjects(BidDataValue.BUYER_CHANGE_ADDRESS, orderItem.OrderItemObjects);
+        const buyerChangeAmount = +this.getValueFromOrderItemObjects(BidDataValue.BUYER_CHANGE_AMOUNT, orderItem.OrderItemObjects);
+
+        const agreedInputs = buyerOutputs.concat(sellerOutputs).map(output => output.txid + ':' + output.vout).sort();
+        const inputs = tx.vin.map(vin => vin.txid + ':' + vin.vout).sort();
+        if (!_.isEqual(inputs, agreedInputs)) {
+            throw new InvalidEscrowTransactionException('inputs are not the outputs selected for the escrow.');
+        }
+
+        const escrowVouts = this.findVouts(tx, escrowAddress);
+        if (escrowVouts.length !== 1 || escrowVouts[0].value !== escrowAmount) {
+            throw new InvalidEscrowTransactionException('expected ' + escrowAmount + ' to the escrow address ' + escrowAddress + '.');
+        }
+
+        if (buyerChangeAmount > 0) {
+            const changeVouts = this.findVouts(tx, buyerChangeAddress);
+            if (changeVouts.length !== 1 || changeVouts[0].value !== buyerChangeAmount) {
+                throw new InvalidEscrowTransactionException('expected ' + buyerChangeAmount + ' change to the buyer address ' + buyerChangeAddress + '.');
+            }
+        }
+
+        // escrow, buyers change and sellers change
+        if (tx.vout.length > 3) {
+            throw new InvalidEscrowTransactionException('unexpected number of outputs: ' + tx.vout.length + '.');
+        }
+
+        let inputsValue = 0;
+        for (const vin of tx.vin) {
+            const txOut = await this.coreRpcService.getTxOut(vin.txid, vin.vout);
+            if (!txOut) {
+                throw new InvalidEscrowTransactionException('input ' + vin.txid + ':' + vin.vout + ' is spent or unknown.');
+            }
+            inputsValue += txOut.value;
+        }
+        this.verifyFee(inputsValue, tx);
+
+        return tx;
+    }
+
+    /**
+     * verifies a release or a refund: the only input is the agreed escrow output and the outputs match the expected payout
+     *
+     * @param {string} rawtx
+     * @param {EscrowOutput} escrowOutput
+     * @param {any} expectedTxOut, {address: amount}
+     * @returns {Promise<any>} the decoded transaction
+     */
+    public async verifyPayoutTx(rawtx: string, escrowOutput: EscrowOutput, expectedTxOut: any): Promise<any> {
+
+        const tx = await this.decode(rawtx);
+
+        if (tx.vin.length !== 1) {
+            throw new InvalidEscrowTransactionException('expected a single input, got ' + tx.vin.length + '.');
+        }
+
+        if (tx.vin[0].txid !== escrowOutput.txid || tx.vin[0].vout !== escrowOutput.vout) {
+            throw new InvalidEscrowTransactionException('input ' + tx.vin[0].txid + ':' + tx.vin[0].vout
+                + ' is not the escrow output ' + escrowOutput.txid + ':' + escrowOutput.vout + '.');
+        }
+
+        if (tx.vout.length !== Object.keys(expectedTxOut).length) {
+            throw new InvalidEscrowTransactionException('expected ' + Object.keys(expectedTxOut).length + ' outputs, got ' + tx.vout.length + '.');
+        }
+
+        for (const vout of tx.vout) {
+            const address = this.getVoutAddress(vout);
+            if (!address || expectedTxOut[address] !== vout.value) {
+                throw new InvalidEscrowTransactionException('unexpected output ' + vout.value + ' to ' + address + '.');
+            }
+        }
+
+        this.verifyFee(escrowOutput.value, tx);
+        return tx;
+    }
+
+    /**
+     * verifies that the transaction broadcasted by the other party is the one we agreed on and signed
+     *
+     * @param {string} txid
+     * @param {string} rawtx, our (partially) signed version of the transaction
+     * @returns {Promise<any>} the broadcasted transaction
+     */
+    public async verifyBroadcastTx(txid: string, rawtx: string): Promise<any> {
+
+        // the transaction might not have reached us yet, so not finding it doesn't make it invalid
+        const tx = await this.coreRpcService.getRawTransaction(txid, true)
+            .catch(reason => {
+                throw new MessageException('Transaction ' + txid + ' not found.');
+            });
+        const expectedTx = await this.decode(rawtx);
+
+        const inputs = (vins: any[]) => vins.map(vin => vin.txid + ':' + vin.vout).sort();
+        if (!_.isEqual(inputs(tx.vin), inputs(expectedTx.vin))) {
+            throw new InvalidEscrowTransactionException('inputs of ' + txid + ' do not match the signed transaction.');
+        }
+
+        const outputs = (vouts: any[]) => vouts.map(vout => this.getVoutAddress(vout) + ':' + vout.value).sort();
+        if (!_.isEqual(outputs(tx.vout), outputs(expectedTx.vout))) {
+            throw new InvalidEscrowTransactionException('outputs of ' + txid + ' do not match the signed transaction.');
+        }
+
+        return tx;
+    }
+
+    private async decode(rawtx: string): Promise<any> {
+        const tx = await this.coreRpcService.decodeRawTransaction(rawtx)
+            .catch(reason => {
+                throw new InvalidEscrowTransactionException('decoding failed.');
+            });
+
+        if (!tx || !tx.vin || !tx.vout) {
+            throw new InvalidEscrowTransactionException('decoding failed.');
+        }
+        return tx;
+    }
+
+    private verifyFee(inputsValue: number, tx: any): void {
+        const outputsValue = _.sumBy(tx.vout, (vout: any) => vout.value || 0);
+        const fee = +(inputsValue - outputsValue).toFixed(8);
+        if (fee < 0 || fee > this.MAX_FEE) {
+            throw new InvalidEscrowTransactionException('fee ' + fee + ' is not within 0 and ' + this.MAX_FEE + '.');
+        }
+    }
+
+    private findVouts(tx: any, address: string): any[] {
+        return _.filter(tx.vout, (vout: any) => this.getVoutAddress(vout) === address);
+    }
+
+    private getVoutAddress(vout: any): string | undefined {
+        return vout.scriptPubKey && vout.scriptPubKey.addresses ? vout.scriptPubKey.addresses[0] : undefined;
+    }
+
+    private getValueFromOrderItemObjects(key: string, orderItemObjects: resources.OrderItemObject[]): any {
+        const value = _.find(orderItemObjects, (kv: resources.OrderItemObject) => kv.dataId === key);
+        if (!value) {
+            throw new InvalidEscrowTransactionException('missing OrderItemObject value for key: ' + key + '.');
+        }
+        return value.dataValue[0] === '[' ? JSON.parse(value.dataValue) : value.dataValue;
+    }
+}
@@ -164,6 +164,20 @@ export class ItemInformationService {
             await this.shippingDestinationService.create(shippingDestination);
         }
 
+        if (body.itemImages) {
+            // find related records and delete them
+            const itemImages = updatedItemInformation.related('ItemImages').toJSON() || [];
+            for (const itemImage of itemImages) {
+                await this.itemImageService.destroy(itemImage.id);
+            }
+
+            // recreate related data
+            for (const itemImage of body.itemImages) {
+                itemImage.item_information_id = id;
+                await this.itemImageService.create(itemImage);
+            }
+        }
+
         // finally find and return the updated itemInformation
         const newItemInformation = await this.findOne(id);
         return newItemInformation;
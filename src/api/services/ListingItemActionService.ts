@@ -15,10 +15,12 @@ import { ItemCategoryService } from './ItemCategoryService';
 import { ListingItemTemplatePostRequest } from '../requests/ListingItemTemplatePostRequest';
 import { ListingItemUpdatePostRequest } from '../requests/ListingItemUpdatePostRequest';
 import { ListingItemTemplateService } from './ListingItemTemplateService';
+import { ListingItemTemplateRevisionService } from './ListingItemTemplateRevisionService';
+import { ListingItemTemplateValidationService } from './ListingItemTemplateValidationService';
 import { ListingItemFactory } from '../factories/ListingItemFactory';
 import { SmsgService } from './SmsgService';
+import { OutboxMessageService } from './OutboxMessageService';
 import { ListingItemObjectService } from './ListingItemObjectService';
-import { NotImplementedException } from '../exceptions/NotImplementedException';
 import { EventEmitter } from 'events';
 import { MarketplaceMessage } from '../messages/MarketplaceMessage';
 import { SmsgSendResponse } from '../responses/SmsgSendResponse';
@@ -37,6 +39,12 @@ import { FlaggedItemCreateRequest } from '../requests/FlaggedItemCreateRequest';
 import { FlaggedItem } from '../models/FlaggedItem';
 import { FlaggedItemService } from './FlaggedItemService';
 import {MessageSize} from '../responses/MessageSize';
+import { ListingItemMessageType } from '../enums/ListingItemMessageType';
+import { ListingItemUpdateRequest } from '../requests/ListingItemUpdateRequest';
+import { ListingItemCancelMessage } from '../messages/ListingItemCancelMessage';
+import { BidActionService } from './BidActionService';
+import { BidService } from './BidService';
+import { BidMessageType } from '../enums/BidMessageType';
 
 export class ListingItemActionService {
 
@@ -47,9 +55,14 @@ export class ListingItemActionService {
         @inject(Types.Service) @named(Targets.Service.PaymentInformationService) public paymentInformationService: PaymentInformationService,
         @inject(Types.Service) @named(Targets.Service.MessagingInformationService) public messagingInformationService: MessagingInformationService,
         @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) public listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateRevisionService)
+        public listingItemTemplateRevisionService: ListingItemTemplateRevisionService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateValidationService)
+        public listingItemTemplateValidationService: ListingItemTemplateValidationService,
         @inject(Types.Service) @named(Targets.Service.ListingItemService) public listingItemService: ListingItemService,
         @inject(Types.Service) @named(Targets.Service.ListingItemObjectService) public listingItemObjectService: ListingItemObjectService,
         @inject(Types.Service) @named(Targets.Service.SmsgService) public smsgService: SmsgService,
+        @inject(Types.Service) @named(Targets.Service.OutboxMessageService) public outboxMessageService: OutboxMessageService,
         @inject(Types.Service) @named(Targets.Service.ActionMessageService) public actionMessageService: ActionMessageService,
         @inject(Types.Service) @named(Targets.Service.SmsgMessageService) public smsgMessageService: SmsgMessageService,
         @inject(Types.Service) @named(Targets.Service.CoreRpcService) public coreRpcService: CoreRpcService,
@@ -57,6 +70,8 @@ export class ListingItemActionService {
         @inject(Types.Service) @named(Targets.Service.ProfileService) public profileService: ProfileService,
         @inject(Types.Service) @named(Targets.Service.MarketService) public marketService: MarketService,
         @inject(Types.Service) @named(Targets.Service.FlaggedItemService) private flaggedItemService: FlaggedItemService,
+        @inject(Types.Service) @named(Targets.Service.BidService) private bidService: BidService,
+        @inject(Types.Service) @named(Targets.Service.BidActionService) private bidActionService: BidActionService,
         @inject(Types.Factory) @named(Targets.Factory.ListingItemFactory) private listingItemFactory: ListingItemFactory,
         @inject(Types.Core) @named(Core.Events) public eventEmitter: EventEmitter,
         @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
@@ -78,7 +93,14 @@ export class ListingItemActionService {
         const itemTemplateModel = await this.listingItemTemplateService.findOne(data.listingItemTemplateId, true);
         const itemTemplate = itemTemplateModel.toJSON();
 
-        // TODO: should validate that the template has the required info
+        // refuse to post a template which would be posted broken
+        const validation = await this.listingItemTemplateValidationService.validate(itemTemplate);
+        if (!validation.valid) {
+            const errors = validation.errors.map(error => error.message).join(' ');
+            this.log.warn('ListingItemTemplate ' + itemTemplate.id + ' has errors: ' + errors);
+            throw new MessageException('ListingItemTemplate has errors: ' + errors);
+        }
+
         // TODO: recalculate the template.hash in case the related data has changed
 
         // this.log.debug('post template: ', JSON.stringify(itemTemplate, null, 2));
@@ -103,25 +125,101 @@ export class ListingItemActionService {
 
         // create and post the itemmessage
         const listingItemMessage = await this.listingItemFactory.getMessage(itemTemplate);
+
+        // the received ListingItem is related to the revision it was posted from
+        if (!estimateFee) {
+            await this.listingItemTemplateRevisionService.snapshot(itemTemplate, this.listingItemFactory.getMessageContentHash(listingItemMessage));
+        }
         const marketPlaceMessage = {
             version: process.env.MARKETPLACE_VERSION,
             item: listingItemMessage
         } as MarketplaceMessage;
 
-        return await this.smsgService.smsgSend(profileAddress, market.address, marketPlaceMessage, true, data.daysRetention, estimateFee);
+        return await this.sendToMarket(profileAddress, market.address, marketPlaceMessage, data.daysRetention, estimateFee);
     }
 
     /**
-     * update a ListingItem based on a given ListingItem as ListingItemUpdateMessage
+     * update a posted ListingItem based on the edited ListingItemTemplate, sent as MP_ITEM_UPDATE ListingItemMessage
+     *
+     * the message keeps the hash of the original ListingItem, so that the receivers can find the ListingItem to update
      *
      * @param data
-     * @returns {Promise<void>}
+     * @param estimateFee
+     * @returns {Promise<SmsgSendResponse>}
      */
     @validate()
-    public async updatePostItem( @request(ListingItemUpdatePostRequest) data: ListingItemUpdatePostRequest): Promise<void> {
+    public async updatePostItem( @request(ListingItemUpdatePostRequest) data: ListingItemUpdatePostRequest,
+                                 estimateFee: boolean = false): Promise<SmsgSendResponse> {
+
+        // fetch the listingItemTemplate
+        const itemTemplateModel = await this.listingItemTemplateService.findOne(data.listingItemTemplateId, true);
+        const itemTemplate: resources.ListingItemTemplate = itemTemplateModel.toJSON();
+
+        // fetch the listingItem to be updated
+        const listingItemModel = await this.listingItemService.findOneByHash(data.hash, true);
+        const listingItem: resources.ListingItem = listingItemModel.toJSON();
+
+        // only the seller can update the ListingItem
+        const profileAddress = itemTemplate.Profile.address;
+        if (listingItem.seller !== profileAddress) {
+            throw new MessageException('ListingItem can only be updated by the seller.');
+        }
+
+        // create and post the itemmessage
+        const listingItemMessage = await this.listingItemFactory.getMessage(itemTemplate, listingItem.hash, ListingItemMessageType.MP_ITEM_UPDATE);
+
+        // the updated ListingItem is related to the revision matching the message when the update is received
+        if (!estimateFee) {
+            await this.listingItemTemplateRevisionService.snapshot(itemTemplate, this.listingItemFactory.getMessageContentHash(listingItemMessage));
+        }
 
-        // TODO: update not implemented/supported yet
-        throw new NotImplementedException();
+        const marketPlaceMessage = {
+            version: process.env.MARKETPLACE_VERSION,
+            item: listingItemMessage
+        } as MarketplaceMessage;
+
+        return await this.sendToMarket(profileAddress, listingItem.Market.address, marketPlaceMessage, data.daysRetention, estimateFee);
+    }
+
+    /**
+     * cancel a posted ListingItem, sent as signed MP_ITEM_CANCEL message to the market
+     *
+     * the open bids for the ListingItem are rejected before the cancel message is sent
+     *
+     * @param {module:resources.ListingItem} listingItem
+     * @param {number} daysRetention
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    public async cancel(listingItem: resources.ListingItem, daysRetention: number): Promise<SmsgSendResponse> {
+
+        // only the seller can cancel the ListingItem
+        const sellerProfile: resources.Profile = await this.profileService.findOneByAddress(listingItem.seller)
+            .then(value => value.toJSON())
+            .catch(reason => {
+                throw new MessageException('Seller profile not found. We aren\'t the seller?');
+            });
+
+        // reject the open bids, which also lets the bidders know that the ListingItem is not available anymore
+        const openBids = _.filter(listingItem.Bids || [], (bid: resources.Bid) => {
+            return bid.action === BidMessageType.MPA_BID || bid.action === BidMessageType.MPA_COUNTER;
+        });
+        for (const openBid of openBids) {
+            const bid: resources.Bid = await this.bidService.findOne(openBid.id, true).then(value => value.toJSON());
+            await this.bidActionService.reject(bid);
+        }
+
+        const listingItemCancelMessage = {
+            action: ListingItemMessageType.MP_ITEM_CANCEL,
+            item: listingItem.hash
+        } as ListingItemCancelMessage;
+        listingItemCancelMessage.signature = await this.coreRpcService.signMessage(sellerProfile.address, listingItemCancelMessage);
+
+        const marketPlaceMessage = {
+            version: process.env.MARKETPLACE_VERSION,
+            mpaction: listingItemCancelMessage
+        } as MarketplaceMessage;
+
+        return await this.sendToMarket(sellerProfile.address, listingItem.Market.address, marketPlaceMessage, daysRetention);
     }
 
     /**
@@ -138,6 +236,27 @@ export class ListingItemActionService {
 
         if (marketplaceMessage.market && marketplaceMessage.item) {
 
+            // make sure the message was signed by the seller
+            const verified = await this.verifyListingItemMessage(listingItemMessage, smsgMessage.from);
+            if (!verified) {
+                throw new MessageException('Received signature failed validation.');
+            }
+
+            // the seller reposted the ListingItem before it expired, the ListingItem stays the same but lives longer
+            const existingListingItem: resources.ListingItem | null = await this.listingItemService.findOneByHash(listingItemMessage.hash, false)
+                .then(value => value.toJSON())
+                .catch(reason => null);
+
+            if (existingListingItem) {
+                if (existingListingItem.seller !== smsgMessage.from) {
+                    throw new MessageException('ListingItem can only be reposted by the seller.');
+                }
+                await this.listingItemService.renew(existingListingItem.id, smsgMessage);
+
+                this.log.debug('==> PROCESSED LISTINGITEM REPOST: ', existingListingItem.hash);
+                return SmsgMessageStatus.PROCESSED;
+            }
+
             // get market
             const marketModel = await this.marketService.findByAddress(marketplaceMessage.market);
             const market = marketModel.toJSON();
@@ -190,6 +309,136 @@ export class ListingItemActionService {
         }
     }
 
+    /**
+     * processes received MP_ITEM_UPDATE ListingItemMessage
+     *
+     * the existing ListingItem is updated only if the message was sent by the original seller,
+     * the hash and the expiration of the ListingItem stay the same, updates to removed ListingItems are ignored
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
+    public async processListingItemUpdateReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
+
+        const smsgMessage: resources.SmsgMessage = event.smsgMessage;
+        const marketplaceMessage: MarketplaceMessage = event.marketplaceMessage;
+        const listingItemMessage: ListingItemMessage = marketplaceMessage.item as ListingItemMessage;
+
+        if (marketplaceMessage.market && marketplaceMessage.item) {
+
+            // get market
+            const marketModel = await this.marketService.findByAddress(marketplaceMessage.market);
+            const market = marketModel.toJSON();
+
+            // find the ListingItem to update, the original ListingItemMessage might not have been processed yet
+            const listingItem: resources.ListingItem | null = await this.listingItemService.findOneByHash(listingItemMessage.hash, false)
+                .then(value => value.toJSON())
+                .catch(reason => null);
+
+            if (!listingItem) {
+                this.log.debug('ListingItem not found, waiting: ', listingItemMessage.hash);
+                return SmsgMessageStatus.WAITING;
+            }
+
+            // a cancelled ListingItem stays removed
+            if (listingItem.removed) {
+                this.log.warn('ListingItem has been removed, ignoring the update: ', listingItemMessage.hash);
+                return SmsgMessageStatus.IGNORED;
+            }
+
+            if (listingItem.seller !== smsgMessage.from) {
+                throw new MessageException('ListingItem can only be updated by the seller.');
+            }
+
+            const verified = await this.verifyListingItemMessage(listingItemMessage, listingItem.seller);
+            if (!verified) {
+                throw new MessageException('Received signature failed validation.');
+            }
+
+            // create the new custom categories in case there are some
+            await this.itemCategoryService.createCategoriesFromArray(listingItemMessage.information.category);
+
+            // find the categories/get the root category with related
+            const rootCategoryWithRelatedModel: any = await this.itemCategoryService.findRoot();
+            const rootCategory = rootCategoryWithRelatedModel.toJSON();
+
+            const listingItemCreateRequest = await this.listingItemFactory.getModel(listingItemMessage, smsgMessage, market.id, rootCategory);
+
+            const listingItemUpdateRequest = {
+                hash: listingItem.hash,
+                seller: listingItem.seller,
+                market_id: market.id,
+                expiryTime: listingItem.expiryTime,
+                postedAt: listingItem.postedAt,
+                expiredAt: listingItem.expiredAt,
+                receivedAt: listingItem.receivedAt,
+                itemInformation: listingItemCreateRequest.itemInformation,
+                paymentInformation: listingItemCreateRequest.paymentInformation,
+                messagingInformation: listingItemCreateRequest.messagingInformation,
+                listingItemObjects: listingItemCreateRequest.listingItemObjects
+            } as ListingItemUpdateRequest;
+
+            await this.listingItemService.update(listingItem.id, listingItemUpdateRequest, false);
+
+            // in case the update was posted from our template
+            const updatedListingItemModel = await this.listingItemService.updateListingItemTemplateRevisionRelation(listingItem.id,
+                this.listingItemFactory.getMessageContentHash(listingItemMessage));
+            const updatedListingItem: resources.ListingItem = updatedListingItemModel.toJSON();
+
+            this.log.debug('==> PROCESSED LISTINGITEM UPDATE: ', updatedListingItem.hash);
+            return SmsgMessageStatus.PROCESSED;
+
+        } else {
+            throw new MessageException('Marketplace message missing market.');
+        }
+    }
+
+    /**
+     * processes received MP_ITEM_CANCEL message
+     *
+     * the ListingItem is marked as removed if the message was sent and signed by the seller
+     *
+     * @param {MarketplaceEvent} event
+     * @returns {Promise<SmsgMessageStatus>}
+     */
+    public async processListingItemCancelReceivedEvent(event: MarketplaceEvent): Promise<SmsgMessageStatus> {
+
+        const smsgMessage: resources.SmsgMessage = event.smsgMessage;
+        const listingItemCancelMessage: ListingItemCancelMessage = event.marketplaceMessage.mpaction as ListingItemCancelMessage;
+
+        if (!listingItemCancelMessage || !listingItemCancelMessage.item) {
+            throw new MessageException('Missing mpaction.');
+        }
+
+        // the ListingItemMessage might not have been processed yet
+        const listingItem: resources.ListingItem | null = await this.listingItemService.findOneByHash(listingItemCancelMessage.item, false)
+            .then(value => value.toJSON())
+            .catch(reason => null);
+
+        if (!listingItem) {
+            this.log.debug('ListingItem not found, waiting: ', listingItemCancelMessage.item);
+            return SmsgMessageStatus.WAITING;
+        }
+
+        if (listingItem.seller !== smsgMessage.from) {
+            throw new MessageException('ListingItem can only be cancelled by the seller.');
+        }
+
+        const verified = await this.coreRpcService.verifyMessage(listingItem.seller, listingItemCancelMessage.signature, {
+            action: listingItemCancelMessage.action,
+            item: listingItemCancelMessage.item
+        } as ListingItemCancelMessage);
+
+        if (!verified) {
+            throw new MessageException('Received signature failed validation.');
+        }
+
+        await this.listingItemService.setRemovedFlag(listingItem.id, true);
+
+        this.log.debug('==> PROCESSED LISTINGITEM CANCEL: ', listingItem.hash);
+        return SmsgMessageStatus.PROCESSED;
+    }
+
     /**
      *
      * @param {module:resources.Proposal} proposal
@@ -237,6 +486,40 @@ export class ListingItemActionService {
         }
     }*/
 
+    /**
+     * sends the message to the market through the outbox, so that it's retried in case particld is not available,
+     * the fee estimate is asked from smsg directly since nothing is sent
+     *
+     * @param {string} fromAddress
+     * @param {string} marketAddress
+     * @param {MarketplaceMessage} marketPlaceMessage
+     * @param {number} daysRetention
+     * @param {boolean} estimateFee
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    private async sendToMarket(fromAddress: string, marketAddress: string, marketPlaceMessage: MarketplaceMessage,
+                               daysRetention: number, estimateFee: boolean = false): Promise<SmsgSendResponse> {
+        if (estimateFee) {
+            return await this.smsgService.smsgSend(fromAddress, marketAddress, marketPlaceMessage, true, daysRetention, true);
+        }
+        return await this.outboxMessageService.send(fromAddress, marketAddress, marketPlaceMessage, true, daysRetention);
+    }
+
+    /**
+     * verifies that the hash of the received ListingItemMessage content was signed by the given address
+     *
+     * @param {ListingItemMessage} listingItemMessage
+     * @param {string} address
+     * @returns {Promise<boolean>}
+     */
+    private async verifyListingItemMessage(listingItemMessage: ListingItemMessage, address: string): Promise<boolean> {
+        if (!listingItemMessage.signature) {
+            return false;
+        }
+        const contentHash = this.listingItemFactory.getMessageContentHash(listingItemMessage);
+        return await this.coreRpcService.verifyMessage(address, listingItemMessage.signature, contentHash);
+    }
+
     private configureEventListeners(): void {
         this.log.info('Configuring EventListeners');
 
@@ -249,7 +532,33 @@ export class ListingItemActionService {
                 .catch(async reason => {
                     this.log.debug('ERRORED event: ', JSON.stringify(event, null, 2));
                     this.log.error('ERROR: ListingItemMessage processing failed.', reason);
-                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
+                });
+        });
+
+        this.eventEmitter.on(Events.ListingItemUpdateReceivedEvent, async (event) => {
+            this.log.debug('Received event, message type: ' + event.smsgMessage.type + ', msgid: ' + event.smsgMessage.msgid);
+            await this.processListingItemUpdateReceivedEvent(event)
+                .then(async status => {
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, status);
+                })
+                .catch(async reason => {
+                    this.log.debug('ERRORED event: ', JSON.stringify(event, null, 2));
+                    this.log.error('ERROR: ListingItemMessage update processing failed.', reason);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
+                });
+        });
+
+        this.eventEmitter.on(Events.ListingItemCancelReceivedEvent, async (event) => {
+            this.log.debug('Received event, message type: ' + event.smsgMessage.type + ', msgid: ' + event.smsgMessage.msgid);
+            await this.processListingItemCancelReceivedEvent(event)
+                .then(async status => {
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, status);
+                })
+                .catch(async reason => {
+                    this.log.debug('ERRORED event: ', JSON.stringify(event, null, 2));
+                    this.log.error('ERROR: ListingItem cancel processing failed.', reason);
+                    await this.smsgMessageService.updateSmsgMessageStatus(event.smsgMessage, SmsgMessageStatus.PROCESSING_FAILED, reason.message);
                 });
         });
 
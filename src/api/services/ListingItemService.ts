@@ -29,6 +29,7 @@ import { MessagingInformationUpdateRequest } from '../requests/MessagingInformat
 import { ListingItemObjectCreateRequest } from '../requests/ListingItemObjectCreateRequest';
 import { ListingItemObjectUpdateRequest } from '../requests/ListingItemObjectUpdateRequest';
 import { ListingItemTemplateService } from './ListingItemTemplateService';
+import { ListingItemTemplateRevisionService } from './ListingItemTemplateRevisionService';
 import { ListingItemFactory } from '../factories/ListingItemFactory';
 import { SmsgService } from './SmsgService';
 import { ListingItemObjectService } from './ListingItemObjectService';
@@ -49,6 +50,8 @@ export class ListingItemService {
         @inject(Types.Service) @named(Targets.Service.PaymentInformationService) public paymentInformationService: PaymentInformationService,
         @inject(Types.Service) @named(Targets.Service.MessagingInformationService) public messagingInformationService: MessagingInformationService,
         @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) public listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateRevisionService)
+        public listingItemTemplateRevisionService: ListingItemTemplateRevisionService,
         @inject(Types.Service) @named(Targets.Service.ListingItemObjectService) public listingItemObjectService: ListingItemObjectService,
         @inject(Types.Service) @named(Targets.Service.SmsgService) public smsgService: SmsgService,
         @inject(Types.Service) @named(Targets.Service.ActionMessageService) public actionMessageService: ActionMessageService,
@@ -193,15 +196,18 @@ export class ListingItemService {
      *
      * @param {number} id
      * @param {ListingItemUpdateRequest} data
+     * @param {boolean} rehash, false to keep the hash given in data, used when updating ListingItems received from the network
      * @returns {Promise<ListingItem>}
      */
     @validate()
-    public async update(id: number, @request(ListingItemUpdateRequest) data: ListingItemUpdateRequest): Promise<ListingItem> {
+    public async update(id: number, @request(ListingItemUpdateRequest) data: ListingItemUpdateRequest, rehash: boolean = true): Promise<ListingItem> {
 
         const body = JSON.parse(JSON.stringify(data));
         // this.log.debug('updating ListingItem, body: ', JSON.stringify(body, null, 2));
 
-        body.hash = ObjectHash.getHash(body, HashableObjectType.LISTINGITEM_CREATEREQUEST);
+        if (rehash) {
+            body.hash = ObjectHash.getHash(body, HashableObjectType.LISTINGITEM_CREATEREQUEST);
+        }
 
         // find the existing one without related
         const listingItem = await this.findOne(id, false);
@@ -319,7 +325,7 @@ export class ListingItemService {
     public async updateListingItemTemplateRelation(id: number): Promise<ListingItem> {
 
         let listingItem = await this.findOne(id, false);
-        const templateId = await this.listingItemTemplateService.findOneByHash(listingItem.Hash)
+        let templateId = await this.listingItemTemplateService.findOneByHash(listingItem.Hash)
             .then(value => {
                 const template = value.toJSON();
                 // this.log.debug('found ListingItemTemplate with matching hash, id:', template.id);
@@ -329,9 +335,22 @@ export class ListingItemService {
                 // this.log.debug('matching ListingItemTemplate for ListingItem not found.');
             });
 
+        // the revision the ListingItem was posted from, the template might have been edited already
+        const revision: resources.ListingItemTemplateRevision | undefined = await this.listingItemTemplateRevisionService
+            .findLatestByHash(listingItem.Hash, false)
+            .then(value => value.toJSON())
+            .catch(reason => undefined);
+
+        if (!templateId && revision) {
+            templateId = revision.listingItemTemplateId;
+        }
+
         if (templateId) {
             this.log.debug('updating ListingItem relation to ListingItemTemplate.');
             listingItem.set('listingItemTemplateId', templateId);
+            if (revision) {
+                listingItem.set('listingItemTemplateRevisionId', revision.id);
+            }
             await this.listingItemRepo.update(id, listingItem.toJSON());
         }
 
@@ -340,6 +359,66 @@ export class ListingItemService {
         return listingItem;
     }
 
+    /**
+     * relates an updated ListingItem to the revision of our ListingItemTemplate the update was posted from, the
+     * template might have been edited and posted again before the update was received
+     *
+     * @param {number} id
+     * @param {string} messageHash, content hash of the received ListingItemMessage
+     * @returns {Promise<ListingItem>}
+     */
+    public async updateListingItemTemplateRevisionRelation(id: number, messageHash: string): Promise<ListingItem> {
+
+        const listingItem = await this.findOne(id, false);
+        const templateId = listingItem.get('listingItemTemplateId');
+
+        if (templateId) {
+            const revision: resources.ListingItemTemplateRevision | undefined = await this.listingItemTemplateRevisionService
+                .findOneByMessageHash(templateId, messageHash, false)
+                .then(value => value.toJSON())
+                .catch(reason => undefined);
+
+            if (revision) {
+                this.log.debug('updating ListingItem relation to ListingItemTemplateRevision: ', revision.revision);
+                listingItem.set('listingItemTemplateRevisionId', revision.id);
+                await this.listingItemRepo.update(id, listingItem.toJSON());
+            }
+        }
+
+        return await this.findOne(id);
+    }
+
+    /**
+     * renews the expiration of the ListingItem when the seller reposts it before it expires
+     *
+     * @param {number} id
+     * @param {module:resources.SmsgMessage} smsgMessage
+     * @returns {Promise<ListingItem>}
+     */
+    public async renew(id: number, smsgMessage: resources.SmsgMessage): Promise<ListingItem> {
+        const listingItem = await this.findOne(id, false);
+        listingItem.ExpiryTime = smsgMessage.daysretention;
+        listingItem.PostedAt = smsgMessage.sent;
+        listingItem.ExpiredAt = smsgMessage.expiration;
+        listingItem.ReceivedAt = smsgMessage.received;
+        await this.listingItemRepo.update(id, listingItem.toJSON());
+        return await this.findOne(id);
+    }
+
+    /**
+     * marks the ListingItem as removed, removed ListingItems are not listed and cannot be bid on
+     *
+     * @param {number} id
+     * @param {boolean} removed
+     * @returns {Promise<ListingItem>}
+     */
+    public async setRemovedFlag(id: number, removed: boolean): Promise<ListingItem> {
+        const listingItem = await this.findOne(id, false);
+        listingItem.Removed = removed;
+        await this.listingItemRepo.update(id, listingItem.toJSON());
+        return await this.findOne(id);
+    }
+
     /**
      *
      * @param {number} id
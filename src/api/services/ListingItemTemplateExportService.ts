@@ -0,0 +1,151 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as fs from 'fs';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core } from '../../constants';
+import { ListingItemTemplateImportImage, ListingItemTemplateImportRow } from './ListingItemTemplateImportService';
+import { ListingItemTemplateExportBundle } from '../responses/ListingItemTemplateExportBundle';
+import { ImageVersions } from '../../core/helpers/ImageVersionEnumType';
+import { MessageException } from '../exceptions/MessageException';
+
+/**
+ * Exports ListingItemTemplates into a bundle which can be imported with template import, on another node or for
+ * another profile. The templates are written in the import format, with the original images included as base64 data.
+ */
+export class ListingItemTemplateExportService {
+
+    public static BUNDLE_VERSION = 1;
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     *
+     * @param {"resources".ListingItemTemplate[]} listingItemTemplates, with related models
+     * @returns {Promise<ListingItemTemplateExportBundle>}
+     */
+    public async createBundle(listingItemTemplates: resources.ListingItemTemplate[]): Promise<ListingItemTemplateExportBundle> {
+        return {
+            version: ListingItemTemplateExportService.BUNDLE_VERSION,
+            exportedAt: Date.now(),
+            templates: listingItemTemplates.map(listingItemTemplate => this.getRow(listingItemTemplate))
+        } as ListingItemTemplateExportBundle;
+    }
+
+    /**
+     *
+     * @param {ListingItemTemplateExportBundle} bundle
+     * @param {string} file
+     * @returns {Promise<void>}
+     */
+    public async writeBundle(bundle: ListingItemTemplateExportBundle, file: string): Promise<void> {
+        try {
+            fs.writeFileSync(file, JSON.stringify(bundle, null, 2));
+        } catch (reason) {
+            this.log.error('writeBundle(), failed to write ' + file + ': ', reason);
+            throw new MessageException('Export write failed: ' + reason.message);
+        }
+    }
+
+    private getRow(listingItemTemplate: resources.ListingItemTemplate): ListingItemTemplateImportRow {
+
+        const itemInformation = listingItemTemplate.ItemInformation;
+        const paymentInformation = listingItemTemplate.PaymentInformation;
+        const itemPrice = paymentInformation.ItemPrice || {} as resources.ItemPrice;
+        const escrow = paymentInformation.Escrow || {} as resources.Escrow;
+        const itemLocation = itemInformation.ItemLocation || {} as resources.ItemLocation;
+        const locationMarker = itemLocation.LocationMarker;
+
+        return {
+            title: itemInformation.title,
+            shortDescription: itemInformation.shortDescription,
+            longDescription: itemInformation.longDescription,
+            category: this.getCategoryPath(itemInformation.ItemCategory),
+            paymentType: paymentInformation.type,
+            currency: itemPrice.currency,
+            basePrice: itemPrice.basePrice,
+            domesticShippingPrice: itemPrice.ShippingPrice ? itemPrice.ShippingPrice.domestic : undefined,
+            internationalShippingPrice: itemPrice.ShippingPrice ? itemPrice.ShippingPrice.international : undefined,
+            paymentAddress: itemPrice.CryptocurrencyAddress ? itemPrice.CryptocurrencyAddress.address : undefined,
+            escrowType: escrow.type,
+            escrowBuyerRatio: escrow.Ratio ? escrow.Ratio.buyer : undefined,
+            escrowSellerRatio: escrow.Ratio ? escrow.Ratio.seller : undefined,
+            arbiterAddress: escrow.arbiterAddress || undefined,
+            arbiterPubkey: escrow.arbiterPubkey || undefined,
+            shippingDestinations: _.map(itemInformation.ShippingDestinations, destination => {
+                return destination.country + ':' + destination.shippingAvailability;
+            }),
+            locationCountry: itemLocation.region,
+            locationAddress: itemLocation.address || undefined,
+            locationMarker: _.isEmpty(locationMarker) ? undefined : {
+                markerTitle: locationMarker.markerTitle,
+                markerText: locationMarker.markerText,
+                lat: locationMarker.lat,
+                lng: locationMarker.lng
+            },
+            images: _.map(itemInformation.ItemImages, itemImage => this.getImage(itemImage)),
+            messagingInformation: _.map(listingItemTemplate.MessagingInformation, messagingInformation => {
+                return {
+                    protocol: messagingInformation.protocol,
+                    publicKey: messagingInformation.publicKey
+                };
+            }),
+            listingItemObjects: _.map(listingItemTemplate.ListingItemObjects, object => {
+                return {
+                    type: object.type,
+                    description: object.description,
+                    order: object.order,
+                    listingItemObjectDatas: _.map(object.ListingItemObjectDatas, objectData => {
+                        return {
+                            key: objectData.key,
+                            value: objectData.value
+                        };
+                    })
+                };
+            })
+        } as ListingItemTemplateImportRow;
+    }
+
+    /**
+     * the names of the categories from under the root down to the templates category, or the key of the category if
+     * it's deeper in the tree than the fetched parents
+     */
+    private getCategoryPath(itemCategory: resources.ItemCategory): string[] {
+        const categoryPath: string[] = [];
+        let category = itemCategory;
+        while (!_.isEmpty(category.ParentItemCategory)) {
+            categoryPath.unshift(category.name);
+            category = category.ParentItemCategory;
+        }
+        return category.parentItemCategoryId ? [itemCategory.key] : categoryPath;
+    }
+
+    /**
+     * the original version of the image, read from the image file
+     */
+    private getImage(itemImage: resources.ItemImage): ListingItemTemplateImportImage {
+
+        const original = _.find(itemImage.ItemImageDatas, imageData => imageData.imageVersion === ImageVersions.ORIGINAL.propName);
+        if (!original || !fs.existsSync(original.data)) {
+            this.log.error('getImage(), original image file not found for ItemImage: ' + itemImage.id);
+            throw new MessageException('Image file not found: ' + itemImage.hash);
+        }
+
+        return {
+            data: fs.readFileSync(original.data, 'base64'),
+            name: original.originalName || undefined,
+            mime: original.originalMime || undefined,
+            featured: itemImage.featured
+        } as ListingItemTemplateImportImage;
+    }
+}
@@ -0,0 +1,557 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as fs from 'fs';
+import * as path from 'path';
+import * as resources from 'resources';
+import * as Request from 'request';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { ListingItemTemplateService } from './ListingItemTemplateService';
+import { ItemCategoryService } from './ItemCategoryService';
+import { ItemImageService } from './ItemImageService';
+import { ListingItemTemplateCreateRequest } from '../requests/ListingItemTemplateCreateRequest';
+import { ShippingDestinationCreateRequest } from '../requests/ShippingDestinationCreateRequest';
+import { ItemLocationCreateRequest } from '../requests/ItemLocationCreateRequest';
+import { LocationMarkerCreateRequest } from '../requests/LocationMarkerCreateRequest';
+import { MessagingInformationCreateRequest } from '../requests/MessagingInformationCreateRequest';
+import { ListingItemObjectCreateRequest } from '../requests/ListingItemObjectCreateRequest';
+import { ItemImageCreateRequest } from '../requests/ItemImageCreateRequest';
+import { ItemImageDataCreateRequest } from '../requests/ItemImageDataCreateRequest';
+import { ListingItemTemplateImportResponse } from '../responses/ListingItemTemplateImportResponse';
+import { ListingItemTemplateImportRowResult } from '../responses/ListingItemTemplateImportRowResult';
+import { PaymentType } from '../enums/PaymentType';
+import { Currency } from '../enums/Currency';
+import { EscrowType } from '../enums/EscrowType';
+import { ShippingAvailability } from '../enums/ShippingAvailability';
+import { CryptocurrencyAddressType } from '../enums/CryptocurrencyAddressType';
+import { ImageDataProtocolType } from '../enums/ImageDataProtocolType';
+import { MessagingProtocolType } from '../enums/MessagingProtocolType';
+import { ListingItemObjectType } from '../enums/ListingItemObjectType';
+import { ImageVersions } from '../../core/helpers/ImageVersionEnumType';
+import { ShippingCountries } from '../../core/helpers/ShippingCountries';
+import { Csv } from '../../core/helpers/Csv';
+import { MessageException } from '../exceptions/MessageException';
+
+/**
+ * an image is either loaded from a file path or an url, or given as base64 data
+ */
+export interface ListingItemTemplateImportImage {
+    source?: string;
+    data?: string;
+    name?: string;
+    mime?: string;
+    featured?: boolean;
+}
+
+/**
+ * a row of the import, the same fields are used in JSON and CSV. in CSV, the category path is separated
+ * by '>' and the lists by ';'. in JSON, arrays can be used for those instead. the location marker, messaging
+ * information, listing item objects and images given as data can only be imported from JSON.
+ */
+export interface ListingItemTemplateImportRow {
+    title: string;
+    shortDescription: string;
+    longDescription: string;
+    category: string | string[];            // category key, or path of category names or keys
+    paymentType?: string;                   // default SALE
+    currency?: string;                      // default PARTICL
+    basePrice: number | string;
+    domesticShippingPrice?: number | string;        // default 0
+    internationalShippingPrice?: number | string;   // default 0
+    paymentAddress?: string;
+    escrowType?: string;                    // default MAD
+    escrowBuyerRatio?: number | string;     // default 100
+    escrowSellerRatio?: number | string;    // default 100
+    arbiterAddress?: string;                // ARBITRATED only
+    arbiterPubkey?: string;                 // ARBITRATED only
+    shippingDestinations?: string | string[];   // country or country code, optionally followed by :ShippingAvailability
+    locationCountry?: string;
+    locationAddress?: string;
+    locationMarker?: {
+        markerTitle: string;
+        markerText: string;
+        lat: number;
+        lng: number;
+    };
+    images?: string | Array<string | ListingItemTemplateImportImage>;    // image file paths or http(s) urls
+    messagingInformation?: Array<{
+        protocol: string;
+        publicKey: string;
+    }>;
+    listingItemObjects?: Array<{
+        type: string;
+        description: string;
+        order: number;
+        listingItemObjectDatas?: Array<{
+            key: string;
+            value: string;
+        }>;
+    }>;
+}
+
+/**
+ * Creates ListingItemTemplates in bulk from a JSON array or a CSV file.
+ *
+ * Each row is validated before its template is created and the rows are imported independently, so one
+ * invalid row doesn't stop the rest. The errors are returned for each row.
+ */
+export class ListingItemTemplateImportService {
+
+    public static CATEGORY_SEPARATOR = '>';
+    public static LIST_SEPARATOR = ';';
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) private listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Service) @named(Targets.Service.ItemCategoryService) private itemCategoryService: ItemCategoryService,
+        @inject(Types.Service) @named(Targets.Service.ItemImageService) private itemImageService: ItemImageService,
+        @inject(Types.Lib) @named('request') private apiRequest: typeof Request,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * reads the rows from a .json or a .csv file, or from JSON given as is. the JSON is either an array of rows
+     * or a bundle created by template export.
+     *
+     * @param {string} input, file path or JSON
+     * @returns {Promise<ListingItemTemplateImportRow[]>}
+     */
+    public async parse(input: string): Promise<ListingItemTemplateImportRow[]> {
+
+        let rows: any;
+        try {
+            if (_.startsWith(input.trim(), '[') || _.startsWith(input.trim(), '{')) {
+                rows = JSON.parse(input);
+            } else if (!fs.existsSync(input)) {
+                throw new Error('File not found.');
+            } else if (path.extname(input).toLowerCase() === '.json') {
+                rows = JSON.parse(fs.readFileSync(input, 'utf8'));
+            } else if (path.extname(input).toLowerCase() === '.csv') {
+                rows = Csv.parseObjects(fs.readFileSync(input, 'utf8'));
+            } else {
+                throw new Error('Only .json and .csv files can be imported.');
+            }
+        } catch (reason) {
+            this.log.error('parse(), failed to read the import: ', reason);
+            throw new MessageException('Invalid import: ' + reason.message);
+        }
+
+        // the templates exported with template export are wrapped in a bundle
+        if (_.isPlainObject(rows) && _.isArray(rows.templates)) {
+            rows = rows.templates;
+        }
+
+        if (!_.isArray(rows) || !_.every(rows, row => _.isPlainObject(row))) {
+            throw new MessageException('Invalid import: expected an array of templates.');
+        }
+        return rows;
+    }
+
+    /**
+     * validates the rows and creates a ListingItemTemplate for each valid one, on dry run only the validation is done.
+     * relative image paths are relative to imageDir.
+     *
+     * @param {"resources".Profile} profile
+     * @param {ListingItemTemplateImportRow[]} rows
+     * @param {boolean} dryRun
+     * @param {string} imageDir
+     * @returns {Promise<ListingItemTemplateImportResponse>}
+     */
+    public async import(profile: resources.Profile, rows: ListingItemTemplateImportRow[], dryRun: boolean = false,
+                        imageDir: string = process.cwd()): Promise<ListingItemTemplateImportResponse> {
+
+        const rootCategory: resources.ItemCategory = await this.itemCategoryService.findRoot().then(value => value.toJSON());
+        const results: ListingItemTemplateImportRowResult[] = [];
+
+        for (let i = 0; i < rows.length; i++) {
+            const row = rows[i];
+            const errors: string[] = [];
+
+            const createRequest = this.getCreateRequest(profile, row, rootCategory, errors);
+            const images = this.getImages(row, imageDir, errors);
+
+            let listingItemTemplateId;
+            if (_.isEmpty(errors) && !dryRun) {
+                listingItemTemplateId = await this.createTemplate(createRequest, images)
+                    .catch(reason => {
+                        errors.push(reason.message);
+                        return undefined;
+                    });
+            }
+
+            results.push({
+                row: i + 1,
+                title: row.title,
+                listingItemTemplateId,
+                errors
+            } as ListingItemTemplateImportRowResult);
+        }
+
+        const failed = _.filter(results, result => !_.isEmpty(result.errors)).length;
+        this.log.info('imported ' + (results.length - failed) + '/' + results.length + ' templates' + (dryRun ? ' (dry run).' : '.'));
+
+        return {
+            dryRun,
+            total: results.length,
+            imported: results.length - failed,
+            failed,
+            rows: results
+        } as ListingItemTemplateImportResponse;
+    }
+
+    /**
+     * creates the template and then adds the images, if adding an image fails, the template is removed
+     *
+     * @param {ListingItemTemplateCreateRequest} createRequest
+     * @param {ListingItemTemplateImportImage[]} images
+     * @returns {Promise<number>}
+     */
+    private async createTemplate(createRequest: ListingItemTemplateCreateRequest, images: ListingItemTemplateImportImage[]): Promise<number> {
+
+        // timestamped, so that the same templates can be imported again, for another profile or from an export of this node
+        const listingItemTemplate: resources.ListingItemTemplate = await this.listingItemTemplateService.create(createRequest, true)
+            .then(value => value.toJSON());
+
+        try {
+            let featuredImageId;
+            for (const image of images) {
+                const itemImageCreateRequest = await this.loadImage(image);
+                itemImageCreateRequest.item_information_id = listingItemTemplate.ItemInformation.id;
+                const itemImage = await this.itemImageService.create(itemImageCreateRequest);
+                featuredImageId = image.featured ? itemImage.Id : featuredImageId;
+            }
+            if (!_.isEmpty(images)) {
+                const updatedTemplate: resources.ListingItemTemplate = await this.listingItemTemplateService.findOne(listingItemTemplate.id)
+                    .then(value => value.toJSON());
+                await this.listingItemTemplateService.createResizedTemplateImages(updatedTemplate);
+                if (featuredImageId) {
+                    await this.listingItemTemplateService.setFeaturedImage(updatedTemplate, featuredImageId);
+                }
+            }
+        } catch (reason) {
+            await this.listingItemTemplateService.destroy(listingItemTemplate.id);
+            throw reason;
+        }
+        return listingItemTemplate.id;
+    }
+
+    private getCreateRequest(profile: resources.Profile, row: ListingItemTemplateImportRow, rootCategory: resources.ItemCategory,
+                             errors: string[]): ListingItemTemplateCreateRequest {
+
+        for (const field of ['title', 'shortDescription', 'longDescription']) {
+            if (_.isEmpty(row[field])) {
+                errors.push(field + ' is required.');
+            } else if (typeof row[field] !== 'string') {
+                errors.push(field + ' should be a string.');
+            }
+        }
+
+        const itemCategory = this.getCategory(row.category, rootCategory, errors);
+
+        const paymentType = this.getEnum(row, 'paymentType', PaymentType, PaymentType.SALE, errors);
+        const currency = this.getEnum(row, 'currency', Currency, Currency.PARTICL, errors);
+        const basePrice = this.getNumber(row, 'basePrice', undefined, errors);
+        const domesticShippingPrice = this.getNumber(row, 'domesticShippingPrice', 0, errors);
+        const internationalShippingPrice = this.getNumber(row, 'internationalShippingPrice', 0, errors);
+
+        const escrowType = this.getEnum(row, 'escrowType', EscrowType, EscrowType.MAD, errors);
+        const buyerRatio = this.getNumber(row, 'escrowBuyerRatio', 100, errors);
+        const sellerRatio = this.getNumber(row, 'escrowSellerRatio', 100, errors);
+        if (escrowType === EscrowType.ARBITRATED && (_.isEmpty(row.arbiterAddress) || _.isEmpty(row.arbiterPubkey))) {
+            errors.push('arbiterAddress and arbiterPubkey are required for ARBITRATED escrow.');
+        }
+
+        const cryptocurrencyAddress = _.isEmpty(row.paymentAddress) ? undefined : {
+            type: CryptocurrencyAddressType.NORMAL,
+            address: row.paymentAddress
+        };
+
+        return {
+            profile_id: profile.id,
+            messagingInformation: this.getMessagingInformation(row, errors),
+            listingItemObjects: this.getListingItemObjects(row, errors),
+            itemInformation: {
+                title: row.title,
+                shortDescription: row.shortDescription,
+                longDescription: row.longDescription,
+                itemCategory: itemCategory ? { id: itemCategory.id } : undefined,
+                itemLocation: this.getItemLocation(row, errors),
+                shippingDestinations: this.getShippingDestinations(row, errors)
+            },
+            paymentInformation: {
+                type: paymentType,
+                escrow: {
+                    type: escrowType,
+                    ratio: {
+                        buyer: buyerRatio,
+                        seller: sellerRatio
+                    },
+                    arbiter_address: row.arbiterAddress,
+                    arbiter_pubkey: row.arbiterPubkey
+                },
+                itemPrice: {
+                    currency,
+                    basePrice,
+                    shippingPrice: {
+                        domestic: domesticShippingPrice,
+                        international: internationalShippingPrice
+                    },
+                    cryptocurrencyAddress
+                }
+            }
+        } as ListingItemTemplateCreateRequest;
+    }
+
+    /**
+     * the category can be given by its key, or by a path of category names or keys starting under the root category
+     */
+    private getCategory(category: string | string[], rootCategory: resources.ItemCategory, errors: string[]): resources.ItemCategory | undefined {
+
+        const categoryPath = this.getList(category, ListingItemTemplateImportService.CATEGORY_SEPARATOR);
+        if (_.isEmpty(categoryPath)) {
+            errors.push('category is required.');
+            return undefined;
+        }
+
+        // a single key can be anywhere in the tree
+        if (categoryPath.length === 1) {
+            const found = this.findCategoryByKey(rootCategory, categoryPath[0]);
+            if (found) {
+                return found;
+            }
+        }
+
+        let current: resources.ItemCategory = rootCategory;
+        for (const keyOrName of categoryPath) {
+            const child = _.find(current.ChildItemCategories, (childCategory: resources.ItemCategory) => {
+                return childCategory.key === keyOrName || childCategory.name === keyOrName;
+            });
+            if (!child && current.key !== keyOrName) {
+                errors.push('category not found: ' + categoryPath.join(' ' + ListingItemTemplateImportService.CATEGORY_SEPARATOR + ' ') + '.');
+                return undefined;
+            }
+            current = child || current;
+        }
+        return current;
+    }
+
+    private findCategoryByKey(category: resources.ItemCategory, key: string): resources.ItemCategory | undefined {
+        if (category.key === key) {
+            return category;
+        }
+        for (const child of category.ChildItemCategories || []) {
+            const found = this.findCategoryByKey(child, key);
+            if (found) {
+                return found;
+            }
+        }
+        return undefined;
+    }
+
+    private getItemLocation(row: ListingItemTemplateImportRow, errors: string[]): ItemLocationCreateRequest | undefined {
+        const country = row.locationCountry;
+        if (!country) {
+            if (!_.isEmpty(row.locationAddress) || !_.isEmpty(row.locationMarker)) {
+                errors.push('locationCountry is required with locationAddress and locationMarker.');
+            }
+            return undefined;
+        }
+        const marker = row.locationMarker;
+        if (marker && (typeof marker.lat !== 'number' || typeof marker.lng !== 'number')) {
+            errors.push('locationMarker should have a numeric lat and lng.');
+        }
+        try {
+            return {
+                region: ShippingCountries.convertAndValidate(country),
+                address: row.locationAddress,
+                locationMarker: marker ? {
+                    markerTitle: marker.markerTitle,
+                    markerText: marker.markerText,
+                    lat: marker.lat,
+                    lng: marker.lng
+                } as LocationMarkerCreateRequest : undefined
+            } as ItemLocationCreateRequest;
+        } catch (reason) {
+            errors.push('invalid locationCountry: ' + country + '.');
+            return undefined;
+        }
+    }
+
+    private getShippingDestinations(row: ListingItemTemplateImportRow, errors: string[]): ShippingDestinationCreateRequest[] {
+
+        const shippingDestinations: ShippingDestinationCreateRequest[] = [];
+        for (const destination of this.getList(row.shippingDestinations, ListingItemTemplateImportService.LIST_SEPARATOR)) {
+            const [country, availability] = destination.split(':').map(value => value.trim());
+
+            if (availability && !ShippingAvailability[availability]) {
+                errors.push('invalid shipping availability: ' + destination + '.');
+                continue;
+            }
+            try {
+                shippingDestinations.push({
+                    country: ShippingCountries.convertAndValidate(country),
+                    shippingAvailability: availability || ShippingAvailability.SHIPS
+                } as ShippingDestinationCreateRequest);
+            } catch (reason) {
+                errors.push('invalid shipping destination country: ' + country + '.');
+            }
+        }
+        return shippingDestinations;
+    }
+
+    private getMessagingInformation(row: ListingItemTemplateImportRow, errors: string[]): MessagingInformationCreateRequest[] {
+        return _.map(this.getArray(row, 'messagingInformation', errors), messagingInformation => {
+            if (!MessagingProtocolType[messagingInformation.protocol] || _.isEmpty(messagingInformation.publicKey)) {
+                errors.push('messagingInformation should have a protocol of ' + Object.keys(MessagingProtocolType).join(', ')
+                    + ' and a publicKey.');
+            }
+            return {
+                protocol: messagingInformation.protocol,
+                publicKey: messagingInformation.publicKey
+            } as MessagingInformationCreateRequest;
+        });
+    }
+
+    private getListingItemObjects(row: ListingItemTemplateImportRow, errors: string[]): ListingItemObjectCreateRequest[] {
+        return _.map(this.getArray(row, 'listingItemObjects', errors), object => {
+            if (!ListingItemObjectType[object.type] || _.isEmpty(object.description) || typeof object.order !== 'number') {
+                errors.push('listingItemObjects should have a type of ' + Object.keys(ListingItemObjectType).join(', ')
+                    + ', a description and a numeric order.');
+            }
+            return {
+                type: object.type,
+                description: object.description,
+                order: object.order,
+                listingItemObjectDatas: _.map(object.listingItemObjectDatas || [], (objectData: any) => {
+                    return {
+                        key: objectData.key,
+                        value: objectData.value
+                    };
+                })
+            } as ListingItemObjectCreateRequest;
+        });
+    }
+
+    /**
+     * image urls are loaded only when importing, on dry run it's checked that the image files exist
+     */
+    private getImages(row: ListingItemTemplateImportRow, imageDir: string, errors: string[]): ListingItemTemplateImportImage[] {
+
+        const images: Array<string | ListingItemTemplateImportImage> = typeof row.images === 'string'
+            ? this.getList(row.images, ListingItemTemplateImportService.LIST_SEPARATOR)
+            : row.images || [];
+
+        return images.map(value => {
+            const image: ListingItemTemplateImportImage = typeof value === 'string' ? { source: value.trim() } : value;
+
+            if (!_.isEmpty(image.data)) {
+                return image;
+            } else if (_.isEmpty(image.source)) {
+                errors.push('images should have a source or data.');
+                return image;
+            }
+
+            const source = image.source as string;
+            if (this.isUrl(source)) {
+                return image;
+            }
+            const imagePath = path.resolve(imageDir, source);
+            if (!fs.existsSync(imagePath)) {
+                errors.push('image file not found: ' + source + '.');
+            }
+            return { ...image, source: imagePath };
+        });
+    }
+
+    private async loadImage(image: ListingItemTemplateImportImage): Promise<ItemImageCreateRequest> {
+
+        const source = image.source || '';
+        let data = image.data;
+        let mime = image.mime || null;
+        if (!data && this.isUrl(source)) {
+            const response = await this.download(source);
+            data = response.body.toString('base64');
+            mime = mime || response.headers['content-type'] || null;
+        } else if (!data) {
+            data = fs.readFileSync(source, 'base64');
+        }
+
+        return {
+            datas: [{
+                dataId: image.name || source,
+                protocol: ImageDataProtocolType.LOCAL,
+                encoding: 'BASE64',
+                data,
+                imageVersion: ImageVersions.ORIGINAL.propName,
+                originalMime: mime,
+                originalName: image.name || path.basename(source)
+            } as ItemImageDataCreateRequest]
+        } as ItemImageCreateRequest;
+    }
+
+    private async download(url: string): Promise<Request.RequestResponse> {
+        return new Promise<Request.RequestResponse>((resolve, reject) => {
+            this.apiRequest.get(url, { encoding: null }, (error: any, response: Request.RequestResponse) => {
+                if (error || response.statusCode !== 200) {
+                    this.log.error('failed to download image ' + url + ': ', error || response.statusCode);
+                    reject(new MessageException('Failed to download image: ' + url));
+                } else {
+                    resolve(response);
+                }
+            });
+        });
+    }
+
+    private isUrl(source: string): boolean {
+        return /^https?:\/\//i.test(source);
+    }
+
+    private getEnum(row: ListingItemTemplateImportRow, field: string, enumType: any, defaultValue: string, errors: string[]): string {
+        const value = row[field];
+        if (value === undefined || value === null || value === '') {
+            return defaultValue;
+        } else if (!enumType[value]) {
+            errors.push(field + ' should be one of ' + Object.keys(enumType).join(', ') + '.');
+        }
+        return value;
+    }
+
+    private getNumber(row: ListingItemTemplateImportRow, field: string, defaultValue: number | undefined, errors: string[]): number {
+        const value = row[field];
+        if (value === undefined || value === null || value === '') {
+            if (defaultValue === undefined) {
+                errors.push(field + ' is required.');
+            }
+            return defaultValue as number;
+        }
+
+        const numberValue = typeof value === 'number' ? value : Number(value);
+        if (typeof value === 'boolean' || isNaN(numberValue) || numberValue < 0) {
+            errors.push(field + ' should be a positive number.');
+        }
+        return numberValue;
+    }
+
+    private getArray(row: ListingItemTemplateImportRow, field: string, errors: string[]): any[] {
+        const value = row[field];
+        if (value === undefined || value === null) {
+            return [];
+        } else if (!_.isArray(value) || !_.every(value, item => _.isPlainObject(item))) {
+            errors.push(field + ' should be an array of objects.');
+            return [];
+        }
+        return value;
+    }
+
+    private getList(value: string | string[] | undefined, separator: string): string[] {
+        const list = _.isArray(value) ? value : (typeof value === 'string' ? value.split(separator) : []);
+        return list.map(item => String(item).trim()).filter(item => item !== '');
+    }
+}
@@ -0,0 +1,146 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { validate, request } from '../../core/api/Validate';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { ListingItemTemplateRevisionRepository } from '../repositories/ListingItemTemplateRevisionRepository';
+import { ListingItemTemplateRevision } from '../models/ListingItemTemplateRevision';
+import { ListingItemTemplateRevisionCreateRequest } from '../requests/ListingItemTemplateRevisionCreateRequest';
+
+export class ListingItemTemplateRevisionService {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Repository) @named(Targets.Repository.ListingItemTemplateRevisionRepository)
+        public listingItemTemplateRevisionRepo: ListingItemTemplateRevisionRepository,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<ListingItemTemplateRevision>> {
+        return this.listingItemTemplateRevisionRepo.findAll();
+    }
+
+    /**
+     * the revisions of the ListingItemTemplate, oldest first
+     *
+     * @param {number} listingItemTemplateId
+     * @param {boolean} withRelated
+     * @returns {Promise<Bookshelf.Collection<ListingItemTemplateRevision>>}
+     */
+    public async findAllByListingItemTemplateId(listingItemTemplateId: number,
+                                                withRelated: boolean = true): Promise<Bookshelf.Collection<ListingItemTemplateRevision>> {
+        return await this.listingItemTemplateRevisionRepo.findAllByListingItemTemplateId(listingItemTemplateId, withRelated);
+    }
+
+    /**
+     * the latest revision with the given ListingItemTemplate hash, which is also the hash of the ListingItem posted from it
+     *
+     * @param {string} hash
+     * @param {boolean} withRelated
+     * @returns {Promise<ListingItemTemplateRevision>}
+     */
+    public async findLatestByHash(hash: string, withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        const revision = await this.listingItemTemplateRevisionRepo.findLatestByHash(hash, withRelated);
+        if (revision === null) {
+            this.log.warn(`ListingItemTemplateRevision with the hash=${hash} was not found!`);
+            throw new NotFoundException(hash);
+        }
+        return revision;
+    }
+
+    /**
+     * the revision of the ListingItemTemplate the ListingItemMessage with the given content hash was posted from
+     *
+     * @param {number} listingItemTemplateId
+     * @param {string} messageHash
+     * @param {boolean} withRelated
+     * @returns {Promise<ListingItemTemplateRevision>}
+     */
+    public async findOneByMessageHash(listingItemTemplateId: number, messageHash: string,
+                                      withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        const revision = await this.listingItemTemplateRevisionRepo.findOneByMessageHash(listingItemTemplateId, messageHash, withRelated);
+        if (revision === null) {
+            this.log.warn(`ListingItemTemplateRevision with the messageHash=${messageHash} was not found!`);
+            throw new NotFoundException(messageHash);
+        }
+        return revision;
+    }
+
+    public async findOne(id: number, withRelated: boolean = true): Promise<ListingItemTemplateRevision> {
+        const revision = await this.listingItemTemplateRevisionRepo.findOne(id, withRelated);
+        if (revision === null) {
+            this.log.warn(`ListingItemTemplateRevision with the id=${id} was not found!`);
+            throw new NotFoundException(id);
+        }
+        return revision;
+    }
+
+    @validate()
+    public async create(
+        @request(ListingItemTemplateRevisionCreateRequest) data: ListingItemTemplateRevisionCreateRequest): Promise<ListingItemTemplateRevision> {
+
+        const body = JSON.parse(JSON.stringify(data));
+
+        // If the request body was valid we will create the revision
+        const revision = await this.listingItemTemplateRevisionRepo.create(body);
+
+        // finally find and return the created revision
+        return await this.findOne(revision.id);
+    }
+
+    /**
+     * stores the current state of the ListingItemTemplate as its next revision, unless it's unchanged since the
+     * latest revision. the revision being posted gets the content hash of the message, which the received
+     * ListingItem is matched with.
+     *
+     * @param {module:resources.ListingItemTemplate} listingItemTemplate, with related
+     * @param {string} messageHash, content hash of the ListingItemMessage posted from the template
+     * @returns {Promise<ListingItemTemplateRevision>}
+     */
+    public async snapshot(listingItemTemplate: resources.ListingItemTemplate, messageHash?: string): Promise<ListingItemTemplateRevision> {
+
+        const revisions: resources.ListingItemTemplateRevision[] = await this.findAllByListingItemTemplateId(listingItemTemplate.id, false)
+            .then(value => value.toJSON());
+        const latest = _.last(revisions);
+        const data = this.getSnapshotData(listingItemTemplate);
+
+        if (latest && latest.data === data && (!messageHash || latest.messageHash === messageHash)) {
+            return await this.findOne(latest.id);
+        }
+
+        this.log.debug('creating revision ' + (latest ? latest.revision + 1 : 1) + ' of ListingItemTemplate: ' + listingItemTemplate.id);
+        return await this.create({
+            listing_item_template_id: listingItemTemplate.id,
+            revision: latest ? latest.revision + 1 : 1,
+            hash: listingItemTemplate.hash,
+            data,
+            message_hash: messageHash
+        } as ListingItemTemplateRevisionCreateRequest);
+    }
+
+    public async destroy(id: number): Promise<void> {
+        await this.listingItemTemplateRevisionRepo.destroy(id);
+    }
+
+    /**
+     * the ListingItemTemplate without the Profile and the ListingItems posted from it. the timestamps are left out as
+     * they change on every save, and the image files are referred to by the image hash.
+     */
+    private getSnapshotData(listingItemTemplate: resources.ListingItemTemplate): string {
+        const snapshot = _.omit(listingItemTemplate, ['Profile', 'ListingItems']);
+        return JSON.stringify(snapshot, (key, value) => {
+            return key === 'createdAt' || key === 'updatedAt' || key === 'data' ? undefined : value;
+        });
+    }
+
+}
@@ -0,0 +1,274 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { validate, request } from '../../core/api/Validate';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { ListingItemTemplateScheduleRepository } from '../repositories/ListingItemTemplateScheduleRepository';
+import { ListingItemTemplateSchedule } from '../models/ListingItemTemplateSchedule';
+import { ListingItemTemplateScheduleCreateRequest } from '../requests/ListingItemTemplateScheduleCreateRequest';
+import { ListingItemTemplateScheduleUpdateRequest } from '../requests/ListingItemTemplateScheduleUpdateRequest';
+import { ListingItemTemplateScheduleSearchParams } from '../requests/ListingItemTemplateScheduleSearchParams';
+import { ListingItemTemplateScheduleStatus } from '../enums/ListingItemTemplateScheduleStatus';
+import { ListingItemTemplatePostRequest } from '../requests/ListingItemTemplatePostRequest';
+import { SearchOrder } from '../enums/SearchOrder';
+import { ListingItemActionService } from './ListingItemActionService';
+import { ListingItemTemplateService } from './ListingItemTemplateService';
+
+export class ListingItemTemplateScheduleService {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.ListingItemActionService) private listingItemActionService: ListingItemActionService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) private listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Repository) @named(Targets.Repository.ListingItemTemplateScheduleRepository)
+        public listingItemTemplateScheduleRepo: ListingItemTemplateScheduleRepository,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<ListingItemTemplateSchedule>> {
+        return this.listingItemTemplateScheduleRepo.findAll();
+    }
+
+    public async findOne(id: number, withRelated: boolean = true): Promise<ListingItemTemplateSchedule> {
+        const schedule = await this.listingItemTemplateScheduleRepo.findOne(id, withRelated);
+        if (schedule === null) {
+            this.log.warn(`ListingItemTemplateSchedule with the id=${id} was not found!`);
+            throw new NotFoundException(id);
+        }
+        return schedule;
+    }
+
+    public async findOneByListingItemTemplateId(listingItemTemplateId: number, withRelated: boolean = true): Promise<ListingItemTemplateSchedule> {
+        const schedule = await this.listingItemTemplateScheduleRepo.findOneByListingItemTemplateId(listingItemTemplateId, withRelated);
+        if (schedule === null) {
+            this.log.warn(`ListingItemTemplateSchedule with the listingItemTemplateId=${listingItemTemplateId} was not found!`);
+            throw new NotFoundException(listingItemTemplateId);
+        }
+        return schedule;
+    }
+
+    public async searchBy(options: ListingItemTemplateScheduleSearchParams,
+                          withRelated: boolean = true): Promise<Bookshelf.Collection<ListingItemTemplateSchedule>> {
+        return await this.listingItemTemplateScheduleRepo.searchBy(options, withRelated);
+    }
+
+    @validate()
+    public async create( @request(ListingItemTemplateScheduleCreateRequest) data: ListingItemTemplateScheduleCreateRequest):
+        Promise<ListingItemTemplateSchedule> {
+
+        const body = JSON.parse(JSON.stringify(data));
+        // this.log.debug('create ListingItemTemplateSchedule, body: ', JSON.stringify(body, null, 2));
+
+        const schedule = await this.listingItemTemplateScheduleRepo.create(body);
+        return await this.findOne(schedule.id);
+    }
+
+    @validate()
+    public async update(id: number, @request(ListingItemTemplateScheduleUpdateRequest) body: ListingItemTemplateScheduleUpdateRequest):
+        Promise<ListingItemTemplateSchedule> {
+
+        // find the existing one without related
+        const schedule = await this.findOne(id, false);
+
+        // set new values
+        schedule.set('marketId', body.marketId);
+        schedule.Status = body.status;
+        schedule.PostAt = body.postAt;
+        schedule.DaysRetention = body.daysRetention;
+        schedule.FeesSpent = body.feesSpent;
+        schedule.PostCount = body.postCount;
+        schedule.LastPostedAt = body.lastPostedAt;
+        schedule.ExpiresAt = body.expiresAt;
+
+        // the optional values are cleared when not given
+        schedule.set('repostBeforeExpiry', body.repostBeforeExpiry || null);
+        schedule.set('feeBudget', body.feeBudget || null);
+        schedule.set('reason', body.reason || null);
+
+        // update schedule record
+        return await this.listingItemTemplateScheduleRepo.update(id, schedule.toJSON());
+    }
+
+    public async destroy(id: number): Promise<void> {
+        await this.listingItemTemplateScheduleRepo.destroy(id);
+    }
+
+    /**
+     * schedules the ListingItemTemplate to be posted at postAt, rescheduling replaces the previous schedule
+     * of the template but keeps track of the fees already spent on it
+     *
+     * @param {module:resources.ListingItemTemplate} listingItemTemplate
+     * @param {module:resources.Market} market
+     * @param {number} postAt
+     * @param {number} daysRetention
+     * @param {number} repostBeforeExpiry, hours before the expiry of the posted ListingItem to repost it
+     * @param {number} feeBudget, max total fees to spend on posting the template
+     * @returns {Promise<ListingItemTemplateSchedule>}
+     */
+    public async schedule(listingItemTemplate: resources.ListingItemTemplate, market: resources.Market, postAt: number, daysRetention: number,
+                          repostBeforeExpiry?: number, feeBudget?: number): Promise<ListingItemTemplateSchedule> {
+
+        const existingSchedule: resources.ListingItemTemplateSchedule | null = await this.findOneByListingItemTemplateId(listingItemTemplate.id, false)
+            .then(value => value.toJSON())
+            .catch(reason => null);
+
+        if (existingSchedule) {
+            return await this.update(existingSchedule.id, {
+                ...this.getUpdateRequest(existingSchedule),
+                marketId: market.id,
+                status: ListingItemTemplateScheduleStatus.SCHEDULED,
+                postAt,
+                daysRetention,
+                repostBeforeExpiry,
+                feeBudget
+            } as ListingItemTemplateScheduleUpdateRequest);
+        }
+
+        return await this.create({
+            listing_item_template_id: listingItemTemplate.id,
+            market_id: market.id,
+            status: ListingItemTemplateScheduleStatus.SCHEDULED,
+            post_at: postAt,
+            days_retention: daysRetention,
+            repost_before_expiry: repostBeforeExpiry,
+            fee_budget: feeBudget
+        } as ListingItemTemplateScheduleCreateRequest);
+    }
+
+    /**
+     * stops posting the ListingItemTemplate, the already posted ListingItem stays until it expires
+     *
+     * @param {module:resources.ListingItemTemplateSchedule} schedule
+     * @returns {Promise<ListingItemTemplateSchedule>}
+     */
+    public async cancel(schedule: resources.ListingItemTemplateSchedule): Promise<ListingItemTemplateSchedule> {
+        return await this.update(schedule.id, {
+            ...this.getUpdateRequest(schedule),
+            status: ListingItemTemplateScheduleStatus.CANCELLED
+        } as ListingItemTemplateScheduleUpdateRequest);
+    }
+
+    /**
+     * posts the SCHEDULED templates which are due to be posted
+     *
+     * @returns {Promise<void>}
+     */
+    public async postDue(): Promise<void> {
+
+        const searchParams = {
+            order: SearchOrder.ASC,
+            status: ListingItemTemplateScheduleStatus.SCHEDULED,
+            page: 0,
+            pageLimit: 100,
+            postAt: Date.now()
+        } as ListingItemTemplateScheduleSearchParams;
+
+        const schedules: resources.ListingItemTemplateSchedule[] = await this.searchBy(searchParams, false).then(value => value.toJSON());
+        for (const schedule of schedules) {
+            await this.post(schedule);
+        }
+    }
+
+    /**
+     * posts the ListingItemTemplate unless the fee would exceed the fee budget, and schedules the next repost
+     * in case the template should be reposted before the posted ListingItem expires
+     *
+     * @param {module:resources.ListingItemTemplateSchedule} schedule
+     * @returns {Promise<ListingItemTemplateSchedule>}
+     */
+    public async post(schedule: resources.ListingItemTemplateSchedule): Promise<ListingItemTemplateSchedule> {
+
+        const updateRequest = this.getUpdateRequest(schedule);
+
+        try {
+            const listingItemTemplate: resources.ListingItemTemplate = await this.listingItemTemplateService.findOne(schedule.listingItemTemplateId)
+                .then(value => value.toJSON());
+
+            // the seller has removed the posted ListingItem, so it shouldn't be brought back
+            const removed = _.find(listingItemTemplate.ListingItems || [], (listingItem: resources.ListingItem) => {
+                return listingItem.hash === listingItemTemplate.hash && listingItem.removed;
+            });
+            if (removed) {
+                return await this.update(schedule.id, {
+                    ...updateRequest,
+                    status: ListingItemTemplateScheduleStatus.CANCELLED,
+                    reason: 'The posted ListingItem has been removed.'
+                } as ListingItemTemplateScheduleUpdateRequest);
+            }
+
+            const postRequest = {
+                listingItemTemplateId: schedule.listingItemTemplateId,
+                marketId: schedule.marketId,
+                daysRetention: schedule.daysRetention
+            } as ListingItemTemplatePostRequest;
+
+            const estimatedFee = await this.listingItemActionService.post(postRequest, true).then(value => value.fee || 0);
+            const feesSpent = schedule.feesSpent || 0;
+
+            if (schedule.feeBudget && feesSpent + estimatedFee > schedule.feeBudget) {
+                this.log.warn('ListingItemTemplateSchedule ' + schedule.id + ' exceeded the fee budget.');
+                return await this.update(schedule.id, {
+                    ...updateRequest,
+                    status: ListingItemTemplateScheduleStatus.BUDGET_EXCEEDED,
+                    reason: 'Posting would cost ' + estimatedFee + ', ' + (schedule.feeBudget - feesSpent) + ' left of the fee budget.'
+                } as ListingItemTemplateScheduleUpdateRequest);
+            }
+
+            const response = await this.listingItemActionService.post(postRequest, false);
+
+            const postedAt = Date.now();
+            const expiresAt = postedAt + schedule.daysRetention * 24 * 60 * 60 * 1000;
+            const repost = !!schedule.repostBeforeExpiry;
+
+            this.log.debug('ListingItemTemplateSchedule ' + schedule.id + ' posted, msgid: ' + response.msgid);
+            return await this.update(schedule.id, {
+                ...updateRequest,
+                status: repost ? ListingItemTemplateScheduleStatus.SCHEDULED : ListingItemTemplateScheduleStatus.POSTED,
+                postAt: repost ? expiresAt - schedule.repostBeforeExpiry * 60 * 60 * 1000 : schedule.postAt,
+                feesSpent: feesSpent + (response.fee || estimatedFee),
+                postCount: (schedule.postCount || 0) + 1,
+                lastPostedAt: postedAt,
+                expiresAt
+            } as ListingItemTemplateScheduleUpdateRequest);
+
+        } catch (reason) {
+            this.log.error('ListingItemTemplateSchedule ' + schedule.id + ' failed to post: ' + reason.message);
+            return await this.update(schedule.id, {
+                ...updateRequest,
+                status: ListingItemTemplateScheduleStatus.FAILED,
+                reason: reason.message
+            } as ListingItemTemplateScheduleUpdateRequest);
+        }
+    }
+
+    /**
+     * the current values of the schedule, except for the reason which only explains the current status
+     *
+     * @param {module:resources.ListingItemTemplateSchedule} schedule
+     * @returns {ListingItemTemplateScheduleUpdateRequest}
+     */
+    private getUpdateRequest(schedule: resources.ListingItemTemplateSchedule): ListingItemTemplateScheduleUpdateRequest {
+        return {
+            marketId: schedule.marketId,
+            status: schedule.status as ListingItemTemplateScheduleStatus,
+            postAt: schedule.postAt,
+            daysRetention: schedule.daysRetention,
+            repostBeforeExpiry: schedule.repostBeforeExpiry,
+            feeBudget: schedule.feeBudget,
+            feesSpent: schedule.feesSpent,
+            postCount: schedule.postCount,
+            lastPostedAt: schedule.lastPostedAt,
+            expiresAt: schedule.expiresAt
+        } as ListingItemTemplateScheduleUpdateRequest;
+    }
+}
@@ -39,7 +39,9 @@ import { ListingItemFactory } from '../factories/ListingItemFactory';
 import { ImageFactory } from '../factories/ImageFactory';
 import { ItemImageDataService } from './ItemImageDataService';
 import { ItemImageService } from './ItemImageService';
+import { ListingItemTemplateRevisionService } from './ListingItemTemplateRevisionService';
 import {ItemImage} from '../models/ItemImage';
+import { ItemImageCreateRequest } from '../requests/ItemImageCreateRequest';
 
 export class ListingItemTemplateService {
 
@@ -61,6 +63,8 @@ export class ListingItemTemplateService {
         @inject(Types.Service) @named(Targets.Service.PaymentInformationService) public paymentInformationService: PaymentInformationService,
         @inject(Types.Service) @named(Targets.Service.MessagingInformationService) public messagingInformationService: MessagingInformationService,
         @inject(Types.Service) @named(Targets.Service.ListingItemObjectService) public listingItemObjectService: ListingItemObjectService,
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateRevisionService)
+        public listingItemTemplateRevisionService: ListingItemTemplateRevisionService,
         @inject(Types.Factory) @named(Targets.Factory.ListingItemFactory) private listingItemFactory: ListingItemFactory,
         @inject(Types.Factory) @named(Targets.Factory.ImageFactory) private imageFactory: ImageFactory,
         @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
@@ -165,12 +169,27 @@ export class ListingItemTemplateService {
 
     }
 
+    /**
+     * updates the ListingItemTemplate, if it has been posted, the state it was in and the updated state are stored
+     * as ListingItemTemplateRevisions
+     *
+     * @param {number} id
+     * @param {ListingItemTemplateUpdateRequest} data
+     * @returns {Promise<ListingItemTemplate>}
+     */
     @validate()
     public async update(id: number, @request(ListingItemTemplateUpdateRequest) data: ListingItemTemplateUpdateRequest): Promise<ListingItemTemplate> {
         const body = JSON.parse(JSON.stringify(data));
 
         body.hash = ObjectHash.getHash(body, HashableObjectType.LISTINGITEMTEMPLATE_CREATEREQUEST);
 
+        // templates posted before the revisions were taken don't have a revision of the posted state yet
+        const existingListingItemTemplate: resources.ListingItemTemplate = await this.findOne(id).then(value => value.toJSON());
+        const posted = !_.isEmpty(existingListingItemTemplate.ListingItems);
+        if (posted) {
+            await this.listingItemTemplateRevisionService.snapshot(existingListingItemTemplate);
+        }
+
         // find the existing one without related
         const listingItemTemplate = await this.findOne(id, false);
         // set new values
@@ -271,8 +290,130 @@ export class ListingItemTemplateService {
             }
         }
 
+        const result = await this.findOne(id);
+        if (posted) {
+            await this.listingItemTemplateRevisionService.snapshot(result.toJSON());
+        }
+
         // finally find and return the updated listingItem
-        return await this.findOne(id);
+        return result;
+    }
+
+    /**
+     * creates a copy of the ListingItemTemplate with all of its related data and images, the copy gets a timestamped
+     * hash so that it can be posted in addition to the original
+     *
+     * @param {module:resources.ListingItemTemplate} listingItemTemplate
+     * @returns {Promise<ListingItemTemplate>}
+     */
+    public async clone(listingItemTemplate: resources.ListingItemTemplate): Promise<ListingItemTemplate> {
+
+        const itemInformation = listingItemTemplate.ItemInformation;
+        const paymentInformation = listingItemTemplate.PaymentInformation;
+
+        const itemImages: ItemImageCreateRequest[] = [];
+        for (const itemImage of itemInformation ? itemInformation.ItemImages : []) {
+            const original = _.find(itemImage.ItemImageDatas, imageData => imageData.imageVersion === ImageVersions.ORIGINAL.propName);
+            if (!original) {
+                throw new MessageException('Original image data not found.');
+            }
+            itemImages.push({
+                datas: [{
+                    dataId: original.dataId,
+                    protocol: original.protocol,
+                    encoding: original.encoding,
+                    data: await this.itemImageDataService.loadImageFile(original.imageHash, original.imageVersion),
+                    imageVersion: original.imageVersion,
+                    originalMime: original.originalMime,
+                    originalName: original.originalName
+                } as ItemImageDataCreateRequest]
+            } as ItemImageCreateRequest);
+        }
+
+        const createRequest = {
+            profile_id: listingItemTemplate.Profile.id,
+            itemInformation: _.isEmpty(itemInformation) ? undefined : {
+                title: itemInformation.title,
+                shortDescription: itemInformation.shortDescription,
+                longDescription: itemInformation.longDescription,
+                itemCategory: itemInformation.ItemCategory ? { id: itemInformation.ItemCategory.id } : undefined,
+                itemLocation: _.isEmpty(itemInformation.ItemLocation) ? undefined : {
+                    region: itemInformation.ItemLocation.region,
+                    address: itemInformation.ItemLocation.address,
+                    locationMarker: _.isEmpty(itemInformation.ItemLocation.LocationMarker) ? undefined : {
+                        markerTitle: itemInformation.ItemLocation.LocationMarker.markerTitle,
+                        markerText: itemInformation.ItemLocation.LocationMarker.markerText,
+                        lat: itemInformation.ItemLocation.LocationMarker.lat,
+                        lng: itemInformation.ItemLocation.LocationMarker.lng
+                    }
+                },
+                shippingDestinations: _.map(itemInformation.ShippingDestinations, destination => {
+                    return {
+                        country: destination.country,
+                        shippingAvailability: destination.shippingAvailability
+                    };
+                }),
+                itemImages
+            },
+            paymentInformation: _.isEmpty(paymentInformation) ? undefined : {
+                type: paymentInformation.type,
+                escrow: _.isEmpty(paymentInformation.Escrow) ? undefined : {
+                    type: paymentInformation.Escrow.type,
+                    ratio: _.isEmpty(paymentInformation.Escrow.Ratio) ? undefined : {
+                        buyer: paymentInformation.Escrow.Ratio.buyer,
+                        seller: paymentInformation.Escrow.Ratio.seller
+                    },
+                    arbiter_address: paymentInformation.Escrow.arbiterAddress,
+                    arbiter_pubkey: paymentInformation.Escrow.arbiterPubkey
+                },
+                itemPrice: _.isEmpty(paymentInformation.ItemPrice) ? undefined : {
+                    currency: paymentInformation.ItemPrice.currency,
+                    basePrice: paymentInformation.ItemPrice.basePrice,
+                    shippingPrice: _.isEmpty(paymentInformation.ItemPrice.ShippingPrice) ? undefined : {
+                        domestic: paymentInformation.ItemPrice.ShippingPrice.domestic,
+                        international: paymentInformation.ItemPrice.ShippingPrice.international
+                    },
+                    cryptocurrencyAddress: _.isEmpty(paymentInformation.ItemPrice.CryptocurrencyAddress) ? undefined : {
+                        type: paymentInformation.ItemPrice.CryptocurrencyAddress.type,
+                        address: paymentInformation.ItemPrice.CryptocurrencyAddress.address
+                    }
+                }
+            },
+            messagingInformation: _.map(listingItemTemplate.MessagingInformation, messagingInformation => {
+                return {
+                    protocol: messagingInformation.protocol,
+                    publicKey: messagingInformation.publicKey
+                };
+            }),
+            listingItemObjects: _.map(listingItemTemplate.ListingItemObjects, object => {
+                return {
+                    type: object.type,
+                    description: object.description,
+                    order: object.order,
+                    listingItemObjectDatas: _.map(object.ListingItemObjectDatas, objectData => {
+                        return {
+                            key: objectData.key,
+                            value: objectData.value
+                        };
+                    })
+                };
+            })
+        } as ListingItemTemplateCreateRequest;
+
+        const clonedTemplate: resources.ListingItemTemplate = await this.create(createRequest, true).then(value => value.toJSON());
+
+        if (!_.isEmpty(itemImages)) {
+            // the images are created in the same order, so the featured one is found by its position
+            await this.createResizedTemplateImages(clonedTemplate);
+            const featuredIndex = _.findIndex(itemInformation.ItemImages, itemImage => itemImage.featured);
+            const clonedImages = _.sortBy(clonedTemplate.ItemInformation.ItemImages, itemImage => itemImage.id);
+            if (featuredIndex !== -1) {
+                await this.setFeaturedImage(clonedTemplate, clonedImages[featuredIndex].id);
+            }
+        }
+
+        this.log.debug('cloned ListingItemTemplate ' + listingItemTemplate.id + ' as ' + clonedTemplate.id);
+        return await this.findOne(clonedTemplate.id);
     }
 
     public async destroy(id: number): Promise<void> {
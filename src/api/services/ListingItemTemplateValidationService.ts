@@ -0,0 +1,235 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { ListingItemTemplateService } from './ListingItemTemplateService';
+import { ListingItemTemplateValidationResponse } from '../responses/ListingItemTemplateValidationResponse';
+import { ListingItemTemplateValidationIssue } from '../responses/ListingItemTemplateValidationIssue';
+import { ListingItemTemplateValidationRule } from '../enums/ListingItemTemplateValidationRule';
+import { ShippingAvailability } from '../enums/ShippingAvailability';
+import { PaymentType } from '../enums/PaymentType';
+import { EscrowType } from '../enums/EscrowType';
+import { ImageVersions } from '../../core/helpers/ImageVersionEnumType';
+
+/**
+ * Runs the rules a ListingItemTemplate should pass before it's posted.
+ *
+ * Errors mean the posted ListingItem would be broken or couldn't be bought, so the template can't be posted.
+ * Warnings point out things which are most likely a mistake, but which don't prevent posting.
+ */
+export class ListingItemTemplateValidationService {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.ListingItemTemplateService) private listingItemTemplateService: ListingItemTemplateService,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    /**
+     * @param {module:resources.ListingItemTemplate} listingItemTemplate, with related
+     * @returns {Promise<ListingItemTemplateValidationResponse>}
+     */
+    public async validate(listingItemTemplate: resources.ListingItemTemplate): Promise<ListingItemTemplateValidationResponse> {
+
+        const response = {
+            listingItemTemplateId: listingItemTemplate.id,
+            valid: false,
+            errors: [],
+            warnings: []
+        } as ListingItemTemplateValidationResponse;
+
+        this.validateRequiredFields(listingItemTemplate, response);
+        this.validatePrice(listingItemTemplate, response);
+        this.validateEscrow(listingItemTemplate, response);
+        this.validateShippingDestinations(listingItemTemplate, response);
+        this.validateImages(listingItemTemplate, response);
+
+        // the message can only be built from a template having the required fields
+        if (_.isEmpty(response.errors)) {
+            await this.validateMessageSize(listingItemTemplate, response);
+        }
+
+        response.valid = _.isEmpty(response.errors);
+        return response;
+    }
+
+    private validateRequiredFields(listingItemTemplate: resources.ListingItemTemplate, response: ListingItemTemplateValidationResponse): void {
+        const rule = ListingItemTemplateValidationRule.REQUIRED_FIELDS;
+        const itemInformation = listingItemTemplate.ItemInformation;
+
+        if (_.isEmpty(itemInformation)) {
+            this.addError(response, rule, 'ItemInformation', 'ItemInformation is missing.');
+        } else {
+            for (const field of ['title', 'shortDescription', 'longDescription']) {
+                if (_.isEmpty(_.trim(itemInformation[field]))) {
+                    this.addError(response, rule, 'ItemInformation.' + field, 'ItemInformation ' + field + ' is missing.');
+                }
+            }
+            if (_.isEmpty(itemInformation.ItemCategory)) {
+                this.addError(response, rule, 'ItemInformation.ItemCategory', 'ItemCategory is missing.');
+            }
+            if (_.isEmpty(itemInformation.ItemLocation)) {
+                this.addWarning(response, rule, 'ItemInformation.ItemLocation', 'ItemLocation is missing.');
+            }
+        }
+
+        if (_.isEmpty(listingItemTemplate.PaymentInformation)) {
+            this.addError(response, rule, 'PaymentInformation', 'PaymentInformation is missing.');
+        } else if (!PaymentType[listingItemTemplate.PaymentInformation.type]) {
+            this.addError(response, rule, 'PaymentInformation.type', 'PaymentInformation type is missing or invalid.');
+        }
+    }
+
+    private validatePrice(listingItemTemplate: resources.ListingItemTemplate, response: ListingItemTemplateValidationResponse): void {
+        const rule = ListingItemTemplateValidationRule.PRICE;
+        const paymentInformation = listingItemTemplate.PaymentInformation;
+
+        if (_.isEmpty(paymentInformation) || paymentInformation.type !== PaymentType.SALE) {
+            return;
+        }
+
+        const itemPrice = paymentInformation.ItemPrice;
+        if (_.isEmpty(itemPrice)) {
+            this.addError(response, rule, 'PaymentInformation.ItemPrice', 'ItemPrice is missing.');
+            return;
+        }
+
+        if (!itemPrice.basePrice || itemPrice.basePrice <= 0) {
+            this.addError(response, rule, 'PaymentInformation.ItemPrice.basePrice', 'basePrice should be greater than zero.');
+        }
+        if (_.isEmpty(itemPrice.currency)) {
+            this.addError(response, rule, 'PaymentInformation.ItemPrice.currency', 'currency is missing.');
+        }
+
+        const shippingPrice = itemPrice.ShippingPrice;
+        if (_.isEmpty(shippingPrice)) {
+            this.addWarning(response, rule, 'PaymentInformation.ItemPrice.ShippingPrice', 'ShippingPrice is missing, shipping will be free.');
+        } else if (shippingPrice.domestic < 0 || shippingPrice.international < 0) {
+            this.addError(response, rule, 'PaymentInformation.ItemPrice.ShippingPrice', 'ShippingPrice can not be negative.');
+        }
+    }
+
+    private validateEscrow(listingItemTemplate: resources.ListingItemTemplate, response: ListingItemTemplateValidationResponse): void {
+        const rule = ListingItemTemplateValidationRule.ESCROW;
+        const paymentInformation = listingItemTemplate.PaymentInformation;
+
+        if (_.isEmpty(paymentInformation) || paymentInformation.type !== PaymentType.SALE) {
+            return;
+        }
+
+        const escrow = paymentInformation.Escrow;
+        if (_.isEmpty(escrow)) {
+            this.addError(response, rule, 'PaymentInformation.Escrow', 'Escrow is missing.');
+            return;
+        }
+
+        if (!EscrowType[escrow.type]) {
+            this.addError(response, rule, 'PaymentInformation.Escrow.type', 'Escrow type is missing or invalid.');
+        } else if (escrow.type === EscrowType.ARBITRATED && (_.isEmpty(escrow.arbiterAddress) || _.isEmpty(escrow.arbiterPubkey))) {
+            this.addError(response, rule, 'PaymentInformation.Escrow', 'ARBITRATED Escrow needs the arbiterAddress and arbiterPubkey.');
+        }
+
+        if (_.isEmpty(escrow.Ratio)) {
+            this.addError(response, rule, 'PaymentInformation.Escrow.Ratio', 'EscrowRatio is missing.');
+        } else if (escrow.Ratio.buyer < 0 || escrow.Ratio.seller < 0) {
+            this.addError(response, rule, 'PaymentInformation.Escrow.Ratio', 'EscrowRatio can not be negative.');
+        }
+    }
+
+    private validateShippingDestinations(listingItemTemplate: resources.ListingItemTemplate, response: ListingItemTemplateValidationResponse): void {
+        const rule = ListingItemTemplateValidationRule.SHIPPING_DESTINATIONS;
+        const field = 'ItemInformation.ShippingDestinations';
+
+        if (_.isEmpty(listingItemTemplate.ItemInformation)) {
+            return;
+        }
+
+        const shippingDestinations: resources.ShippingDestination[] = listingItemTemplate.ItemInformation.ShippingDestinations || [];
+        if (_.isEmpty(shippingDestinations)) {
+            this.addError(response, rule, field, 'ShippingDestinations are missing.');
+            return;
+        }
+
+        // only SHIPS and DOES_NOT_SHIP are included in the posted ListingItem
+        for (const shippingDestination of shippingDestinations) {
+            if (shippingDestination.shippingAvailability !== ShippingAvailability.SHIPS
+                && shippingDestination.shippingAvailability !== ShippingAvailability.DOES_NOT_SHIP) {
+                this.addWarning(response, rule, field, 'ShippingDestination ' + shippingDestination.country + ' is '
+                    + shippingDestination.shippingAvailability + ' and will not be posted.');
+            }
+        }
+
+        const byCountry = _.groupBy(shippingDestinations, 'country');
+        for (const country of Object.keys(byCountry)) {
+            const availabilities = _.uniq(_.map(byCountry[country], 'shippingAvailability'));
+            if (_.includes(availabilities, ShippingAvailability.SHIPS) && _.includes(availabilities, ShippingAvailability.DOES_NOT_SHIP)) {
+                this.addError(response, rule, field, 'ShippingDestination ' + country + ' is both SHIPS and DOES_NOT_SHIP.');
+            } else if (byCountry[country].length > 1) {
+                this.addWarning(response, rule, field, 'ShippingDestination ' + country + ' is listed more than once.');
+            }
+        }
+
+        const shipsTo = _.filter(shippingDestinations, { shippingAvailability: ShippingAvailability.SHIPS });
+        if (_.isEmpty(shipsTo)) {
+            this.addError(response, rule, field, 'There are no ShippingDestinations the item ships to.');
+        }
+    }
+
+    private validateImages(listingItemTemplate: resources.ListingItemTemplate, response: ListingItemTemplateValidationResponse): void {
+        const rule = ListingItemTemplateValidationRule.IMAGES;
+        const field = 'ItemInformation.ItemImages';
+
+        if (_.isEmpty(listingItemTemplate.ItemInformation)) {
+            return;
+        }
+
+        const itemImages: resources.ItemImage[] = listingItemTemplate.ItemInformation.ItemImages || [];
+        if (_.isEmpty(itemImages)) {
+            this.addWarning(response, rule, field, 'There are no ItemImages.');
+            return;
+        }
+
+        for (const itemImage of itemImages) {
+            const original = _.find(itemImage.ItemImageDatas || [], { imageVersion: ImageVersions.ORIGINAL.propName });
+            if (!original) {
+                this.addError(response, rule, field, 'ItemImage ' + itemImage.id + ' has no ORIGINAL image data.');
+            }
+        }
+
+        if (!_.find(itemImages, { featured: true })) {
+            this.addWarning(response, rule, field, 'None of the ItemImages is featured, the first one will be shown.');
+        }
+    }
+
+    private async validateMessageSize(listingItemTemplate: resources.ListingItemTemplate, response: ListingItemTemplateValidationResponse): Promise<void> {
+        const rule = ListingItemTemplateValidationRule.MESSAGE_SIZE;
+
+        const messageSize = await this.listingItemTemplateService.calculateMarketplaceMessageSize(listingItemTemplate)
+            .catch(reason => {
+                this.addError(response, rule, 'ListingItemTemplate', 'Failed to build the message: ' + reason.message);
+                return undefined;
+            });
+
+        if (messageSize && !messageSize.fits) {
+            const imageCount = (listingItemTemplate.ItemInformation.ItemImages || []).length;
+            this.addError(response, rule, 'ListingItemTemplate', 'The message is ' + (-messageSize.spaceLeft) + ' bytes too large, '
+                + messageSize.imageData + ' bytes of it in ' + imageCount + ' images. Compress or remove some of the images.');
+        }
+    }
+
+    private addError(response: ListingItemTemplateValidationResponse, rule: ListingItemTemplateValidationRule, field: string, message: string): void {
+        response.errors.push({ rule, field, message } as ListingItemTemplateValidationIssue);
+    }
+
+    private addWarning(response: ListingItemTemplateValidationResponse, rule: ListingItemTemplateValidationRule, field: string, message: string): void {
+        response.warnings.push({ rule, field, message } as ListingItemTemplateValidationIssue);
+    }
+}
@@ -2,7 +2,9 @@
 // Distributed under the GPL software license, see the accompanying
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
+import * as _ from 'lodash';
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets } from '../../constants';
@@ -14,6 +16,10 @@ import { LockedOutputCreateRequest } from '../requests/LockedOutputCreateRequest
 import { LockedOutputUpdateRequest } from '../requests/LockedOutputUpdateRequest';
 import * as resources from 'resources';
 import { CoreRpcService } from './CoreRpcService';
+import { BidMessageType } from '../enums/BidMessageType';
+import { OrderStatus } from '../enums/OrderStatus';
+import { LockedOutputStatus } from '../enums/LockedOutputStatus';
+import { LockedOutputStatusResponse } from '../responses/LockedOutputStatusResponse';
 
 
 export class LockedOutputService {
@@ -28,12 +34,12 @@ export class LockedOutputService {
         this.log = new Logger(__filename);
     }
 
-    public async findAll(): Promise<Bookshelf.Collection<LockedOutput>> {
-        return this.lockedOutputRepo.findAll();
+    public async findAll(trx?: Knex.Transaction): Promise<Bookshelf.Collection<LockedOutput>> {
+        return this.lockedOutputRepo.findAll(trx);
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<LockedOutput> {
-        const lockedOutput = await this.lockedOutputRepo.findOne(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<LockedOutput> {
+        const lockedOutput = await this.lockedOutputRepo.findOne(id, withRelated, trx);
         if (lockedOutput === null) {
             this.log.warn(`LockedOutput with the id=${id} was not found!`);
             throw new NotFoundException(id);
@@ -41,25 +47,25 @@ export class LockedOutputService {
         return lockedOutput;
     }
 
-    public async findOneByTxId(txid: string, withRelated: boolean = true): Promise<LockedOutput> {
-        const lockedOutput = await this.lockedOutputRepo.findOneByTxId(txid, withRelated);
+    public async findOneByTxId(txid: string, withRelated: boolean = true, trx?: Knex.Transaction): Promise<LockedOutput> {
+        const lockedOutput = await this.lockedOutputRepo.findOneByTxId(txid, withRelated, trx);
         return lockedOutput;
     }
 
     @validate()
-    public async create( @request(LockedOutputCreateRequest) data: LockedOutputCreateRequest): Promise<LockedOutput> {
+    public async create( @request(LockedOutputCreateRequest) data: LockedOutputCreateRequest, trx?: Knex.Transaction): Promise<LockedOutput> {
 
         const body = JSON.parse(JSON.stringify(data));
         // this.log.debug('create LockedOutput, body: ', JSON.stringify(body, null, 2));
 
         // If the request body was valid we will create the lockedOutput
-        const lockedOutput = await this.lockedOutputRepo.create(body).catch(reason => {
+        const lockedOutput = await this.lockedOutputRepo.create(body, trx).catch(reason => {
             this.log.error('error:', reason);
             throw reason;
         });
 
         // finally find and return the created lockedOutput
-        const newLockedOutput = await this.findOne(lockedOutput.id);
+        const newLockedOutput = await this.findOne(lockedOutput.id, true, trx);
         return newLockedOutput;
     }
 
@@ -82,26 +88,26 @@ export class LockedOutputService {
         return updatedLockedOutput;
     }
 
-    public async destroy(id: number): Promise<void> {
-        await this.lockedOutputRepo.destroy(id);
+    public async destroy(id: number, trx?: Knex.Transaction): Promise<void> {
+        await this.lockedOutputRepo.destroy(id, trx);
     }
 
-    public async createLockedOutputs(outputs: LockedOutputCreateRequest[], bidId: number): Promise<resources.LockedOutput[]> {
+    public async createLockedOutputs(outputs: LockedOutputCreateRequest[], bidId: number, trx?: Knex.Transaction): Promise<resources.LockedOutput[]> {
         const lockedOutputs: resources.LockedOutput[] = [];
         for (const selectedOutput of outputs) {
             selectedOutput.bid_id = bidId;
-            const lockedOutputModel = await this.create(selectedOutput);
+            const lockedOutputModel = await this.create(selectedOutput, trx);
             const lockedOutput = lockedOutputModel.toJSON();
             lockedOutputs.push(lockedOutput);
         }
         return lockedOutputs;
     }
 
-    public async destroyLockedOutputs(outputs: resources.LockedOutput[]): Promise<void> {
+    public async destroyLockedOutputs(outputs: resources.LockedOutput[], trx?: Knex.Transaction): Promise<void> {
         for (const selectedOutput of outputs) {
-            const lockedOutput = await this.findOneByTxId(selectedOutput.txid);
+            const lockedOutput = await this.findOneByTxId(selectedOutput.txid, true, trx);
             if (lockedOutput) {
-                await this.destroy(lockedOutput.Id);
+                await this.destroy(lockedOutput.Id, trx);
             }
         }
     }
@@ -127,4 +133,87 @@ export class LockedOutputService {
         return unlocked;
     }
 
+    /**
+     * checks the stored LockedOutputs against the wallet. outputs held by open bids are locked again, since the
+     * wallet may have lost the locks (e.g. after a restart or a wallet rescan), outputs which have been spent or
+     * belong to closed bids are unlocked and removed.
+     *
+     * @param {boolean} dryRun, only report the status of the outputs without changing anything
+     * @returns {Promise<LockedOutputStatusResponse[]>}
+     */
+    public async reconcile(dryRun: boolean = false): Promise<LockedOutputStatusResponse[]> {
+
+        const walletLocked: string[] = await this.coreRpcService.listLockUnspent()
+            .then(outputs => outputs.map(output => output.txid + ':' + output.vout));
+
+        const lockedOutputs: resources.LockedOutput[] = await this.findAll().then(value => value.toJSON());
+        const responses: LockedOutputStatusResponse[] = [];
+
+        for (const output of lockedOutputs) {
+            const lockedOutput: resources.LockedOutput = await this.findOne(output.id).then(value => value.toJSON());
+            const isWalletLocked = _.includes(walletLocked, lockedOutput.txid + ':' + lockedOutput.vout);
+
+            const response = {
+                id: lockedOutput.id,
+                txid: lockedOutput.txid,
+                vout: lockedOutput.vout,
+                amount: lockedOutput.amount,
+                bidId: lockedOutput.bid_id,
+                walletLocked: isWalletLocked,
+                status: await this.getStatus(lockedOutput, isWalletLocked),
+                reconciled: false
+            } as LockedOutputStatusResponse;
+
+            if (!dryRun && response.status !== LockedOutputStatus.LOCKED) {
+                response.reconciled = await this.reconcileOutput(lockedOutput, response.status, isWalletLocked)
+                    .catch(reason => {
+                        this.log.error('reconcile(), failed to reconcile output ' + lockedOutput.txid + ':' + lockedOutput.vout + ': ', reason);
+                        return false;
+                    });
+            }
+
+            if (response.status !== LockedOutputStatus.LOCKED) {
+                this.log.warn('LockedOutput ' + response.txid + ':' + response.vout + ' is ' + response.status
+                    + (response.reconciled ? ', reconciled.' : '.'));
+            }
+            responses.push(response);
+        }
+        return responses;
+    }
+
+    private async getStatus(lockedOutput: resources.LockedOutput, isWalletLocked: boolean): Promise<LockedOutputStatus> {
+
+        const txOut = await this.coreRpcService.getTxOut(lockedOutput.txid, lockedOutput.vout, true);
+        if (!txOut) {
+            return LockedOutputStatus.SPENT;
+        }
+
+        const bid: resources.Bid = lockedOutput.Bid;
+        if (_.isEmpty(bid)) {
+            return LockedOutputStatus.BID_NOT_FOUND;
+        }
+
+        const closedOrderStatuses = [OrderStatus.COMPLETE, OrderStatus.REFUNDED, OrderStatus.EXPIRED];
+        if (bid.action === BidMessageType.MPA_CANCEL || bid.action === BidMessageType.MPA_REJECT
+            || (!_.isEmpty(bid.OrderItem) && _.includes(closedOrderStatuses, bid.OrderItem.status))) {
+            return LockedOutputStatus.BID_CLOSED;
+        }
+
+        return isWalletLocked ? LockedOutputStatus.LOCKED : LockedOutputStatus.NOT_LOCKED;
+    }
+
+    private async reconcileOutput(lockedOutput: resources.LockedOutput, status: LockedOutputStatus, isWalletLocked: boolean): Promise<boolean> {
+
+        if (status === LockedOutputStatus.NOT_LOCKED) {
+            return await this.lockOutputs([lockedOutput]);
+        }
+
+        // the output is no longer needed
+        if (isWalletLocked && !await this.unlockOutputs([lockedOutput])) {
+            return false;
+        }
+        await this.destroy(lockedOutput.id);
+        return true;
+    }
+
 }
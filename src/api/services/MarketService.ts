@@ -72,6 +72,13 @@ export class MarketService {
         market.Name = body.name;
         market.PrivateKey = body.private_key;
         market.Address = body.address;
+        // the expirations are kept unless they're given
+        if (body.bid_expiration !== undefined) {
+            market.BidExpiration = body.bid_expiration;
+        }
+        if (body.order_expiration !== undefined) {
+            market.OrderExpiration = body.order_expiration;
+        }
         // update market record
         const updatedMarket = await this.marketRepo.update(id, market.toJSON());
 
@@ -3,6 +3,7 @@
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets } from '../../constants';
@@ -29,8 +30,8 @@ export class OrderItemObjectService {
         return this.orderItemObjectRepo.findAll();
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<OrderItemObject> {
-        const orderItemObject = await this.orderItemObjectRepo.findOne(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItemObject> {
+        const orderItemObject = await this.orderItemObjectRepo.findOne(id, withRelated, trx);
         if (orderItemObject === null) {
             this.log.warn(`OrderItemObject with the id=${id} was not found!`);
             throw new NotFoundException(id);
@@ -39,33 +40,34 @@ export class OrderItemObjectService {
     }
 
     @validate()
-    public async create( @request(OrderItemObjectCreateRequest) data: OrderItemObjectCreateRequest): Promise<OrderItemObject> {
+    public async create( @request(OrderItemObjectCreateRequest) data: OrderItemObjectCreateRequest, trx?: Knex.Transaction): Promise<OrderItemObject> {
 
         const body = JSON.parse(JSON.stringify(data));
 
         // this.log.debug('create OrderItemObject, body: ', JSON.stringify(body, null, 2));
 
         // If the request body was valid we will create the orderItemObject
-        const orderItemObjectModel = await this.orderItemObjectRepo.create(body);
+        const orderItemObjectModel = await this.orderItemObjectRepo.create(body, trx);
         const orderItemObject = orderItemObjectModel.toJSON();
 
         // finally find and return the created orderItemObject
-        const newOrderItemObject = await this.findOne(orderItemObject.id);
+        const newOrderItemObject = await this.findOne(orderItemObject.id, true, trx);
         return newOrderItemObject;
     }
 
     @validate()
-    public async update(id: number, @request(OrderItemObjectUpdateRequest) body: OrderItemObjectUpdateRequest): Promise<OrderItemObject> {
+    public async update(id: number, @request(OrderItemObjectUpdateRequest) body: OrderItemObjectUpdateRequest,
+                        trx?: Knex.Transaction): Promise<OrderItemObject> {
 
         // find the existing one without related
-        const orderItemObject = await this.findOne(id, false);
+        const orderItemObject = await this.findOne(id, false, trx);
 
         // set new values
         orderItemObject.DataId = body.dataId;
         orderItemObject.DataValue = body.dataValue;
 
         // update orderItemObject record
-        const updatedOrderItemObject = await this.orderItemObjectRepo.update(id, orderItemObject.toJSON());
+        const updatedOrderItemObject = await this.orderItemObjectRepo.update(id, orderItemObject.toJSON(), trx);
         return updatedOrderItemObject;
     }
 
@@ -4,6 +4,7 @@
 
 import * as _ from 'lodash';
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets } from '../../constants';
@@ -14,6 +15,9 @@ import { OrderItem } from '../models/OrderItem';
 import { OrderItemCreateRequest } from '../requests/OrderItemCreateRequest';
 import { OrderItemUpdateRequest } from '../requests/OrderItemUpdateRequest';
 import { OrderItemObjectService } from './OrderItemObjectService';
+import { OrderItemStatusHistoryService } from './OrderItemStatusHistoryService';
+import { OrderItemStatusHistoryCreateRequest } from '../requests/OrderItemStatusHistoryCreateRequest';
+import { OrderStatus } from '../enums/OrderStatus';
 
 export class OrderItemService {
 
@@ -21,6 +25,7 @@ export class OrderItemService {
 
     constructor(
         @inject(Types.Service) @named(Targets.Service.OrderItemObjectService) public orderItemObjectService: OrderItemObjectService,
+        @inject(Types.Service) @named(Targets.Service.OrderItemStatusHistoryService) public orderItemStatusHistoryService: OrderItemStatusHistoryService,
         @inject(Types.Repository) @named(Targets.Repository.OrderItemRepository) public orderItemRepo: OrderItemRepository,
         @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
     ) {
@@ -31,8 +36,8 @@ export class OrderItemService {
         return this.orderItemRepo.findAll();
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<OrderItem> {
-        const orderItem = await this.orderItemRepo.findOne(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItem> {
+        const orderItem = await this.orderItemRepo.findOne(id, withRelated, trx);
         if (orderItem === null) {
             this.log.warn(`OrderItem with the id=${id} was not found!`);
             throw new NotFoundException(id);
@@ -41,7 +46,7 @@ export class OrderItemService {
     }
 
     @validate()
-    public async create( @request(OrderItemCreateRequest) data: OrderItemCreateRequest): Promise<OrderItem> {
+    public async create( @request(OrderItemCreateRequest) data: OrderItemCreateRequest, trx?: Knex.Transaction): Promise<OrderItem> {
 
         const body = JSON.parse(JSON.stringify(data));
         // this.log.debug('OrderItemCreateRequest: ', JSON.stringify(body, null, 2));
@@ -52,7 +57,7 @@ export class OrderItemService {
         // this.log.debug('create OrderItem, body: ', JSON.stringify(body, null, 2));
 
         // If the request body was valid we will create the orderItem
-        const orderItemModel = await this.orderItemRepo.create(body);
+        const orderItemModel = await this.orderItemRepo.create(body, trx);
         const orderItem = orderItemModel.toJSON();
 
         // this.log.debug('created orderItem: ', JSON.stringify(orderItem, null, 2));
@@ -61,25 +66,28 @@ export class OrderItemService {
             orderItemObject.order_item_id = orderItem.id;
             // stringify unless string
             orderItemObject.dataValue = typeof (orderItemObject.dataValue) === 'string' ? orderItemObject.dataValue : JSON.stringify(orderItemObject.dataValue);
-            await this.orderItemObjectService.create(orderItemObject);
+            await this.orderItemObjectService.create(orderItemObject, trx);
         }
 
+        // the initial status starts the history
+        await this.recordStatusHistory(orderItem.id, undefined, orderItem.status, undefined, undefined, trx);
+
         // finally find and return the created orderItem
-        const newOrderItem = await this.findOne(orderItem.id);
+        const newOrderItem = await this.findOne(orderItem.id, true, trx);
         return newOrderItem;
     }
 
     @validate()
-    public async update(id: number, @request(OrderItemUpdateRequest) body: OrderItemUpdateRequest): Promise<OrderItem> {
+    public async update(id: number, @request(OrderItemUpdateRequest) body: OrderItemUpdateRequest, trx?: Knex.Transaction): Promise<OrderItem> {
 
         // find the existing one without related
-        const orderItem = await this.findOne(id, false);
+        const orderItem = await this.findOne(id, false, trx);
 
         // set new values
         orderItem.Status = body.status;
 
         // update orderItem record
-        const updatedOrderItem = await this.orderItemRepo.update(id, orderItem.toJSON());
+        const updatedOrderItem = await this.orderItemRepo.update(id, orderItem.toJSON(), trx);
 
         // const newOrderItem = await this.findOne(id);
         // return newOrderItem;
@@ -87,6 +95,31 @@ export class OrderItemService {
         return updatedOrderItem;
     }
 
+    /**
+     * updates the OrderItem status and records the transition in the OrderItems status history
+     *
+     * @param {number} id
+     * @param {OrderStatus} newStatus
+     * @param {string} msgid, the received SmsgMessage causing the transition
+     * @param {string} txid, the transaction related to the transition
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<OrderItem>}
+     */
+    public async updateStatus(id: number, newStatus: OrderStatus, msgid?: string, txid?: string, trx?: Knex.Transaction): Promise<OrderItem> {
+
+        const orderItem = await this.findOne(id, false, trx).then(value => value.toJSON());
+
+        const updatedOrderItem = await this.update(id, {
+            itemHash: orderItem.itemHash,
+            status: newStatus
+        } as OrderItemUpdateRequest, trx);
+
+        if (orderItem.status !== newStatus) {
+            await this.recordStatusHistory(id, orderItem.status, newStatus, msgid, txid, trx);
+        }
+        return updatedOrderItem;
+    }
+
     public async destroy(id: number): Promise<void> {
 
         const orderItemModel = await this.findOne(id);
@@ -100,4 +133,15 @@ export class OrderItemService {
         await this.orderItemRepo.destroy(id);
     }
 
+    private async recordStatusHistory(orderItemId: number, previousStatus: OrderStatus | undefined, newStatus: OrderStatus,
+                                      msgid?: string, txid?: string, trx?: Knex.Transaction): Promise<void> {
+        await this.orderItemStatusHistoryService.create({
+            order_item_id: orderItemId,
+            previous_status: previousStatus,
+            new_status: newStatus,
+            msgid,
+            txid
+        } as OrderItemStatusHistoryCreateRequest, trx);
+    }
+
 }
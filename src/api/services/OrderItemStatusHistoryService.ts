@@ -0,0 +1,71 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { validate, request } from '../../core/api/Validate';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { OrderItemStatusHistoryRepository } from '../repositories/OrderItemStatusHistoryRepository';
+import { OrderItemStatusHistory } from '../models/OrderItemStatusHistory';
+import { OrderItemStatusHistoryCreateRequest } from '../requests/OrderItemStatusHistoryCreateRequest';
+
+export class OrderItemStatusHistoryService {
+
+    public log: LoggerType;
+
+    constructor(
+        @inject(Types.Repository) @named(Targets.Repository.OrderItemStatusHistoryRepository)
+        public orderItemStatusHistoryRepo: OrderItemStatusHistoryRepository,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<OrderItemStatusHistory>> {
+        return this.orderItemStatusHistoryRepo.findAll();
+    }
+
+    /**
+     * the status transitions of the OrderItem, oldest first
+     *
+     * @param {number} orderItemId
+     * @param {boolean} withRelated
+     * @returns {Promise<Bookshelf.Collection<OrderItemStatusHistory>>}
+     */
+    public async findAllByOrderItemId(orderItemId: number, withRelated: boolean = true): Promise<Bookshelf.Collection<OrderItemStatusHistory>> {
+        return await this.orderItemStatusHistoryRepo.findAllByOrderItemId(orderItemId, withRelated);
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OrderItemStatusHistory> {
+        const orderItemStatusHistory = await this.orderItemStatusHistoryRepo.findOne(id, withRelated, trx);
+        if (orderItemStatusHistory === null) {
+            this.log.warn(`OrderItemStatusHistory with the id=${id} was not found!`);
+            throw new NotFoundException(id);
+        }
+        return orderItemStatusHistory;
+    }
+
+    @validate()
+    public async create( @request(OrderItemStatusHistoryCreateRequest) data: OrderItemStatusHistoryCreateRequest,
+                         trx?: Knex.Transaction): Promise<OrderItemStatusHistory> {
+
+        const body = JSON.parse(JSON.stringify(data));
+        // this.log.debug('create OrderItemStatusHistory, body: ', JSON.stringify(body, null, 2));
+
+        // If the request body was valid we will create the orderItemStatusHistory
+        const orderItemStatusHistory = await this.orderItemStatusHistoryRepo.create(body, trx);
+
+        // finally find and return the created orderItemStatusHistory
+        const newOrderItemStatusHistory = await this.findOne(orderItemStatusHistory.id, true, trx);
+        return newOrderItemStatusHistory;
+    }
+
+    public async destroy(id: number): Promise<void> {
+        await this.orderItemStatusHistoryRepo.destroy(id);
+    }
+
+}
@@ -4,6 +4,7 @@
 
 import * as _ from 'lodash';
 import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
 import { inject, named } from 'inversify';
 import { Logger as LoggerType } from '../../core/Logger';
 import { Types, Core, Targets } from '../../constants';
@@ -44,8 +45,8 @@ export class OrderService {
         return this.orderRepo.findAll();
     }
 
-    public async findOne(id: number, withRelated: boolean = true): Promise<Order> {
-        const order = await this.orderRepo.findOne(id, withRelated);
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<Order> {
+        const order = await this.orderRepo.findOne(id, withRelated, trx);
         if (order === null) {
             this.log.warn(`Order with the id=${id} was not found!`);
             throw new NotFoundException(id);
@@ -71,7 +72,7 @@ export class OrderService {
     }
 
     @validate()
-    public async create( @request(OrderCreateRequest) data: OrderCreateRequest): Promise<Order> {
+    public async create( @request(OrderCreateRequest) data: OrderCreateRequest, trx?: Knex.Transaction): Promise<Order> {
         const startTime = new Date().getTime();
 
         const body = JSON.parse(JSON.stringify(data));
@@ -98,7 +99,7 @@ export class OrderService {
         // this.log.debug('addressCreateRequest for ORDER: ', JSON.stringify(addressCreateRequest, null, 2));
 
         // save shipping address
-        const addressModel = await this.addressService.create(addressCreateRequest);
+        const addressModel = await this.addressService.create(addressCreateRequest, trx);
         const address = addressModel.toJSON();
 
         // this.log.debug('created address: ', JSON.stringify(address, null, 2));
@@ -109,7 +110,7 @@ export class OrderService {
         // this.log.debug('create Order, body: ', JSON.stringify(body, null, 2));
 
         // If the request body was valid we will create the order
-        const orderModel = await this.orderRepo.create(body);
+        const orderModel = await this.orderRepo.create(body, trx);
         const order = orderModel.toJSON();
 
         // this.log.debug('created order: ', JSON.stringify(order, null, 2));
@@ -118,13 +119,13 @@ export class OrderService {
         // then create the OrderItems
         for (const orderItemCreateRequest of orderItemCreateRequests) {
             orderItemCreateRequest.order_id = order.id;
-            const orderItemModel = await this.orderItemService.create(orderItemCreateRequest);
+            const orderItemModel = await this.orderItemService.create(orderItemCreateRequest, trx);
             const orderItem = orderItemModel.toJSON();
             // this.log.debug('created orderItem: ', JSON.stringify(orderItem, null, 2));
         }
 
         // finally find and return the created order
-        const newOrder = await this.findOne(order.id);
+        const newOrder = await this.findOne(order.id, true, trx);
 
         this.log.debug('orderService.create: ' + (new Date().getTime() - startTime) + 'ms');
 
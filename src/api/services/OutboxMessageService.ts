@@ -0,0 +1,245 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Bookshelf from 'bookshelf';
+import * as Knex from 'knex';
+import * as resources from 'resources';
+import { inject, named } from 'inversify';
+import { Logger as LoggerType } from '../../core/Logger';
+import { Types, Core, Targets } from '../../constants';
+import { validate, request } from '../../core/api/Validate';
+import { NotFoundException } from '../exceptions/NotFoundException';
+import { MessageException } from '../exceptions/MessageException';
+import { OutboxMessageRepository } from '../repositories/OutboxMessageRepository';
+import { OutboxMessage } from '../models/OutboxMessage';
+import { OutboxMessageCreateRequest } from '../requests/OutboxMessageCreateRequest';
+import { OutboxMessageUpdateRequest } from '../requests/OutboxMessageUpdateRequest';
+import { OutboxMessageSearchParams } from '../requests/OutboxMessageSearchParams';
+import { OutboxMessageStatus } from '../enums/OutboxMessageStatus';
+import { SearchOrder } from '../enums/SearchOrder';
+import { MarketplaceMessage } from '../messages/MarketplaceMessage';
+import { SmsgSendResponse } from '../responses/SmsgSendResponse';
+import { SmsgMessageFactory } from '../factories/SmsgMessageFactory';
+import { SmsgService } from './SmsgService';
+
+export class OutboxMessageService {
+
+    public log: LoggerType;
+
+    // the delay between the attempts doubles after each attempt
+    private MAX_ATTEMPTS = parseInt(process.env.OUTBOX_RETRY_MAX_ATTEMPTS, 10) || 20;
+    private RETRY_INTERVAL = (parseInt(process.env.OUTBOX_RETRY_INTERVAL, 10) || 30) * 1000;
+    private MAX_RETRY_INTERVAL = 60 * 60 * 1000;
+
+    constructor(
+        @inject(Types.Service) @named(Targets.Service.SmsgService) private smsgService: SmsgService,
+        @inject(Types.Factory) @named(Targets.Factory.SmsgMessageFactory) private smsgMessageFactory: SmsgMessageFactory,
+        @inject(Types.Repository) @named(Targets.Repository.OutboxMessageRepository) public outboxMessageRepo: OutboxMessageRepository,
+        @inject(Types.Core) @named(Core.Logger) public Logger: typeof LoggerType
+    ) {
+        this.log = new Logger(__filename);
+    }
+
+    public async findAll(): Promise<Bookshelf.Collection<OutboxMessage>> {
+        return this.outboxMessageRepo.findAll();
+    }
+
+    public async findOne(id: number, withRelated: boolean = true, trx?: Knex.Transaction): Promise<OutboxMessage> {
+        const outboxMessage = await this.outboxMessageRepo.findOne(id, withRelated, trx);
+        if (outboxMessage === null) {
+            this.log.warn(`OutboxMessage with the id=${id} was not found!`);
+            throw new NotFoundException(id);
+        }
+        return outboxMessage;
+    }
+
+    public async searchBy(options: OutboxMessageSearchParams, withRelated: boolean = true): Promise<Bookshelf.Collection<OutboxMessage>> {
+        return await this.outboxMessageRepo.searchBy(options, withRelated);
+    }
+
+    @validate()
+    public async create( @request(OutboxMessageCreateRequest) data: OutboxMessageCreateRequest, trx?: Knex.Transaction): Promise<OutboxMessage> {
+
+        const body = JSON.parse(JSON.stringify(data));
+        // this.log.debug('create OutboxMessage, body: ', JSON.stringify(body, null, 2));
+
+        // If the request body was valid we will create the outboxMessage
+        const outboxMessage = await this.outboxMessageRepo.create(body, trx);
+
+        // finally find and return the created outboxMessage
+        const newOutboxMessage = await this.findOne(outboxMessage.id, true, trx);
+        return newOutboxMessage;
+    }
+
+    @validate()
+    public async update(id: number, @request(OutboxMessageUpdateRequest) body: OutboxMessageUpdateRequest): Promise<OutboxMessage> {
+
+        // find the existing one without related
+        const outboxMessage = await this.findOne(id, false);
+
+        // set new values
+        outboxMessage.Status = body.status;
+        outboxMessage.Attempts = body.attempts;
+        outboxMessage.NextRetry = body.nextRetry;
+        outboxMessage.Reason = body.reason;
+        outboxMessage.Msgid = body.msgid;
+        outboxMessage.SentAt = body.sentAt;
+
+        // update outboxMessage record
+        const updatedOutboxMessage = await this.outboxMessageRepo.update(id, outboxMessage.toJSON());
+        return updatedOutboxMessage;
+    }
+
+    public async destroy(id: number): Promise<void> {
+        await this.outboxMessageRepo.destroy(id);
+    }
+
+    /**
+     * stores the MarketplaceMessage in the outbox, so that it'll eventually get sent even if particld is not
+     * available right now. should be called in the same transaction as the local state change the message is about,
+     * and delivered once the transaction has been committed.
+     *
+     * @param {string} fromAddress
+     * @param {string} toAddress
+     * @param {MarketplaceMessage} message
+     * @param {boolean} paidMessage
+     * @param {number} daysRetention
+     * @param {Knex.Transaction} trx
+     * @returns {Promise<module:resources.OutboxMessage>}
+     */
+    public async enqueue(fromAddress: string,
+                         toAddress: string,
+                         message: MarketplaceMessage,
+                         paidMessage: boolean = true,
+                         daysRetention: number = parseInt(process.env.PAID_MESSAGE_RETENTION_DAYS, 10),
+                         trx?: Knex.Transaction): Promise<resources.OutboxMessage> {
+
+        const createRequest = {
+            type: this.smsgMessageFactory.getType(message),
+            status: OutboxMessageStatus.PENDING,
+            from_address: fromAddress,
+            to_address: toAddress,
+            message: JSON.stringify(message),
+            paid_message: paidMessage,
+            days_retention: daysRetention,
+            // the OutboxProcessor shouldn't pick it up while the first attempt is still in progress
+            next_retry: Date.now() + this.RETRY_INTERVAL
+        } as OutboxMessageCreateRequest;
+
+        return await this.create(createRequest, trx).then(value => value.toJSON());
+    }
+
+    /**
+     * enqueues the message and tries to send it right away
+     *
+     * @param {string} fromAddress
+     * @param {string} toAddress
+     * @param {MarketplaceMessage} message
+     * @param {boolean} paidMessage
+     * @param {number} daysRetention
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    public async send(fromAddress: string,
+                      toAddress: string,
+                      message: MarketplaceMessage,
+                      paidMessage: boolean = true,
+                      daysRetention: number = parseInt(process.env.PAID_MESSAGE_RETENTION_DAYS, 10)): Promise<SmsgSendResponse> {
+
+        const outboxMessage = await this.enqueue(fromAddress, toAddress, message, paidMessage, daysRetention);
+        return await this.deliver(outboxMessage);
+    }
+
+    /**
+     * sends the OutboxMessage, in case of failure the message is left PENDING to be retried later
+     * or set FAILED if it has been retried too many times, and the failure is returned with the reason
+     *
+     * @param {module:resources.OutboxMessage} outboxMessage
+     * @returns {Promise<SmsgSendResponse>}
+     */
+    public async deliver(outboxMessage: resources.OutboxMessage): Promise<SmsgSendResponse> {
+
+        const attempts = outboxMessage.attempts + 1;
+        const message: MarketplaceMessage = JSON.parse(outboxMessage.message);
+
+        return await this.smsgService.smsgSend(outboxMessage.fromAddress, outboxMessage.toAddress, message,
+            outboxMessage.paidMessage, outboxMessage.daysRetention)
+            .then(async response => {
+                await this.update(outboxMessage.id, {
+                    status: OutboxMessageStatus.SENT,
+                    attempts,
+                    msgid: response.msgid,
+                    sentAt: Date.now()
+                } as OutboxMessageUpdateRequest);
+                return response;
+            })
+            .catch(async reason => {
+                const status = attempts >= this.MAX_ATTEMPTS ? OutboxMessageStatus.FAILED : OutboxMessageStatus.PENDING;
+                this.log.warn('OutboxMessage ' + outboxMessage.id + ' failed to send (attempt ' + attempts + '): ' + reason.message);
+
+                await this.update(outboxMessage.id, {
+                    status,
+                    attempts,
+                    nextRetry: Date.now() + this.getRetryDelay(attempts),
+                    reason: reason.message
+                } as OutboxMessageUpdateRequest);
+
+                return {
+                    result: 'Send failed.',
+                    error: reason.message,
+                    outboxMessageId: outboxMessage.id
+                } as SmsgSendResponse;
+            });
+    }
+
+    /**
+     * sends the PENDING messages which are due to be retried
+     *
+     * @returns {Promise<void>}
+     */
+    public async deliverPending(): Promise<void> {
+
+        const searchParams = {
+            order: SearchOrder.ASC,
+            status: OutboxMessageStatus.PENDING,
+            page: 0,
+            pageLimit: 100,
+            nextRetry: Date.now()
+        } as OutboxMessageSearchParams;
+
+        const outboxMessages: resources.OutboxMessage[] = await this.searchBy(searchParams).then(value => value.toJSON());
+        for (const outboxMessage of outboxMessages) {
+            await this.deliver(outboxMessage);
+        }
+    }
+
+    /**
+     * cancels a message which hasn't been sent yet
+     *
+     * @param {module:resources.OutboxMessage} outboxMessage
+     * @returns {Promise<OutboxMessage>}
+     */
+    public async cancel(outboxMessage: resources.OutboxMessage): Promise<OutboxMessage> {
+
+        if (outboxMessage.status !== OutboxMessageStatus.PENDING && outboxMessage.status !== OutboxMessageStatus.FAILED) {
+            throw new MessageException('Only PENDING or FAILED messages can be cancelled.');
+        }
+
+        return await this.update(outboxMessage.id, {
+            status: OutboxMessageStatus.CANCELLED,
+            attempts: outboxMessage.attempts,
+            nextRetry: outboxMessage.nextRetry,
+            reason: outboxMessage.reason
+        } as OutboxMessageUpdateRequest);
+    }
+
+    /**
+     * exponential backoff, the delay doubles after each attempt
+     *
+     * @param {number} attempts
+     * @returns {number}
+     */
+    private getRetryDelay(attempts: number): number {
+        return Math.min(this.RETRY_INTERVAL * Math.pow(2, attempts - 1), this.MAX_RETRY_INTERVAL);
+    }
+}
@@ -94,6 +94,9 @@ export class SmsgMessageService {
         smsgMessage.From = body.from;
         smsgMessage.To = body.to;
         smsgMessage.Text = body.text;
+        smsgMessage.Reason = body.reason;
+        smsgMessage.Attempts = body.attempts;
+        smsgMessage.NextRetry = body.nextRetry;
 
         // update smsgMessage record
         const updatedSmsgMessage = await this.smsgMessageRepo.update(id, smsgMessage.toJSON());
@@ -109,9 +112,10 @@ export class SmsgMessageService {
      *
      * @param {module:resources.SmsgMessage} message
      * @param {SmsgMessageStatus} status
+     * @param {string} reason, optional reason why the processing failed, the previous reason is kept if not given
      * @returns {Promise<module:resources.SmsgMessage>}
      */
-    public async updateSmsgMessageStatus(message: resources.SmsgMessage, status: SmsgMessageStatus): Promise<SmsgMessage> {
+    public async updateSmsgMessageStatus(message: resources.SmsgMessage, status: SmsgMessageStatus, reason?: string): Promise<SmsgMessage> {
 
         const text = status === SmsgMessageStatus.PROCESSED ? '' : message.text;
 
@@ -129,7 +133,10 @@ export class SmsgMessageService {
             daysretention: message.daysretention,
             from: message.from,
             to: message.to,
-            text
+            text,
+            reason: reason !== undefined ? reason : message.reason,
+            attempts: message.attempts,
+            nextRetry: message.nextRetry
         } as SmsgMessageUpdateRequest;
 
         // this.log.debug('message:', JSON.stringify(message, null, 2));
@@ -273,10 +273,13 @@ export class TestDataService {
             'message_datas',
             'action_messages',
             'order_item_objects',
+            'escrow_transactions',
+            'order_item_status_history',
             'order_items',
             'orders',
             'bid_datas',
             'locked_outputs',
+            'bid_history',
             'bids',
             'location_markers',
             'item_locations',
@@ -293,6 +296,8 @@ export class TestDataService {
             'listing_item_object_datas',
             'listing_item_objects',
             'listing_items',
+            'listing_item_template_revisions',
+            'listing_item_template_schedules',
             'listing_item_templates',
             'addresses',
             'favorite_items',
@@ -311,7 +316,8 @@ export class TestDataService {
             'proposal_options',
             'proposals',
             'votes',
-            'smsg_messages'
+            'smsg_messages',
+            'outbox_messages'
         ];
 
         this.log.debug('cleaning ' + tablesToClean.length + ' tables...');
@@ -56,7 +56,22 @@ export class EnvConfig {
         DATA_CHECK_DELAY: 60,
         CHASING_COINS_API: 'https://chasing-coins.com/api/v1/convert',
         CHASING_COINS_API_DELAY: 60,
-        LISTING_ITEMS_EXPIRED_INTERVAL: 10 // minutes
+        LISTING_ITEMS_EXPIRED_INTERVAL: 10, // minutes
+        MESSAGE_RETRY_MAX_ATTEMPTS: 10,
+        MESSAGE_RETRY_INTERVAL: 10, // seconds, doubled after each attempt
+        SMSG_POLLING_INTERVAL: 5, // seconds
+        SMSG_POLLING_FALLBACK_INTERVAL: 60, // seconds, used when zmq notifications are enabled
+        OUTBOX_INTERVAL: 10, // seconds
+        OUTBOX_RETRY_MAX_ATTEMPTS: 20,
+        OUTBOX_RETRY_INTERVAL: 30, // seconds, doubled after each attempt
+        EXPIRED_BIDS_INTERVAL: 10, // minutes
+        BID_EXPIRATION: 72, // hours, default for markets without bid_expiration
+        ORDER_EXPIRATION: 72, // hours, default for markets without order_expiration
+        ESCROW_TX_INTERVAL: 60, // seconds
+        ESCROW_TX_CONFIRMATIONS: 6,
+        ESCROW_MAX_FEE: 0.01, // max fee of the escrow transactions received from the other party
+        LOCKED_OUTPUTS_INTERVAL: 10, // minutes
+        POSTING_SCHEDULE_INTERVAL: 5 // minutes
     };
 
     /**
@@ -11,15 +11,23 @@
 
 export const Events = {
     ListingItemReceivedEvent: 'ListingItemReceivedEvent',
+    ListingItemUpdateReceivedEvent: 'ListingItemUpdateReceivedEvent',
+    ListingItemCancelReceivedEvent: 'ListingItemCancelReceivedEvent',
     LockEscrowReceivedEvent: 'LockEscrowReceivedEvent',
     RequestRefundEscrowReceivedEvent: 'RequestRefundEscrowReceivedEvent',
     RefundEscrowReceivedEvent: 'RefundEscrowReceivedEvent',
     ReleaseEscrowReceivedEvent: 'ReleaseEscrowReceivedEvent',
+    DisputeEscrowReceivedEvent: 'DisputeEscrowReceivedEvent',
+    ArbitrateEscrowReceivedEvent: 'ArbitrateEscrowReceivedEvent',
     BidReceivedEvent: 'BidReceivedEvent',
     AcceptBidReceivedEvent: 'AcceptBidReceivedEvent',
     RejectBidReceivedEvent: 'RejectBidReceivedEvent',
     CancelBidReceivedEvent: 'CancelBidReceivedEvent',
+    CounterBidReceivedEvent: 'CounterBidReceivedEvent',
     ProposalReceivedEvent: 'ProposalReceivedEvent',
     VoteReceivedEvent: 'VoteReceivedEvent',
+    EscrowTransactionConfirmedEvent: 'EscrowTransactionConfirmedEvent',
+    EscrowTransactionDoubleSpentEvent: 'EscrowTransactionDoubleSpentEvent',
+    EscrowTransactionFailedEvent: 'EscrowTransactionFailedEvent',
     Cli: 'cli'
 };
@@ -18,10 +18,12 @@ export const Targets = {
         Address: 'Address',
         Bid: 'Bid',
         BidData: 'BidData',
+        BidHistory: 'BidHistory',
         CryptocurrencyAddress: 'CryptocurrencyAddress',
         CurrencyPrice: 'CurrencyPrice',
         Escrow: 'Escrow',
         EscrowRatio: 'EscrowRatio',
+        EscrowTransaction: 'EscrowTransaction',
         FavoriteItem: 'FavoriteItem',
         FlaggedItem: 'FlaggedItem',
         ItemCategory: 'ItemCategory',
@@ -34,6 +36,8 @@ export const Targets = {
         ListingItemObject: 'ListingItemObject',
         ListingItemObjectData: 'ListingItemObjectData',
         ListingItemTemplate: 'ListingItemTemplate',
+        ListingItemTemplateRevision: 'ListingItemTemplateRevision',
+        ListingItemTemplateSchedule: 'ListingItemTemplateSchedule',
         LocationMarker: 'LocationMarker',
         LockedOutput: 'LockedOutput',
         Market: 'Market',
@@ -45,6 +49,8 @@ export const Targets = {
         Order: 'Order',
         OrderItem: 'OrderItem',
         OrderItemObject: 'OrderItemObject',
+        OrderItemStatusHistory: 'OrderItemStatusHistory',
+        OutboxMessage: 'OutboxMessage',
         PaymentInformation: 'PaymentInformation',
         PriceTicker: 'PriceTicker',
         Profile: 'Profile',
@@ -65,11 +71,13 @@ export const Targets = {
         ActionMessageRepository: 'ActionMessageRepository',
         AddressRepository: 'AddressRepository',
         BidDataRepository: 'BidDataRepository',
+        BidHistoryRepository: 'BidHistoryRepository',
         BidRepository: 'BidRepository',
         CryptocurrencyAddressRepository: 'CryptocurrencyAddressRepository',
         CurrencyPriceRepository: 'CurrencyPriceRepository',
         EscrowRatioRepository: 'EscrowRatioRepository',
         EscrowRepository: 'EscrowRepository',
+        EscrowTransactionRepository: 'EscrowTransactionRepository',
         FavoriteItemRepository: 'FavoriteItemRepository',
         FlaggedItemRepository: 'FlaggedItemRepository',
         ItemCategoryRepository: 'ItemCategoryRepository',
@@ -82,6 +90,8 @@ export const Targets = {
         ListingItemObjectRepository: 'ListingItemObjectRepository',
         ListingItemRepository: 'ListingItemRepository',
         ListingItemTemplateRepository: 'ListingItemTemplateRepository',
+        ListingItemTemplateRevisionRepository: 'ListingItemTemplateRevisionRepository',
+        ListingItemTemplateScheduleRepository: 'ListingItemTemplateScheduleRepository',
         LocationMarkerRepository: 'LocationMarkerRepository',
         LockedOutputRepository: 'LockedOutputRepository',
         MarketRepository: 'MarketRepository',
@@ -92,7 +102,9 @@ export const Targets = {
         MessagingInformationRepository: 'MessagingInformationRepository',
         OrderItemObjectRepository: 'OrderItemObjectRepository',
         OrderItemRepository: 'OrderItemRepository',
+        OrderItemStatusHistoryRepository: 'OrderItemStatusHistoryRepository',
         OrderRepository: 'OrderRepository',
+        OutboxMessageRepository: 'OutboxMessageRepository',
         PaymentInformationRepository: 'PaymentInformationRepository',
         PriceTickerRepository: 'PriceTickerRepository',
         ProfileRepository: 'ProfileRepository',
@@ -114,7 +126,9 @@ export const Targets = {
         AddressService: 'AddressService',
         BidActionService: 'BidActionService',
         BidDataService: 'BidDataService',
+        BidHistoryService: 'BidHistoryService',
         BidService: 'BidService',
+        CoinSelectorService: 'CoinSelectorService',
         CoreCookieService: 'CoreCookieService',
         CoreRpcService: 'CoreRpcService',
         CryptocurrencyAddressService: 'CryptocurrencyAddressService',
@@ -125,6 +139,8 @@ export const Targets = {
         EscrowActionService: 'EscrowActionService',
         EscrowRatioService: 'EscrowRatioService',
         EscrowService: 'EscrowService',
+        EscrowTransactionService: 'EscrowTransactionService',
+        EscrowVerifierService: 'EscrowVerifierService',
         FavoriteItemService: 'FavoriteItemService',
         FlaggedItemService: 'FlaggedItemService',
         ItemCategoryService: 'ItemCategoryService',
@@ -138,7 +154,12 @@ export const Targets = {
         ListingItemObjectDataService: 'ListingItemObjectDataService',
         ListingItemObjectService: 'ListingItemObjectService',
         ListingItemService: 'ListingItemService',
+        ListingItemTemplateExportService: 'ListingItemTemplateExportService',
+        ListingItemTemplateImportService: 'ListingItemTemplateImportService',
         ListingItemTemplateService: 'ListingItemTemplateService',
+        ListingItemTemplateRevisionService: 'ListingItemTemplateRevisionService',
+        ListingItemTemplateScheduleService: 'ListingItemTemplateScheduleService',
+        ListingItemTemplateValidationService: 'ListingItemTemplateValidationService',
         LocationMarkerService: 'LocationMarkerService',
         LockedOutputService: 'LockedOutputService',
         MarketService: 'MarketService',
@@ -149,7 +170,9 @@ export const Targets = {
         MessagingInformationService: 'MessagingInformationService',
         OrderItemObjectService: 'OrderItemObjectService',
         OrderItemService: 'OrderItemService',
+        OrderItemStatusHistoryService: 'OrderItemStatusHistoryService',
         OrderService: 'OrderService',
+        OutboxMessageService: 'OutboxMessageService',
         PaymentInformationService: 'PaymentInformationService',
         PriceTickerService: 'PriceTickerService',
         ProfileService: 'ProfileService',
@@ -185,6 +208,8 @@ export const Targets = {
         bid: {
             BidAcceptCommand: 'BidAcceptCommand',
             BidCancelCommand: 'BidCancelCommand',
+            BidCounterCommand: 'BidCounterCommand',
+            BidHistoryCommand: 'BidHistoryCommand',
             BidRejectCommand: 'BidRejectCommand',
             BidRootCommand: 'BidRootCommand',
             BidSearchCommand: 'BidSearchCommand',
@@ -206,11 +231,15 @@ export const Targets = {
         },
         escrow: {
             EscrowAddCommand: 'EscrowAddCommand',
+            EscrowArbitrateCommand: 'EscrowArbitrateCommand',
+            EscrowDisputeCommand: 'EscrowDisputeCommand',
             EscrowLockCommand: 'EscrowLockCommand',
+            EscrowRecoverCommand: 'EscrowRecoverCommand',
             EscrowRefundCommand: 'EscrowRefundCommand',
             EscrowReleaseCommand: 'EscrowReleaseCommand',
             EscrowRemoveCommand: 'EscrowRemoveCommand',
             EscrowRootCommand: 'EscrowRootCommand',
+            EscrowTxCommand: 'EscrowTxCommand',
             EscrowUpdateCommand: 'EscrowUpdateCommand'
         },
         favorite: {
@@ -247,10 +276,12 @@ export const Targets = {
             ItemLocationUpdateCommand: 'ItemLocationUpdateCommand'
         },
         listingitem: {
+            ListingItemCancelCommand: 'ListingItemCancelCommand',
             ListingItemFlagCommand: 'ListingItemFlagCommand',
             ListingItemGetCommand: 'ListingItemGetCommand',
             ListingItemRootCommand: 'ListingItemRootCommand',
-            ListingItemSearchCommand: 'ListingItemSearchCommand'
+            ListingItemSearchCommand: 'ListingItemSearchCommand',
+            ListingItemUpdateCommand: 'ListingItemUpdateCommand'
         },
         listingitemobject: {
             ListingItemObjectRootCommand: 'ListingItemObjectRootCommand',
@@ -258,15 +289,28 @@ export const Targets = {
         },
         listingitemtemplate: {
             ListingItemTemplateAddCommand: 'ListingItemTemplateAddCommand',
+            ListingItemTemplateCloneCommand: 'ListingItemTemplateCloneCommand',
             ListingItemTemplateCompressCommand: 'ListingItemTemplateCompressCommand',
+            ListingItemTemplateExportCommand: 'ListingItemTemplateExportCommand',
             ListingItemTemplateGetCommand: 'ListingItemTemplateGetCommand',
+            ListingItemTemplateImportCommand: 'ListingItemTemplateImportCommand',
             ListingItemTemplatePostCommand: 'ListingItemTemplatePostCommand',
+            ListingItemTemplateUnpostCommand: 'ListingItemTemplateUnpostCommand',
             ListingItemTemplateRemoveCommand: 'ListingItemTemplateRemoveCommand',
+            ListingItemTemplateRevisionsCommand: 'ListingItemTemplateRevisionsCommand',
+            ListingItemTemplateScheduleCommand: 'ListingItemTemplateScheduleCommand',
+            ListingItemTemplateSchedulesCommand: 'ListingItemTemplateSchedulesCommand',
+            ListingItemTemplateValidateCommand: 'ListingItemTemplateValidateCommand',
             ListingItemTemplateRootCommand: 'ListingItemTemplateRootCommand',
             ListingItemTemplateSearchCommand: 'ListingItemTemplateSearchCommand',
             ListingItemTemplateFeatureImageCommand: 'ListingItemTemplateFeatureImageCommand',
             ListingItemTemplateSizeCommand: 'ListingItemTemplateSizeCommand'
         },
+        lockedoutput: {
+            LockedOutputListCommand: 'LockedOutputListCommand',
+            LockedOutputReconcileCommand: 'LockedOutputReconcileCommand',
+            LockedOutputRootCommand: 'LockedOutputRootCommand'
+        },
         market: {
             MarketAddCommand: 'MarketAddCommand',
             MarketListCommand: 'MarketListCommand',
@@ -282,8 +326,14 @@ export const Targets = {
         },
         orderitem: {
             OrderItemRootCommand: 'OrderItemRootCommand',
+            OrderItemHistoryCommand: 'OrderItemHistoryCommand',
             OrderItemStatusCommand: 'OrderItemStatusCommand'
         },
+        outbox: {
+            OutboxRootCommand: 'OutboxRootCommand',
+            OutboxListCommand: 'OutboxListCommand',
+            OutboxCancelCommand: 'OutboxCancelCommand'
+        },
         paymentinformation: {
             PaymentInformationRootCommand: 'PaymentInformationRootCommand',
             PaymentInformationUpdateCommand: 'PaymentInformationUpdateCommand'
@@ -322,6 +372,7 @@ export const Targets = {
         },
         shoppingcart: {
             ShoppingCartAddCommand: 'ShoppingCartAddCommand',
+            ShoppingCartCheckoutCommand: 'ShoppingCartCheckoutCommand',
             ShoppingCartClearCommand: 'ShoppingCartClearCommand',
             ShoppingCartGetCommand: 'ShoppingCartGetCommand',
             ShoppingCartListCommand: 'ShoppingCartListCommand',
@@ -337,7 +388,9 @@ export const Targets = {
         },
         smsg: {
             SmsgRootCommand: 'SmsgRootCommand',
-            SmsgSearchCommand: 'SmsgSearchCommand'
+            SmsgSearchCommand: 'SmsgSearchCommand',
+            SmsgRetryCommand: 'SmsgRetryCommand',
+            SmsgDeadLettersCommand: 'SmsgDeadLettersCommand'
         },
         vote: {
             VoteGetCommand: 'VoteGetCommand',
@@ -363,8 +416,13 @@ export const Targets = {
     MessageProcessor:     {
         ProposalResultProcessor: 'ProposalResultProcessor',
         ExpiredListingItemProcessor: 'ExpiredListingItemProcessor',
+        ExpiredBidProcessor: 'ExpiredBidProcessor',
+        EscrowTransactionProcessor: 'EscrowTransactionProcessor',
+        LockedOutputProcessor: 'LockedOutputProcessor',
         MessageProcessor: 'MessageProcessor',
         MessageProcessorInterface: 'MessageProcessorInterface',
+        ListingItemTemplateScheduleProcessor: 'ListingItemTemplateScheduleProcessor',
+        OutboxProcessor: 'OutboxProcessor',
         SmsgMessageProcessor: 'SmsgMessageProcessor'
     },
     Middleware:     {
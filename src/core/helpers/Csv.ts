@@ -0,0 +1,92 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+/**
+ * Minimal RFC 4180 CSV parsing, fields are separated by commas and may be quoted with double quotes,
+ * quotes inside quoted fields are escaped by doubling them.
+ */
+export class Csv {
+
+    /**
+     * parses the csv into rows of fields, empty lines are skipped
+     *
+     * @param {string} input
+     * @returns {string[][]}
+     */
+    public static parse(input: string): string[][] {
+
+        const rows: string[][] = [];
+        let row: string[] = [];
+        let field = '';
+        let quoted = false;
+
+        // strip the byte order mark spreadsheet applications like to add
+        const text = input.charCodeAt(0) === 0xFEFF ? input.slice(1) : input;
+
+        for (let i = 0; i < text.length; i++) {
+            const char = text[i];
+
+            if (quoted) {
+                if (char === '"' && text[i + 1] === '"') {
+                    field += '"';
+                    i++;
+                } else if (char === '"') {
+                    quoted = false;
+                } else {
+                    field += char;
+                }
+            } else if (char === '"') {
+                quoted = true;
+            } else if (char === ',') {
+                row.push(field);
+                field = '';
+            } else if (char === '\n' || char === '\r') {
+                if (char === '\r' && text[i + 1] === '\n') {
+                    i++;
+                }
+                row.push(field);
+                rows.push(row);
+                row = [];
+                field = '';
+            } else {
+                field += char;
+            }
+        }
+
+        if (quoted) {
+            throw new Error('Unterminated quoted field.');
+        }
+
+        // the last line might not end with a line break
+        row.push(field);
+        rows.push(row);
+
+        return rows.filter(fields => fields.length > 1 || fields[0] !== '');
+    }
+
+    /**
+     * parses the csv into objects keyed by the header row, empty fields are left out
+     *
+     * @param {string} input
+     * @returns {any[]}
+     */
+    public static parseObjects(input: string): any[] {
+
+        const rows = Csv.parse(input);
+        if (rows.length === 0) {
+            return [];
+        }
+
+        const headers = rows[0].map(header => header.trim());
+        return rows.slice(1).map(fields => {
+            const object = {};
+            headers.forEach((header, index) => {
+                if (header !== '' && fields[index] !== undefined && fields[index].trim() !== '') {
+                    object[header] = fields[index].trim();
+                }
+            });
+            return object;
+        });
+    }
+}
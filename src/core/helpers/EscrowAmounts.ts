@@ -0,0 +1,119 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as resources from 'resources';
+
+export interface EscrowPayout {
+    buyer: number;
+    seller: number;
+}
+
+export interface EscrowItem {
+    totalPrice: number;
+    ratio: resources.EscrowRatio;
+}
+
+/**
+ * Calculates the escrow amounts using the EscrowRatio of the ListingItem.
+ *
+ * The ratios are percentages of the total price: the buyer locks the total price plus
+ * his deposit (ratio.buyer %) and the seller locks his deposit (ratio.seller %).
+ */
+export class EscrowAmounts {
+
+    /**
+     * the amount the buyer locks in the escrow, payment + buyers deposit
+     */
+    public static getBuyerRequiredAmount(totalPrice: number, ratio: resources.EscrowRatio): number {
+        return EscrowAmounts.round(totalPrice + EscrowAmounts.getDeposit(totalPrice, ratio.buyer));
+    }
+
+    /**
+     * the amount the seller locks in the escrow, sellers deposit
+     */
+    public static getSellerRequiredAmount(totalPrice: number, ratio: resources.EscrowRatio): number {
+        return EscrowAmounts.round(EscrowAmounts.getDeposit(totalPrice, ratio.seller));
+    }
+
+    /**
+     * the total amount locked in the escrow multisig output
+     */
+    public static getEscrowAmount(totalPrice: number, ratio: resources.EscrowRatio): number {
+        return EscrowAmounts.round(EscrowAmounts.getBuyerRequiredAmount(totalPrice, ratio)
+            + EscrowAmounts.getSellerRequiredAmount(totalPrice, ratio));
+    }
+
+    /**
+     * on release the seller gets the payment and his deposit back, buyer gets his deposit back.
+     * the fee is deducted from both in proportion to their share.
+     *
+     * @param {number} escrowValue, value of the escrow output minus fee
+     * @param {"resources".EscrowRatio} ratio
+     * @returns {EscrowPayout}
+     */
+    public static getReleasePayout(escrowValue: number, ratio: resources.EscrowRatio): EscrowPayout {
+        const buyer = EscrowAmounts.round(escrowValue * ratio.buyer / EscrowAmounts.getShares(ratio));
+        return {
+            buyer,
+            seller: EscrowAmounts.round(escrowValue - buyer)
+        };
+    }
+
+    /**
+     * on refund the buyer gets the payment and his deposit back, seller gets his deposit back.
+     * the fee is deducted from both in proportion to their share.
+     *
+     * @param {number} escrowValue, value of the escrow output minus fee
+     * @param {"resources".EscrowRatio} ratio
+     * @returns {EscrowPayout}
+     */
+    public static getRefundPayout(escrowValue: number, ratio: resources.EscrowRatio): EscrowPayout {
+        const seller = EscrowAmounts.round(escrowValue * ratio.seller / EscrowAmounts.getShares(ratio));
+        return {
+            buyer: EscrowAmounts.round(escrowValue - seller),
+            seller
+        };
+    }
+
+    /**
+     * several items sharing a single escrow, for example a combined Bid for items of the same seller.
+     * the ratios are weighted with the item prices, so that the deposits add up to the sum of the items deposits.
+     *
+     * @param {EscrowItem[]} items
+     * @returns {EscrowItem}
+     */
+    public static combine(items: EscrowItem[]): EscrowItem {
+        if (items.length === 1) {
+            return items[0];
+        }
+
+        const totalPrice = EscrowAmounts.round(items.reduce((sum, item) => sum + item.totalPrice, 0));
+        if (totalPrice === 0) {
+            return { totalPrice, ratio: items[0].ratio };
+        }
+
+        const buyerDeposits = items.reduce((sum, item) => sum + item.totalPrice * item.ratio.buyer, 0);
+        const sellerDeposits = items.reduce((sum, item) => sum + item.totalPrice * item.ratio.seller, 0);
+        return {
+            totalPrice,
+            ratio: {
+                buyer: buyerDeposits / totalPrice,
+                seller: sellerDeposits / totalPrice
+            } as resources.EscrowRatio
+        };
+    }
+
+    private static getDeposit(totalPrice: number, ratio: number): number {
+        return totalPrice * ratio / 100;
+    }
+
+    // payment is 100 shares, deposits are ratio shares
+    private static getShares(ratio: resources.EscrowRatio): number {
+        return 100 + ratio.buyer + ratio.seller;
+    }
+
+    private static round(value: number): number {
+        return +value.toFixed(8);
+    }
+}
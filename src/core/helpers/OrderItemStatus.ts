@@ -2,18 +2,58 @@
 // Distributed under the GPL software license, see the accompanying
 // file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
 
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { BidDataValue } from '../../api/enums/BidDataValue';
+
+export interface OrderItemShipment {
+    carrier?: string;
+    trackingNumber?: string;
+    shippingDate?: number;
+    expectedDelivery?: number;
+}
+
 export class OrderItemStatus {
     public listingItemHash: string;
     public bidType: string;
     public orderStatus: string;
     public buyer: string;
     public seller: string;
+    public escrowTransactions: resources.EscrowTransaction[];
+    public shipment?: OrderItemShipment;
 
-    constructor(listingItemHash: string = '', bidType: string = '', orderStatus: string = '', buyer: string = '', seller: string = '') {
+    constructor(listingItemHash: string = '', bidType: string = '', orderStatus: string = '', buyer: string = '', seller: string = '',
+                escrowTransactions: resources.EscrowTransaction[] = [], orderItemObjects: resources.OrderItemObject[] = []) {
         this.listingItemHash = listingItemHash;
         this.bidType = bidType;
         this.orderStatus = orderStatus;
         this.buyer = buyer;
         this.seller = seller;
+        this.escrowTransactions = escrowTransactions;
+        this.shipment = this.getShipment(orderItemObjects);
+    }
+
+    /**
+     * the shipment details sent by the seller with the MPA_RELEASE
+     */
+    private getShipment(orderItemObjects: resources.OrderItemObject[]): OrderItemShipment | undefined {
+        const getValue = (key: BidDataValue): string | undefined => {
+            const orderItemObject = _.find(orderItemObjects, (o: resources.OrderItemObject) => o.dataId === key);
+            return orderItemObject ? orderItemObject.dataValue : undefined;
+        };
+
+        const carrier = getValue(BidDataValue.SHIPMENT_CARRIER);
+        if (carrier === undefined) {
+            return undefined;
+        }
+
+        const shippingDate = getValue(BidDataValue.SHIPMENT_SHIPPING_DATE);
+        const expectedDelivery = getValue(BidDataValue.SHIPMENT_EXPECTED_DELIVERY);
+        return {
+            carrier,
+            trackingNumber: getValue(BidDataValue.SHIPMENT_TRACKING_NUMBER),
+            shippingDate: shippingDate !== undefined ? +shippingDate : undefined,
+            expectedDelivery: expectedDelivery !== undefined ? +expectedDelivery : undefined
+        } as OrderItemShipment;
     }
 }
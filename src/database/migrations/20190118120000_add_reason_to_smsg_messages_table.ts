@@ -0,0 +1,22 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('smsg_messages', (table: Knex.CreateTableBuilder) => {
+            table.text('reason').nullable();
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('smsg_messages', (table: Knex.CreateTableBuilder) => {
+            table.dropColumn('reason');
+        })
+    ]);
+};
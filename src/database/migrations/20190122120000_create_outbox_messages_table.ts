@@ -0,0 +1,38 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.createTable('outbox_messages', (table: Knex.CreateTableBuilder) => {
+            table.increments('id').primary();
+
+            table.string('type').notNullable();
+            table.string('status').notNullable();
+            table.string('from_address').notNullable();
+            table.string('to_address').notNullable();
+            table.text('message').notNullable();
+            table.boolean('paid_message').notNullable().defaultTo(false);
+            table.integer('days_retention').notNullable();
+
+            table.integer('attempts').notNullable().defaultTo(0);
+            table.integer('next_retry').nullable();
+            table.text('reason').nullable();
+
+            table.string('msgid').nullable();
+            table.integer('sent_at').nullable();
+
+            table.timestamp('updated_at').defaultTo(db.fn.now());
+            table.timestamp('created_at').defaultTo(db.fn.now());
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.dropTable('outbox_messages')
+    ]);
+};
@@ -0,0 +1,24 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('markets', (table: Knex.CreateTableBuilder) => {
+            table.integer('bid_expiration').nullable();
+            table.integer('order_expiration').nullable();
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('markets', (table: Knex.CreateTableBuilder) => {
+            table.dropColumn('bid_expiration');
+            table.dropColumn('order_expiration');
+        })
+    ]);
+};
@@ -0,0 +1,24 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('escrows', (table: Knex.CreateTableBuilder) => {
+            table.string('arbiter_address').nullable();
+            table.string('arbiter_pubkey').nullable();
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('escrows', (table: Knex.CreateTableBuilder) => {
+            table.dropColumn('arbiter_address');
+            table.dropColumn('arbiter_pubkey');
+        })
+    ]);
+};
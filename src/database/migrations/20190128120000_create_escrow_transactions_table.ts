@@ -0,0 +1,33 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.createTable('escrow_transactions', (table: Knex.CreateTableBuilder) => {
+            table.increments('id').primary();
+
+            table.string('txid').notNullable();
+            table.string('type').notNullable();
+            table.string('status').notNullable();
+            table.integer('confirmations').notNullable().defaultTo(0);
+            table.integer('block_height').nullable();
+
+            table.integer('order_item_id').unsigned().notNullable();
+            table.foreign('order_item_id').references('id')
+                .inTable('order_items').onDelete('cascade');
+
+            table.timestamp('updated_at').defaultTo(db.fn.now());
+            table.timestamp('created_at').defaultTo(db.fn.now());
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.dropTable('escrow_transactions')
+    ]);
+};
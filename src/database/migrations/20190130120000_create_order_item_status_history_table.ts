@@ -0,0 +1,32 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.createTable('order_item_status_history', (table: Knex.CreateTableBuilder) => {
+            table.increments('id').primary();
+
+            table.string('previous_status').nullable();
+            table.string('new_status').notNullable();
+            table.string('msgid').nullable();
+            table.string('txid').nullable();
+
+            table.integer('order_item_id').unsigned().notNullable();
+            table.foreign('order_item_id').references('id')
+                .inTable('order_items').onDelete('cascade');
+
+            table.timestamp('updated_at').defaultTo(db.fn.now());
+            table.timestamp('created_at').defaultTo(db.fn.now());
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.dropTable('order_item_status_history')
+    ]);
+};
@@ -0,0 +1,34 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.createTable('bid_history', (table: Knex.CreateTableBuilder) => {
+            table.increments('id').primary();
+
+            table.string('action').notNullable();
+            table.string('sender').notNullable();
+            table.float('total_price').nullable();
+            table.float('base_price').nullable();
+            table.float('shipping_price').nullable();
+            table.string('msgid').nullable();
+
+            table.integer('bid_id').unsigned().notNullable();
+            table.foreign('bid_id').references('id')
+                .inTable('bids').onDelete('cascade');
+
+            table.timestamp('updated_at').defaultTo(db.fn.now());
+            table.timestamp('created_at').defaultTo(db.fn.now());
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.dropTable('bid_history')
+    ]);
+};
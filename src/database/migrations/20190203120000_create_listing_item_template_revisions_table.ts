@@ -0,0 +1,31 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.createTable('listing_item_template_revisions', (table: Knex.CreateTableBuilder) => {
+            table.increments('id').primary();
+
+            table.integer('revision').notNullable();
+            table.string('hash').notNullable();
+            table.text('data').notNullable();
+
+            table.integer('listing_item_template_id').unsigned().notNullable();
+            table.foreign('listing_item_template_id').references('id')
+                .inTable('listing_item_templates').onDelete('cascade');
+
+            table.timestamp('updated_at').defaultTo(db.fn.now());
+            table.timestamp('created_at').defaultTo(db.fn.now());
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.dropTable('listing_item_template_revisions')
+    ]);
+};
@@ -0,0 +1,22 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('listing_items', (table: Knex.CreateTableBuilder) => {
+            table.integer('listing_item_template_revision_id').unsigned().nullable();
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.table('listing_items', (table: Knex.CreateTableBuilder) => {
+            table.dropColumn('listing_item_template_revision_id');
+        })
+    ]);
+};
@@ -0,0 +1,42 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * as Knex from 'knex';
+
+
+exports.up = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.createTable('listing_item_template_schedules', (table: Knex.CreateTableBuilder) => {
+            table.increments('id').primary();
+
+            table.string('status').notNullable();
+            table.integer('post_at').notNullable();
+            table.integer('days_retention').notNullable();
+            table.integer('repost_before_expiry').nullable();
+            table.float('fee_budget').nullable();
+            table.float('fees_spent').notNullable().defaultTo(0);
+            table.integer('post_count').notNullable().defaultTo(0);
+            table.integer('last_posted_at').nullable();
+            table.integer('expires_at').nullable();
+            table.text('reason').nullable();
+
+            table.integer('listing_item_template_id').unsigned().notNullable().unique();
+            table.foreign('listing_item_template_id').references('id')
+                .inTable('listing_item_templates').onDelete('cascade');
+
+            table.integer('market_id').unsigned().notNullable();
+            table.foreign('market_id').references('id')
+                .inTable('markets').onDelete('cascade');
+
+            table.timestamp('updated_at').defaultTo(db.fn.now());
+            table.timestamp('created_at').defaultTo(db.fn.now());
+        })
+    ]);
+};
+
+exports.down = (db: Knex): Promise<any> => {
+    return Promise.all([
+        db.schema.dropTable('listing_item_template_schedules')
+    ]);
+};
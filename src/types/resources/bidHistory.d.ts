@@ -0,0 +1,20 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+declare module 'resources' {
+
+    interface BidHistory {
+        id: number;
+        action: string;
+        sender: string;
+        totalPrice: number;
+        basePrice: number;      // set for MPA_COUNTER
+        shippingPrice: number;  // set for MPA_COUNTER
+        msgid: string;          // the received SmsgMessage
+        Bid: Bid;
+        createdAt: Date;
+        updatedAt: Date;
+    }
+
+}
@@ -7,6 +7,8 @@ declare module 'resources' {
     interface Escrow {
         id: number;
         type: string;
+        arbiterAddress: string;     // ARBITRATED only
+        arbiterPubkey: string;      // ARBITRATED only
         createdAt: Date;
         updatedAt: Date;
         Ratio: EscrowRatio;
@@ -0,0 +1,19 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+declare module 'resources' {
+
+    interface EscrowTransaction {
+        id: number;
+        txid: string;
+        type: string;
+        status: string;
+        confirmations: number;
+        blockHeight: number; // height of the block the tx was included in
+        OrderItem: OrderItem;
+        createdAt: Date;
+        updatedAt: Date;
+    }
+
+}
@@ -13,6 +13,7 @@ declare module 'resources' {
         receivedAt: number;
         postedAt: number;
         expiredAt: number;
+        removed: boolean;
 
         ItemInformation: ItemInformation;
         PaymentInformation: PaymentInformation;
@@ -22,6 +23,7 @@ declare module 'resources' {
         Bids: Bid[];
         ActionMessages: ActionMessage[];
         ListingItemTemplate: ListingItemTemplate;
+        ListingItemTemplateRevision: ListingItemTemplateRevision;   // the revision of our template the ListingItem was posted from
         FlaggedItem: FlaggedItem;
 
         createdAt: Date;
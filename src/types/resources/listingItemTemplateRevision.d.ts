@@ -0,0 +1,20 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+declare module 'resources' {
+
+    interface ListingItemTemplateRevision {
+        id: number;
+        revision: number;
+        hash: string;
+        data: string;       // JSON snapshot of the ListingItemTemplate
+        messageHash: string;    // content hash of the ListingItemMessage posted from the revision
+        listingItemTemplateId: number;
+        ListingItemTemplate: ListingItemTemplate;
+        ListingItems: ListingItem[];
+        createdAt: Date;
+        updatedAt: Date;
+    }
+
+}
@@ -0,0 +1,27 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+declare module 'resources' {
+
+    interface ListingItemTemplateSchedule {
+        id: number;
+        status: string;
+        postAt: number; // when the template should be posted next
+        daysRetention: number;
+        repostBeforeExpiry: number; // hours before the expiry of the posted ListingItem to repost it
+        feeBudget: number; // max total fees to spend on posting
+        feesSpent: number;
+        postCount: number;
+        lastPostedAt: number;
+        expiresAt: number; // when the last posted ListingItem expires
+        reason: string; // why posting failed or was stopped
+        listingItemTemplateId: number;
+        marketId: number;
+        ListingItemTemplate: ListingItemTemplate;
+        Market: Market;
+        createdAt: Date;
+        updatedAt: Date;
+    }
+
+}
@@ -16,6 +16,7 @@ declare module 'resources' {
         updatedAt: Date;
 
         bid_id: number;
+        Bid: Bid;
     }
 
 }
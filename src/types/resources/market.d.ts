@@ -9,6 +9,8 @@ declare module 'resources' {
         name: string;
         privateKey: string;
         address: string;
+        bidExpiration: number;      // hours, BID_EXPIRATION if not set
+        orderExpiration: number;    // hours, ORDER_EXPIRATION if not set
         createdAt: Date;
         updatedAt: Date;
     }
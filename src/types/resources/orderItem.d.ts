@@ -12,6 +12,7 @@ declare module 'resources' {
         itemHash: string;
         Bid: Bid;
         OrderItemObjects: OrderItemObject[];
+        EscrowTransactions: EscrowTransaction[];
         Order: Order;
         createdAt: Date;
         updatedAt: Date;
@@ -0,0 +1,18 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+declare module 'resources' {
+
+    interface OrderItemStatusHistory {
+        id: number;
+        previousStatus: string;
+        newStatus: string;
+        msgid: string;  // the received SmsgMessage causing the transition
+        txid: string;
+        OrderItem: OrderItem;
+        createdAt: Date;
+        updatedAt: Date;
+    }
+
+}
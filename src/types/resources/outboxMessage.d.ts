@@ -0,0 +1,25 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+declare module 'resources' {
+
+    interface OutboxMessage {
+        id: number;
+        type: string;
+        status: string;
+        fromAddress: string;
+        toAddress: string;
+        message: string; // MarketplaceMessage as json
+        paidMessage: boolean;
+        daysRetention: number;
+        attempts: number; // how many times sending has been attempted
+        nextRetry: number; // when sending should be retried next
+        reason: string; // why sending failed the last time
+        msgid: string; // set once sent
+        sentAt: number;
+        createdAt: Date;
+        updatedAt: Date;
+    }
+
+}
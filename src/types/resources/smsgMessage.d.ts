@@ -32,6 +32,9 @@ declare module 'resources' {
         id: number;
         type: AllowedMessageTypes; // | string;
         status: SmsgMessageStatus;
+        reason: string; // why processing failed the last time
+        attempts: number; // how many times processing has been attempted
+        nextRetry: number; // when a WAITING message should be retried next
 
         createdAt: Date;
         updatedAt: Date;
@@ -8,11 +8,13 @@ import { BlackBoxTestUtil } from './lib/BlackBoxTestUtil';
 import { Commands } from '../../src/api/commands/CommandEnumType';
 import { CreatableModel } from '../../src/api/enums/CreatableModel';
 import { GenerateListingItemTemplateParams } from '../../src/api/requests/params/GenerateListingItemTemplateParams';
+import * as _ from 'lodash';
 import * as resources from 'resources';
 import { BidMessageType } from '../../src/api/enums/BidMessageType';
 import { SearchOrder } from '../../src/api/enums/SearchOrder';
 import { OrderStatus } from '../../src/api/enums/OrderStatus';
 import { ImageDataProtocolType } from '../../src/api/enums/ImageDataProtocolType';
+import { BidDataValue } from '../../src/api/enums/BidDataValue';
 
 describe('Happy Buy Flow', () => {
 
@@ -66,6 +68,25 @@ describe('Happy Buy Flow', () => {
 
     let sent = false;
 
+    // the shipment details sent by the seller with the MPA_RELEASE
+    const shipment = {
+        carrier: 'carrier1',
+        trackingNumber: 'tracking1234',
+        shippingDate: '2019-01-01',
+        expectedDelivery: '2019-01-08'
+    };
+
+    const expectShipmentOrderItemObjects = (orderItem: resources.OrderItem) => {
+        const dataValueOf = (dataId: BidDataValue) => {
+            const object = _.find(orderItem.OrderItemObjects, (kv: resources.OrderItemObject) => kv.dataId === dataId);
+            return object ? object.dataValue : undefined;
+        };
+        expect(dataValueOf(BidDataValue.SHIPMENT_CARRIER)).toBe(shipment.carrier);
+        expect(dataValueOf(BidDataValue.SHIPMENT_TRACKING_NUMBER)).toBe(shipment.trackingNumber);
+        expect(dataValueOf(BidDataValue.SHIPMENT_SHIPPING_DATE)).toBe(shipment.shippingDate);
+        expect(dataValueOf(BidDataValue.SHIPMENT_EXPECTED_DELIVERY)).toBe(shipment.expectedDelivery);
+    };
+
     beforeAll(async () => {
 
         await testUtilSellerNode.cleanDb();
@@ -751,7 +772,11 @@ describe('Happy Buy Flow', () => {
         const res: any = await testUtilSellerNode.rpc(escrowCommand, [
             escrowReleaseCommand,
             orderOnSellerNode.OrderItems[0].id,
-            'tracking1234'
+            'shipped',
+            shipment.carrier,
+            shipment.trackingNumber,
+            shipment.shippingDate,
+            shipment.expectedDelivery
         ]);
         res.expectJson();
         res.expectStatusCode(200);
@@ -803,6 +828,7 @@ describe('Happy Buy Flow', () => {
         expect(result[0].OrderItems).toHaveLength(1);
         expect(result[0].OrderItems[0].status).toBe(OrderStatus.SHIPPING);
         expect(result[0].OrderItems[0].itemHash).toBe(bidOnSellerNode.ListingItem.hash);
+        expectShipmentOrderItemObjects(result[0].OrderItems[0]);
 
         orderOnSellerNode = result[0];
 
@@ -844,6 +870,7 @@ describe('Happy Buy Flow', () => {
         expect(result[0].OrderItems[0].status).toBe(OrderStatus.SHIPPING);
         expect(result[0].buyer).toBe(buyerProfile.address);
         expect(result[0].seller).toBe(sellerProfile.address);
+        expectShipmentOrderItemObjects(result[0].OrderItems[0]);
 
         orderOnBuyerNode = result[0];
 
@@ -0,0 +1,277 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../src/core/Logger';
+import { BlackBoxTestUtil } from './lib/BlackBoxTestUtil';
+import { Commands } from '../../src/api/commands/CommandEnumType';
+import { CreatableModel } from '../../src/api/enums/CreatableModel';
+import { GenerateListingItemTemplateParams } from '../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { BidMessageType } from '../../src/api/enums/BidMessageType';
+import { SearchOrder } from '../../src/api/enums/SearchOrder';
+import { OrderStatus } from '../../src/api/enums/OrderStatus';
+import { ShoppingCartCheckoutResult } from '../../src/api/responses/ShoppingCartCheckoutResult';
+
+describe('Combined Bid Flow', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+
+    const randomBoolean: boolean = Math.random() >= 0.5;
+    const testUtilSellerNode = new BlackBoxTestUtil(randomBoolean ? 0 : 1);  // SELLERS
+    const testUtilBuyerNode = new BlackBoxTestUtil(randomBoolean ? 1 : 0);  // BUYER
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templatePostCommand = Commands.TEMPLATE_POST.commandName;
+    const listingItemCommand = Commands.ITEM_ROOT.commandName;
+    const listingItemGetCommand = Commands.ITEM_GET.commandName;
+    const profileCommand = Commands.PROFILE_ROOT.commandName;
+    const profileAddCommand = Commands.PROFILE_ADD.commandName;
+    const shoppingCartCommand = Commands.SHOPPINGCART_ROOT.commandName;
+    const shoppingCartCheckoutCommand = Commands.SHOPPINGCART_CHECKOUT.commandName;
+    const shoppingCartItemCommand = Commands.SHOPPINGCARTITEM_ROOT.commandName;
+    const shoppingCartItemAddCommand = Commands.SHOPPINGCARTITEM_ADD.commandName;
+    const shoppingCartItemListCommand = Commands.SHOPPINGCARTITEM_LIST.commandName;
+    const bidCommand = Commands.BID_ROOT.commandName;
+    const bidSearchCommand = Commands.BID_SEARCH.commandName;
+    const bidAcceptCommand = Commands.BID_ACCEPT.commandName;
+    const bidRejectCommand = Commands.BID_REJECT.commandName;
+    const orderCommand = Commands.ORDER_ROOT.commandName;
+    const orderSearchCommand = Commands.ORDER_SEARCH.commandName;
+    const daemonCommand = Commands.DAEMON_ROOT.commandName;
+
+    let sellerProfile: resources.Profile;
+    let otherSellerProfile: resources.Profile;
+    let buyerProfile: resources.Profile;
+    let sellerMarket: resources.Market;
+
+    // [0]: sold with the other sellers item, [1] and [2]: the accepted bundle, [3] and [4]: the rejected bundle, [5]: the other sellers item
+    let listingItemTemplates: resources.ListingItemTemplate[] = [];
+    const listingItemsBuyerNode: resources.ListingItem[] = [];
+
+    let bundleBidOnSellerNode: resources.Bid;
+
+    const PAGE = 0;
+    const PAGE_LIMIT = 10;
+    const ORDERING = SearchOrder.ASC;
+    const DAYS_RETENTION = 2;
+
+    const generateTemplates = async (profileId: number, marketId: number, amount: number): Promise<resources.ListingItemTemplate[]> => {
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,               // generateItemInformation
+            true,               // generateItemLocation
+            true,               // generateShippingDestinations
+            false,              // generateItemImages
+            true,               // generatePaymentInformation
+            true,               // generateEscrow
+            true,               // generateItemPrice
+            true,               // generateMessagingInformation
+            false,              // generateListingItemObjects
+            false,              // generateObjectDatas
+            profileId,          // profileId
+            false,              // generateListingItem
+            marketId            // marketId
+        ]).toParamsArray();
+        return await testUtilSellerNode.generateData(
+            CreatableModel.LISTINGITEMTEMPLATE,     // what to generate
+            amount,                                 // how many to generate
+            true,                                   // return model
+            generateListingItemTemplateParams       // what kind of data to generate
+        ) as resources.ListingItemTemplate[];
+    };
+
+    const checkout = async (listingItems: resources.ListingItem[]): Promise<ShoppingCartCheckoutResult[]> => {
+        const cart: resources.ShoppingCart = buyerProfile.ShoppingCart[0];
+        for (const listingItem of listingItems) {
+            const addRes: any = await testUtilBuyerNode.rpc(shoppingCartItemCommand, [shoppingCartItemAddCommand, cart.id, listingItem.id]);
+            addRes.expectJson();
+            addRes.expectStatusCode(200);
+        }
+
+        const res: any = await testUtilBuyerNode.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand, cart.id, buyerProfile.ShippingAddresses[0].id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        return res.getBody()['result'];
+    };
+
+    const waitForBids = async (testUtil: BlackBoxTestUtil, listingItemHashes: string[], action: BidMessageType): Promise<resources.Bid[]> => {
+        const bids: resources.Bid[] = [];
+        for (const hash of listingItemHashes) {
+            const res: any = await testUtil.rpcWaitFor(
+                bidCommand,
+                [bidSearchCommand, PAGE, PAGE_LIMIT, ORDERING, hash, action, '*', buyerProfile.address],
+                8 * 60,
+                200,
+                '[0].action',
+                action.toString()
+            );
+            res.expectJson();
+            res.expectStatusCode(200);
+
+            const result: resources.Bid[] = res.getBody()['result'];
+            expect(result.length).toBe(1);
+            expect(result[0].action).toBe(action);
+            expect(result[0].ListingItem.hash).toBe(hash);
+            bids.push(result[0]);
+        }
+        return bids;
+    };
+
+    beforeAll(async () => {
+
+        await testUtilSellerNode.cleanDb();
+        await testUtilBuyerNode.cleanDb();
+
+        sellerProfile = await testUtilSellerNode.getDefaultProfile();
+        buyerProfile = await testUtilBuyerNode.getDefaultProfile();
+        sellerMarket = await testUtilSellerNode.getDefaultMarket();
+
+        // the other seller is a second Profile on the seller node
+        const res: any = await testUtilSellerNode.rpc(profileCommand, [profileAddCommand, 'OTHER-SELLER']);
+        res.expectJson();
+        res.expectStatusCode(200);
+        otherSellerProfile = res.getBody()['result'];
+        expect(otherSellerProfile.address).not.toBe(sellerProfile.address);
+
+        listingItemTemplates = await generateTemplates(sellerProfile.id, sellerMarket.id, 5);
+        listingItemTemplates.push(...await generateTemplates(otherSellerProfile.id, sellerMarket.id, 1));
+        expect(listingItemTemplates).toHaveLength(6);
+
+        // start with clean outputs in case something went wrong earlier
+        for (const testUtil of [testUtilSellerNode, testUtilBuyerNode]) {
+            const unlockRes: any = await testUtil.rpc(daemonCommand, ['lockunspent', true]);
+            unlockRes.expectJson();
+            unlockRes.expectStatusCode(200);
+        }
+    });
+
+    test('Should post the ListingItems from SELLER node', async () => {
+        for (const listingItemTemplate of listingItemTemplates) {
+            const res: any = await testUtilSellerNode.rpc(templateCommand, [templatePostCommand,
+                listingItemTemplate.id,
+                DAYS_RETENTION,
+                sellerMarket.id
+            ]);
+            res.expectJson();
+            res.expectStatusCode(200);
+            expect(res.getBody()['result'].result).toBe('Sent.');
+        }
+    });
+
+    test('Should have received the ListingItems on BUYER node', async () => {
+        for (const listingItemTemplate of listingItemTemplates) {
+            const res: any = await testUtilBuyerNode.rpcWaitFor(
+                listingItemCommand,
+                [listingItemGetCommand, listingItemTemplate.hash],
+                15 * 60,
+                200,
+                'hash',
+                listingItemTemplate.hash
+            );
+            res.expectJson();
+            res.expectStatusCode(200);
+            listingItemsBuyerNode.push(res.getBody()['result']);
+        }
+        expect(listingItemsBuyerNode[0].seller).toBe(sellerProfile.address);
+        expect(listingItemsBuyerNode[5].seller).toBe(otherSellerProfile.address);
+    }, 600000); // timeout to 600s
+
+    test('Should checkout a cart with items from two sellers, sending a Bid to each seller', async () => {
+        expect(listingItemsBuyerNode).toHaveLength(6);
+
+        const results = await checkout([listingItemsBuyerNode[0], listingItemsBuyerNode[5]]);
+        expect(results).toHaveLength(2);
+
+        const sellerResult = _.find(results, { seller: sellerProfile.address }) as ShoppingCartCheckoutResult;
+        expect(sellerResult.listingItemHashes).toEqual([listingItemsBuyerNode[0].hash]);
+        expect(sellerResult.response.result).toBe('Sent.');
+        expect(sellerResult.error).not.toBeDefined();
+
+        const otherSellerResult = _.find(results, { seller: otherSellerProfile.address }) as ShoppingCartCheckoutResult;
+        expect(otherSellerResult.listingItemHashes).toEqual([listingItemsBuyerNode[5].hash]);
+        expect(otherSellerResult.response.result).toBe('Sent.');
+        expect(otherSellerResult.error).not.toBeDefined();
+
+        // the sent items are removed from the cart
+        const res: any = await testUtilBuyerNode.rpc(shoppingCartItemCommand, [shoppingCartItemListCommand, buyerProfile.ShoppingCart[0].id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        expect(res.getBody()['result']).toHaveLength(0);
+    });
+
+    test('Should have received a separate Bid (MPA_BID) for each seller on SELLER node', async () => {
+        const bids = await waitForBids(testUtilSellerNode, [listingItemsBuyerNode[0].hash, listingItemsBuyerNode[5].hash], BidMessageType.MPA_BID);
+        expect(bids[0].ListingItem.seller).toBe(sellerProfile.address);
+        expect(bids[1].ListingItem.seller).toBe(otherSellerProfile.address);
+    }, 600000); // timeout to 600s
+
+    test('Should checkout two items from the same seller as a single combined Bid', async () => {
+        const results = await checkout([listingItemsBuyerNode[1], listingItemsBuyerNode[2]]);
+        expect(results).toHaveLength(1);
+        expect(results[0].seller).toBe(sellerProfile.address);
+        expect(results[0].listingItemHashes).toEqual([listingItemsBuyerNode[1].hash, listingItemsBuyerNode[2].hash]);
+        expect(results[0].response.result).toBe('Sent.');
+    });
+
+    test('Should have received the combined Bid (MPA_BID) on SELLER node', async () => {
+        const bids = await waitForBids(testUtilSellerNode, [listingItemsBuyerNode[1].hash, listingItemsBuyerNode[2].hash], BidMessageType.MPA_BID);
+        bundleBidOnSellerNode = bids[0];
+    }, 600000); // timeout to 600s
+
+    test('Should accept the whole combined Bid (MPA_ACCEPT) from SELLER node', async () => {
+        expect(bundleBidOnSellerNode).toBeDefined();
+
+        const res: any = await testUtilSellerNode.rpc(bidCommand, [bidAcceptCommand, bundleBidOnSellerNode.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        expect(res.getBody()['result'].result).toBe('Sent.');
+
+        // all the bundled Bids were accepted
+        await waitForBids(testUtilSellerNode, [listingItemsBuyerNode[1].hash, listingItemsBuyerNode[2].hash], BidMessageType.MPA_ACCEPT);
+    }, 600000); // timeout to 600s
+
+    test('Should have created a single Order for the combined Bid on SELLER node and BUYER node', async () => {
+
+        await waitForBids(testUtilBuyerNode, [listingItemsBuyerNode[1].hash, listingItemsBuyerNode[2].hash], BidMessageType.MPA_ACCEPT);
+
+        for (const testUtil of [testUtilSellerNode, testUtilBuyerNode]) {
+            const res: any = await testUtil.rpc(orderCommand, [orderSearchCommand,
+                listingItemsBuyerNode[1].hash,
+                OrderStatus.AWAITING_ESCROW,
+                buyerProfile.address,
+                sellerProfile.address,
+                SearchOrder.ASC
+            ]);
+            res.expectJson();
+            res.expectStatusCode(200);
+
+            const result: resources.Order[] = res.getBody()['result'];
+            expect(result).toHaveLength(1);
+            expect(result[0].OrderItems).toHaveLength(2);
+            const itemHashes = _.map(result[0].OrderItems, (orderItem: resources.OrderItem) => orderItem.itemHash).sort();
+            expect(itemHashes).toEqual([listingItemsBuyerNode[1].hash, listingItemsBuyerNode[2].hash].sort());
+        }
+    }, 600000); // timeout to 600s
+
+    test('Should reject the whole combined Bid (MPA_REJECT) from SELLER node', async () => {
+        const results = await checkout([listingItemsBuyerNode[3], listingItemsBuyerNode[4]]);
+        expect(results).toHaveLength(1);
+        expect(results[0].response.result).toBe('Sent.');
+
+        const bids = await waitForBids(testUtilSellerNode, [listingItemsBuyerNode[3].hash, listingItemsBuyerNode[4].hash], BidMessageType.MPA_BID);
+
+        const res: any = await testUtilSellerNode.rpc(bidCommand, [bidRejectCommand, bids[0].id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        expect(res.getBody()['result'].result).toBe('Sent.');
+
+        // all the bundled Bids were rejected, on both nodes
+        await waitForBids(testUtilSellerNode, [listingItemsBuyerNode[3].hash, listingItemsBuyerNode[4].hash], BidMessageType.MPA_REJECT);
+        await waitForBids(testUtilBuyerNode, [listingItemsBuyerNode[3].hash, listingItemsBuyerNode[4].hash], BidMessageType.MPA_REJECT);
+    }, 600000); // timeout to 600s
+
+});
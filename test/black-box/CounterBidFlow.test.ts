@@ -0,0 +1,271 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { Logger as LoggerType } from '../../src/core/Logger';
+import { BlackBoxTestUtil } from './lib/BlackBoxTestUtil';
+import { Commands } from '../../src/api/commands/CommandEnumType';
+import { CreatableModel } from '../../src/api/enums/CreatableModel';
+import { GenerateListingItemTemplateParams } from '../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { BidMessageType } from '../../src/api/enums/BidMessageType';
+import { BidDataValue } from '../../src/api/enums/BidDataValue';
+import { SearchOrder } from '../../src/api/enums/SearchOrder';
+import { OrderStatus } from '../../src/api/enums/OrderStatus';
+import { LockedOutputStatusResponse } from '../../src/api/responses/LockedOutputStatusResponse';
+
+describe('Counter Bid Flow', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+
+    const randomBoolean: boolean = Math.random() >= 0.5;
+    const testUtilSellerNode = new BlackBoxTestUtil(randomBoolean ? 0 : 1);  // SELLER
+    const testUtilBuyerNode = new BlackBoxTestUtil(randomBoolean ? 1 : 0);  // BUYER
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templatePostCommand = Commands.TEMPLATE_POST.commandName;
+    const listingItemCommand = Commands.ITEM_ROOT.commandName;
+    const listingItemGetCommand = Commands.ITEM_GET.commandName;
+    const bidCommand = Commands.BID_ROOT.commandName;
+    const bidSendCommand = Commands.BID_SEND.commandName;
+    const bidSearchCommand = Commands.BID_SEARCH.commandName;
+    const bidCounterCommand = Commands.BID_COUNTER.commandName;
+    const bidHistoryCommand = Commands.BID_HISTORY.commandName;
+    const bidAcceptCommand = Commands.BID_ACCEPT.commandName;
+    const orderCommand = Commands.ORDER_ROOT.commandName;
+    const orderSearchCommand = Commands.ORDER_SEARCH.commandName;
+    const lockedOutputCommand = Commands.LOCKEDOUTPUT_ROOT.commandName;
+    const lockedOutputListCommand = Commands.LOCKEDOUTPUT_LIST.commandName;
+    const daemonCommand = Commands.DAEMON_ROOT.commandName;
+
+    let sellerProfile: resources.Profile;
+    let buyerProfile: resources.Profile;
+    let sellerMarket: resources.Market;
+
+    let listingItemTemplate: resources.ListingItemTemplate;
+    let listingItemBuyerNode: resources.ListingItem;
+
+    let bidOnSellerNode: resources.Bid;
+    let bidOnBuyerNode: resources.Bid;
+
+    const PAGE = 0;
+    const PAGE_LIMIT = 10;
+    const ORDERING = SearchOrder.ASC;
+    const DAYS_RETENTION = 2;
+
+    // the seller asks for more, the buyer offers something in between which the seller accepts
+    const SELLER_BASE_PRICE = 20;
+    const SELLER_SHIPPING_PRICE = 2;
+    const BUYER_BASE_PRICE = 15;
+    const BUYER_SHIPPING_PRICE = 1;
+
+    const waitForBid = async (testUtil: BlackBoxTestUtil, action: BidMessageType): Promise<resources.Bid> => {
+        const res: any = await testUtil.rpcWaitFor(
+            bidCommand,
+            [bidSearchCommand, PAGE, PAGE_LIMIT, ORDERING, listingItemBuyerNode.hash, action, '*', buyerProfile.address],
+            8 * 60,
+            200,
+            '[0].action',
+            action.toString()
+        );
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: resources.Bid[] = res.getBody()['result'];
+        expect(result.length).toBe(1);
+        expect(result[0].action).toBe(action);
+        return result[0];
+    };
+
+    const waitForBidHistory = async (testUtil: BlackBoxTestUtil, bid: resources.Bid, length: number): Promise<resources.BidHistory[]> => {
+        const res: any = await testUtil.rpcWaitFor(
+            bidCommand,
+            [bidHistoryCommand, bid.id],
+            8 * 60,
+            200,
+            'length',
+            length,
+            '>='
+        );
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: resources.BidHistory[] = res.getBody()['result'];
+        expect(result).toHaveLength(length);
+        return result;
+    };
+
+    const getBidDataValue = (bid: resources.Bid, key: BidDataValue): any => {
+        const bidData = _.find(bid.BidDatas, (data: resources.BidData) => data.dataId === key);
+        expect(bidData).toBeDefined();
+        return (bidData as resources.BidData).dataValue;
+    };
+
+    const listLockedOutputs = async (testUtil: BlackBoxTestUtil): Promise<LockedOutputStatusResponse[]> => {
+        const res: any = await testUtil.rpc(lockedOutputCommand, [lockedOutputListCommand]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        return res.getBody()['result'];
+    };
+
+    beforeAll(async () => {
+
+        await testUtilSellerNode.cleanDb();
+        await testUtilBuyerNode.cleanDb();
+
+        sellerProfile = await testUtilSellerNode.getDefaultProfile();
+        buyerProfile = await testUtilBuyerNode.getDefaultProfile();
+        sellerMarket = await testUtilSellerNode.getDefaultMarket();
+
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,               // generateItemInformation
+            true,               // generateItemLocation
+            true,               // generateShippingDestinations
+            false,              // generateItemImages
+            true,               // generatePaymentInformation
+            true,               // generateEscrow
+            true,               // generateItemPrice
+            true,               // generateMessagingInformation
+            false,              // generateListingItemObjects
+            false,              // generateObjectDatas
+            sellerProfile.id,   // profileId
+            false,              // generateListingItem
+            sellerMarket.id     // marketId
+        ]).toParamsArray();
+        const listingItemTemplates = await testUtilSellerNode.generateData(
+            CreatableModel.LISTINGITEMTEMPLATE,     // what to generate
+            1,                                      // how many to generate
+            true,                                   // return model
+            generateListingItemTemplateParams       // what kind of data to generate
+        ) as resources.ListingItemTemplate[];
+        listingItemTemplate = listingItemTemplates[0];
+
+        // start with clean outputs in case something went wrong earlier
+        for (const testUtil of [testUtilSellerNode, testUtilBuyerNode]) {
+            const unlockRes: any = await testUtil.rpc(daemonCommand, ['lockunspent', true]);
+            unlockRes.expectJson();
+            unlockRes.expectStatusCode(200);
+        }
+    });
+
+    test('Should post the ListingItem from SELLER node and receive it on BUYER node', async () => {
+        const postRes: any = await testUtilSellerNode.rpc(templateCommand, [templatePostCommand,
+            listingItemTemplate.id,
+            DAYS_RETENTION,
+            sellerMarket.id
+        ]);
+        postRes.expectJson();
+        postRes.expectStatusCode(200);
+        expect(postRes.getBody()['result'].result).toBe('Sent.');
+
+        const res: any = await testUtilBuyerNode.rpcWaitFor(
+            listingItemCommand,
+            [listingItemGetCommand, listingItemTemplate.hash],
+            15 * 60,
+            200,
+            'hash',
+            listingItemTemplate.hash
+        );
+        res.expectJson();
+        res.expectStatusCode(200);
+        listingItemBuyerNode = res.getBody()['result'];
+        expect(listingItemBuyerNode.seller).toBe(sellerProfile.address);
+    }, 600000); // timeout to 600s
+
+    test('Should post Bid (MPA_BID) from BUYER node and receive it on SELLER node', async () => {
+        const res: any = await testUtilBuyerNode.rpc(bidCommand, [bidSendCommand,
+            listingItemBuyerNode.hash,
+            buyerProfile.id,
+            buyerProfile.ShippingAddresses[0].id
+        ]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        expect(res.getBody()['result'].result).toBe('Sent.');
+
+        bidOnBuyerNode = await waitForBid(testUtilBuyerNode, BidMessageType.MPA_BID);
+        const lockedOutputs = await listLockedOutputs(testUtilBuyerNode);
+        expect(lockedOutputs.length).toBeGreaterThan(0);
+
+        bidOnSellerNode = await waitForBid(testUtilSellerNode, BidMessageType.MPA_BID);
+    }, 600000); // timeout to 600s
+
+    test('Should counter the Bid (MPA_COUNTER) from SELLER node and receive it on BUYER node', async () => {
+        const res: any = await testUtilSellerNode.rpc(bidCommand, [bidCounterCommand, bidOnSellerNode.id, SELLER_BASE_PRICE, SELLER_SHIPPING_PRICE]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        expect(res.getBody()['result'].result).toBe('Sent.');
+
+        bidOnBuyerNode = await waitForBid(testUtilBuyerNode, BidMessageType.MPA_COUNTER);
+        expect(+getBidDataValue(bidOnBuyerNode, BidDataValue.TOTAL_PRICE)).toBe(SELLER_BASE_PRICE + SELLER_SHIPPING_PRICE);
+
+        const history = await waitForBidHistory(testUtilBuyerNode, bidOnBuyerNode, 2);
+        expect(history[1].action).toBe(BidMessageType.MPA_COUNTER);
+        expect(history[1].sender).toBe(sellerProfile.address);
+    }, 600000); // timeout to 600s
+
+    test('Should counter the counter offer (MPA_COUNTER) from BUYER node, locking new outputs for the new price', async () => {
+        const res: any = await testUtilBuyerNode.rpc(bidCommand, [bidCounterCommand, bidOnBuyerNode.id, BUYER_BASE_PRICE, BUYER_SHIPPING_PRICE]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        expect(res.getBody()['result'].result).toBe('Sent.');
+
+        const history = await waitForBidHistory(testUtilBuyerNode, bidOnBuyerNode, 3);
+        expect(history[2].sender).toBe(buyerProfile.address);
+
+        // the outputs locked for the Bid were replaced, they're all locked in the wallet
+        const lockedOutputs = await listLockedOutputs(testUtilBuyerNode);
+        expect(lockedOutputs.length).toBeGreaterThan(0);
+        for (const lockedOutput of lockedOutputs) {
+            expect(lockedOutput.bidId).toBe(bidOnBuyerNode.id);
+            expect(lockedOutput.walletLocked).toBeTruthy();
+        }
+        expect(_.sumBy(lockedOutputs, 'amount')).toBeGreaterThanOrEqual(BUYER_BASE_PRICE + BUYER_SHIPPING_PRICE);
+
+        // the outputs no longer needed were unlocked
+        const listLockUnspentRes: any = await testUtilBuyerNode.rpc(daemonCommand, ['listlockunspent']);
+        listLockUnspentRes.expectJson();
+        listLockUnspentRes.expectStatusCode(200);
+        expect(listLockUnspentRes.getBody()['result']).toHaveLength(lockedOutputs.length);
+    }, 600000); // timeout to 600s
+
+    test('Should have received the counter offer on SELLER node with the outputs the buyer locked', async () => {
+        const history = await waitForBidHistory(testUtilSellerNode, bidOnSellerNode, 3);
+        expect(history[2].sender).toBe(buyerProfile.address);
+        expect(+history[2].totalPrice).toBe(BUYER_BASE_PRICE + BUYER_SHIPPING_PRICE);
+
+        bidOnSellerNode = await waitForBid(testUtilSellerNode, BidMessageType.MPA_COUNTER);
+        expect(+getBidDataValue(bidOnSellerNode, BidDataValue.TOTAL_PRICE)).toBe(BUYER_BASE_PRICE + BUYER_SHIPPING_PRICE);
+
+        const lockedOutputs = await listLockedOutputs(testUtilBuyerNode);
+        let buyerOutputs = getBidDataValue(bidOnSellerNode, BidDataValue.BUYER_OUTPUTS);
+        buyerOutputs = _.isString(buyerOutputs) ? JSON.parse(buyerOutputs) : buyerOutputs;
+        expect(_.map(buyerOutputs, 'txid').sort()).toEqual(_.map(lockedOutputs, 'txid').sort());
+    }, 600000); // timeout to 600s
+
+    test('Should accept the counter offer (MPA_ACCEPT) from SELLER node and create the Order on BUYER node', async () => {
+        const res: any = await testUtilSellerNode.rpc(bidCommand, [bidAcceptCommand, bidOnSellerNode.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        expect(res.getBody()['result'].result).toBe('Sent.');
+
+        await waitForBid(testUtilBuyerNode, BidMessageType.MPA_ACCEPT);
+
+        const orderRes: any = await testUtilBuyerNode.rpc(orderCommand, [orderSearchCommand,
+            listingItemBuyerNode.hash,
+            OrderStatus.AWAITING_ESCROW,
+            buyerProfile.address,
+            sellerProfile.address,
+            SearchOrder.ASC
+        ]);
+        orderRes.expectJson();
+        orderRes.expectStatusCode(200);
+        const orders: resources.Order[] = orderRes.getBody()['result'];
+        expect(orders).toHaveLength(1);
+        expect(orders[0].OrderItems[0].itemHash).toBe(listingItemBuyerNode.hash);
+    }, 600000); // timeout to 600s
+
+});
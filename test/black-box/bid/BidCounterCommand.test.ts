@@ -0,0 +1,69 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('BidCounterCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const bidCommand = Commands.BID_ROOT.commandName;
+    const bidCounterCommand = Commands.BID_COUNTER.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to counter because of missing bidId', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidCounterCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('bidId').getMessage());
+    });
+
+    test('Should fail to counter because of missing basePrice', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidCounterCommand, 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('basePrice').getMessage());
+    });
+
+    test('Should fail to counter because of missing shippingPrice', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidCounterCommand, 1, 10]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('shippingPrice').getMessage());
+    });
+
+    test('Should fail to counter because of invalid basePrice', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidCounterCommand, 1, -10, 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('basePrice', 'number').getMessage());
+    });
+
+    test('Should fail to counter because of invalid shippingPrice', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidCounterCommand, 1, 10, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('shippingPrice', 'number').getMessage());
+    });
+
+    test('Should fail to counter because Bid not found', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidCounterCommand, 0, 10, 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('Bid').getMessage());
+    });
+
+});
@@ -0,0 +1,48 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('BidHistoryCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const bidCommand = Commands.BID_ROOT.commandName;
+    const bidHistoryCommand = Commands.BID_HISTORY.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to list Bid history because of missing bidId', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidHistoryCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('bidId').getMessage());
+    });
+
+    test('Should fail to list Bid history because of invalid bidId', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidHistoryCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('bidId', 'number').getMessage());
+    });
+
+    test('Should fail to list Bid history because Bid not found', async () => {
+        const res = await testUtil.rpc(bidCommand, [bidHistoryCommand, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('Bid').getMessage());
+    });
+
+});
@@ -10,6 +10,7 @@ import { CreatableModel } from '../../../src/api/enums/CreatableModel';
 import { Logger as LoggerType } from '../../../src/core/Logger';
 import * as resources from 'resources';
 import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
 
 describe('EscrowAddCommand', () => {
 
@@ -60,6 +61,19 @@ describe('EscrowAddCommand', () => {
 
     });
 
+    test('Should fail to create ARBITRATED Escrow because of missing arbiterPubkey', async () => {
+        const res: any = await testUtil.rpc(escrowCommand, [escrowAddCommand,
+            listingItemTemplate.id,
+            EscrowType.ARBITRATED,
+            100,
+            100,
+            'pmktyVZshdMAQ6DPbbRXEFNGuzMbTMkqAA'
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('arbiterPubkey').getMessage());
+    });
+
     test('Should Create new Escrow', async () => {
         const testData = {
             type: EscrowType.MAD,
@@ -0,0 +1,70 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('EscrowArbitrateCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const escrowCommand = Commands.ESCROW_ROOT.commandName;
+    const escrowArbitrateCommand = Commands.ESCROW_ARBITRATE.commandName;
+    const buyerAddress = 'pmktyVZshdMAQ6DPbbRXEFNGuzMbTMkqAA';
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to arbitrate Escrow because of missing listingItemId', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowArbitrateCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemId').getMessage());
+    });
+
+    test('Should fail to arbitrate Escrow because of missing buyerAddress', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowArbitrateCommand, 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('buyerAddress').getMessage());
+    });
+
+    test('Should fail to arbitrate Escrow because of missing decision', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowArbitrateCommand, 1, buyerAddress]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('decision').getMessage());
+    });
+
+    test('Should fail to arbitrate Escrow because of missing memo', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowArbitrateCommand, 1, buyerAddress, 'release']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('memo').getMessage());
+    });
+
+    test('Should fail to arbitrate Escrow because of invalid decision', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowArbitrateCommand, 1, buyerAddress, 'INVALID', 'memo']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('decision', 'release|refund').getMessage());
+    });
+
+    test('Should fail to arbitrate Escrow because ListingItem not found', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowArbitrateCommand, 0, buyerAddress, 'refund', 'memo']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItem').getMessage());
+    });
+
+});
@@ -0,0 +1,55 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('EscrowRecoverCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const escrowCommand = Commands.ESCROW_ROOT.commandName;
+    const escrowRecoverCommand = Commands.ESCROW_RECOVER.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to recover Escrow because of missing orderItemId', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowRecoverCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('orderItemId').getMessage());
+    });
+
+    test('Should fail to recover Escrow because of invalid orderItemId', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowRecoverCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('orderItemId', 'number').getMessage());
+    });
+
+    test('Should fail to recover Escrow because of invalid action', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowRecoverCommand, 1, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('action', 'release|refund').getMessage());
+    });
+
+    test('Should fail to recover Escrow because OrderItem not found', async () => {
+        const res = await testUtil.rpc(escrowCommand, [escrowRecoverCommand, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('OrderItem').getMessage());
+    });
+
+});
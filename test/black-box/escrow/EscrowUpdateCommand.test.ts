@@ -5,6 +5,7 @@
 import * from 'jest';
 import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
 import { EscrowType } from '../../../src/api/enums/EscrowType';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
 import { Commands } from '../../../src/api/commands/CommandEnumType';
 import { CreatableModel } from '../../../src/api/enums/CreatableModel';
 import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
@@ -79,4 +80,28 @@ describe('EscrowUpdateCommand', () => {
         expect(result.Ratio.buyer).toBe(testData.ratio.buyer);
         expect(result.Ratio.seller).toBe(testData.ratio.seller);
     });
+
+    test('Should fail to update Escrow because of invalid buyerRatio', async () => {
+        const res: any = await testUtil.rpc(escrowCommand, [escrowUpdateCommand,
+            createdListingItemTemplate.id,
+            EscrowType.MAD,
+            'INVALID',
+            100
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('buyerRatio', 'number').getMessage());
+    });
+
+    test('Should fail to update Escrow because of negative sellerRatio', async () => {
+        const res: any = await testUtil.rpc(escrowCommand, [escrowUpdateCommand,
+            createdListingItemTemplate.id,
+            EscrowType.MAD,
+            100,
+            -1
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe('Escrow ratios can\'t be negative.');
+    });
 });
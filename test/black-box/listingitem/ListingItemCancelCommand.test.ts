@@ -0,0 +1,154 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { CreatableModel } from '../../../src/api/enums/CreatableModel';
+import { GenerateListingItemParams } from '../../../src/api/requests/params/GenerateListingItemParams';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('ListingItemCancelCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const itemCommand = Commands.ITEM_ROOT.commandName;
+    const itemCancelCommand = Commands.ITEM_CANCEL.commandName;
+    const itemGetCommand = Commands.ITEM_GET.commandName;
+
+    let defaultProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+
+    let listingItem: resources.ListingItem;
+    let otherSellersListingItem: resources.ListingItem;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+
+        // get default profile and market
+        defaultProfile = await testUtil.getDefaultProfile();
+        defaultMarket = await testUtil.getDefaultMarket();
+
+        // generate listingItem sold by the default profile
+        let generateListingItemParams = new GenerateListingItemParams([
+            true,                       // generateItemInformation
+            true,                       // generateItemLocation
+            true,                       // generateShippingDestinations
+            false,                      // generateItemImages
+            true,                       // generatePaymentInformation
+            true,                       // generateEscrow
+            true,                       // generateItemPrice
+            true,                       // generateMessagingInformation
+            false,                      // generateListingItemObjects
+            false,                      // generateObjectDatas
+            null,                       // listingItemTemplateHash
+            defaultProfile.address,     // seller
+            null                        // categoryId
+        ]).toParamsArray();
+
+        let listingItems = await testUtil.generateData(
+            CreatableModel.LISTINGITEM,     // what to generate
+            1,                              // how many to generate
+            true,                           // return model
+            generateListingItemParams       // what kind of data to generate
+        ) as resources.ListingItem[];
+        listingItem = listingItems[0];
+
+        // generate listingItem sold by someone else
+        generateListingItemParams = new GenerateListingItemParams([
+            true,                       // generateItemInformation
+            true,                       // generateItemLocation
+            true,                       // generateShippingDestinations
+            false,                      // generateItemImages
+            true,                       // generatePaymentInformation
+            true,                       // generateEscrow
+            true,                       // generateItemPrice
+            true,                       // generateMessagingInformation
+            false,                      // generateListingItemObjects
+            false,                      // generateObjectDatas
+            null,                       // listingItemTemplateHash
+            null,                       // seller
+            null                        // categoryId
+        ]).toParamsArray();
+
+        listingItems = await testUtil.generateData(
+            CreatableModel.LISTINGITEM,     // what to generate
+            1,                              // how many to generate
+            true,                           // return model
+            generateListingItemParams       // what kind of data to generate
+        ) as resources.ListingItem[];
+        otherSellersListingItem = listingItems[0];
+    });
+
+    test('Should fail to cancel ListingItem because of missing listingItemHash', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemCancelCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemHash').getMessage());
+    });
+
+    test('Should fail to cancel ListingItem because of invalid listingItemHash (number)', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemCancelCommand, 99999999999999]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('listingItemHash', 'string').getMessage());
+    });
+
+    test('Should fail to cancel ListingItem because ListingItem not found', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemCancelCommand, 'INVALID-HASH']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItem').getMessage());
+    });
+
+    test('Should fail to cancel ListingItem because the ListingItem belongs to another seller', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemCancelCommand, otherSellersListingItem.hash]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe('ListingItem can only be cancelled by the seller.');
+    });
+
+    test('Should cancel the ListingItem and mark it as removed', async () => {
+        expect(listingItem.removed).toBeFalsy();
+
+        let res = await testUtil.rpc(itemCommand, [itemCancelCommand, listingItem.hash]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result.result).toBe('Sent.');
+
+        log.debug('==> CANCEL SENT.');
+
+        res = await testUtil.rpcWaitFor(
+            itemCommand,
+            [itemGetCommand, listingItem.id],
+            8 * 60,
+            200,
+            'removed',
+            0,
+            '>'     // sqlite returns booleans as 1/0
+        );
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const cancelledListingItem: resources.ListingItem = res.getBody()['result'];
+        expect(cancelledListingItem.hash).toBe(listingItem.hash);
+    }, 600000); // timeout to 600s
+
+    test('Should fail to cancel the ListingItem because it has already been removed', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemCancelCommand, listingItem.hash]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe('ListingItem has already been removed.');
+    });
+
+});
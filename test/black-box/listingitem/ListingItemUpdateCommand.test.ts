@@ -0,0 +1,216 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { CreatableModel } from '../../../src/api/enums/CreatableModel';
+import { GenerateListingItemParams } from '../../../src/api/requests/params/GenerateListingItemParams';
+import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('ListingItemUpdateCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const itemCommand = Commands.ITEM_ROOT.commandName;
+    const itemUpdateCommand = Commands.ITEM_POST_UPDATE.commandName;
+    const itemGetCommand = Commands.ITEM_GET.commandName;
+
+    let defaultProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+
+    let listingItem: resources.ListingItem;
+    let otherSellersListingItem: resources.ListingItem;
+    let listingItemTemplate: resources.ListingItemTemplate;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+
+        // get default profile and market
+        defaultProfile = await testUtil.getDefaultProfile();
+        defaultMarket = await testUtil.getDefaultMarket();
+
+        // generate the edited listingItemTemplate
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,   // generateItemInformation
+            true,   // generateItemLocation
+            true,   // generateShippingDestinations
+            false,  // generateItemImages
+            true,   // generatePaymentInformation
+            true,   // generateEscrow
+            true,   // generateItemPrice
+            true,   // generateMessagingInformation
+            false   // generateListingItemObjects
+        ]).toParamsArray();
+
+        const listingItemTemplates = await testUtil.generateData(
+            CreatableModel.LISTINGITEMTEMPLATE, // what to generate
+            1,                          // how many to generate
+            true,                       // return model
+            generateListingItemTemplateParams   // what kind of data to generate
+        ) as resources.ListingItemTemplate[];
+        listingItemTemplate = listingItemTemplates[0];
+
+        // generate the posted listingItem, sold by the default profile
+        let generateListingItemParams = new GenerateListingItemParams([
+            true,                       // generateItemInformation
+            true,                       // generateItemLocation
+            true,                       // generateShippingDestinations
+            false,                      // generateItemImages
+            true,                       // generatePaymentInformation
+            true,                       // generateEscrow
+            true,                       // generateItemPrice
+            true,                       // generateMessagingInformation
+            false,                      // generateListingItemObjects
+            false,                      // generateObjectDatas
+            null,                       // listingItemTemplateHash
+            defaultProfile.address,     // seller
+            null                        // categoryId
+        ]).toParamsArray();
+
+        let listingItems = await testUtil.generateData(
+            CreatableModel.LISTINGITEM,     // what to generate
+            1,                              // how many to generate
+            true,                           // return model
+            generateListingItemParams       // what kind of data to generate
+        ) as resources.ListingItem[];
+        listingItem = listingItems[0];
+
+        // generate listingItem sold by someone else
+        generateListingItemParams = new GenerateListingItemParams([
+            true,                       // generateItemInformation
+            true,                       // generateItemLocation
+            true,                       // generateShippingDestinations
+            false,                      // generateItemImages
+            true,                       // generatePaymentInformation
+            true,                       // generateEscrow
+            true,                       // generateItemPrice
+            true,                       // generateMessagingInformation
+            false,                      // generateListingItemObjects
+            false,                      // generateObjectDatas
+            null,                       // listingItemTemplateHash
+            null,                       // seller
+            null                        // categoryId
+        ]).toParamsArray();
+
+        listingItems = await testUtil.generateData(
+            CreatableModel.LISTINGITEM,     // what to generate
+            1,                              // how many to generate
+            true,                           // return model
+            generateListingItemParams       // what kind of data to generate
+        ) as resources.ListingItem[];
+        otherSellersListingItem = listingItems[0];
+    });
+
+    test('Should fail to update ListingItem because of missing listingItemHash', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemUpdateCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemHash').getMessage());
+    });
+
+    test('Should fail to update ListingItem because of missing listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemUpdateCommand,
+            listingItem.hash
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemTemplateId').getMessage());
+    });
+
+    test('Should fail to update ListingItem because of invalid listingItemTemplateId (string)', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemUpdateCommand,
+            listingItem.hash,
+            'INVALID-TEMPLATE-ID'
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('listingItemTemplateId', 'number').getMessage());
+    });
+
+    test('Should fail to update ListingItem because ListingItem not found', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemUpdateCommand,
+            'INVALID-HASH',
+            listingItemTemplate.id
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItem').getMessage());
+    });
+
+    test('Should fail to update ListingItem because ListingItemTemplate not found', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemUpdateCommand,
+            listingItem.hash,
+            0
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItemTemplate').getMessage());
+    });
+
+    test('Should fail to update ListingItem because the ListingItem belongs to another seller', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemUpdateCommand,
+            otherSellersListingItem.hash,
+            listingItemTemplate.id
+        ]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe('ListingItem can only be updated by the seller.');
+    });
+
+    test('Should estimate the fee for the ListingItem update', async () => {
+        const res = await testUtil.rpc(itemCommand, [itemUpdateCommand,
+            listingItem.hash,
+            listingItemTemplate.id,
+            true
+        ]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result.fee).toBeGreaterThan(0);
+    });
+
+    test('Should update the ListingItem without changing its hash', async () => {
+        let res = await testUtil.rpc(itemCommand, [itemUpdateCommand,
+            listingItem.hash,
+            listingItemTemplate.id
+        ]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result.result).toBe('Sent.');
+
+        log.debug('==> UPDATE SENT.');
+
+        res = await testUtil.rpcWaitFor(
+            itemCommand,
+            [itemGetCommand, listingItem.id],
+            8 * 60,
+            200,
+            'ItemInformation.title',
+            listingItemTemplate.ItemInformation.title
+        );
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const updatedListingItem: resources.ListingItem = res.getBody()['result'];
+        expect(updatedListingItem.hash).toBe(listingItem.hash);
+        expect(updatedListingItem.seller).toBe(listingItem.seller);
+        expect(updatedListingItem.expiredAt).toBe(listingItem.expiredAt);
+        expect(updatedListingItem.ItemInformation.shortDescription).toBe(listingItemTemplate.ItemInformation.shortDescription);
+        expect(updatedListingItem.ItemInformation.longDescription).toBe(listingItemTemplate.ItemInformation.longDescription);
+        expect(updatedListingItem.PaymentInformation.ItemPrice.basePrice).toBe(listingItemTemplate.PaymentInformation.ItemPrice.basePrice);
+    }, 600000); // timeout to 600s
+
+});
@@ -0,0 +1,136 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+import { ListingItemObjectType } from '../../../src/api/enums/ListingItemObjectType';
+import { MessagingProtocolType } from '../../../src/api/enums/MessagingProtocolType';
+
+describe('ListingItemTemplateCloneCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templateCloneCommand = Commands.TEMPLATE_CLONE.commandName;
+    const templateImportCommand = Commands.TEMPLATE_IMPORT.commandName;
+    const templateGetCommand = Commands.TEMPLATE_GET.commandName;
+
+    const imageData = 'iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAIAAADZSiLoAAAACXBIWXMAAAsTAAALEwEAmpwYAAAAB3RJTUU'
+        + 'H4gIQCyAa2TIm7wAAABl0RVh0Q29tbWVudABDcmVhdGVkIHdpdGggR0lNUFeBDhcAAAAaSURBVAjXY/j//z8'
+        + 'DA8P///8Z/v//D+EgAAD4JQv1hrMfIwAAAABJRU5ErkJggg==';
+
+    let defaultProfile: resources.Profile;
+    let listingItemTemplate: resources.ListingItemTemplate;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+        defaultProfile = await testUtil.getDefaultProfile();
+
+        const row = {
+            title: 'Original title',
+            shortDescription: 'original short description',
+            longDescription: 'original long description',
+            category: ['Particl', 'Free Swag'],
+            basePrice: 3,
+            domesticShippingPrice: 0.5,
+            shippingDestinations: ['US:SHIPS', 'FI:ASK'],
+            locationCountry: 'FI',
+            locationAddress: 'Helsinki',
+            locationMarker: { markerTitle: 'title', markerText: 'text', lat: 60.17, lng: 24.94 },
+            images: [
+                { data: imageData, name: 'first.png', mime: 'image/png' },
+                { data: imageData, name: 'second.png', mime: 'image/png', featured: true }
+            ],
+            messagingInformation: [{ protocol: MessagingProtocolType.SMSG, publicKey: 'publickey' }],
+            listingItemObjects: [{
+                type: ListingItemObjectType.DROPDOWN, description: 'size', order: 0,
+                listingItemObjectDatas: [{ key: 'S', value: 'small' }, { key: 'M', value: 'medium' }]
+            }]
+        };
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id, JSON.stringify([row])]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: any = res.getBody()['result'];
+        expect(result.imported).toBe(1);
+
+        const templateRes = await testUtil.rpc(templateCommand, [templateGetCommand, result.rows[0].listingItemTemplateId]);
+        listingItemTemplate = templateRes.getBody()['result'];
+    });
+
+    test('Should fail to clone because of missing listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateCloneCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemTemplateId').getMessage());
+    });
+
+    test('Should fail to clone because of invalid listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateCloneCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('listingItemTemplateId', 'number').getMessage());
+    });
+
+    test('Should fail to clone because ListingItemTemplate not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateCloneCommand, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItemTemplate').getMessage());
+    });
+
+    test('Should clone the ListingItemTemplate with its relations and images', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateCloneCommand, listingItemTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: resources.ListingItemTemplate = res.getBody()['result'];
+        expect(result.id).not.toBe(listingItemTemplate.id);
+        expect(result.hash).not.toBe(listingItemTemplate.hash);
+        expect(result.Profile.id).toBe(defaultProfile.id);
+        expect(result.ListingItems).toHaveLength(0);
+
+        expect(result.ItemInformation.id).not.toBe(listingItemTemplate.ItemInformation.id);
+        expect(result.ItemInformation.title).toBe('Original title');
+        expect(result.ItemInformation.ItemCategory.id).toBe(listingItemTemplate.ItemInformation.ItemCategory.id);
+        expect(result.ItemInformation.ItemLocation.region).toBe('FI');
+        expect(result.ItemInformation.ItemLocation.LocationMarker.lat).toBe(60.17);
+        expect(result.ItemInformation.ShippingDestinations).toHaveLength(2);
+
+        expect(result.ItemInformation.ItemImages).toHaveLength(2);
+        const featured = result.ItemInformation.ItemImages.filter(itemImage => itemImage.featured);
+        expect(featured).toHaveLength(1);
+        const featuredOriginal = featured[0].ItemImageDatas.find(itemImageData => itemImageData.imageVersion === 'ORIGINAL') as resources.ItemImageData;
+        expect(featuredOriginal.originalName).toBe('second.png');
+
+        expect(result.PaymentInformation.id).not.toBe(listingItemTemplate.PaymentInformation.id);
+        expect(result.PaymentInformation.type).toBe(listingItemTemplate.PaymentInformation.type);
+        expect(result.PaymentInformation.Escrow.Ratio.buyer).toBe(listingItemTemplate.PaymentInformation.Escrow.Ratio.buyer);
+        expect(result.PaymentInformation.ItemPrice.basePrice).toBe(3);
+        expect(result.PaymentInformation.ItemPrice.ShippingPrice.domestic).toBe(0.5);
+
+        expect(result.MessagingInformation).toHaveLength(1);
+        expect(result.MessagingInformation[0].publicKey).toBe('publickey');
+
+        expect(result.ListingItemObjects).toHaveLength(1);
+        expect(result.ListingItemObjects[0].ListingItemObjectDatas).toHaveLength(2);
+    });
+
+    test('Should clone the ListingItemTemplate again', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateCloneCommand, listingItemTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: resources.ListingItemTemplate = res.getBody()['result'];
+        expect(result.ItemInformation.title).toBe('Original title');
+    });
+
+});
@@ -0,0 +1,138 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as os from 'os';
+import * as path from 'path';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+import { ListingItemObjectType } from '../../../src/api/enums/ListingItemObjectType';
+
+describe('ListingItemTemplateExportCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templateExportCommand = Commands.TEMPLATE_EXPORT.commandName;
+    const templateImportCommand = Commands.TEMPLATE_IMPORT.commandName;
+    const templateGetCommand = Commands.TEMPLATE_GET.commandName;
+
+    const imageData = 'iVBORw0KGgoAAAANSUhEUgAAAAMAAAADCAIAAADZSiLoAAAACXBIWXMAAAsTAAALEwEAmpwYAAAAB3RJTUU'
+        + 'H4gIQCyAa2TIm7wAAABl0RVh0Q29tbWVudABDcmVhdGVkIHdpdGggR0lNUFeBDhcAAAAaSURBVAjXY/j//z8'
+        + 'DA8P///8Z/v//D+EgAAD4JQv1hrMfIwAAAABJRU5ErkJggg==';
+
+    let defaultProfile: resources.Profile;
+    let listingItemTemplate: resources.ListingItemTemplate;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+        defaultProfile = await testUtil.getDefaultProfile();
+
+        const row = {
+            title: 'Exported title',
+            shortDescription: 'exported short description',
+            longDescription: 'exported long description',
+            category: ['Particl', 'Free Swag'],
+            basePrice: 2,
+            shippingDestinations: ['US:SHIPS', 'FI:ASK'],
+            locationCountry: 'FI',
+            locationAddress: 'Helsinki',
+            locationMarker: { markerTitle: 'title', markerText: 'text', lat: 60.17, lng: 24.94 },
+            images: [{ data: imageData, name: 'image.png', mime: 'image/png', featured: true }],
+            listingItemObjects: [{
+                type: ListingItemObjectType.DROPDOWN, description: 'size', order: 0,
+                listingItemObjectDatas: [{ key: 'S', value: 'small' }]
+            }]
+        };
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id, JSON.stringify([row])]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: any = res.getBody()['result'];
+        expect(result.imported).toBe(1);
+
+        const templateRes = await testUtil.rpc(templateCommand, [templateGetCommand, result.rows[0].listingItemTemplateId]);
+        listingItemTemplate = templateRes.getBody()['result'];
+    });
+
+    test('Should fail to export because of missing listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateExportCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemTemplateId').getMessage());
+    });
+
+    test('Should fail to export because of invalid listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateExportCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('listingItemTemplateId', 'number').getMessage());
+    });
+
+    test('Should fail to export because ListingItemTemplate not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateExportCommand, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItemTemplate').getMessage());
+    });
+
+    test('Should export the ListingItemTemplate with its relations and images', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateExportCommand, listingItemTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const bundle: any = res.getBody()['result'];
+        expect(bundle.version).toBe(1);
+        expect(bundle.templates).toHaveLength(1);
+
+        const row = bundle.templates[0];
+        expect(row.title).toBe('Exported title');
+        expect(row.category).toEqual(['Particl', 'Free Swag']);
+        expect(row.basePrice).toBe(2);
+        expect(row.shippingDestinations).toEqual(['US:SHIPS', 'FI:ASK']);
+        expect(row.locationMarker.lat).toBe(60.17);
+        expect(row.listingItemObjects[0].listingItemObjectDatas).toEqual([{ key: 'S', value: 'small' }]);
+        expect(row.images).toHaveLength(1);
+        expect(row.images[0].name).toBe('image.png');
+        expect(row.images[0].featured).toBe(true);
+        expect(row.images[0].data.length).toBeGreaterThan(0);
+    });
+
+    test('Should export all the ListingItemTemplates to a file and import them again', async () => {
+        const file = path.join(os.tmpdir(), 'templateexport-' + Date.now() + '.json');
+
+        const res = await testUtil.rpc(templateCommand, [templateExportCommand, '*', file]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: any = res.getBody()['result'];
+        expect(result.file).toBe(file);
+        expect(result.total).toBe(1);
+
+        const importRes = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id, file]);
+        importRes.expectJson();
+        importRes.expectStatusCode(200);
+        const importResult: any = importRes.getBody()['result'];
+        expect(importResult.imported).toBe(1);
+
+        const templateRes = await testUtil.rpc(templateCommand, [templateGetCommand, importResult.rows[0].listingItemTemplateId]);
+        const imported: resources.ListingItemTemplate = templateRes.getBody()['result'];
+        expect(imported.id).not.toBe(listingItemTemplate.id);
+        expect(imported.ItemInformation.title).toBe(listingItemTemplate.ItemInformation.title);
+        expect(imported.ItemInformation.ItemCategory.id).toBe(listingItemTemplate.ItemInformation.ItemCategory.id);
+        expect(imported.ItemInformation.ItemLocation.LocationMarker.lng).toBe(24.94);
+        expect(imported.ItemInformation.ShippingDestinations).toHaveLength(2);
+        expect(imported.ItemInformation.ItemImages).toHaveLength(1);
+        expect(imported.ItemInformation.ItemImages[0].featured).toBe(true);
+        expect(imported.ListingItemObjects).toHaveLength(1);
+        expect(imported.PaymentInformation.Escrow.type).toBe(listingItemTemplate.PaymentInformation.Escrow.type);
+    });
+
+});
@@ -0,0 +1,141 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+import { MessageException } from '../../../src/api/exceptions/MessageException';
+import { EscrowType } from '../../../src/api/enums/EscrowType';
+
+describe('ListingItemTemplateImportCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templateImportCommand = Commands.TEMPLATE_IMPORT.commandName;
+    const templateGetCommand = Commands.TEMPLATE_GET.commandName;
+
+    let defaultProfile: resources.Profile;
+
+    const validRow = {
+        title: 'Imported title',
+        shortDescription: 'imported short description',
+        longDescription: 'imported long description',
+        category: 'High Value (10,000$+) > Luxury Items',
+        basePrice: 1.5,
+        domesticShippingPrice: 0.1,
+        internationalShippingPrice: '0.2',
+        shippingDestinations: 'US;CA:ASK',
+        locationCountry: 'FI',
+        locationAddress: 'Helsinki'
+    };
+    const invalidRow = {
+        title: 'Invalid title',
+        shortDescription: 'invalid short description',
+        category: 'cat_not_found',
+        basePrice: 'free',
+        escrowType: EscrowType.ARBITRATED,
+        shippingDestinations: ['XX']
+    };
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+        defaultProfile = await testUtil.getDefaultProfile();
+    });
+
+    test('Should fail to import because of missing profileId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('profileId').getMessage());
+    });
+
+    test('Should fail to import because of missing input', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('input').getMessage());
+    });
+
+    test('Should fail to import because of invalid dryRun', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id, '[]', 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('dryRun', 'boolean').getMessage());
+    });
+
+    test('Should fail to import because Profile not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, 0, '[]']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('Profile').getMessage());
+    });
+
+    test('Should fail to import because the file does not exist', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id, '/not/found.csv']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MessageException('Invalid import: File not found.').getMessage());
+    });
+
+    test('Should validate the rows without creating templates on dry run', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id,
+            JSON.stringify([validRow, invalidRow]), true]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result.dryRun).toBe(true);
+        expect(result.total).toBe(2);
+        expect(result.imported).toBe(1);
+        expect(result.failed).toBe(1);
+
+        expect(result.rows[0].errors).toHaveLength(0);
+        expect(result.rows[0].listingItemTemplateId).toBeUndefined();
+        expect(result.rows[1].row).toBe(2);
+        expect(result.rows[1].errors).toEqual([
+            'longDescription is required.',
+            'category not found: cat_not_found.',
+            'basePrice should be a positive number.',
+            'arbiterAddress and arbiterPubkey are required for ARBITRATED escrow.',
+            'invalid shipping destination country: XX.'
+        ]);
+    });
+
+    test('Should import the valid rows', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateImportCommand, defaultProfile.id,
+            JSON.stringify([validRow, invalidRow])]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result.dryRun).toBe(false);
+        expect(result.imported).toBe(1);
+        expect(result.rows[1].listingItemTemplateId).toBeUndefined();
+
+        const templateRes = await testUtil.rpc(templateCommand, [templateGetCommand, result.rows[0].listingItemTemplateId]);
+        templateRes.expectJson();
+        templateRes.expectStatusCode(200);
+
+        const template: resources.ListingItemTemplate = templateRes.getBody()['result'];
+        expect(template.Profile.id).toBe(defaultProfile.id);
+        expect(template.ItemInformation.title).toBe(validRow.title);
+        expect(template.ItemInformation.ItemCategory.key).toBe('cat_high_luxyry_items');
+        expect(template.ItemInformation.ItemLocation.region).toBe('FI');
+        expect(template.ItemInformation.ShippingDestinations).toHaveLength(2);
+        expect(template.PaymentInformation.ItemPrice.basePrice).toBe(1.5);
+        expect(template.PaymentInformation.ItemPrice.ShippingPrice.international).toBe(0.2);
+        expect(template.PaymentInformation.Escrow.type).toBe(EscrowType.MAD);
+        expect(template.PaymentInformation.Escrow.Ratio.buyer).toBe(100);
+    });
+
+});
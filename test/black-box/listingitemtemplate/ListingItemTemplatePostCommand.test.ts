@@ -123,6 +123,10 @@ describe('ListingItemTemplatePostCommand', () => {
         expect(result.hash).toBe(listingItemTemplate.hash);
         expect(result.ListingItemTemplate.hash).toBe(listingItemTemplate.hash);
 
+        // and related to the revision of the ListingItemTemplate it was posted from
+        expect(result.ListingItemTemplateRevision.revision).toBe(1);
+        expect(result.ListingItemTemplateRevision.hash).toBe(listingItemTemplate.hash);
+
     }, 600000); // timeout to 600s
 
     test('Should fail to post a ListingItem due to excessive smsgmessage size', async () => {
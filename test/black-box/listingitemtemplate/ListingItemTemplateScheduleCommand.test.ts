@@ -0,0 +1,180 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { CreatableModel } from '../../../src/api/enums/CreatableModel';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+import { ListingItemTemplateScheduleStatus } from '../../../src/api/enums/ListingItemTemplateScheduleStatus';
+
+describe('ListingItemTemplateScheduleCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templateScheduleCommand = Commands.TEMPLATE_SCHEDULE.commandName;
+    const templateSchedulesCommand = Commands.TEMPLATE_SCHEDULES.commandName;
+
+    let defaultProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+    let listingItemTemplate: resources.ListingItemTemplate;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+
+        defaultProfile = await testUtil.getDefaultProfile();
+        defaultMarket = await testUtil.getDefaultMarket();
+
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,   // generateItemInformation
+            true,   // generateShippingDestinations
+            false,  // generateItemImages
+            true,   // generatePaymentInformation
+            true,   // generateEscrow
+            true,   // generateItemPrice
+            true,   // generateMessagingInformation
+            false,  // generateListingItemObjects
+            false,  // generateObjectDatas
+            defaultProfile.id, // profileId
+            false,  // generateListingItem
+            defaultMarket.id   // marketId
+        ]).toParamsArray();
+
+        const listingItemTemplates: resources.ListingItemTemplate[] = await testUtil.generateData(
+            CreatableModel.LISTINGITEMTEMPLATE,
+            1,
+            true,
+            generateListingItemTemplateParams
+        );
+        listingItemTemplate = listingItemTemplates[0];
+    });
+
+    test('Should fail to schedule because of missing listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemTemplateId').getMessage());
+    });
+
+    test('Should fail to schedule because of missing postAt', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('postAt').getMessage());
+    });
+
+    test('Should fail to schedule because ListingItemTemplate not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, 0, 0, 7, defaultMarket.id]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItemTemplate').getMessage());
+    });
+
+    test('Should fail to schedule because of invalid postAt', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, 'INVALID', 7, defaultMarket.id]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('postAt', 'timestamp').getMessage());
+    });
+
+    test('Should fail to schedule because Market not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, 0, 7, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('Market').getMessage());
+    });
+
+    test('Should fail to schedule because repostBeforeExpiry is not before the expiry', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, 0, 1, defaultMarket.id, 24]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('repostBeforeExpiry', 'number').getMessage());
+    });
+
+    test('Should fail to schedule because of invalid feeBudget', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, 0, 7, defaultMarket.id, 12, -1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('feeBudget', 'number').getMessage());
+    });
+
+    test('Should fail to cancel because ListingItemTemplateSchedule not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, 'cancel']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItemTemplateSchedule').getMessage());
+    });
+
+    test('Should schedule the ListingItemTemplate to be posted and reposted before expiry', async () => {
+        const postAt = Date.now() + 60 * 60 * 1000;
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, postAt, 7, defaultMarket.id, 12, 0.1]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: resources.ListingItemTemplateSchedule = res.getBody()['result'];
+        expect(result.listingItemTemplateId).toBe(listingItemTemplate.id);
+        expect(result.marketId).toBe(defaultMarket.id);
+        expect(result.status).toBe(ListingItemTemplateScheduleStatus.SCHEDULED);
+        expect(result.postAt).toBe(postAt);
+        expect(result.daysRetention).toBe(7);
+        expect(result.repostBeforeExpiry).toBe(12);
+        expect(result.feeBudget).toBe(0.1);
+        expect(result.feesSpent).toBe(0);
+        expect(result.postCount).toBe(0);
+    });
+
+    test('Should reschedule the ListingItemTemplate without reposting', async () => {
+        const postAt = Date.parse('2030-01-01T12:00:00Z');
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, '2030-01-01T12:00:00Z', 3, defaultMarket.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: resources.ListingItemTemplateSchedule = res.getBody()['result'];
+        expect(result.status).toBe(ListingItemTemplateScheduleStatus.SCHEDULED);
+        expect(result.postAt).toBe(postAt);
+        expect(result.daysRetention).toBe(3);
+        expect(result.repostBeforeExpiry).toBeNull();
+        expect(result.feeBudget).toBeNull();
+    });
+
+    test('Should list the scheduled ListingItemTemplates', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateSchedulesCommand, ListingItemTemplateScheduleStatus.SCHEDULED]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: resources.ListingItemTemplateSchedule[] = res.getBody()['result'];
+        expect(result).toHaveLength(1);
+        expect(result[0].ListingItemTemplate.id).toBe(listingItemTemplate.id);
+    });
+
+    test('Should cancel the schedule of the ListingItemTemplate', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateScheduleCommand, listingItemTemplate.id, 'cancel']);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: resources.ListingItemTemplateSchedule = res.getBody()['result'];
+        expect(result.status).toBe(ListingItemTemplateScheduleStatus.CANCELLED);
+    });
+
+    test('Should fail to list schedules because of invalid status', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateSchedulesCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('status', 'ListingItemTemplateScheduleStatus').getMessage());
+    });
+
+    test('Should list no scheduled ListingItemTemplates after cancelling', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateSchedulesCommand, ListingItemTemplateScheduleStatus.SCHEDULED]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: resources.ListingItemTemplateSchedule[] = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+});
@@ -0,0 +1,136 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { CreatableModel } from '../../../src/api/enums/CreatableModel';
+import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('ListingItemTemplateUnpostCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templateUnpostCommand = Commands.TEMPLATE_UNPOST.commandName;
+    const itemCommand = Commands.ITEM_ROOT.commandName;
+    const itemGetCommand = Commands.ITEM_GET.commandName;
+
+    let defaultProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+
+    let postedListingItemTemplate: resources.ListingItemTemplate;
+    let listingItemTemplate: resources.ListingItemTemplate;
+
+    const generateListingItemTemplate = async (generateListingItem: boolean): Promise<resources.ListingItemTemplate> => {
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,                   // generateItemInformation
+            true,                   // generateItemLocation
+            true,                   // generateShippingDestinations
+            false,                  // generateItemImages
+            true,                   // generatePaymentInformation
+            true,                   // generateEscrow
+            true,                   // generateItemPrice
+            true,                   // generateMessagingInformation
+            false,                  // generateListingItemObjects
+            false,                  // generateObjectDatas
+            defaultProfile.id,      // profileId
+            generateListingItem,    // generateListingItem
+            defaultMarket.id        // marketId
+        ]).toParamsArray();
+
+        const listingItemTemplates = await testUtil.generateData(
+            CreatableModel.LISTINGITEMTEMPLATE, // what to generate
+            1,                                  // how many to generate
+            true,                               // return model
+            generateListingItemTemplateParams   // what kind of data to generate
+        ) as resources.ListingItemTemplate[];
+        return listingItemTemplates[0];
+    };
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+
+        // get default profile and market
+        defaultProfile = await testUtil.getDefaultProfile();
+        defaultMarket = await testUtil.getDefaultMarket();
+
+        postedListingItemTemplate = await generateListingItemTemplate(true);
+        listingItemTemplate = await generateListingItemTemplate(false);
+    });
+
+    test('Should fail to unpost ListingItemTemplate because of missing listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateUnpostCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemTemplateId').getMessage());
+    });
+
+    test('Should fail to unpost ListingItemTemplate because of invalid listingItemTemplateId (string)', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateUnpostCommand, 'INVALID-ID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('listingItemTemplateId', 'number').getMessage());
+    });
+
+    test('Should fail to unpost ListingItemTemplate because ListingItemTemplate not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateUnpostCommand, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItemTemplate').getMessage());
+    });
+
+    test('Should fail to unpost ListingItemTemplate because it has not been posted', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateUnpostCommand, listingItemTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe('ListingItemTemplate has no posted ListingItems.');
+    });
+
+    test('Should unpost ListingItemTemplate and mark its ListingItem as removed', async () => {
+        const listingItem: resources.ListingItem = postedListingItemTemplate.ListingItems[0];
+        expect(listingItem.removed).toBeFalsy();
+
+        let res = await testUtil.rpc(templateCommand, [templateUnpostCommand, postedListingItemTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(1);
+        expect(result[0].result).toBe('Sent.');
+
+        log.debug('==> CANCEL SENT.');
+
+        res = await testUtil.rpcWaitFor(
+            itemCommand,
+            [itemGetCommand, listingItem.id],
+            8 * 60,
+            200,
+            'removed',
+            0,
+            '>'     // sqlite returns booleans as 1/0
+        );
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const cancelledListingItem: resources.ListingItem = res.getBody()['result'];
+        expect(cancelledListingItem.hash).toBe(listingItem.hash);
+    }, 600000); // timeout to 600s
+
+    test('Should fail to unpost ListingItemTemplate because its ListingItem has already been removed', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateUnpostCommand, postedListingItemTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe('ListingItemTemplate has no posted ListingItems.');
+    });
+
+});
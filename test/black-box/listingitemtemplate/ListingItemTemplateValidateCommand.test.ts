@@ -0,0 +1,119 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { CreatableModel } from '../../../src/api/enums/CreatableModel';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+import { ListingItemTemplateValidationResponse } from '../../../src/api/responses/ListingItemTemplateValidationResponse';
+import { ListingItemTemplateValidationRule } from '../../../src/api/enums/ListingItemTemplateValidationRule';
+
+describe('ListingItemTemplateValidateCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const templateCommand = Commands.TEMPLATE_ROOT.commandName;
+    const templateValidateCommand = Commands.TEMPLATE_VALIDATE.commandName;
+
+    let defaultProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+    let validTemplate: resources.ListingItemTemplate;
+    let invalidTemplate: resources.ListingItemTemplate;
+
+    const generateTemplate = async (complete: boolean): Promise<resources.ListingItemTemplate> => {
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,       // generateItemInformation
+            complete,   // generateShippingDestinations
+            false,      // generateItemImages
+            true,       // generatePaymentInformation
+            complete,   // generateEscrow
+            complete,   // generateItemPrice
+            true,       // generateMessagingInformation
+            false,      // generateListingItemObjects
+            false,      // generateObjectDatas
+            defaultProfile.id, // profileId
+            false,      // generateListingItem
+            defaultMarket.id   // marketId
+        ]).toParamsArray();
+
+        const listingItemTemplates: resources.ListingItemTemplate[] = await testUtil.generateData(
+            CreatableModel.LISTINGITEMTEMPLATE,
+            1,
+            true,
+            generateListingItemTemplateParams
+        );
+        return listingItemTemplates[0];
+    };
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+
+        defaultProfile = await testUtil.getDefaultProfile();
+        defaultMarket = await testUtil.getDefaultMarket();
+
+        validTemplate = await generateTemplate(true);
+        invalidTemplate = await generateTemplate(false);
+    });
+
+    test('Should fail to validate because of missing listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateValidateCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('listingItemTemplateId').getMessage());
+    });
+
+    test('Should fail to validate because of invalid listingItemTemplateId', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateValidateCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('listingItemTemplateId', 'number').getMessage());
+    });
+
+    test('Should fail to validate because ListingItemTemplate not found', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateValidateCommand, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ListingItemTemplate').getMessage());
+    });
+
+    test('Should validate the complete ListingItemTemplate without errors', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateValidateCommand, validTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: ListingItemTemplateValidationResponse = res.getBody()['result'];
+        expect(result.listingItemTemplateId).toBe(validTemplate.id);
+        expect(result.valid).toBe(true);
+        expect(result.errors).toHaveLength(0);
+        // the template has no images
+        expect(result.warnings.map(warning => warning.rule)).toContain(ListingItemTemplateValidationRule.IMAGES);
+    });
+
+    test('Should return the errors of the ListingItemTemplate missing price, escrow and shipping destinations', async () => {
+        const res = await testUtil.rpc(templateCommand, [templateValidateCommand, invalidTemplate.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: ListingItemTemplateValidationResponse = res.getBody()['result'];
+        expect(result.valid).toBe(false);
+
+        const rules = result.errors.map(error => error.rule);
+        expect(rules).toContain(ListingItemTemplateValidationRule.PRICE);
+        expect(rules).toContain(ListingItemTemplateValidationRule.ESCROW);
+        expect(rules).toContain(ListingItemTemplateValidationRule.SHIPPING_DESTINATIONS);
+
+        const fields = result.errors.map(error => error.field);
+        expect(fields).toContain('PaymentInformation.ItemPrice');
+        expect(fields).toContain('PaymentInformation.Escrow');
+        expect(fields).toContain('ItemInformation.ShippingDestinations');
+    });
+
+});
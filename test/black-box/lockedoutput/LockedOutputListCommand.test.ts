@@ -0,0 +1,61 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { LockedOutputStatus } from '../../../src/api/enums/LockedOutputStatus';
+
+describe('LockedOutputListCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const lockedOutputCommand = Commands.LOCKEDOUTPUT_ROOT.commandName;
+    const lockedOutputListCommand = Commands.LOCKEDOUTPUT_LIST.commandName;
+    const lockedOutputReconcileCommand = Commands.LOCKEDOUTPUT_RECONCILE.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to list LockedOutputs because of invalid status', async () => {
+        const res: any = await testUtil.rpc(lockedOutputCommand, [lockedOutputListCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('status', 'LockedOutputStatus').getMessage());
+    });
+
+    test('Should list all the LockedOutputs: 0', async () => {
+        const res: any = await testUtil.rpc(lockedOutputCommand, [lockedOutputListCommand]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+    test('Should list the NOT_LOCKED LockedOutputs: 0', async () => {
+        const res: any = await testUtil.rpc(lockedOutputCommand, [lockedOutputListCommand, LockedOutputStatus.NOT_LOCKED]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+    test('Should reconcile the LockedOutputs: 0', async () => {
+        const res: any = await testUtil.rpc(lockedOutputCommand, [lockedOutputReconcileCommand]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+});
@@ -6,6 +6,7 @@ import * from 'jest';
 import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
 import { Commands} from '../../../src/api/commands/CommandEnumType';
 import { Logger as LoggerType } from '../../../src/core/Logger';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
 
 describe('MarketAddCommand', () => {
 
@@ -37,6 +38,30 @@ describe('MarketAddCommand', () => {
         expect(result.address).toBe(marketData.address);
     });
 
+    test('Should create a new market with bid and order expiration', async () => {
+        const res = await testUtil.rpc(marketCommand, [marketAddCommand, 'Expiring Market', 'privateKey2', 'Market Address 2', 24, 48]);
+        res.expectJson();
+        res.expectStatusCode(200);
+        const result: any = res.getBody()['result'];
+        expect(result.name).toBe('Expiring Market');
+        expect(result.bidExpiration).toBe(24);
+        expect(result.orderExpiration).toBe(48);
+    });
+
+    test('Should fail to create a market because of invalid bidExpiration', async () => {
+        const res = await testUtil.rpc(marketCommand, [marketAddCommand, 'Invalid Market', 'privateKey3', 'Market Address 3', 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('bidExpiration', 'number').getMessage());
+    });
+
+    test('Should fail to create a market because of invalid orderExpiration', async () => {
+        const res = await testUtil.rpc(marketCommand, [marketAddCommand, 'Invalid Market', 'privateKey3', 'Market Address 3', 24, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('orderExpiration', 'number').getMessage());
+    });
+
     test('Should fail because we want to create an empty market', async () => {
         const res = await testUtil.rpc(marketCommand, [marketAddCommand]);
         res.expectJson();
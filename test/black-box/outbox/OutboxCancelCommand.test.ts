@@ -0,0 +1,48 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('OutboxCancelCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const outboxCommand = Commands.OUTBOX_ROOT.commandName;
+    const outboxCancelCommand = Commands.OUTBOX_CANCEL.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to cancel OutboxMessage because of missing outboxMessageId', async () => {
+        const res: any = await testUtil.rpc(outboxCommand, [outboxCancelCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('outboxMessageId').getMessage());
+    });
+
+    test('Should fail to cancel OutboxMessage because of invalid outboxMessageId', async () => {
+        const res: any = await testUtil.rpc(outboxCommand, [outboxCancelCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('outboxMessageId', 'number').getMessage());
+    });
+
+    test('Should fail to cancel OutboxMessage because OutboxMessage not found', async () => {
+        const res: any = await testUtil.rpc(outboxCommand, [outboxCancelCommand, 0]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('OutboxMessage').getMessage());
+    });
+
+});
@@ -0,0 +1,60 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { OutboxMessageStatus } from '../../../src/api/enums/OutboxMessageStatus';
+
+describe('OutboxListCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const outboxCommand = Commands.OUTBOX_ROOT.commandName;
+    const outboxListCommand = Commands.OUTBOX_LIST.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to list OutboxMessages because of invalid status', async () => {
+        const res: any = await testUtil.rpc(outboxCommand, [outboxListCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('status', 'OutboxMessageStatus').getMessage());
+    });
+
+    test('Should list the PENDING OutboxMessages: 0', async () => {
+        const res: any = await testUtil.rpc(outboxCommand, [outboxListCommand]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+    test('Should list all the OutboxMessages: 0', async () => {
+        const res: any = await testUtil.rpc(outboxCommand, [outboxListCommand, '*', 0, 10]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+    test('Should list the FAILED OutboxMessages: 0', async () => {
+        const res: any = await testUtil.rpc(outboxCommand, [outboxListCommand, OutboxMessageStatus.FAILED]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+});
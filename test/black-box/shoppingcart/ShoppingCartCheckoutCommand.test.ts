@@ -0,0 +1,178 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { CreatableModel } from '../../../src/api/enums/CreatableModel';
+import { GenerateProfileParams } from '../../../src/api/requests/params/GenerateProfileParams';
+import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { ShoppingCartCheckoutResult } from '../../../src/api/responses/ShoppingCartCheckoutResult';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+import { MessageException } from '../../../src/api/exceptions/MessageException';
+
+describe('ShoppingCartCheckoutCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const shoppingCartCommand = Commands.SHOPPINGCART_ROOT.commandName;
+    const shoppingCartCheckoutCommand = Commands.SHOPPINGCART_CHECKOUT.commandName;
+    const shoppingCartItemCommand = Commands.SHOPPINGCARTITEM_ROOT.commandName;
+    const shoppingCartItemAddCommand = Commands.SHOPPINGCARTITEM_ADD.commandName;
+    const shoppingCartItemListCommand = Commands.SHOPPINGCARTITEM_LIST.commandName;
+    const itemCommand = Commands.ITEM_ROOT.commandName;
+    const itemGetCommand = Commands.ITEM_GET.commandName;
+    const itemCancelCommand = Commands.ITEM_CANCEL.commandName;
+
+    let defaultProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+    let defaultShoppingCart: resources.ShoppingCart;
+
+    // the first sellers ListingItem is bid on, the second sellers ListingItem is cancelled before the checkout
+    const sellerProfiles: resources.Profile[] = [];
+    const listingItems: resources.ListingItem[] = [];
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+
+        defaultProfile = await testUtil.getDefaultProfile();
+        defaultMarket = await testUtil.getDefaultMarket();
+        defaultShoppingCart = defaultProfile.ShoppingCart[0];
+
+        for (let i = 0; i < 2; i++) {
+            const generateProfileParams = new GenerateProfileParams([true, true]).toParamsArray();
+            const profiles = await testUtil.generateData(
+                CreatableModel.PROFILE, // what to generate
+                1,                      // how many to generate
+                true,                   // return model
+                generateProfileParams   // what kind of data to generate
+            ) as resources.Profile[];
+            sellerProfiles.push(profiles[0]);
+
+            const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+                true,   // generateItemInformation
+                true,   // generateItemLocation
+                true,   // generateShippingDestinations
+                false,  // generateItemImages
+                true,   // generatePaymentInformation
+                true,   // generateEscrow
+                true,   // generateItemPrice
+                true,   // generateMessagingInformation
+                false,  // generateListingItemObjects
+                false,  // generateObjectDatas
+                profiles[0].id, // profileId
+                true,   // generateListingItem
+                defaultMarket.id  // marketId
+            ]).toParamsArray();
+            const listingItemTemplates = await testUtil.generateData(
+                CreatableModel.LISTINGITEMTEMPLATE, // what to generate
+                1,                                  // how many to generate
+                true,                               // return model
+                generateListingItemTemplateParams   // what kind of data to generate
+            ) as resources.ListingItemTemplate[];
+            listingItems.push(listingItemTemplates[0].ListingItems[0]);
+        }
+    });
+
+    test('Should fail to checkout because of missing cartId', async () => {
+        const res = await testUtil.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('cartId').getMessage());
+    });
+
+    test('Should fail to checkout because of missing addressId', async () => {
+        const res = await testUtil.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand, defaultShoppingCart.id]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('addressId').getMessage());
+    });
+
+    test('Should fail to checkout because of invalid cartId', async () => {
+        const res = await testUtil.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand, 'INVALID', 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('cartId', 'number').getMessage());
+    });
+
+    test('Should fail to checkout because of invalid addressId', async () => {
+        const res = await testUtil.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand, defaultShoppingCart.id, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('addressId', 'number').getMessage());
+    });
+
+    test('Should fail to checkout because ShoppingCart not found', async () => {
+        const res = await testUtil.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand, 0, 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('ShoppingCart').getMessage());
+    });
+
+    test('Should fail to checkout because ShoppingCart is empty', async () => {
+        const res = await testUtil.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand, defaultShoppingCart.id, 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MessageException('ShoppingCart is empty.').getMessage());
+    });
+
+    test('Should checkout the ShoppingCart, sending a Bid to each seller and keeping the items which were not sent', async () => {
+        for (const listingItem of listingItems) {
+            const addRes: any = await testUtil.rpc(shoppingCartItemCommand, [shoppingCartItemAddCommand, defaultShoppingCart.id, listingItem.id]);
+            addRes.expectJson();
+            addRes.expectStatusCode(200);
+        }
+
+        // the second sellers ListingItem is removed, so the Bid to the second seller fails
+        let res: any = await testUtil.rpc(itemCommand, [itemCancelCommand, listingItems[1].hash]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        res = await testUtil.rpcWaitFor(
+            itemCommand,
+            [itemGetCommand, listingItems[1].hash],
+            8 * 60,
+            200,
+            'removed',
+            true
+        );
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        res = await testUtil.rpc(shoppingCartCommand, [shoppingCartCheckoutCommand, defaultShoppingCart.id, defaultProfile.ShippingAddresses[0].id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const results: ShoppingCartCheckoutResult[] = res.getBody()['result'];
+        expect(results).toHaveLength(2);
+
+        const sentResult = _.find(results, { seller: sellerProfiles[0].address }) as ShoppingCartCheckoutResult;
+        expect(sentResult.listingItemHashes).toEqual([listingItems[0].hash]);
+        expect(sentResult.response.result).toBe('Sent.');
+        expect(sentResult.error).not.toBeDefined();
+
+        const failedResult = _.find(results, { seller: sellerProfiles[1].address }) as ShoppingCartCheckoutResult;
+        expect(failedResult.listingItemHashes).toEqual([listingItems[1].hash]);
+        expect(failedResult.response).not.toBeDefined();
+        expect(failedResult.error).toBe('ListingItem has been removed by the seller.');
+
+        // only the item which wasn't sent is left in the cart
+        res = await testUtil.rpc(shoppingCartItemCommand, [shoppingCartItemListCommand, defaultShoppingCart.id]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const cartItems: resources.ShoppingCartItem[] = res.getBody()['result'];
+        expect(cartItems).toHaveLength(1);
+        expect(cartItems[0].ListingItem.id).toBe(listingItems[1].id);
+    }, 600000); // timeout to 600s
+
+});
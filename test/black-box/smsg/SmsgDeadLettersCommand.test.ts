@@ -0,0 +1,41 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+
+describe('SmsgDeadLettersCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const smsgCommand = Commands.SMSG_ROOT.commandName;
+    const smsgDeadLettersCommand = Commands.SMSG_DEADLETTERS.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to list dead lettered SmsgMessages because of invalid page', async () => {
+        const res: any = await testUtil.rpc(smsgCommand, [smsgDeadLettersCommand, 'INVALID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('page', 'number').getMessage());
+    });
+
+    test('Should list dead lettered SmsgMessages: 0', async () => {
+        const res: any = await testUtil.rpc(smsgCommand, [smsgDeadLettersCommand, 0, 10]);
+        res.expectJson();
+        res.expectStatusCode(200);
+
+        const result: any = res.getBody()['result'];
+        expect(result).toHaveLength(0);
+    });
+
+});
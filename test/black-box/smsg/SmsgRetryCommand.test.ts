@@ -0,0 +1,48 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { BlackBoxTestUtil } from '../lib/BlackBoxTestUtil';
+import { Commands } from '../../../src/api/commands/CommandEnumType';
+import { MissingParamException } from '../../../src/api/exceptions/MissingParamException';
+import { InvalidParamException } from '../../../src/api/exceptions/InvalidParamException';
+import { ModelNotFoundException } from '../../../src/api/exceptions/ModelNotFoundException';
+
+describe('SmsgRetryCommand', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new BlackBoxTestUtil();
+
+    const smsgCommand = Commands.SMSG_ROOT.commandName;
+    const smsgRetryCommand = Commands.SMSG_RETRY.commandName;
+
+    beforeAll(async () => {
+        await testUtil.cleanDb();
+    });
+
+    test('Should fail to retry SmsgMessage because of missing msgid', async () => {
+        const res: any = await testUtil.rpc(smsgCommand, [smsgRetryCommand]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new MissingParamException('msgid').getMessage());
+    });
+
+    test('Should fail to retry SmsgMessage because of invalid msgid', async () => {
+        const res: any = await testUtil.rpc(smsgCommand, [smsgRetryCommand, 1]);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new InvalidParamException('msgid', 'string').getMessage());
+    });
+
+    test('Should fail to retry SmsgMessage because SmsgMessage not found', async () => {
+        const res: any = await testUtil.rpc(smsgCommand, [smsgRetryCommand, 'INVALID-MSGID']);
+        res.expectJson();
+        res.expectStatusCode(404);
+        expect(res.error.error.message).toBe(new ModelNotFoundException('SmsgMessage').getMessage());
+    });
+
+});
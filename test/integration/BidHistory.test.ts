@@ -0,0 +1,193 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { app } from '../../src/app';
+import { Logger as LoggerType } from '../../src/core/Logger';
+import { Types, Core, Targets } from '../../src/constants';
+import { TestUtil } from './lib/TestUtil';
+import { TestDataService } from '../../src/api/services/TestDataService';
+import { ValidationException } from '../../src/api/exceptions/ValidationException';
+import { NotFoundException } from '../../src/api/exceptions/NotFoundException';
+import { BidHistory } from '../../src/api/models/BidHistory';
+import { BidHistoryService } from '../../src/api/services/BidHistoryService';
+import { BidHistoryCreateRequest } from '../../src/api/requests/BidHistoryCreateRequest';
+import { GenerateBidParams } from '../../src/api/requests/params/GenerateBidParams';
+import { ProfileService } from '../../src/api/services/ProfileService';
+import { BidMessageType } from '../../src/api/enums/BidMessageType';
+import { BidDataValue } from '../../src/api/enums/BidDataValue';
+import { GenerateListingItemTemplateParams } from '../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { CreatableModel } from '../../src/api/enums/CreatableModel';
+import { TestDataGenerateRequest } from '../../src/api/requests/TestDataGenerateRequest';
+import { MarketService } from '../../src/api/services/MarketService';
+import { GenerateProfileParams } from '../../src/api/requests/params/GenerateProfileParams';
+import * as resources from 'resources';
+
+describe('BidHistory', () => {
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new TestUtil();
+
+    let testDataService: TestDataService;
+    let bidHistoryService: BidHistoryService;
+    let marketService: MarketService;
+    let profileService: ProfileService;
+
+    let buyerProfile: resources.Profile;
+    let sellerProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+
+    let createdListingItem: resources.ListingItem;
+    let createdBid: resources.Bid;
+    let createdBidHistory: resources.BidHistory;
+
+    const testData = {
+        action: BidMessageType.MPA_COUNTER,
+        sender: 'pmZpGbH2j2dDYU6LvTryHbEsM3iQzxpnj1',
+        total_price: 9,
+        base_price: 8,
+        shipping_price: 1,
+        msgid: '00000000000000000000000000000000000000000000000000000000'
+    } as BidHistoryCreateRequest;
+
+    beforeAll(async () => {
+        await testUtil.bootstrapAppContainer(app);  // bootstrap the app
+
+        testDataService = app.IoC.getNamed<TestDataService>(Types.Service, Targets.Service.TestDataService);
+        bidHistoryService = app.IoC.getNamed<BidHistoryService>(Types.Service, Targets.Service.BidHistoryService);
+        marketService = app.IoC.getNamed<MarketService>(Types.Service, Targets.Service.MarketService);
+        profileService = app.IoC.getNamed<ProfileService>(Types.Service, Targets.Service.ProfileService);
+
+        // clean up the db, first removes all data and then seeds the db with default data
+        await testDataService.clean();
+
+        // get market
+        const defaultMarketModel = await marketService.getDefault();
+        defaultMarket = defaultMarketModel.toJSON();
+
+        // get default profile
+        const defaultProfileModel = await profileService.getDefault();
+        buyerProfile = defaultProfileModel.toJSON();
+
+        // generate a seller profile in addition to the default one used for buyer
+        const generateProfileParams = new GenerateProfileParams().toParamsArray();
+        const profiles = await testDataService.generate({
+            model: CreatableModel.PROFILE,              // what to generate
+            amount: 1,                                  // how many to generate
+            withRelated: true,                          // return model
+            generateParams: generateProfileParams       // what kind of data to generate
+        } as TestDataGenerateRequest);
+        sellerProfile = profiles[0];
+
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,                   // generateItemInformation
+            true,                   // generateItemLocation
+            true,                   // generateShippingDestinations
+            false,                  // generateItemImages
+            true,                   // generatePaymentInformation
+            true,                   // generateEscrow
+            true,                   // generateItemPrice
+            true,                   // generateMessagingInformation
+            false,                  // generateListingItemObjects
+            false,                  // generateObjectDatas
+            sellerProfile.id,       // profileId
+            true,                   // generateListingItem
+            defaultMarket.id        // marketId
+        ]).toParamsArray();
+
+        const listingItemTemplates = await testDataService.generate({
+            model: CreatableModel.LISTINGITEMTEMPLATE,          // what to generate
+            amount: 1,                                          // how many to generate
+            withRelated: true,                                  // return model
+            generateParams: generateListingItemTemplateParams   // what kind of data to generate
+        } as TestDataGenerateRequest);
+
+        createdListingItem = listingItemTemplates[0].ListingItems[0];
+
+        // create a new bid from defaultProfile for ListingItem that is being sold by createdSellerProfile
+        const bidParams = new GenerateBidParams([
+            false,                      // generateListingItemTemplate
+            false,                      // generateListingItem
+            createdListingItem.hash,    // listingItemhash
+            BidMessageType.MPA_BID,     // action
+            buyerProfile.address,       // bidder
+            sellerProfile.address       // listingItemSeller
+        ]).toParamsArray();
+
+        const bids = await testDataService.generate({
+            model: CreatableModel.BID,
+            amount: 1,
+            withRelated: true,
+            generateParams: bidParams
+        } as TestDataGenerateRequest);
+        createdBid = bids[0];
+
+    }, 1200000); // timeout to 1200s
+
+    test('Should throw ValidationException because there is no bid_id', async () => {
+        expect.assertions(1);
+        await bidHistoryService.create(testData).catch(e =>
+            expect(e).toEqual(new ValidationException('Request body is not valid', []))
+        );
+    });
+
+    test('Should create a new BidHistory', async () => {
+        testData.bid_id = createdBid.id;
+
+        const bidHistoryModel: BidHistory = await bidHistoryService.create(testData);
+        createdBidHistory = bidHistoryModel.toJSON();
+
+        expect(createdBidHistory.action).toBe(testData.action);
+        expect(createdBidHistory.sender).toBe(testData.sender);
+        expect(createdBidHistory.totalPrice).toBe(testData.total_price);
+        expect(createdBidHistory.basePrice).toBe(testData.base_price);
+        expect(createdBidHistory.shippingPrice).toBe(testData.shipping_price);
+        expect(createdBidHistory.msgid).toBe(testData.msgid);
+    });
+
+    test('Should record the Bid with the total price from the BidDatas', async () => {
+        const bid = {
+            ...createdBid,
+            BidDatas: [
+                {dataId: BidDataValue.TOTAL_PRICE, dataValue: '12.5'},
+                {dataId: BidDataValue.COUNTER_BASE_PRICE, dataValue: '10'}
+            ]
+        } as resources.Bid;
+
+        const bidHistoryModel: BidHistory = await bidHistoryService.record(bid, BidMessageType.MPA_ACCEPT, sellerProfile.address);
+        const result: resources.BidHistory = bidHistoryModel.toJSON();
+
+        expect(result.action).toBe(BidMessageType.MPA_ACCEPT);
+        expect(result.sender).toBe(sellerProfile.address);
+        expect(result.totalPrice).toBe(12.5);
+        expect(result.basePrice).toBeNull();
+        expect(result.msgid).toBeNull();
+    });
+
+    test('Should list the history of the Bid, oldest first', async () => {
+        const historyModels = await bidHistoryService.findAllByBidId(createdBid.id);
+        const history: resources.BidHistory[] = historyModels.toJSON();
+
+        expect(history.length).toBe(2);
+        expect(history[0].action).toBe(BidMessageType.MPA_COUNTER);
+        expect(history[1].action).toBe(BidMessageType.MPA_ACCEPT);
+    });
+
+    test('Should throw ValidationException because we want to create a empty BidHistory', async () => {
+        expect.assertions(1);
+        await bidHistoryService.create({} as BidHistoryCreateRequest).catch(e =>
+            expect(e).toEqual(new ValidationException('Request body is not valid', []))
+        );
+    });
+
+    test('Should delete the BidHistory', async () => {
+        expect.assertions(1);
+        await bidHistoryService.destroy(createdBidHistory.id);
+        await bidHistoryService.findOne(createdBidHistory.id).catch(e =>
+            expect(e).toEqual(new NotFoundException(createdBidHistory.id))
+        );
+    });
+
+});
@@ -0,0 +1,238 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { app } from '../../src/app';
+import { Logger as LoggerType } from '../../src/core/Logger';
+import { Types, Core, Targets } from '../../src/constants';
+import { TestUtil } from './lib/TestUtil';
+import { TestDataService } from '../../src/api/services/TestDataService';
+import { ValidationException } from '../../src/api/exceptions/ValidationException';
+import { NotFoundException } from '../../src/api/exceptions/NotFoundException';
+import { EscrowTransaction } from '../../src/api/models/EscrowTransaction';
+import { EscrowTransactionService } from '../../src/api/services/EscrowTransactionService';
+import { EscrowTransactionCreateRequest } from '../../src/api/requests/EscrowTransactionCreateRequest';
+import { EscrowTransactionUpdateRequest } from '../../src/api/requests/EscrowTransactionUpdateRequest';
+import { EscrowTransactionType } from '../../src/api/enums/EscrowTransactionType';
+import { EscrowTransactionStatus } from '../../src/api/enums/EscrowTransactionStatus';
+import { GenerateBidParams } from '../../src/api/requests/params/GenerateBidParams';
+import { OrderItemService } from '../../src/api/services/OrderItemService';
+import { ProfileService } from '../../src/api/services/ProfileService';
+import { BidMessageType } from '../../src/api/enums/BidMessageType';
+import { GenerateListingItemTemplateParams } from '../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { GenerateOrderParams } from '../../src/api/requests/params/GenerateOrderParams';
+import { CreatableModel } from '../../src/api/enums/CreatableModel';
+import { TestDataGenerateRequest } from '../../src/api/requests/TestDataGenerateRequest';
+import { MarketService } from '../../src/api/services/MarketService';
+import { GenerateProfileParams } from '../../src/api/requests/params/GenerateProfileParams';
+import * as resources from 'resources';
+
+describe('EscrowTransaction', () => {
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new TestUtil();
+
+    let testDataService: TestDataService;
+    let orderItemService: OrderItemService;
+    let escrowTransactionService: EscrowTransactionService;
+    let marketService: MarketService;
+    let profileService: ProfileService;
+
+    let buyerProfile: resources.Profile;
+    let sellerProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+
+    let createdListingItemTemplate: resources.ListingItemTemplate;
+    let createdListingItem: resources.ListingItem;
+    let createdBid: resources.Bid;
+    let createdOrder: resources.Order;
+    let createdOrderItem: resources.OrderItem;
+    let createdEscrowTransaction: resources.EscrowTransaction;
+
+    const testData = {
+        txid: '4fd5e7f4c2e2a3d6ea3b0a9c5e3c0fd0a5f1a4c1e6b2e8cbb6c9d0d4c8f6b0a1',
+        type: EscrowTransactionType.LOCK,
+        status: EscrowTransactionStatus.PENDING,
+        confirmations: 0
+    } as EscrowTransactionCreateRequest;
+
+    const testDataUpdated = {
+        status: EscrowTransactionStatus.CONFIRMED,
+        confirmations: 6,
+        blockHeight: 100
+    } as EscrowTransactionUpdateRequest;
+
+    beforeAll(async () => {
+        await testUtil.bootstrapAppContainer(app);  // bootstrap the app
+
+        testDataService = app.IoC.getNamed<TestDataService>(Types.Service, Targets.Service.TestDataService);
+        orderItemService = app.IoC.getNamed<OrderItemService>(Types.Service, Targets.Service.OrderItemService);
+        escrowTransactionService = app.IoC.getNamed<EscrowTransactionService>(Types.Service, Targets.Service.EscrowTransactionService);
+        marketService = app.IoC.getNamed<MarketService>(Types.Service, Targets.Service.MarketService);
+        profileService = app.IoC.getNamed<ProfileService>(Types.Service, Targets.Service.ProfileService);
+
+        // clean up the db, first removes all data and then seeds the db with default data
+        await testDataService.clean();
+
+        // get market
+        const defaultMarketModel = await marketService.getDefault();
+        defaultMarket = defaultMarketModel.toJSON();
+        log.debug('defaultMarket: ', defaultMarket);
+
+        // get default profile
+        const defaultProfileModel = await profileService.getDefault();
+        buyerProfile = defaultProfileModel.toJSON();
+        log.debug('buyerProfile: ', buyerProfile);
+
+        // generate a seller profile in addition to the default one used for buyer
+        const generateProfileParams = new GenerateProfileParams().toParamsArray();
+        const profiles = await testDataService.generate({
+            model: CreatableModel.PROFILE,              // what to generate
+            amount: 1,                                  // how many to generate
+            withRelated: true,                          // return model
+            generateParams: generateProfileParams       // what kind of data to generate
+        } as TestDataGenerateRequest);
+        sellerProfile = profiles[0];
+        log.debug('sellerProfile: ', sellerProfile.id);
+
+        const generateListingItemTemplateParams = new GenerateListingItemTemplateParams([
+            true,                   // generateItemInformation
+            true,                   // generateItemLocation
+            true,                   // generateShippingDestinations
+            false,                  // generateItemImages
+            true,                   // generatePaymentInformation
+            true,                   // generateEscrow
+            true,                   // generateItemPrice
+            true,                   // generateMessagingInformation
+            false,                  // generateListingItemObjects
+            false,                  // generateObjectDatas
+            sellerProfile.id,       // profileId
+            true,                   // generateListingItem
+            defaultMarket.id        // marketId
+        ]).toParamsArray();
+
+        // generate two ListingItemTemplates with ListingItems
+        const listingItemTemplates = await testDataService.generate({
+            model: CreatableModel.LISTINGITEMTEMPLATE,          // what to generate
+            amount: 1,                                          // how many to generate
+            withRelated: true,                                  // return model
+            generateParams: generateListingItemTemplateParams   // what kind of data to generate
+        } as TestDataGenerateRequest);
+
+        createdListingItemTemplate = listingItemTemplates[0];
+        createdListingItem = listingItemTemplates[0].ListingItems[0];
+
+        // log.debug('createdListingItem.hash: ', JSON.stringify(createdListingItem.hash, null, 2));
+
+        // create a new bid from defaultProfile for ListingItem that is being sold by createdSellerProfile
+        const bidParams = new GenerateBidParams([
+            false,                      // generateListingItemTemplate
+            false,                      // generateListingItem
+            createdListingItem.hash,    // listingItemhash
+            BidMessageType.MPA_ACCEPT,  // action
+            buyerProfile.address,       // bidder
+            sellerProfile.address       // listingItemSeller
+        ]).toParamsArray();
+
+        const bids = await testDataService.generate({
+            model: CreatableModel.BID,
+            amount: 1,
+            withRelated: true,
+            generateParams: bidParams
+        } as TestDataGenerateRequest).catch(reason => {
+            log.error('REASON:', JSON.stringify(reason, null, 2));
+        });
+        createdBid = bids[0];
+
+        // log.debug('createdBid: ', JSON.stringify(createdBid, null, 2));
+
+        const orderGenerateParams = new GenerateOrderParams([
+            false,                      // generateListingItemTemplate
+            false,                      // generateListingItem
+            false,                      // generateBid
+            true,                       // generateOrderItems
+            createdListingItem.hash,    // listingItemhash
+            createdBid.id,              // bidId
+            buyerProfile.address,       // bidder
+            sellerProfile.address       // listingItemSeller
+        ]);
+
+        const generatedOrders = await testDataService.generate({
+            model: CreatableModel.ORDER,
+            amount: 1,
+            withRelated: true,
+            generateParams: orderGenerateParams.toParamsArray()
+        } as TestDataGenerateRequest);
+
+        createdOrder = generatedOrders[0];
+        createdOrderItem = generatedOrders[0].OrderItems[0];
+        // log.debug('createdOrder: ', JSON.stringify(createdOrder, null, 2));
+        // log.debug('createdOrderItem: ', JSON.stringify(createdOrderItem, null, 2));
+
+    }, 1200000); // timeout to 1200s
+
+    test('Should throw ValidationException because there is no order_item_id', async () => {
+        expect.assertions(1);
+        await escrowTransactionService.create(testData).catch(e =>
+            expect(e).toEqual(new ValidationException('Request body is not valid', []))
+        );
+    });
+
+    test('Should create a new EscrowTransaction', async () => {
+        testData.order_item_id = createdOrderItem.id;
+
+        const escrowTransactionModel: EscrowTransaction = await escrowTransactionService.create(testData);
+        createdEscrowTransaction = escrowTransactionModel.toJSON();
+
+        expect(createdEscrowTransaction.txid).toBe(testData.txid);
+        expect(createdEscrowTransaction.type).toBe(testData.type);
+        expect(createdEscrowTransaction.status).toBe(testData.status);
+        expect(createdEscrowTransaction.confirmations).toBe(0);
+        expect(createdEscrowTransaction.OrderItem.id).toBe(createdOrderItem.id);
+    });
+
+    test('Should throw ValidationException because we want to create a empty EscrowTransaction', async () => {
+        expect.assertions(1);
+        await escrowTransactionService.create({} as EscrowTransactionCreateRequest).catch(e =>
+            expect(e).toEqual(new ValidationException('Request body is not valid', []))
+        );
+    });
+
+    test('Should not track the same txid twice for the OrderItem', async () => {
+        const escrowTransactions = await escrowTransactionService.track([createdOrderItem], testData.txid, EscrowTransactionType.LOCK);
+        expect(escrowTransactions.length).toBe(1);
+        expect(escrowTransactions[0].id).toBe(createdEscrowTransaction.id);
+
+        const escrowTransactionCollection = await escrowTransactionService.findAll();
+        expect(escrowTransactionCollection.toJSON().length).toBe(1);
+    });
+
+    test('Should return the EscrowTransactions with the OrderItem', async () => {
+        const orderItemModel = await orderItemService.findOne(createdOrderItem.id);
+        const result: resources.OrderItem = orderItemModel.toJSON();
+
+        expect(result.EscrowTransactions.length).toBe(1);
+        expect(result.EscrowTransactions[0].txid).toBe(testData.txid);
+    });
+
+    test('Should update the EscrowTransaction', async () => {
+        const escrowTransactionModel: EscrowTransaction = await escrowTransactionService.update(createdEscrowTransaction.id, testDataUpdated);
+        const result = escrowTransactionModel.toJSON();
+
+        expect(result.txid).toBe(testData.txid);
+        expect(result.status).toBe(testDataUpdated.status);
+        expect(result.confirmations).toBe(testDataUpdated.confirmations);
+        expect(result.blockHeight).toBe(testDataUpdated.blockHeight);
+    });
+
+    test('Should delete the EscrowTransaction', async () => {
+        expect.assertions(1);
+        await escrowTransactionService.destroy(createdEscrowTransaction.id);
+        await escrowTransactionService.findOne(createdEscrowTransaction.id).catch(e =>
+            expect(e).toEqual(new NotFoundException(createdEscrowTransaction.id))
+        );
+    });
+
+});
@@ -37,6 +37,7 @@ import { CryptocurrencyAddressService } from '../../src/api/services/Cryptocurre
 import { MessagingInformationService } from '../../src/api/services/MessagingInformationService';
 import { ListingItemObjectService } from '../../src/api/services/ListingItemObjectService';
 import { ListingItemObjectDataService } from '../../src/api/services/ListingItemObjectDataService';
+import { ListingItemTemplateRevisionService } from '../../src/api/services/ListingItemTemplateRevisionService';
 import * as listingItemCreateRequestBasic1 from '../testdata/createrequest/listingItemCreateRequestBasic1.json';
 import * as listingItemCreateRequestBasic2 from '../testdata/createrequest/listingItemCreateRequestBasic2.json';
 import * as listingItemCreateRequestExpired from '../testdata/createrequest/listingItemCreateRequestExpired.json';
@@ -72,6 +73,7 @@ describe('ListingItem', () => {
     let messagingInformationService: MessagingInformationService;
     let listingItemObjectService: ListingItemObjectService;
     let listingItemObjectDataService: ListingItemObjectDataService;
+    let listingItemTemplateRevisionService: ListingItemTemplateRevisionService;
 
     let createdListingItem1: resources.ListingItem;
     let createdListingItem2: resources.ListingItem;
@@ -105,6 +107,8 @@ describe('ListingItem', () => {
         messagingInformationService = app.IoC.getNamed<MessagingInformationService>(Types.Service, Targets.Service.MessagingInformationService);
         listingItemObjectService = app.IoC.getNamed<ListingItemObjectService>(Types.Service, Targets.Service.ListingItemObjectService);
         listingItemObjectDataService = app.IoC.getNamed<ListingItemObjectDataService>(Types.Service, Targets.Service.ListingItemObjectDataService);
+        listingItemTemplateRevisionService = app.IoC.getNamed<ListingItemTemplateRevisionService>(Types.Service,
+            Targets.Service.ListingItemTemplateRevisionService);
 
         // clean up the db, first removes all data and then seeds the db with default data
         await testDataService.clean();
@@ -482,6 +486,28 @@ describe('ListingItem', () => {
         expect(createdListingItem3.ListingItemTemplate.id).toBe(listingItemTemplate.Id);
     }, 600000); // timeout to 600s
 
+    test('Should relate the ListingItem to the ListingItemTemplateRevision the update was posted from', async () => {
+        const listingItemTemplate: resources.ListingItemTemplate = await listingItemTemplateService.findOne(createdListingItem3.ListingItemTemplate.id)
+            .then(value => value.toJSON());
+
+        // the template was posted again after the update was sent
+        const postedRevision: resources.ListingItemTemplateRevision = await listingItemTemplateRevisionService
+            .snapshot(listingItemTemplate, 'update-message-hash').then(value => value.toJSON());
+        const latestRevision: resources.ListingItemTemplateRevision = await listingItemTemplateRevisionService
+            .snapshot(listingItemTemplate, 'later-message-hash').then(value => value.toJSON());
+        expect(latestRevision.revision).toBe(postedRevision.revision + 1);
+
+        let listingItem: resources.ListingItem = await listingItemService
+            .updateListingItemTemplateRevisionRelation(createdListingItem3.id, 'update-message-hash').then(value => value.toJSON());
+        expect(listingItem.ListingItemTemplateRevision.id).toBe(postedRevision.id);
+        expect(listingItem.ListingItemTemplateRevision.messageHash).toBe('update-message-hash');
+
+        // unknown message, the relation is kept
+        listingItem = await listingItemService
+            .updateListingItemTemplateRevisionRelation(createdListingItem3.id, 'unknown-message-hash').then(value => value.toJSON());
+        expect(listingItem.ListingItemTemplateRevision.id).toBe(postedRevision.id);
+    });
+
     test('Should delete ListingItem with relation to ListingItemTemplate', async () => {
         expect.assertions(22);
         await listingItemService.destroy(createdListingItem3.id);
@@ -29,7 +29,9 @@ describe('Market', () => {
     const testData = {
         name: 'TEST-MARKET',
         private_key: 'TEST-PRIVATE-KEY',
-        address: 'TEST-MARKET-ADDRESS'
+        address: 'TEST-MARKET-ADDRESS',
+        bid_expiration: 24,
+        order_expiration: 48
     } as MarketCreateRequest;
 
     const testDataUpdated = {
@@ -72,6 +74,8 @@ describe('Market', () => {
         expect(result.name).toBe(testData.name);
         expect(result.privateKey).toBe(testData.private_key);
         expect(result.address).toBe(testData.address);
+        expect(result.bidExpiration).toBe(testData.bid_expiration);
+        expect(result.orderExpiration).toBe(testData.order_expiration);
     });
 
     test('Should throw ValidationException because we want to create a empty market', async () => {
@@ -112,6 +116,23 @@ describe('Market', () => {
         expect(result.name).toBe(testDataUpdated.name);
         expect(result.privateKey).toBe(testDataUpdated.private_key);
         expect(result.address).toBe(testDataUpdated.address);
+
+        // the expirations weren't given, so they're kept
+        expect(result.bidExpiration).toBe(testData.bid_expiration);
+        expect(result.orderExpiration).toBe(testData.order_expiration);
+    });
+
+    test('Should update the market expirations', async () => {
+        const marketModel: Market = await marketService.update(createdId, {
+            ...testDataUpdated,
+            bid_expiration: 12,
+            order_expiration: 36
+        } as MarketUpdateRequest);
+        const result = marketModel.toJSON();
+
+        expect(result.name).toBe(testDataUpdated.name);
+        expect(result.bidExpiration).toBe(12);
+        expect(result.orderExpiration).toBe(36);
     });
 
     // findByAddress
@@ -0,0 +1,120 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { app } from '../../src/app';
+import { Logger as LoggerType } from '../../src/core/Logger';
+import { Types, Core, Targets } from '../../src/constants';
+import { TestUtil } from './lib/TestUtil';
+import { TestDataService } from '../../src/api/services/TestDataService';
+import { ValidationException } from '../../src/api/exceptions/ValidationException';
+import { NotFoundException } from '../../src/api/exceptions/NotFoundException';
+import { MessageException } from '../../src/api/exceptions/MessageException';
+import { OutboxMessageService } from '../../src/api/services/OutboxMessageService';
+import { OutboxMessageCreateRequest } from '../../src/api/requests/OutboxMessageCreateRequest';
+import { OutboxMessageSearchParams } from '../../src/api/requests/OutboxMessageSearchParams';
+import { OutboxMessageStatus } from '../../src/api/enums/OutboxMessageStatus';
+import { BidMessageType } from '../../src/api/enums/BidMessageType';
+import { SearchOrder } from '../../src/api/enums/SearchOrder';
+import { MarketplaceMessage } from '../../src/api/messages/MarketplaceMessage';
+import * as resources from 'resources';
+
+describe('OutboxMessage', () => {
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new TestUtil();
+
+    let testDataService: TestDataService;
+    let outboxMessageService: OutboxMessageService;
+
+    let outboxMessage: resources.OutboxMessage;
+
+    const fromAddress = 'pmktyVZshdMAQ6DPbbRXEFNGuzMbTMkqAA';
+    const toAddress = 'poJJukenuB455RciQ6a1JPe7frNxBLUqLw';
+
+    const marketplaceMessage = {
+        version: '0.0.1.0',
+        mpaction: {
+            action: BidMessageType.MPA_CANCEL,
+            item: 'f08f3d6e'
+        }
+    } as MarketplaceMessage;
+
+    beforeAll(async () => {
+        await testUtil.bootstrapAppContainer(app);  // bootstrap the app
+
+        testDataService = app.IoC.getNamed<TestDataService>(Types.Service, Targets.Service.TestDataService);
+        outboxMessageService = app.IoC.getNamed<OutboxMessageService>(Types.Service, Targets.Service.OutboxMessageService);
+
+        // clean up the db, first removes all data and then seeds the db with default data
+        await testDataService.clean();
+    });
+
+    test('Should throw ValidationException because we want to create a empty OutboxMessage', async () => {
+        expect.assertions(1);
+        await outboxMessageService.create({} as OutboxMessageCreateRequest).catch(e =>
+            expect(e).toEqual(new ValidationException('Request body is not valid', []))
+        );
+    });
+
+    test('Should enqueue a new OutboxMessage', async () => {
+        outboxMessage = await outboxMessageService.enqueue(fromAddress, toAddress, marketplaceMessage, false, 2);
+
+        expect(outboxMessage.id).not.toBeNull();
+        expect(outboxMessage.type).toBe(BidMessageType.MPA_CANCEL);
+        expect(outboxMessage.status).toBe(OutboxMessageStatus.PENDING);
+        expect(outboxMessage.fromAddress).toBe(fromAddress);
+        expect(outboxMessage.toAddress).toBe(toAddress);
+        expect(JSON.parse(outboxMessage.message)).toEqual(marketplaceMessage);
+        expect(outboxMessage.daysRetention).toBe(2);
+        expect(outboxMessage.attempts).toBe(0);
+        expect(outboxMessage.nextRetry).toBeGreaterThan(Date.now());
+        expect(outboxMessage.msgid).toBeNull();
+    });
+
+    test('Should not find the OutboxMessage before its retry is due', async () => {
+        const searchParams = {
+            order: SearchOrder.ASC,
+            status: OutboxMessageStatus.PENDING,
+            nextRetry: Date.now()
+        } as OutboxMessageSearchParams;
+
+        const outboxMessages: resources.OutboxMessage[] = await outboxMessageService.searchBy(searchParams).then(value => value.toJSON());
+        expect(outboxMessages.length).toBe(0);
+    });
+
+    test('Should list the PENDING OutboxMessages', async () => {
+        const searchParams = {
+            order: SearchOrder.ASC,
+            status: OutboxMessageStatus.PENDING
+        } as OutboxMessageSearchParams;
+
+        const outboxMessages: resources.OutboxMessage[] = await outboxMessageService.searchBy(searchParams).then(value => value.toJSON());
+        expect(outboxMessages.length).toBe(1);
+        expect(outboxMessages[0].id).toBe(outboxMessage.id);
+    });
+
+    test('Should cancel the PENDING OutboxMessage', async () => {
+        const result: resources.OutboxMessage = await outboxMessageService.cancel(outboxMessage).then(value => value.toJSON());
+        expect(result.status).toBe(OutboxMessageStatus.CANCELLED);
+        outboxMessage = result;
+    });
+
+    test('Should fail to cancel the already cancelled OutboxMessage', async () => {
+        expect.assertions(1);
+        await outboxMessageService.cancel(outboxMessage).catch(e =>
+            expect(e).toEqual(new MessageException('Only PENDING or FAILED messages can be cancelled.'))
+        );
+    });
+
+    test('Should delete the OutboxMessage', async () => {
+        expect.assertions(1);
+        await outboxMessageService.destroy(outboxMessage.id);
+        await outboxMessageService.findOne(outboxMessage.id).catch(e =>
+            expect(e).toEqual(new NotFoundException(outboxMessage.id))
+        );
+    });
+
+});
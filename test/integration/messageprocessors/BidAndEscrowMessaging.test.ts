@@ -4,6 +4,7 @@
 
 import * from 'jest';
 import * as resources from 'resources';
+import * as _ from 'lodash';
 import * as addressCreateRequestSHIPPING_OWN from '../../testdata/createrequest/addressCreateRequestSHIPPING_OWN.json';
 import { app } from '../../../src/app';
 import { Logger as LoggerType } from '../../../src/core/Logger';
@@ -263,7 +264,13 @@ describe('BidAndEscrowMessageProcessing', () => {
         expect(result.ShippingAddress.country).toBe('FI');
         expect(result.ShippingAddress.zipCode).toBe('1234');
         expect(result.ShippingAddress.type).toBe(AddressType.SHIPPING_BID);
-        expect(result.BidDatas).toHaveLength(19);
+        expect(result.BidDatas).toHaveLength(20);
+
+        // domestic shipping only if the item is located in the buyers country
+        const shippingPrice = listingItem.PaymentInformation.ItemPrice.ShippingPrice;
+        const expectedShippingPrice = listingItem.ItemInformation.ItemLocation.region === 'FI' ? shippingPrice.domestic : shippingPrice.international;
+        const totalPriceBidData = _.find(result.BidDatas, (bidData: resources.BidData) => bidData.dataId === BidDataValue.TOTAL_PRICE);
+        expect(+totalPriceBidData.dataValue).toBe(+(listingItem.PaymentInformation.ItemPrice.basePrice + expectedShippingPrice).toFixed(8));
 
         const createdListingItemModel = await listingItemService.findOneByHash(result.ListingItem.hash);
         listingItem = createdListingItemModel.toJSON();
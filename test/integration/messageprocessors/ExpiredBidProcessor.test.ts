@@ -0,0 +1,287 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as _ from 'lodash';
+import * as resources from 'resources';
+import { app } from '../../../src/app';
+import { Logger as LoggerType } from '../../../src/core/Logger';
+import { Types, Core, Targets } from '../../../src/constants';
+import { TestUtil } from '../lib/TestUtil';
+import { TestDataService } from '../../../src/api/services/TestDataService';
+import { ProfileService } from '../../../src/api/services/ProfileService';
+import { MarketService } from '../../../src/api/services/MarketService';
+import { BidService } from '../../../src/api/services/BidService';
+import { BidActionService } from '../../../src/api/services/BidActionService';
+import { OrderService } from '../../../src/api/services/OrderService';
+import { LockedOutputService } from '../../../src/api/services/LockedOutputService';
+import { CoreRpcService, UnspentOutput } from '../../../src/api/services/CoreRpcService';
+import { OrderFactory } from '../../../src/api/factories/OrderFactory';
+import { ExpiredBidProcessor } from '../../../src/api/messageprocessors/ExpiredBidProcessor';
+import { TestDataGenerateRequest } from '../../../src/api/requests/TestDataGenerateRequest';
+import { BidUpdateRequest } from '../../../src/api/requests/BidUpdateRequest';
+import { BidDataCreateRequest } from '../../../src/api/requests/BidDataCreateRequest';
+import { LockedOutputCreateRequest } from '../../../src/api/requests/LockedOutputCreateRequest';
+import { GenerateProfileParams } from '../../../src/api/requests/params/GenerateProfileParams';
+import { GenerateListingItemTemplateParams } from '../../../src/api/requests/params/GenerateListingItemTemplateParams';
+import { GenerateBidParams } from '../../../src/api/requests/params/GenerateBidParams';
+import { CreatableModel } from '../../../src/api/enums/CreatableModel';
+import { BidMessageType } from '../../../src/api/enums/BidMessageType';
+import { BidDataValue } from '../../../src/api/enums/BidDataValue';
+import { OrderStatus } from '../../../src/api/enums/OrderStatus';
+import { SmsgMessageStatus } from '../../../src/api/enums/SmsgMessageStatus';
+import { MarketplaceMessage } from '../../../src/api/messages/MarketplaceMessage';
+import { MarketplaceEvent } from '../../../src/api/messages/MarketplaceEvent';
+import { IncomingSmsgMessage } from '../../../src/api/messages/IncomingSmsgMessage';
+
+describe('ExpiredBidProcessor', () => {
+
+    jasmine.DEFAULT_TIMEOUT_INTERVAL = process.env.JASMINE_TIMEOUT;
+
+    const log: LoggerType = new LoggerType(__filename);
+    const testUtil = new TestUtil();
+
+    let testDataService: TestDataService;
+    let profileService: ProfileService;
+    let marketService: MarketService;
+    let bidService: BidService;
+    let bidActionService: BidActionService;
+    let orderService: OrderService;
+    let lockedOutputService: LockedOutputService;
+    let coreRpcService: CoreRpcService;
+    let orderFactory: OrderFactory;
+    let expiredBidProcessor: ExpiredBidProcessor;
+
+    let defaultProfile: resources.Profile;
+    let sellerProfile: resources.Profile;
+    let defaultMarket: resources.Market;
+
+    // our own Bid waiting for the seller, and an Order we're selling waiting for the escrow
+    let bid: resources.Bid;
+    let bidOutput: UnspentOutput;
+    let order: resources.Order;
+    let orderOutput: UnspentOutput;
+
+    const originalBidExpiration = process.env.BID_EXPIRATION;
+    const originalOrderExpiration = process.env.ORDER_EXPIRATION;
+
+    /**
+     * locks the output for the Bid like sending or accepting the Bid does, the output is also stored in the BidDatas
+     */
+    const lockOutputForBid = async (lockedBid: resources.Bid, output: UnspentOutput, dataId: BidDataValue): Promise<resources.Bid> => {
+        const updatedBid: resources.Bid = await bidService.update(lockedBid.id, {
+            listing_item_id: lockedBid.ListingItem.id,
+            action: lockedBid.action,
+            bidder: lockedBid.bidder,
+            bidDatas: [{
+                dataId: dataId.toString(),
+                dataValue: [{ txid: output.txid, vout: output.vout, amount: output.amount }]
+            }] as BidDataCreateRequest[]
+        } as BidUpdateRequest).then(value => value.toJSON());
+
+        const lockedOutputs = await lockedOutputService.createLockedOutputs([{
+            txid: output.txid,
+            vout: output.vout,
+            amount: output.amount,
+            address: output.address,
+            scriptPubKey: output.scriptPubKey
+        } as LockedOutputCreateRequest], updatedBid.id);
+        expect(await lockedOutputService.lockOutputs(lockedOutputs)).toBeTruthy();
+        return updatedBid;
+    };
+
+    const expectOutputReleased = async (output: UnspentOutput): Promise<void> => {
+        const lockedOutput = await lockedOutputService.findOneByTxId(output.txid);
+        expect(lockedOutput).toBeNull();
+
+        const lockedUnspents = await coreRpcService.listLockUnspent();
+        expect(_.find(lockedUnspents, { txid: output.txid, vout: output.vout })).not.toBeDefined();
+    };
+
+    const generateBid = async (listingItem: resources.ListingItem, action: BidMessageType): Promise<resources.Bid> => {
+        const bidParams = new GenerateBidParams([
+            false,                      // generateListingItemTemplate
+            false,                      // generateListingItem
+            listingItem.hash,           // listingItemhash
+            action,                     // action
+            defaultProfile.address,     // bidder
+            sellerProfile.address       // listingItemSeller
+        ]).toParamsArray();
+
+        const bids: resources.Bid[] = await testDataService.generate({
+            model: CreatableModel.BID,
+            amount: 1,
+            withRelated: true,
+            generateParams: bidParams
+        } as TestDataGenerateRequest);
+        return await bidService.findOne(bids[0].id).then(value => value.toJSON());
+    };
+
+    beforeAll(async () => {
+        await testUtil.bootstrapAppContainer(app);  // bootstrap the app
+
+        testDataService = app.IoC.getNamed<TestDataService>(Types.Service, Targets.Service.TestDataService);
+        profileService = app.IoC.getNamed<ProfileService>(Types.Service, Targets.Service.ProfileService);
+        marketService = app.IoC.getNamed<MarketService>(Types.Service, Targets.Service.MarketService);
+        bidService = app.IoC.getNamed<BidService>(Types.Service, Targets.Service.BidService);
+        bidActionService = app.IoC.getNamed<BidActionService>(Types.Service, Targets.Service.BidActionService);
+        orderService = app.IoC.getNamed<OrderService>(Types.Service, Targets.Service.OrderService);
+        lockedOutputService = app.IoC.getNamed<LockedOutputService>(Types.Service, Targets.Service.LockedOutputService);
+        coreRpcService = app.IoC.getNamed<CoreRpcService>(Types.Service, Targets.Service.CoreRpcService);
+        orderFactory = app.IoC.getNamed<OrderFactory>(Types.Factory, Targets.Factory.OrderFactory);
+        expiredBidProcessor = app.IoC.getNamed<ExpiredBidProcessor>(Types.MessageProcessor, Targets.MessageProcessor.ExpiredBidProcessor);
+
+        // clean up the db, first removes all data and then seeds the db with default data
+        await testDataService.clean();
+
+        defaultProfile = await profileService.getDefault().then(value => value.toJSON());
+        defaultMarket = await marketService.getDefault().then(value => value.toJSON());
+
+        // the expirations come from the environment
+        expect(defaultMarket.bidExpiration).toBeFalsy();
+        expect(defaultMarket.orderExpiration).toBeFalsy();
+
+        const sellerProfileParams = new GenerateProfileParams([true, false]).toParamsArray();
+        const profiles = await testDataService.generate({
+            model: CreatableModel.PROFILE,
+            amount: 1,
+            withRelated: true,
+            generateParams: sellerProfileParams
+        } as TestDataGenerateRequest);
+        sellerProfile = profiles[0];
+
+        const templateGenerateParams = new GenerateListingItemTemplateParams([
+            true,   // generateItemInformation
+            true,   // generateItemLocation
+            true,   // generateShippingDestinations
+            false,  // generateItemImages
+            true,   // generatePaymentInformation
+            true,   // generateEscrow
+            true,   // generateItemPrice
+            true,   // generateMessagingInformation
+            false,  // generateListingItemObjects
+            false,  // generateObjectDatas
+            sellerProfile.id, // profileId
+            true,   // generateListingItem
+            defaultMarket.id  // marketId
+        ]).toParamsArray();
+
+        const listingItemTemplates: resources.ListingItemTemplate[] = await testDataService.generate({
+            model: CreatableModel.LISTINGITEMTEMPLATE,
+            amount: 2,
+            withRelated: true,
+            generateParams: templateGenerateParams
+        } as TestDataGenerateRequest);
+
+        // outputs from different transactions, the LockedOutputs are found by txid
+        const unspentOutputs: UnspentOutput[] = _.uniqBy(await coreRpcService.listUnspent(1), 'txid');
+        expect(unspentOutputs.length).toBeGreaterThanOrEqual(2);
+        bidOutput = unspentOutputs[0];
+        orderOutput = unspentOutputs[1];
+
+        bid = await generateBid(listingItemTemplates[0].ListingItems[0], BidMessageType.MPA_BID);
+        bid = await lockOutputForBid(bid, bidOutput, BidDataValue.BUYER_OUTPUTS);
+
+        // the ListingItem has a ListingItemTemplate, so we're the seller of the Order
+        let acceptedBid = await generateBid(listingItemTemplates[1].ListingItems[0], BidMessageType.MPA_ACCEPT);
+        acceptedBid = await lockOutputForBid(acceptedBid, orderOutput, BidDataValue.SELLER_OUTPUTS);
+        const orderCreateRequest = await orderFactory.getModelFromBids([acceptedBid]);
+        order = await orderService.create(orderCreateRequest).then(value => value.toJSON());
+        expect(order.OrderItems[0].status).toBe(OrderStatus.AWAITING_ESCROW);
+    });
+
+    afterAll(async () => {
+        process.env.BID_EXPIRATION = originalBidExpiration;
+        process.env.ORDER_EXPIRATION = originalOrderExpiration;
+    });
+
+    test('Should not expire the Bid or the Order before they have expired', async () => {
+        process.env.BID_EXPIRATION = '24';
+        process.env.ORDER_EXPIRATION = '24';
+
+        await expiredBidProcessor.process();
+
+        const notExpiredBid: resources.Bid = await bidService.findOne(bid.id).then(value => value.toJSON());
+        expect(notExpiredBid.action).toBe(BidMessageType.MPA_BID);
+
+        const notExpiredOrder: resources.Order = await orderService.findOne(order.id).then(value => value.toJSON());
+        expect(notExpiredOrder.OrderItems[0].status).toBe(OrderStatus.AWAITING_ESCROW);
+
+        expect(await lockedOutputService.findOneByTxId(bidOutput.txid)).not.toBeNull();
+        expect(await lockedOutputService.findOneByTxId(orderOutput.txid)).not.toBeNull();
+    });
+
+    test('Should cancel the expired Bid and release its locked outputs', async () => {
+        process.env.BID_EXPIRATION = '0';
+
+        await bidActionService.expireBids();
+
+        const expiredBid: resources.Bid = await bidService.findOne(bid.id).then(value => value.toJSON());
+        expect(expiredBid.action).toBe(BidMessageType.MPA_CANCEL);
+        await expectOutputReleased(bidOutput);
+
+        // the accepted Bid of the Order is not expired with the Bids
+        const notExpiredOrder: resources.Order = await orderService.findOne(order.id).then(value => value.toJSON());
+        expect(notExpiredOrder.OrderItems[0].status).toBe(OrderStatus.AWAITING_ESCROW);
+    });
+
+    test('Should ignore the MPA_CANCEL of the buyer sent before the Order has expired', async () => {
+        process.env.ORDER_EXPIRATION = '24';
+
+        const marketplaceMessage: MarketplaceMessage = {
+            version: '0300',
+            mpaction: {
+                action: BidMessageType.MPA_CANCEL,
+                item: order.OrderItems[0].itemHash
+            }
+        };
+
+        const smsgMessage: IncomingSmsgMessage = {
+            msgid: 'TESTMESSAGE' + new Date().getTime(),
+            version: '0300',
+            location: 'inbox',
+            read: false,
+            paid: false,
+            payloadsize: 100,
+            received: new Date().getTime(),
+            sent: new Date().getTime(),
+            expiration: new Date().getTime(),
+            daysretention: 4,
+            from: order.buyer,
+            to: order.seller,
+            text: JSON.stringify(marketplaceMessage)
+        };
+
+        const processingResult = await bidActionService.processCancelBidReceivedEvent({
+            smsgMessage,
+            marketplaceMessage
+        } as MarketplaceEvent);
+        expect(processingResult).toBe(SmsgMessageStatus.IGNORED);
+
+        const notExpiredOrder: resources.Order = await orderService.findOne(order.id).then(value => value.toJSON());
+        expect(notExpiredOrder.OrderItems[0].status).toBe(OrderStatus.AWAITING_ESCROW);
+        expect(await lockedOutputService.findOneByTxId(orderOutput.txid)).not.toBeNull();
+    });
+
+    test('Should expire the Order waiting for the escrow and release its locked outputs', async () => {
+        process.env.ORDER_EXPIRATION = '0';
+
+        await bidActionService.expireOrders();
+
+        const expiredOrder: resources.Order = await orderService.findOne(order.id).then(value => value.toJSON());
+        expect(expiredOrder.OrderItems[0].status).toBe(OrderStatus.EXPIRED);
+
+        const cancelledBid: resources.Bid = await bidService.findOne(expiredOrder.OrderItems[0].Bid.id).then(value => value.toJSON());
+        expect(cancelledBid.action).toBe(BidMessageType.MPA_CANCEL);
+        await expectOutputReleased(orderOutput);
+    });
+
+    test('Should not expire the expired Order again', async () => {
+        await expiredBidProcessor.process();
+
+        const expiredOrder: resources.Order = await orderService.findOne(order.id).then(value => value.toJSON());
+        expect(expiredOrder.OrderItems[0].status).toBe(OrderStatus.EXPIRED);
+    });
+
+});
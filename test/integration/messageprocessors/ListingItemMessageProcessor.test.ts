@@ -22,6 +22,7 @@ import { ListingItemService } from '../../../src/api/services/ListingItemService
 import { ListingItemTemplateService } from '../../../src/api/services/ListingItemTemplateService';
 import { IncomingSmsgMessage } from '../../../src/api/messages/IncomingSmsgMessage';
 import { SmsgMessageStatus } from '../../../src/api/enums/SmsgMessageStatus';
+import { MessageException } from '../../../src/api/exceptions/MessageException';
 
 
 describe('ListingItemMessage', () => {
@@ -289,6 +290,43 @@ describe('ListingItemMessage', () => {
         expect(listingItem.ListingItemTemplate.hash).toBe(listingItem.hash);
     });
 
+    test('Should fail to process ListingItemMessage not signed by the sender', async () => {
+
+        // the message is signed by the default profile
+        const listingItemMessage: ListingItemMessage = await listingItemFactory.getMessage(listingItemTemplates[1]);
+
+        const marketplaceMessage = {
+            version: process.env.MARKETPLACE_VERSION,
+            item: listingItemMessage,
+            market: defaultMarket.address
+        } as MarketplaceMessage;
+
+        // ...but sent from some other address
+        const listingItemSmsg = {
+            msgid: 'TESTMESSAGE' + new Date().getTime(),
+            version: '0300',
+            location: 'inbox',
+            read: false,
+            paid: false,
+            payloadsize: 100,
+            received: new Date().getTime(),
+            sent: new Date().getTime(),
+            expiration: new Date().getTime(),
+            daysretention: 4,
+            from: defaultMarket.address,
+            to: defaultMarket.address,
+            text: JSON.stringify(marketplaceMessage)
+        } as IncomingSmsgMessage;
+
+        expect.assertions(1);
+        await listingItemActionService.processListingItemReceivedEvent({
+            smsgMessage: listingItemSmsg,
+            marketplaceMessage
+        }).catch(reason => {
+            expect(reason).toEqual(new MessageException('Received signature failed validation.'));
+        });
+    });
+
 
     // todo: test with different types of data
 
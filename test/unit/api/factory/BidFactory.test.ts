@@ -245,6 +245,101 @@ describe('BidFactory', () => {
 
     });
 
+    test('Should convert the BidMessage, action: MPA_COUNTER to BidCreateRequest overriding the price', async () => {
+
+        const bidMessage = {
+            action: BidMessageType.MPA_COUNTER,
+            item: 'f08f3d6e',
+            objects: [
+                {id: BidDataValue.COUNTER_BASE_PRICE, value: 8},
+                {id: BidDataValue.COUNTER_SHIPPING_PRICE, value: 1},
+                {id: BidDataValue.TOTAL_PRICE, value: 9}
+            ]
+        } as BidMessage;
+
+        const listingItemId = 1;
+        const latestBid = {
+            action: BidMessageType.MPA_BID,
+            BidDatas: [
+                {dataId: BidDataValue.SHIPPING_ADDRESS_COUNTRY, dataValue: 'FI'},
+                {dataId: BidDataValue.TOTAL_PRICE, dataValue: 12}
+            ]
+        };
+
+        // latestBid.action: BidMessageType.MPA_BID
+        // bidMessage.action: BidMessageType.MPA_COUNTER
+        // -> the seller can counter the bid
+        const bidCreateRequest = await bidFactory.getModel(bidMessage, listingItemId, bidderAddress, latestBid);
+        expect(bidCreateRequest.action).toBe(BidMessageType.MPA_COUNTER);
+        expect(bidCreateRequest.bidDatas.length).toBe(4);
+        expect(bidCreateRequest.bidDatas).toContainEqual({dataId: BidDataValue.SHIPPING_ADDRESS_COUNTRY, dataValue: 'FI'});
+        expect(bidCreateRequest.bidDatas).toContainEqual({dataId: BidDataValue.TOTAL_PRICE, dataValue: 9});
+    });
+
+    test('Should convert BidMessages answering the latestBid with action: MPA_COUNTER', async () => {
+
+        const bidMessage = {
+            action: BidMessageType.MPA_COUNTER,
+            item: 'f08f3d6e'
+        } as BidMessage;
+
+        const listingItemId = 1;
+        const latestBid = {
+            action: BidMessageType.MPA_COUNTER
+        };
+
+        // latestBid.action: BidMessageType.MPA_COUNTER
+        // -> the counter offer can be countered again, accepted, rejected or cancelled
+        for (const action of [BidMessageType.MPA_COUNTER, BidMessageType.MPA_ACCEPT, BidMessageType.MPA_REJECT, BidMessageType.MPA_CANCEL]) {
+            bidMessage.action = action;
+            const bidCreateRequest = await bidFactory.getModel(bidMessage, listingItemId, bidderAddress, latestBid);
+            expect(bidCreateRequest.action).toBe(action);
+        }
+    });
+
+    test('Should fail converting BidMessage to BidCreateRequest, latestBid has action: MPA_COUNTER', async () => {
+
+        expect.assertions(1);
+
+        const bidMessage = {
+            action: BidMessageType.MPA_BID,
+            item: 'f08f3d6e'
+        } as BidMessage;
+
+        const listingItemId = 1;
+        const latestBid = {
+            action: BidMessageType.MPA_COUNTER
+        };
+
+        // latestBid.action: BidMessageType.MPA_COUNTER
+        // bidMessage.action: BidMessageType.MPA_BID
+        // -> the bid is being negotiated, cannot bid again
+        await bidFactory.getModel(bidMessage, listingItemId, bidderAddress, latestBid).catch(e =>
+            expect(e).toEqual(new MessageException('Invalid BidMessageType.'))
+        );
+    });
+
+    test('Should fail converting BidMessage, action: MPA_COUNTER to BidCreateRequest, latestBid has action: MPA_ACCEPT', async () => {
+
+        expect.assertions(1);
+
+        const bidMessage = {
+            action: BidMessageType.MPA_COUNTER,
+            item: 'f08f3d6e'
+        } as BidMessage;
+
+        const listingItemId = 1;
+        const latestBid = {
+            action: BidMessageType.MPA_ACCEPT
+        };
+
+        // latestBid.action: BidMessageType.MPA_ACCEPT
+        // bidMessage.action: BidMessageType.MPA_COUNTER
+        // -> latestBid was allready accepted, cannot counter
+        await bidFactory.getModel(bidMessage, listingItemId, bidderAddress, latestBid).catch(e =>
+            expect(e).toEqual(new MessageException('Invalid BidMessageType.'))
+        );
+    });
 
 });
 
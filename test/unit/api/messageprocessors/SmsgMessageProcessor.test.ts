@@ -0,0 +1,132 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { SmsgMessageProcessor } from '../../../../src/api/messageprocessors/SmsgMessageProcessor';
+import { LogMock } from '../../lib/LogMock';
+import { FakeSmsgPublisher } from '../../lib/FakeSmsgPublisher';
+
+describe('SmsgMessageProcessor', () => {
+
+    let smsgMessageProcessor: SmsgMessageProcessor;
+    let publisher: FakeSmsgPublisher;
+
+    let inbox: any[];
+    let stored: string[];
+    let inboxCalls: number;
+    let batches: number;
+
+    const addToInbox = (amount: number) => {
+        for (let i = 0; i < amount; i++) {
+            inbox.push({ msgid: 'msgid' + (inbox.length + stored.length) });
+        }
+    };
+
+    const smsgServiceMock = {
+        smsgInbox: async () => {
+            inboxCalls++;
+            return {
+                result: '' + inbox.length,
+                messages: inbox.slice()
+            };
+        },
+        smsg: async (msgid: string, remove: boolean) => {
+            if (remove) {
+                inbox = inbox.filter(msg => msg.msgid !== msgid);
+            }
+            return { msgid };
+        }
+    };
+
+    const smsgMessageFactoryMock = {
+        get: async (msg: any) => ({ msgid: msg.msgid })
+    };
+
+    const smsgMessageServiceMock = {
+        createAll: async (createRequests: any[]) => {
+            batches++;
+            const ids = createRequests.map(createRequest => createRequest.msgid);
+            stored = stored.concat(ids);
+            return ids;
+        }
+    };
+
+    beforeEach(() => {
+        inbox = [];
+        stored = [];
+        inboxCalls = 0;
+        batches = 0;
+        publisher = new FakeSmsgPublisher();
+        smsgMessageProcessor = new SmsgMessageProcessor(smsgMessageFactoryMock as any, smsgMessageServiceMock as any,
+            smsgServiceMock as any, LogMock, {} as any);
+    });
+
+    afterEach(() => {
+        smsgMessageProcessor.stop();
+    });
+
+    test('Should subscribe to the notification source on start', async () => {
+        await smsgMessageProcessor.start(publisher);
+        expect(publisher.started).toBeTruthy();
+
+        smsgMessageProcessor.stop();
+        expect(publisher.started).toBeFalsy();
+    });
+
+    test('Should fetch the messages waiting in the inbox on start', async () => {
+        addToInbox(3);
+        await smsgMessageProcessor.start(publisher);
+        expect(stored).toHaveLength(3);
+        expect(inbox).toHaveLength(0);
+    });
+
+    test('Should fetch the new message when notified', async () => {
+        await smsgMessageProcessor.start(publisher);
+        addToInbox(1);
+        await publisher.publish(inbox[0].msgid);
+        expect(stored).toEqual(['msgid0']);
+        expect(inbox).toHaveLength(0);
+    });
+
+    test('Should drain the whole backlog in batches fetching the inbox only once', async () => {
+        await smsgMessageProcessor.start(publisher);
+        inboxCalls = 0;
+        batches = 0;
+        addToInbox(25);
+        await publisher.publish();
+        expect(stored).toHaveLength(25);
+        expect(inbox).toHaveLength(0);
+        expect(batches).toBe(3);
+        // the second fetch finds the inbox empty
+        expect(inboxCalls).toBe(2);
+    });
+
+    test('Should continue draining when notified during a drain', async () => {
+        await smsgMessageProcessor.start(publisher);
+        addToInbox(5);
+
+        // the second notification arrives while the first one is still being handled
+        const first = publisher.publish();
+        addToInbox(5);
+        const second = publisher.publish();
+        await Promise.all([first, second]);
+
+        expect(stored).toHaveLength(10);
+        expect(inbox).toHaveLength(0);
+    });
+
+    test('Should keep working without notifications when the notification source is not available', async () => {
+        publisher = new FakeSmsgPublisher(false);
+        await smsgMessageProcessor.start(publisher);
+        expect(publisher.started).toBeFalsy();
+
+        addToInbox(2);
+        await publisher.publish();
+        expect(stored).toHaveLength(0);
+
+        await smsgMessageProcessor.drain();
+        expect(stored).toHaveLength(2);
+    });
+
+});
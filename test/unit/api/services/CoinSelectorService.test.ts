@@ -0,0 +1,143 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { CoinSelectorService } from '../../../../src/api/services/CoinSelectorService';
+import { MessageException } from '../../../../src/api/exceptions/MessageException';
+import { LogMock } from '../../lib/LogMock';
+
+describe('CoinSelectorService', () => {
+
+    let coinSelectorService: CoinSelectorService;
+
+    let unspent: any[];
+    let locked: any[];
+    let estimate: any;
+
+    const coreRpcServiceMock = {
+        listUnspent: async () => unspent,
+        estimateSmartFee: async () => estimate
+    };
+    const lockedOutputServiceMock = {
+        findAll: async () => ({ toJSON: () => locked })
+    };
+
+    const utxo = (txid: string, amount: number, options: any = {}) => ({
+        txid, vout: 0, amount, confirmations: 6, spendable: true, solvable: true, safe: true, ...options
+    });
+
+    // with feerate 0.001/kB: input fee 0.000148, change output fee 0.000034, base fee 0.000044
+    // so an output of 1.000192 pays exactly for 1 and the fees without change
+    const exactAmount = 1.000192;
+
+    beforeEach(() => {
+        unspent = [];
+        locked = [];
+        estimate = { feerate: 0.001, blocks: 6 };
+        coinSelectorService = new CoinSelectorService(coreRpcServiceMock as any, lockedOutputServiceMock as any, LogMock);
+    });
+
+    test('Should select the output matching the required amount and fee without change', async () => {
+        unspent = [utxo('large', 5), utxo('exact', exactAmount), utxo('small', 0.3)];
+
+        const result = await coinSelectorService.selectOutputs(1);
+        expect(result.outputs).toEqual([{ txid: 'exact', vout: 0, amount: exactAmount }]);
+        expect(result.outputsSum).toBe(exactAmount);
+        expect(result.outputsChangeAmount).toBe(0);
+    });
+
+    test('Should select a combination of outputs without change', async () => {
+        // effective values 0.6 + 0.400044
+        unspent = [utxo('large', 3), utxo('a', 0.600148), utxo('small', 0.2), utxo('b', 0.400192)];
+
+        const result = await coinSelectorService.selectOutputs(1);
+        expect(result.outputs.map(output => output.txid)).toEqual(['a', 'b']);
+        expect(result.outputsSum).toBe(1.00034);
+        expect(result.outputsChangeAmount).toBe(0);
+    });
+
+    test('Should select the smallest output covering the required amount with change', async () => {
+        unspent = [utxo('larger', 5), utxo('large', 3)];
+
+        const result = await coinSelectorService.selectOutputs(1);
+        expect(result.outputs).toEqual([{ txid: 'large', vout: 0, amount: 3 }]);
+        expect(result.outputsSum).toBe(3);
+        // 3 - 1 - fees for one input, the change output and the base
+        expect(result.outputsChangeAmount).toBe(1.999774);
+    });
+
+    test('Should select several smaller outputs with change when no single output is large enough', async () => {
+        unspent = [utxo('a', 0.5), utxo('b', 0.4), utxo('c', 0.3), utxo('d', 0.01)];
+
+        const result = await coinSelectorService.selectOutputs(1);
+        expect(result.outputs.map(output => output.txid)).toEqual(['a', 'b', 'c']);
+        expect(result.outputsSum).toBe(1.2);
+        expect(result.outputsChangeAmount).toBe(0.199478);
+    });
+
+    test('Should leave change below the dust threshold to the fee', async () => {
+        process.env.COIN_SELECTION_DUST_THRESHOLD = '0.001';
+        coinSelectorService = new CoinSelectorService(coreRpcServiceMock as any, lockedOutputServiceMock as any, LogMock);
+        delete process.env.COIN_SELECTION_DUST_THRESHOLD;
+
+        // 0.0005 over the exact amount, too much to be left to the fee without trying change first
+        unspent = [utxo('a', exactAmount + 0.0005)];
+
+        const result = await coinSelectorService.selectOutputs(1);
+        expect(result.outputs.map(output => output.txid)).toEqual(['a']);
+        expect(result.outputsChangeAmount).toBe(0);
+    });
+
+    test('Should not select locked, unconfirmed or unsafe outputs', async () => {
+        unspent = [
+            utxo('locked', exactAmount),
+            utxo('unconfirmed', exactAmount, { confirmations: 0 }),
+            utxo('unsafe', exactAmount, { safe: false }),
+            utxo('unspendable', exactAmount, { spendable: false }),
+            utxo('available', 2)
+        ];
+        locked = [{ txid: 'locked', vout: 0 }];
+
+        const result = await coinSelectorService.selectOutputs(1);
+        expect(result.outputs.map(output => output.txid)).toEqual(['available']);
+    });
+
+    test('Should use the fallback fee rate when the fee can not be estimated', async () => {
+        estimate = { errors: ['Insufficient data or no feerate found'], blocks: 0 };
+        // feerate 0.0002/kB: input fee 0.0000296, base fee 0.0000088
+        unspent = [utxo('large', 5), utxo('exact', 1.0000384)];
+
+        const result = await coinSelectorService.selectOutputs(1);
+        expect(result.outputs.map(output => output.txid)).toEqual(['exact']);
+        expect(result.outputsChangeAmount).toBe(0);
+    });
+
+    test('Should select the same outputs regardless of the order of the unspent outputs', async () => {
+        unspent = [utxo('b', 0.6), utxo('c', 0.6), utxo('a', 0.6)];
+        const result = await coinSelectorService.selectOutputs(1);
+
+        unspent = [utxo('c', 0.6), utxo('a', 0.6), utxo('b', 0.6)];
+        const reversedResult = await coinSelectorService.selectOutputs(1);
+
+        expect(result.outputs.map(output => output.txid)).toEqual(['a', 'b']);
+        expect(reversedResult).toEqual(result);
+    });
+
+    test('Should fail to select outputs because of not enough funds', async () => {
+        expect.assertions(1);
+        unspent = [utxo('a', 0.5), utxo('b', 0.5), utxo('locked', 1)];
+        locked = [{ txid: 'locked', vout: 0 }];
+
+        await coinSelectorService.selectOutputs(1).catch(e =>
+            expect(e).toEqual(new MessageException('Not enough funds'))
+        );
+    });
+
+    test('Should estimate the escrow fee of the other party the same way as for the selected outputs', async () => {
+        expect(await coinSelectorService.estimateEscrowFee(1, false)).toBe(0.000192);
+        // two inputs, the base and the change output
+        expect(await coinSelectorService.estimateEscrowFee(2, true)).toBe(0.000374);
+    });
+
+});
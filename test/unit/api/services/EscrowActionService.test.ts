@@ -0,0 +1,86 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { EscrowActionService } from '../../../../src/api/services/EscrowActionService';
+import { EscrowMessageType } from '../../../../src/api/enums/EscrowMessageType';
+import { EscrowType } from '../../../../src/api/enums/EscrowType';
+import { BidDataValue } from '../../../../src/api/enums/BidDataValue';
+import { LogMock } from '../../lib/LogMock';
+
+describe('EscrowActionService', () => {
+
+    let escrowActionService: EscrowActionService;
+    let escrowOutputLookups: number;
+
+    const buyer = 'buyer-address';
+    const seller = 'seller-address';
+    const arbiter = 'arbiter-address';
+
+    const coreRpcServiceMock = {
+        getAddressInfo: async (address: string) => ({ address, ismine: true }),
+        addMultiSigAddress: async () => {
+            escrowOutputLookups++;
+            return { address: 'escrow-address' };
+        }
+    };
+    const eventEmitterMock = {
+        on: () => undefined
+    };
+
+    const dispute = (sender: string, releaseAddress: string) => ({
+        action: EscrowMessageType.MPA_DISPUTE,
+        MessageData: { from: sender, to: arbiter },
+        MessageEscrow: { rawtx: 'rawtx' },
+        MessageObjects: [
+            { dataId: BidDataValue.BUYER_ADDRESS, dataValue: buyer },
+            { dataId: BidDataValue.BUYER_PUBKEY, dataValue: 'buyer-pubkey' },
+            { dataId: BidDataValue.SELLER_PUBKEY, dataValue: 'seller-pubkey' },
+            { dataId: BidDataValue.ESCROW_RATIO, dataValue: JSON.stringify({ buyer: 100, seller: 100 }) },
+            { dataId: sender === buyer ? BidDataValue.BUYER_RELEASE_ADDRESS : BidDataValue.SELLER_RELEASE_ADDRESS, dataValue: releaseAddress }
+        ]
+    });
+
+    const listingItem = (disputes: any[]) => ({
+        hash: 'listing-item-hash',
+        seller,
+        PaymentInformation: {
+            Escrow: {
+                type: EscrowType.ARBITRATED,
+                arbiterAddress: arbiter,
+                arbiterPubkey: 'arbiter-pubkey',
+                Ratio: { buyer: 100, seller: 100 }
+            }
+        },
+        ActionMessages: disputes
+    });
+
+    beforeEach(() => {
+        escrowOutputLookups = 0;
+        const deps: any[] = Array(18).fill({});
+        deps[7] = coreRpcServiceMock;       // CoreRpcService
+        deps[16] = eventEmitterMock;        // EventEmitter
+        deps[17] = LogMock;
+        escrowActionService = new (EscrowActionService as any)(...deps);
+    });
+
+    test('Should not release to the seller if only the buyer has disputed', async () => {
+        const item = listingItem([dispute(buyer, 'release-address-chosen-by-the-buyer')]);
+        await escrowActionService.arbitrate(item as any, buyer, EscrowMessageType.MPA_RELEASE, 'memo').catch(reason => {
+            expect(reason.message).toBe('The seller has not disputed, the release address of the seller is unknown.');
+        });
+        expect(escrowOutputLookups).toBe(0);
+        expect.assertions(2);
+    });
+
+    test('Should not refund the buyer if only the seller has disputed', async () => {
+        const item = listingItem([dispute(seller, 'release-address-chosen-by-the-seller')]);
+        await escrowActionService.arbitrate(item as any, buyer, EscrowMessageType.MPA_REFUND, 'memo').catch(reason => {
+            expect(reason.message).toBe('The buyer has not disputed, the release address of the buyer is unknown.');
+        });
+        expect(escrowOutputLookups).toBe(0);
+        expect.assertions(2);
+    });
+
+});
@@ -0,0 +1,137 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { EscrowVerifierService } from '../../../../src/api/services/EscrowVerifierService';
+import { InvalidEscrowTransactionException } from '../../../../src/api/exceptions/InvalidEscrowTransactionException';
+import { BidDataValue } from '../../../../src/api/enums/BidDataValue';
+import { LogMock } from '../../lib/LogMock';
+
+describe('EscrowVerifierService', () => {
+
+    let escrowVerifierService: EscrowVerifierService;
+
+    // decoded transactions by rawtx, unspent outputs by txid:vout
+    let transactions: any;
+    let unspent: any;
+
+    const coreRpcServiceMock = {
+        decodeRawTransaction: async (rawtx: string) => transactions[rawtx],
+        getRawTransaction: async (txid: string, verbose: boolean) => transactions[txid],
+        getTxOut: async (txid: string, vout: number) => unspent[txid + ':' + vout] || null
+    };
+
+    const vout = (address: string, value: number, n: number) => ({ value, n, scriptPubKey: { addresses: [address] } });
+
+    const escrowOutput = { txid: 'locktxid', vout: 0, value: 30 };
+    const payoutTxOut = { buyerAddress: 10, sellerAddress: 19.9999 };
+
+    const orderItem = {
+        OrderItemObjects: [
+            { dataId: BidDataValue.BUYER_OUTPUTS, dataValue: JSON.stringify([{ txid: 'buyertxid', vout: 1, amount: 25 }]) },
+            { dataId: BidDataValue.SELLER_OUTPUTS, dataValue: JSON.stringify([{ txid: 'sellertxid', vout: 0, amount: 15 }]) },
+            { dataId: BidDataValue.BUYER_CHANGE_ADDRESS, dataValue: 'buyerChangeAddress' },
+            { dataId: BidDataValue.BUYER_CHANGE_AMOUNT, dataValue: '4.9999' }
+        ]
+    } as resources.OrderItem;
+
+    const expectRejected = async (promise: Promise<any>, reason: string) => {
+        expect.assertions(1);
+        await promise.catch(e => {
+            expect(e).toEqual(new InvalidEscrowTransactionException(reason));
+        });
+    };
+
+    beforeEach(() => {
+        transactions = {
+            lockrawtx: {
+                vin: [{ txid: 'buyertxid', vout: 1 }, { txid: 'sellertxid', vout: 0 }],
+                vout: [vout('escrowAddress', 30, 0), vout('buyerChangeAddress', 4.9999, 1), vout('sellerChangeAddress', 4.9999, 2)]
+            },
+            payoutrawtx: {
+                vin: [{ txid: 'locktxid', vout: 0 }],
+                vout: [vout('buyerAddress', 10, 0), vout('sellerAddress', 19.9999, 1)]
+            }
+        };
+        unspent = {
+            'buyertxid:1': { value: 25 },
+            'sellertxid:0': { value: 15 }
+        };
+        escrowVerifierService = new EscrowVerifierService(coreRpcServiceMock as any, LogMock);
+    });
+
+    test('Should verify a valid lock transaction', async () => {
+        const tx = await escrowVerifierService.verifyLockTx('lockrawtx', orderItem, 'escrowAddress', 30);
+        expect(tx).toBe(transactions.lockrawtx);
+    });
+
+    test('Should reject a lock transaction spending other inputs', async () => {
+        transactions.lockrawtx.vin[1] = { txid: 'othertxid', vout: 0 };
+        await expectRejected(escrowVerifierService.verifyLockTx('lockrawtx', orderItem, 'escrowAddress', 30),
+            'inputs are not the outputs selected for the escrow.');
+    });
+
+    test('Should reject a lock transaction with the wrong escrow amount', async () => {
+        await expectRejected(escrowVerifierService.verifyLockTx('lockrawtx', orderItem, 'escrowAddress', 31),
+            'expected 31 to the escrow address escrowAddress.');
+    });
+
+    test('Should reject a lock transaction with the wrong buyer change', async () => {
+        transactions.lockrawtx.vout[1] = vout('buyerChangeAddress', 3, 1);
+        await expectRejected(escrowVerifierService.verifyLockTx('lockrawtx', orderItem, 'escrowAddress', 30),
+            'expected 4.9999 change to the buyer address buyerChangeAddress.');
+    });
+
+    test('Should reject a lock transaction spending a spent output', async () => {
+        delete unspent['sellertxid:0'];
+        await expectRejected(escrowVerifierService.verifyLockTx('lockrawtx', orderItem, 'escrowAddress', 30),
+            'input sellertxid:0 is spent or unknown.');
+    });
+
+    test('Should reject a lock transaction paying too much fee', async () => {
+        transactions.lockrawtx.vout[2] = vout('sellerChangeAddress', 1, 2);
+        await expectRejected(escrowVerifierService.verifyLockTx('lockrawtx', orderItem, 'escrowAddress', 30),
+            'fee 4.0001 is not within 0 and 0.01.');
+    });
+
+    test('Should verify a valid payout transaction', async () => {
+        const tx = await escrowVerifierService.verifyPayoutTx('payoutrawtx', escrowOutput, payoutTxOut);
+        expect(tx).toBe(transactions.payoutrawtx);
+    });
+
+    test('Should reject a payout transaction not spending the escrow output', async () => {
+        transactions.payoutrawtx.vin[0] = { txid: 'locktxid', vout: 1 };
+        await expectRejected(escrowVerifierService.verifyPayoutTx('payoutrawtx', escrowOutput, payoutTxOut),
+            'input locktxid:1 is not the escrow output locktxid:0.');
+    });
+
+    test('Should reject a payout transaction paying the wrong address', async () => {
+        transactions.payoutrawtx.vout[0] = vout('otherAddress', 10, 0);
+        await expectRejected(escrowVerifierService.verifyPayoutTx('payoutrawtx', escrowOutput, payoutTxOut),
+            'unexpected output 10 to otherAddress.');
+    });
+
+    test('Should reject a payout transaction paying too much fee', async () => {
+        transactions.payoutrawtx.vout[1] = vout('sellerAddress', 19, 1);
+        await expectRejected(escrowVerifierService.verifyPayoutTx('payoutrawtx', escrowOutput, { buyerAddress: 10, sellerAddress: 19 }),
+            'fee 1 is not within 0 and 0.01.');
+    });
+
+    test('Should verify the broadcasted transaction matches the signed one', async () => {
+        transactions.txid = transactions.payoutrawtx;
+        const tx = await escrowVerifierService.verifyBroadcastTx('txid', 'payoutrawtx');
+        expect(tx).toBe(transactions.payoutrawtx);
+    });
+
+    test('Should reject a broadcasted transaction with different outputs', async () => {
+        transactions.txid = {
+            vin: [{ txid: 'locktxid', vout: 0 }],
+            vout: [vout('buyerAddress', 29.9999, 0)]
+        };
+        await expectRejected(escrowVerifierService.verifyBroadcastTx('txid', 'payoutrawtx'),
+            'outputs of txid do not match the signed transaction.');
+    });
+
+});
@@ -0,0 +1,132 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as _ from 'lodash';
+import { LockedOutputService } from '../../../../src/api/services/LockedOutputService';
+import { LockedOutputStatus } from '../../../../src/api/enums/LockedOutputStatus';
+import { BidMessageType } from '../../../../src/api/enums/BidMessageType';
+import { OrderStatus } from '../../../../src/api/enums/OrderStatus';
+import { LogMock } from '../../lib/LogMock';
+
+describe('LockedOutputService', () => {
+
+    let lockedOutputService: LockedOutputService;
+
+    let lockedOutputs: any[];
+    let walletLocked: any[];
+    let unspent: string[];
+    let lockCalls: any[];
+    let destroyed: number[];
+
+    const coreRpcServiceMock = {
+        listLockUnspent: async () => walletLocked,
+        getTxOut: async (txid: string, vout: number) => _.includes(unspent, txid) ? { value: 1 } : null,
+        lockUnspent: async (unlock: boolean, outputs: any[]) => {
+            lockCalls.push({ unlock, outputs: outputs.map(output => output.txid) });
+            return true;
+        }
+    };
+    const lockedOutputRepoMock = {
+        findAll: async () => ({ toJSON: () => lockedOutputs }),
+        findOne: async (id: number) => {
+            const lockedOutput = _.find(lockedOutputs, { id });
+            return { toJSON: () => lockedOutput };
+        },
+        destroy: async (id: number) => {
+            destroyed.push(id);
+        }
+    };
+
+    const lockedOutput = (id: number, txid: string, bid: any) => ({
+        id, txid, vout: 0, amount: 1, bid_id: bid.id, Bid: bid
+    });
+
+    const openBid = { id: 1, action: BidMessageType.MPA_BID, OrderItem: {} };
+
+    beforeEach(() => {
+        lockedOutputs = [];
+        walletLocked = [];
+        unspent = [];
+        lockCalls = [];
+        destroyed = [];
+        lockedOutputService = new LockedOutputService(coreRpcServiceMock as any, lockedOutputRepoMock as any, LogMock);
+    });
+
+    test('Should keep the outputs of open bids which are locked in the wallet', async () => {
+        lockedOutputs = [lockedOutput(1, 'locked', openBid)];
+        walletLocked = [{ txid: 'locked', vout: 0 }];
+        unspent = ['locked'];
+
+        const result = await lockedOutputService.reconcile();
+        expect(result.length).toBe(1);
+        expect(result[0].status).toBe(LockedOutputStatus.LOCKED);
+        expect(result[0].walletLocked).toBe(true);
+        expect(result[0].reconciled).toBe(false);
+        expect(lockCalls).toEqual([]);
+        expect(destroyed).toEqual([]);
+    });
+
+    test('Should lock the outputs of open bids again when the wallet has lost the lock', async () => {
+        lockedOutputs = [lockedOutput(1, 'notlocked', openBid)];
+        unspent = ['notlocked'];
+
+        const result = await lockedOutputService.reconcile();
+        expect(result[0].status).toBe(LockedOutputStatus.NOT_LOCKED);
+        expect(result[0].reconciled).toBe(true);
+        expect(lockCalls).toEqual([{ unlock: false, outputs: ['notlocked'] }]);
+        expect(destroyed).toEqual([]);
+    });
+
+    test('Should unlock and remove the spent outputs', async () => {
+        lockedOutputs = [lockedOutput(1, 'spent', openBid)];
+        walletLocked = [{ txid: 'spent', vout: 0 }];
+
+        const result = await lockedOutputService.reconcile();
+        expect(result[0].status).toBe(LockedOutputStatus.SPENT);
+        expect(result[0].reconciled).toBe(true);
+        expect(lockCalls).toEqual([{ unlock: true, outputs: ['spent'] }]);
+        expect(destroyed).toEqual([1]);
+    });
+
+    test('Should release the outputs of cancelled, rejected and completed bids', async () => {
+        lockedOutputs = [
+            lockedOutput(1, 'cancelled', { id: 1, action: BidMessageType.MPA_CANCEL }),
+            lockedOutput(2, 'rejected', { id: 2, action: BidMessageType.MPA_REJECT }),
+            lockedOutput(3, 'completed', { id: 3, action: BidMessageType.MPA_ACCEPT, OrderItem: { status: OrderStatus.COMPLETE } }),
+            lockedOutput(4, 'escrow', { id: 4, action: BidMessageType.MPA_ACCEPT, OrderItem: { status: OrderStatus.AWAITING_ESCROW } })
+        ];
+        walletLocked = [{ txid: 'cancelled', vout: 0 }, { txid: 'escrow', vout: 0 }];
+        unspent = ['cancelled', 'rejected', 'completed', 'escrow'];
+
+        const result = await lockedOutputService.reconcile();
+        expect(result.map(output => output.status)).toEqual([
+            LockedOutputStatus.BID_CLOSED, LockedOutputStatus.BID_CLOSED, LockedOutputStatus.BID_CLOSED, LockedOutputStatus.LOCKED
+        ]);
+        // only the ones the wallet had locked are unlocked
+        expect(lockCalls).toEqual([{ unlock: true, outputs: ['cancelled'] }]);
+        expect(destroyed).toEqual([1, 2, 3]);
+    });
+
+    test('Should release the outputs of bids which no longer exist', async () => {
+        lockedOutputs = [lockedOutput(1, 'nobid', {})];
+        unspent = ['nobid'];
+
+        const result = await lockedOutputService.reconcile();
+        expect(result[0].status).toBe(LockedOutputStatus.BID_NOT_FOUND);
+        expect(destroyed).toEqual([1]);
+    });
+
+    test('Should only report the status of the outputs on dry run', async () => {
+        lockedOutputs = [lockedOutput(1, 'notlocked', openBid), lockedOutput(2, 'spent', openBid)];
+        unspent = ['notlocked'];
+
+        const result = await lockedOutputService.reconcile(true);
+        expect(result.map(output => output.status)).toEqual([LockedOutputStatus.NOT_LOCKED, LockedOutputStatus.SPENT]);
+        expect(result.map(output => output.reconciled)).toEqual([false, false]);
+        expect(lockCalls).toEqual([]);
+        expect(destroyed).toEqual([]);
+    });
+
+});
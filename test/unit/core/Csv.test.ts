@@ -0,0 +1,41 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import { Csv } from '../../../src/core/helpers/Csv';
+
+describe('Csv', () => {
+
+    test('Should parse the rows and fields', () => {
+        const result = Csv.parse('a,b,c\n1,2,3\r\n4,,6');
+        expect(result).toEqual([['a', 'b', 'c'], ['1', '2', '3'], ['4', '', '6']]);
+    });
+
+    test('Should parse quoted fields with commas, line breaks and escaped quotes', () => {
+        const result = Csv.parse('title,description\n"Book, used","The ""best""\nbook"\n');
+        expect(result).toEqual([['title', 'description'], ['Book, used', 'The "best"\nbook']]);
+    });
+
+    test('Should skip the empty lines and the byte order mark', () => {
+        const result = Csv.parse('﻿a,b\n\n1,2\n\n');
+        expect(result).toEqual([['a', 'b'], ['1', '2']]);
+    });
+
+    test('Should fail to parse an unterminated quoted field', () => {
+        expect(() => Csv.parse('a,b\n"1,2')).toThrow('Unterminated quoted field.');
+    });
+
+    test('Should parse objects keyed by the header row leaving out the empty fields', () => {
+        const result = Csv.parseObjects('title, basePrice ,images\nBook,1.5,\n Pen ,0.1,pen.jpg;pen2.jpg');
+        expect(result).toEqual([
+            { title: 'Book', basePrice: '1.5' },
+            { title: 'Pen', basePrice: '0.1', images: 'pen.jpg;pen2.jpg' }
+        ]);
+    });
+
+    test('Should parse no objects from an empty input', () => {
+        expect(Csv.parseObjects('')).toEqual([]);
+    });
+
+});
@@ -0,0 +1,70 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { EscrowAmounts } from '../../../src/core/helpers/EscrowAmounts';
+
+describe('EscrowAmounts', () => {
+
+    const defaultRatio = { buyer: 100, seller: 100 } as resources.EscrowRatio;
+    const customRatio = { buyer: 50, seller: 20 } as resources.EscrowRatio;
+    const noDepositRatio = { buyer: 0, seller: 0 } as resources.EscrowRatio;
+
+    test('Should calculate the required amounts using the default ratio', () => {
+        expect(EscrowAmounts.getBuyerRequiredAmount(10, defaultRatio)).toBe(20);
+        expect(EscrowAmounts.getSellerRequiredAmount(10, defaultRatio)).toBe(10);
+        expect(EscrowAmounts.getEscrowAmount(10, defaultRatio)).toBe(30);
+    });
+
+    test('Should calculate the required amounts using a custom ratio', () => {
+        expect(EscrowAmounts.getBuyerRequiredAmount(10, customRatio)).toBe(15);
+        expect(EscrowAmounts.getSellerRequiredAmount(10, customRatio)).toBe(2);
+        expect(EscrowAmounts.getEscrowAmount(10, customRatio)).toBe(17);
+    });
+
+    test('Should calculate the required amounts without deposits', () => {
+        expect(EscrowAmounts.getBuyerRequiredAmount(10, noDepositRatio)).toBe(10);
+        expect(EscrowAmounts.getSellerRequiredAmount(10, noDepositRatio)).toBe(0);
+        expect(EscrowAmounts.getEscrowAmount(10, noDepositRatio)).toBe(10);
+    });
+
+    test('Should divide the escrow on release', () => {
+        expect(EscrowAmounts.getReleasePayout(30, defaultRatio)).toEqual({ buyer: 10, seller: 20 });
+        expect(EscrowAmounts.getReleasePayout(17, customRatio)).toEqual({ buyer: 5, seller: 12 });
+        expect(EscrowAmounts.getReleasePayout(10, noDepositRatio)).toEqual({ buyer: 0, seller: 10 });
+    });
+
+    test('Should divide the escrow on refund', () => {
+        expect(EscrowAmounts.getRefundPayout(30, defaultRatio)).toEqual({ buyer: 20, seller: 10 });
+        expect(EscrowAmounts.getRefundPayout(17, customRatio)).toEqual({ buyer: 15, seller: 2 });
+        expect(EscrowAmounts.getRefundPayout(10, noDepositRatio)).toEqual({ buyer: 10, seller: 0 });
+    });
+
+    test('Should not lose or create satoshis when dividing the escrow', () => {
+        const escrowValue = 0.29990001;
+        const release = EscrowAmounts.getReleasePayout(escrowValue, customRatio);
+        const refund = EscrowAmounts.getRefundPayout(escrowValue, customRatio);
+        expect(+(release.buyer + release.seller).toFixed(8)).toBe(escrowValue);
+        expect(+(refund.buyer + refund.seller).toFixed(8)).toBe(escrowValue);
+    });
+
+    test('Should combine the amounts of several items sharing an escrow', () => {
+        const combined = EscrowAmounts.combine([
+            { totalPrice: 10, ratio: defaultRatio },
+            { totalPrice: 10, ratio: customRatio },
+            { totalPrice: 5, ratio: noDepositRatio }
+        ]);
+        expect(combined.totalPrice).toBe(25);
+        expect(EscrowAmounts.getBuyerRequiredAmount(combined.totalPrice, combined.ratio)).toBe(20 + 15 + 5);
+        expect(EscrowAmounts.getSellerRequiredAmount(combined.totalPrice, combined.ratio)).toBe(10 + 2);
+        expect(EscrowAmounts.getEscrowAmount(combined.totalPrice, combined.ratio)).toBe(30 + 17 + 5);
+    });
+
+    test('Should not change the amounts of a single item', () => {
+        const item = { totalPrice: 0.1, ratio: customRatio };
+        expect(EscrowAmounts.combine([item])).toBe(item);
+    });
+
+});
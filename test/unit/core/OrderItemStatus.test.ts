@@ -0,0 +1,38 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import * from 'jest';
+import * as resources from 'resources';
+import { OrderItemStatus } from '../../../src/core/helpers/OrderItemStatus';
+import { BidDataValue } from '../../../src/api/enums/BidDataValue';
+import { OrderStatus } from '../../../src/api/enums/OrderStatus';
+import { BidMessageType } from '../../../src/api/enums/BidMessageType';
+
+describe('OrderItemStatus', () => {
+
+    const orderItemObjects = [
+        { dataId: BidDataValue.RAW_TX, dataValue: 'rawtx' },
+        { dataId: BidDataValue.SHIPMENT_CARRIER, dataValue: 'DHL' },
+        { dataId: BidDataValue.SHIPMENT_TRACKING_NUMBER, dataValue: 'JD014600006281230841' },
+        { dataId: BidDataValue.SHIPMENT_SHIPPING_DATE, dataValue: '1548979200000' }
+    ] as resources.OrderItemObject[];
+
+    test('Should not have shipment details before the seller has sent them', () => {
+        const orderItemStatus = new OrderItemStatus('hash', BidMessageType.MPA_ACCEPT, OrderStatus.ESCROW_LOCKED, 'buyer', 'seller', [],
+            orderItemObjects.slice(0, 1));
+        expect(orderItemStatus.shipment).toBeUndefined();
+    });
+
+    test('Should get the shipment details from the OrderItemObjects', () => {
+        const orderItemStatus = new OrderItemStatus('hash', BidMessageType.MPA_ACCEPT, OrderStatus.SHIPPING, 'buyer', 'seller', [],
+            orderItemObjects);
+        expect(orderItemStatus.shipment).toEqual({
+            carrier: 'DHL',
+            trackingNumber: 'JD014600006281230841',
+            shippingDate: 1548979200000,
+            expectedDelivery: undefined
+        });
+    });
+
+});
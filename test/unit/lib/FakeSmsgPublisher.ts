@@ -0,0 +1,42 @@
+// Copyright (c) 2017-2019, The Particl Market developers
+// Distributed under the GPL software license, see the accompanying
+// file COPYING or https://github.com/particl/particl-market/blob/develop/LICENSE
+
+import { SmsgNotificationListener, SmsgNotificationSource } from '../../../src/api/messageprocessors/notifications/SmsgNotificationSource';
+
+/**
+ * local replacement for particld's zmq smsg publisher
+ */
+export class FakeSmsgPublisher implements SmsgNotificationSource {
+
+    public name = 'fake';
+    public started = false;
+
+    private listener?: SmsgNotificationListener;
+
+    constructor(private available: boolean = true) {
+    }
+
+    public async start(listener: SmsgNotificationListener): Promise<boolean> {
+        if (!this.available) {
+            return false;
+        }
+        this.listener = listener;
+        this.started = true;
+        return true;
+    }
+
+    public stop(): void {
+        this.listener = undefined;
+        this.started = false;
+    }
+
+    /**
+     * resolves once the listener has handled the notification
+     */
+    public async publish(msgid?: string): Promise<void> {
+        if (this.listener) {
+            await this.listener(msgid);
+        }
+    }
+}